@@ -12,6 +12,11 @@ const LazyPerformanceDashboard = lazy(() => import("@/components/admin/performan
 const LazyAdminDashboard = lazy(() => import("@/components/admin/admin-dashboard"));
 const LazyAnalyticsDashboard = lazy(() => import("@/components/admin/firebase-analytics-dashboard"));
 const LazySystemHealthDashboard = lazy(() => import("@/components/admin/system-health-dashboard"));
+const LazyLocationRevisions = lazy(() => import("@/components/admin/location-revisions"));
+const LazyModerationRules = lazy(() => import("@/components/admin/moderation-rules"));
+const LazyPriceIndexWidget = lazy(() =>
+  import("@/components/dashboard/analytics-widgets").then((module) => ({ default: module.PriceIndexWidget }))
+);
 
 // Loading components
 import { ComponentLoader } from "@/components/ui/loading-spinner";
@@ -37,7 +42,7 @@ import {
   Cpu,
   HardDrive
 } from "lucide-react";
-import { CpuChipIcon, MagnifyingGlassIcon, Cog6ToothIcon, MapPinIcon, GlobeAltIcon, PlayIcon } from "@heroicons/react/24/outline";
+import { AdjustmentsHorizontalIcon, CpuChipIcon, MagnifyingGlassIcon, Cog6ToothIcon, MapPinIcon, GlobeAltIcon, PlayIcon } from "@heroicons/react/24/outline";
 
 export default function AdminPage() {
   return (
@@ -164,6 +169,8 @@ function AdminPageContent() {
     { id: "users", label: "User Management", icon: UsersIcon },
     { id: "discovery", label: "Discovery", icon: CpuChipIcon },
     { id: "enrichment", label: "Enrichment", icon: ShieldCheckIcon },
+    { id: "history", label: "Location History", icon: ClockIcon },
+    { id: "rules", label: "Moderation Rules", icon: AdjustmentsHorizontalIcon },
     { id: "system", label: "System Health", icon: Cog6ToothIcon }
   ];
 
@@ -476,6 +483,10 @@ function AdminPageContent() {
               <Suspense fallback={<ComponentLoader message="Loading analytics dashboard..." />}>
                 <LazyAnalyticsDashboard />
               </Suspense>
+
+              <Suspense fallback={<ComponentLoader message="Loading price index..." />}>
+                <LazyPriceIndexWidget />
+              </Suspense>
             </div>
           )
         )}
@@ -564,6 +575,20 @@ function AdminPageContent() {
           )
         )}
 
+        {/* Location History Tab */}
+        {activeTab === "history" && (
+          <Suspense fallback={<ComponentLoader message="Loading location history..." />}>
+            <LazyLocationRevisions />
+          </Suspense>
+        )}
+
+        {/* Moderation Rules Tab */}
+        {activeTab === "rules" && (
+          <Suspense fallback={<ComponentLoader message="Loading moderation rules..." />}>
+            <LazyModerationRules />
+          </Suspense>
+        )}
+
         {/* System Health Tab */}
         {activeTab === "system" && (
           loading ? (
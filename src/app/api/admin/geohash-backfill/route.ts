@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * Backfill geohash and nameTokens fields for locations written before
+ * geospatial indexing and entity resolution.
+ * Safe to re-run: locations with up-to-date fields are left untouched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ error: roleCheck.error }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+
+    const result = await adminFirebaseOperations.backfillIndexFields({ dryRun });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, dryRun },
+      message: dryRun
+        ? `${result.updated} of ${result.scanned} locations need index fields`
+        : `Updated ${result.updated} of ${result.scanned} locations (${result.skipped} without usable coordinates)`,
+    });
+  } catch (error) {
+    console.error("Geohash backfill error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to backfill index fields" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { logAnalyticsEvent } from "@/lib/utils";
+
+/**
+ * A location (any status) with its revision timeline, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { locationId } = await params;
+    const location = await adminFirebaseOperations.getLocationById(locationId);
+    if (!location) {
+      return NextResponse.json({ success: false, error: "Location not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 200);
+    const revisions = await adminFirebaseOperations.getLocationRevisions(locationId, limit);
+
+    return NextResponse.json({ success: true, data: { location, revisions } });
+  } catch (error) {
+    console.error("Failed to fetch location revisions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch location revisions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Roll the location back to `revisionId`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { locationId } = await params;
+    const { revisionId } = await request.json();
+    if (!revisionId || typeof revisionId !== "string") {
+      return NextResponse.json(
+        { success: false, error: "revisionId is required" },
+        { status: 400 }
+      );
+    }
+
+    const moderator = authResult.user!.email || authResult.user!.id;
+    const result = await adminFirebaseOperations.rollbackLocation(locationId, revisionId, moderator);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    try {
+      await logAnalyticsEvent("mod_rollback", locationId, {
+        revisionId,
+        moderator,
+        restoredFields: result.data.restoredFields,
+      });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Restored ${result.data.restoredFields.length} field${result.data.restoredFields.length === 1 ? "" : "s"}`,
+    });
+  } catch (error) {
+    console.error("❌ Rollback error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to roll back location",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
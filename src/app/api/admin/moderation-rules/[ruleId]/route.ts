@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { ModerationRuleUpdateSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Edit, enable or disable a rule
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = ModerationRuleUpdateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid rule",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { ruleId } = await params;
+    const result = await adminFirebaseOperations.updateModerationRule(ruleId, validation.data);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, data: result.data, message: `Rule "${result.data.name}" updated` });
+  } catch (error) {
+    console.error("❌ Failed to update moderation rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update moderation rule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { ruleId } = await params;
+    const result = await adminFirebaseOperations.deleteModerationRule(ruleId);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, message: "Rule deleted" });
+  } catch (error) {
+    console.error("❌ Failed to delete moderation rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete moderation rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { ModerationRuleDryRunSchema } from "@/lib/validation/location-schemas";
+import type { ModerationRule } from "@/types/moderation-rules";
+
+/**
+ * Replay rules against the last N moderator decisions on locations without
+ * changing anything. Tests the saved rules unless `rules` is given.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = ModerationRuleDryRunSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { limit } = validation.data;
+    const now = new Date();
+    const rules: ModerationRule[] = validation.data.rules
+      ? validation.data.rules.map((rule, i) => ({
+          ...rule,
+          id: rule.id || `draft-${i + 1}`,
+          createdBy: authResult.user!.email || authResult.user!.id,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      : await adminFirebaseOperations.getModerationRules();
+
+    const { results, summary } = await adminFirebaseOperations.dryRunModerationRules(rules, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: { results, summary },
+      message: `Replayed ${summary.evaluated} decisions: ${summary.outcomes.agree} agree, ${summary.outcomes.disagree} disagree, ${summary.outcomes.routed} routed, ${summary.outcomes.no_rule} unmatched`,
+    });
+  } catch (error) {
+    console.error("Moderation rule dry run error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to dry-run moderation rules" },
+      { status: 500 }
+    );
+  }
+}
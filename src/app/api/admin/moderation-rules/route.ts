@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { ModerationRuleSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Auto-moderation rules in priority order
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const rules = await adminFirebaseOperations.getModerationRules();
+
+    return NextResponse.json({ success: true, data: rules, count: rules.length });
+  } catch (error) {
+    console.error("Failed to fetch moderation rules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch moderation rules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a rule. It applies to submissions from the next one on.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = ModerationRuleSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid rule",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rule = await adminFirebaseOperations.createModerationRule(
+      validation.data,
+      authResult.user!.email || authResult.user!.id
+    );
+
+    return NextResponse.json({ success: true, data: rule, message: `Rule "${rule.name}" created` });
+  } catch (error) {
+    console.error("❌ Failed to create moderation rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create moderation rule" },
+      { status: 500 }
+    );
+  }
+}
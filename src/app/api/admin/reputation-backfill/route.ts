@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * Build reputation ledgers from approvals, edits, helpful votes, upheld
+ * flags and duplicates that predate the ledger. Safe to re-run: events
+ * already recorded are left alone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ error: roleCheck.error }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+
+    const result = await adminFirebaseOperations.backfillReputation({ dryRun });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, dryRun },
+      message: `${dryRun ? "Would record" : "Recorded"} ${result.created} reputation events for ${result.users} contributors`,
+    });
+  } catch (error) {
+    console.error("Reputation backfill error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to backfill reputation" },
+      { status: 500 }
+    );
+  }
+}
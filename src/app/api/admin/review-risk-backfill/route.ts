@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * Score reviews written before fraud scoring existed. Safe to re-run: every
+ * review is rescored. Pass `requeue: true` to send approved high-risk
+ * reviews back to the moderation queue.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ error: roleCheck.error }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+    const requeue = body.requeue === true;
+
+    const result = await adminFirebaseOperations.backfillReviewRisk({ dryRun, requeue });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, dryRun, requeue },
+      message: `${dryRun ? "Would score" : "Scored"} ${result.scanned} reviews: ${result.levels.high} high, ${result.levels.medium} medium risk` +
+        (requeue ? ` (${result.requeued} approved reviews ${dryRun ? "would go" : "sent"} back to pending)` : ""),
+    });
+  } catch (error) {
+    console.error("Review risk backfill error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to backfill review risk" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AILocationService } from "@/lib/services/ai-service";
+import { EntityResolutionService } from "@/lib/services/entity-resolution";
 import { rateLimit } from "@/lib/auth";
 
 export async function POST(request: NextRequest) {
@@ -89,14 +90,18 @@ export async function PUT(request: NextRequest) {
     const { location, existingLocations } = await request.json();
 
     // Check for duplicates
-    const duplicateCheck = await AILocationService.detectDuplicate(
+    const duplicateCheck = EntityResolutionService.resolve(
       location,
-      existingLocations || []
+      existingLocations || [],
+      { limit: 3 }
     );
 
     return NextResponse.json({
       success: true,
-      data: duplicateCheck,
+      data: {
+        ...duplicateCheck,
+        similarLocations: duplicateCheck.matches.map((match) => match.location),
+      },
     });
   } catch (error) {
     console.error("Duplicate detection failed:", error);
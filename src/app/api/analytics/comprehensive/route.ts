@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyBearerToken } from "@/lib/auth";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { compareByRanking, rankingScore } from "@/lib/utils/ratings";
 
 export async function GET(request: NextRequest) {
   try {
@@ -216,12 +217,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Generate top locations data
+    // Generate top locations data, ranked by Bayesian average so a single
+    // 5-star review doesn't outrank a well-reviewed favourite
     const approvedLocations = allLocations.filter((l: any) => l.status === 'approved');
     const topLocations = approvedLocations
       .map((location: any) => {
         const locationReviews = allReviews.filter((r: any) => 
-          r.locationId === location.id && r.status === 'approved'
+          (r.location_id || r.locationId) === location.id && r.status === 'approved'
         );
         const avgRating = locationReviews.length > 0 
           ? locationReviews.reduce((sum: number, r: any) => sum + (r.rating || 0), 0) / locationReviews.length
@@ -234,9 +236,10 @@ export async function GET(request: NextRequest) {
           country: location.country || 'Unknown Country',
           rating: avgRating,
           reviewCount: locationReviews.length,
+          rankingScore: rankingScore({ rating: avgRating, reviewCount: locationReviews.length }),
         };
       })
-      .sort((a: any, b: any) => b.rating - a.rating)
+      .sort(compareByRanking)
       .slice(0, 10);
 
     // User behavior metrics
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { PriceIndexService } from "@/lib/services/price-index";
+
+/**
+ * The Amala Price Index: each city's monthly median plate price over the last
+ * `months` months (1-36, default 12), in local currency and in US dollars.
+ * `city` narrows the result to one city.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const months = Math.min(Math.max(parseInt(searchParams.get("months") || "12") || 12, 1), 36);
+    const city = searchParams.get("city")?.trim().toLowerCase();
+
+    const since = new Date();
+    since.setUTCDate(1);
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+    const observations = await adminFirebaseOperations.getPriceObservationsSince(since);
+    const index = PriceIndexService.cityIndex(observations)
+      .filter((entry) => !city || entry.city.toLowerCase() === city);
+
+    return NextResponse.json({
+      success: true,
+      data: index,
+      since: since.toISOString().slice(0, 10),
+    });
+  } catch (error) {
+    console.error("Error computing price index:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to compute price index" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { rateLimit } from "@/lib/auth";
 import { trackApiCall } from '@/lib/cache/memory-cache';
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { SEARCH_IMPRESSION_LIMIT } from "@/types/insights";
 
 export async function POST(request: NextRequest) {
   return trackApiCall('/api/analytics')(async () => {
@@ -13,7 +14,7 @@ export async function POST(request: NextRequest) {
       }
       
       const body = await request.json();
-      const { event_type, location_id, metadata } = body || {};
+      const { event_type, location_id, location_ids, metadata } = body || {};
       
       if (!event_type) {
         return NextResponse.json({ success: false, error: "event_type required" }, { status: 400 });
@@ -23,6 +24,10 @@ export async function POST(request: NextRequest) {
       await adminFirebaseOperations.createAnalyticsEvent({
         event_type,
         location_id,
+        // Search impressions name every listing shown, capped per search
+        location_ids: Array.isArray(location_ids)
+          ? location_ids.filter((id: unknown): id is string => typeof id === "string").slice(0, SEARCH_IMPRESSION_LIMIT)
+          : undefined,
         metadata
       });
 
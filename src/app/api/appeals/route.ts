@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { AppealSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * The signed-in user's appeals, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to view appeals" },
+        { status: 401 }
+      );
+    }
+
+    const appeals = await adminFirebaseOperations.getUserAppeals(user.uid);
+
+    return NextResponse.json({ success: true, data: appeals });
+  } catch (error) {
+    console.error("Failed to fetch appeals:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch appeals" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Appeal a rejected location or review. Each can be appealed once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to appeal" },
+        { status: 401 }
+      );
+    }
+
+    const validation = AppealSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { contentType, contentId, explanation } = validation.data;
+    const result = await adminFirebaseOperations.createAppeal(
+      { uid: user.uid, email: user.email },
+      contentType,
+      contentId,
+      explanation
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Appeal submitted. A different moderator will review it.",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create appeal:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create appeal" },
+      { status: 500 }
+    );
+  }
+}
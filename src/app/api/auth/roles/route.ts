@@ -36,7 +36,7 @@ export async function POST(request: NextRequest) {
     console.log(`🔍 [roles API] Processing request for email: ${emailLower}, uid: ${uid}`);
 
     // Try database first, fallback to environment variables
-    let roles: Array<"user" | "scout" | "mod" | "admin"> = ["user"];
+    let roles: Array<"user" | "scout" | "owner" | "mod" | "admin"> = ["user"];
 
     try {
       // First, check if user exists in database
@@ -50,14 +50,14 @@ export async function POST(request: NextRequest) {
         // New user or database unavailable - try environment fallback
         console.log(`⚠️ [roles API] User not found in database or database error, trying environment fallback`);
         const envRoles = await adminFirebaseOperations.getUserRolesWithFallback(emailLower);
-        roles = envRoles as Array<"user" | "scout" | "mod" | "admin">;
+        roles = envRoles as Array<"user" | "scout" | "owner" | "mod" | "admin">;
         console.log(`✅ [roles API] Environment fallback roles for ${emailLower}:`, roles);
       }
     } catch (error) {
       console.error('❌ [roles API] Database operation failed, using environment fallback:', error);
       // Fallback to environment variables on any database error
       const envRoles = await adminFirebaseOperations.getUserRolesWithFallback(emailLower);
-      roles = envRoles as Array<"user" | "scout" | "mod" | "admin">;
+      roles = envRoles as Array<"user" | "scout" | "owner" | "mod" | "admin">;
       console.log(`✅ [roles API] Environment fallback roles after error for ${emailLower}:`, roles);
     }
 
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * A chain and its approved branches, by name
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+    const brand = await adminFirebaseOperations.getBrand(brandId);
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: "Brand not found" },
+        { status: 404 }
+      );
+    }
+
+    const branches = await adminFirebaseOperations.getBrandBranches(brandId);
+    return NextResponse.json({ success: true, data: { brand, branches } });
+  } catch (error) {
+    console.error("Error fetching brand:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch brand" },
+      { status: 500 }
+    );
+  }
+}
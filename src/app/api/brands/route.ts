@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * Every chain, by name, with its number of approved branches
+ */
+export async function GET() {
+  try {
+    const brands = await adminFirebaseOperations.getBrands();
+    return NextResponse.json({ success: true, data: brands, count: brands.length });
+  } catch (error) {
+    console.error("Error fetching brands:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch brands" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { ClaimCallbackSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Confirm a phone callback claim with the code the moderator read out
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to confirm a claim" },
+        { status: 401 }
+      );
+    }
+
+    const validation = ClaimCallbackSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { claimId } = await params;
+    const result = await adminFirebaseOperations.verifyClaimCallback(claimId, user.uid, validation.data.code);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    const { callbackCode: _callbackCode, ...claim } = result.data;
+    return NextResponse.json({
+      success: true,
+      data: claim,
+      message: "Code confirmed. A moderator will finish reviewing your claim.",
+    });
+  } catch (error) {
+    console.error("Failed to confirm ownership claim:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to confirm code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+
+/**
+ * The signed-in user's ownership claims, newest first. Callback codes are
+ * left out; the claimant hears theirs on the phone.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to view claims" },
+        { status: 401 }
+      );
+    }
+
+    const claims = await adminFirebaseOperations.getUserOwnershipClaims(user.uid);
+
+    return NextResponse.json({
+      success: true,
+      data: claims.map(({ callbackCode: _callbackCode, ...claim }) => claim),
+    });
+  } catch (error) {
+    console.error("Failed to fetch ownership claims:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch claims" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AutonomousDiscoveryService } from "@/lib/services/autonomous-discovery";
-import { PlacesApiNewService } from "@/lib/services/places-api";
-import { BatchedPlacesApiService } from "@/lib/services/places-api-batch";
+import { DiscoveryPersistenceService } from "@/lib/services/discovery-persistence";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 import axios from "axios";
-import crypto from "crypto";
 import { rateLimit, requireRole, verifyBearerToken } from "@/lib/auth";
 
 // Analytics logging helper function using admin SDK
@@ -62,128 +60,8 @@ export async function POST(request: NextRequest) {
     );
 
     // Save discovered locations to database with 'pending' status
-    const savedLocations = [];
-    const skippedDuplicates = [];
-    const saveErrors = [];
-
-    for (const location of discoveredLocations) {
-      try {
-        // PERFORMANCE OPTIMIZATION: Use database query instead of loading all locations
-        const similarLocations = await adminFirebaseOperations.findSimilarLocations(
-          location.name || "",
-          location.address || "",
-          0.7
-        );
-        const isDuplicate = similarLocations.length > 0;
-
-        if (isDuplicate) {
-          skippedDuplicates.push(location.name);
-          // Log duplicate event (Firebase analytics would go here)
-          console.log(`Skipped duplicate: ${location.name}`);
-          continue;
-        }
-
-        // Enrich with Google Places API if possible
-        const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
-        let enrichedLocation = { ...location };
-
-        if (googleApiKey && location.address) {
-          // PERFORMANCE: Use batched API service for better caching and rate limiting
-          const placeId = await BatchedPlacesApiService.findPlaceId(location.address, googleApiKey);
-          if (placeId) {
-            const details = await BatchedPlacesApiService.getPlaceDetails(placeId, googleApiKey);
-            if (details) {
-              // Convert to AmalaLocation format using the new service
-              const convertedLocation = PlacesApiNewService.convertToAmalaLocation(details);
-              
-              // Generate images with proper photo names
-              const images = details.photos ? details.photos.map((photo: any) =>
-                `/api/proxy/google-photo?photoreference=${photo.name}&maxwidth=400&locationName=${encodeURIComponent(details.displayName.text)}&cuisine=${encodeURIComponent((details.types || []).join(','))}`
-              ) : [];
-
-              // Reviews
-              const reviews = details.reviews ? details.reviews.slice(0, 5).map((r: any) => ({
-                id: crypto.randomUUID(),
-                location_id: '', // Set after insert
-                author: r.authorAttribution?.displayName || 'Anonymous',
-                rating: r.rating || 0,
-                text: r.text?.text || r.originalText?.text || '',
-                date_posted: new Date(),
-                status: 'approved' as const,
-              })) : [];
-
-              // Hours
-              let hours = location.hours;
-              const isOpenNow = details.regularOpeningHours?.openNow ?? location.isOpenNow ?? false;
-              if (details.regularOpeningHours?.periods) {
-                hours = convertedLocation.hours || location.hours;
-              }
-
-              // Service type
-              const serviceType = convertedLocation.serviceType || location.serviceType || "both";
-
-              // Price range
-              const priceRange = convertedLocation.priceRange || location.priceRange || "$$";
-
-              // Other fields
-              const phone = details.nationalPhoneNumber || location.phone;
-              const website = details.websiteUri || location.website;
-              const description = location.description; // Places API (New) doesn't have editorial summary in basic fields
-              const coordinates = details.location ? {
-                lat: details.location.latitude,
-                lng: details.location.longitude
-              } : location.coordinates;
-              const rating = details.rating || location.rating;
-              const reviewCount = details.userRatingCount || location.reviewCount || reviews.length;
-
-              enrichedLocation = {
-                ...location,
-                images,
-                reviews,
-                hours,
-                isOpenNow,
-                serviceType,
-                priceRange,
-                phone,
-                website,
-                description,
-                coordinates,
-                rating,
-                reviewCount,
-              };
-            }
-          }
-        }
-
-        // Create location for database
-        const locationToSave = {
-          ...enrichedLocation,
-          status: "pending" as const,
-          submittedAt: new Date(),
-          description: `${enrichedLocation.description || ""} [Auto-discovered via ${
-            enrichedLocation.discoverySource
-          }]`.trim(),
-        };
-
-        const savedLocation = await adminFirebaseOperations.createLocation(locationToSave);
-        // Log saved location event (Firebase analytics would go here)
-        console.log(`Saved location: ${savedLocation.name}`);
-        savedLocations.push(savedLocation);
-        console.log(`✅ Saved location: ${savedLocation.name} (ID: ${savedLocation.id})`);
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        if (errorMsg.includes('duplicate') || errorMsg.includes('similarity')) {
-          skippedDuplicates.push(location.name);
-        } else {
-          saveErrors.push({
-            locationName: location.name || 'Unknown',
-            error: errorMsg,
-          });
-          console.error(`❌ Failed to save location "${location.name}":`, error);
-          console.error('Full error details:', JSON.stringify(error, null, 2));
-        }
-      }
-    }
+    const { savedLocations, skippedDuplicates, saveErrors } =
+      await DiscoveryPersistenceService.savePendingLocations(discoveredLocations);
 
     const summary = {
       totalDiscovered: discoveredLocations.length,
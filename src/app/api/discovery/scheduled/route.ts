@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DiscoverySchedulerService } from "@/lib/jobs/discovery-scheduler";
+import { requireRole, verifyBearerToken, verifyCronSecret } from "@/lib/auth";
+
+/**
+ * Scheduled discovery API
+ * POST runs the next batch of region cursors (cron via CRON_SECRET, or a moderator).
+ * GET returns run history and per-target cursor coverage.
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const authorization = request.headers.get("authorization") || undefined;
+    let triggeredBy: string | undefined;
+
+    const isCron = verifyCronSecret(authorization);
+    if (!isCron) {
+      const authResult = await verifyBearerToken(authorization);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+      }
+
+      const roleCheck = requireRole(authResult.user, ["mod", "admin"]);
+      if (!roleCheck.success) {
+        return NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 });
+      }
+      triggeredBy = authResult.user.email;
+    }
+
+    // Feature flag: discovery jobs
+    const enabled = (process.env.FEATURE_DISCOVERY_ENABLED || "false").toLowerCase() === "true";
+    if (!enabled) {
+      return NextResponse.json({ success: false, error: "Discovery is disabled by feature flag" }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const run = await DiscoverySchedulerService.runScheduledDiscovery({
+      trigger: isCron ? "cron" : "manual",
+      triggeredBy,
+      maxTargets: Number(body.maxTargets) || undefined,
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: "A scheduled discovery run is already in progress" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: run.status !== "failed",
+      data: run,
+      message: `Scheduled discovery searched ${run.targets.length} targets: ${run.totals.saved} new locations queued, ${run.totals.duplicatesSkipped} duplicates skipped.`,
+    }, { status: run.status === "failed" ? 500 : 200 });
+  } catch (error) {
+    console.error('Scheduled discovery error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Scheduled discovery failed",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 10, 1), 50);
+
+    const [runs, coverage, nextTargets] = await Promise.all([
+      DiscoverySchedulerService.getRunHistory(limit),
+      DiscoverySchedulerService.getCoverage(),
+      DiscoverySchedulerService.getNextTargets(3),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        runs,
+        coverage,
+        nextTargets: nextTargets.map(target => target.key),
+      },
+    });
+  } catch (error) {
+    console.error('Scheduled discovery history error:', error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch scheduled discovery history" },
+      { status: 500 }
+    );
+  }
+}
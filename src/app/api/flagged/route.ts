@@ -87,6 +87,16 @@ export async function POST(request: NextRequest) {
       }
 
       const validatedData = ModerateFlagSchema.parse(body);
+
+      // Another moderator's claim on the item takes precedence
+      const claim = await adminFirebaseOperations.checkQueueClaim(
+        "flag",
+        validatedData.flagId,
+        authResult.user!.email || authResult.user!.id
+      );
+      if (!claim.success) {
+        return NextResponse.json({ error: claim.error }, { status: claim.status });
+      }
       
       const result = await adminFirebaseOperations.moderateFlaggedContent(
         validatedData.flagId,
@@ -1,30 +1,65 @@
 import { NextRequest, NextResponse } from "next/server";
 import { BackgroundEnrichmentService } from "@/lib/jobs/background-enrichment";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
-import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { requireRole, verifyBearerToken, verifyCronSecret } from "@/lib/auth";
 
 /**
  * Background enrichment job management API
- * Allows admins to trigger and monitor enrichment jobs
+ * Allows admins to trigger and monitor enrichment jobs. The `process` and
+ * `escalate-queue` actions can also be called by a scheduler using CRON_SECRET.
  */
 
+// Actions a scheduler may run with CRON_SECRET
+const CRON_ACTIONS = ['process', 'escalate-queue'];
+
 export async function POST(request: NextRequest) {
   try {
-    // Verify admin authentication
-    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
-    }
-    
-    const roleCheck = requireRole(authResult.user, ["admin"]);
-    if (!roleCheck.success) {
-      return NextResponse.json({ success: false, error: "Admin access required" }, { status: 403 });
-    }
-
+    const authorization = request.headers.get("authorization") || undefined;
     const body = await request.json().catch(() => ({}));
-    const { action, locationIds, priority = 'medium' } = body;
+    const { action, locationIds, priority = 'medium', maxJobs = 50 } = body;
+
+    // Scheduled runs may only drain the queue and escalate moderation SLA breaches
+    const isCron = CRON_ACTIONS.includes(action) && verifyCronSecret(authorization);
+    if (!isCron) {
+      // Verify admin authentication
+      const authResult = await verifyBearerToken(authorization);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+      }
+
+      const roleCheck = requireRole(authResult.user, ["admin"]);
+      if (!roleCheck.success) {
+        return NextResponse.json({ success: false, error: "Admin access required" }, { status: 403 });
+      }
+    }
 
     switch (action) {
+      case 'process':
+        // Lease and process due jobs from the durable queue
+        const runResult = await BackgroundEnrichmentService.processQueue(
+          Math.min(Math.max(Number(maxJobs) || 50, 1), 200)
+        );
+
+        return NextResponse.json({
+          success: true,
+          message: `Processed ${runResult.processed} enrichment jobs`,
+          data: {
+            run: runResult,
+            ...(await BackgroundEnrichmentService.getQueueStats())
+          }
+        });
+
+      case 'escalate-queue': {
+        // Moderation queue items that have waited past their SLA
+        const escalated = await adminFirebaseOperations.escalateBreachedItems();
+
+        return NextResponse.json({
+          success: true,
+          message: `Escalated ${escalated} moderation queue items past their SLA`,
+          data: { escalated }
+        });
+      }
+
       case 'queue-all-unenriched':
         // Queue all locations that need enrichment
         const allLocations = await adminFirebaseOperations.getAllLocations();
@@ -33,7 +68,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           message: `Queued ${allLocations.length} locations for background enrichment`,
-          data: BackgroundEnrichmentService.getQueueStats()
+          data: await BackgroundEnrichmentService.getQueueStats()
         });
 
       case 'queue-specific':
@@ -59,7 +94,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           message: `Queued ${locationIds.length} specific locations for enrichment`,
-          data: BackgroundEnrichmentService.getQueueStats()
+          data: await BackgroundEnrichmentService.getQueueStats()
         });
 
       case 'queue-approved':
@@ -70,22 +105,22 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           message: `Queued ${approvedLocations.length} approved locations for enrichment`,
-          data: BackgroundEnrichmentService.getQueueStats()
+          data: await BackgroundEnrichmentService.getQueueStats()
         });
 
       case 'clear-queue':
         // Clear the enrichment queue
-        BackgroundEnrichmentService.clearQueue();
+        await BackgroundEnrichmentService.clearQueue();
         
         return NextResponse.json({
           success: true,
           message: "Enrichment queue cleared",
-          data: BackgroundEnrichmentService.getQueueStats()
+          data: await BackgroundEnrichmentService.getQueueStats()
         });
 
       default:
         return NextResponse.json(
-          { success: false, error: "Invalid action. Use: queue-all-unenriched, queue-specific, queue-approved, or clear-queue" },
+          { success: false, error: "Invalid action. Use: process, escalate-queue, queue-all-unenriched, queue-specific, queue-approved, or clear-queue" },
           { status: 400 }
         );
     }
@@ -116,15 +151,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Admin or moderator access required" }, { status: 403 });
     }
 
-    // Return queue statistics
-    const stats = BackgroundEnrichmentService.getQueueStats();
-    
+    // Return queue statistics from the persistent store
+    const [stats, deadLetters] = await Promise.all([
+      BackgroundEnrichmentService.getQueueStats(),
+      BackgroundEnrichmentService.getDeadLetters(10),
+    ]);
+
     return NextResponse.json({
       success: true,
       data: {
         ...stats,
+        recentDeadLetters: deadLetters.map(job => ({
+          locationId: job.payload.locationId,
+          attempts: job.attempts,
+          lastError: job.lastError,
+          deadLetteredAt: job.deadLetteredAt,
+        })),
         description: "Background enrichment queue statistics",
         availableActions: [
+          "process",
+          "escalate-queue",
           "queue-all-unenriched",
           "queue-specific", 
           "queue-approved",
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { OwnershipClaimSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Claim a listing as its owner or manager. Phone callback claims are
+ * confirmed by entering the code a moderator reads out on a call to the
+ * listed number; document claims are checked by a moderator.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to claim a listing" },
+        { status: 401 }
+      );
+    }
+    if (!user.email) {
+      return NextResponse.json(
+        { success: false, error: "Your account needs an email address to claim a listing" },
+        { status: 400 }
+      );
+    }
+
+    const validation = OwnershipClaimSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { locationId } = await params;
+    const result = await adminFirebaseOperations.createOwnershipClaim(
+      { uid: user.uid, email: user.email, name: user.name },
+      locationId,
+      validation.data
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    const { callbackCode: _callbackCode, ...claim } = result.data;
+    return NextResponse.json(
+      {
+        success: true,
+        data: claim,
+        message: claim.proofMethod === "phone_callback"
+          ? `Claim submitted. A moderator will call ${claim.callbackPhone} with a code to enter here.`
+          : "Claim submitted. A moderator will check your document.",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create ownership claim:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to submit claim" },
+      { status: 500 }
+    );
+  }
+}
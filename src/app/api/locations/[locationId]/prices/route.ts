@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { PriceIndexService } from "@/lib/services/price-index";
+import { PriceVisitSchema } from "@/lib/validation/location-schemas";
+import { convertToSmallestUnit, estimateCurrencyFromLocation } from "@/lib/currency-utils";
+
+/**
+ * A location's plate price history: every observation from approved reviews,
+ * scout visits and accepted menu edits, newest first, plus the monthly median
+ * trend in the location's main currency.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const { locationId } = await params;
+    const location = await adminFirebaseOperations.resolveLocationRedirect(locationId);
+    if (!location || location.status !== "approved") {
+      return NextResponse.json(
+        { success: false, error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    const observations = await adminFirebaseOperations.getLocationPriceObservations(location.id);
+    const trend = PriceIndexService.trend(observations);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        observations: observations.map(({ observedBy: _observedBy, ...observation }) => observation),
+        currency: trend.currency,
+        trend: trend.points,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching price history:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch price history" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Log the plate price a scout paid or saw on a visit. Scouts are trusted
+ * contributors, so visit prices are recorded without moderation.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const user = authResult.user!;
+    if (!user.roles.some((role) => role === "scout" || role === "mod" || role === "admin")) {
+      return NextResponse.json(
+        { success: false, error: "Only scouts can log visit prices" },
+        { status: 403 }
+      );
+    }
+
+    const validation = PriceVisitSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid price",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { locationId } = await params;
+    const location = await adminFirebaseOperations.resolveLocationRedirect(locationId);
+    if (!location) {
+      return NextResponse.json(
+        { success: false, error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    const visit = validation.data;
+    const currency = visit.currency || location.currency || estimateCurrencyFromLocation(location.country, location.city);
+    const result = await adminFirebaseOperations.logScoutPriceVisit(
+      location.id,
+      {
+        price: convertToSmallestUnit(visit.price, currency),
+        currency,
+        dishes: visit.dishes,
+        note: visit.note,
+        observedAt: visit.observedAt ? new Date(visit.observedAt) : new Date(),
+      },
+      user.email || user.id
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Price logged",
+    });
+  } catch (error) {
+    console.error("Error logging visit price:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to log price" },
+      { status: 500 }
+    );
+  }
+}
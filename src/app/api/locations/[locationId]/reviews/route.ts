@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { firebaseOperations } from "@/lib/firebase/database";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 
 export async function GET(
   request: NextRequest,
@@ -17,7 +18,9 @@ export async function GET(
 
     // Fetch approved reviews for this location
     try {
-      const reviews = await firebaseOperations.getReviewsByLocationId(locationId);
+      // Reviews of a merged location now live on the survivor
+      const location = await adminFirebaseOperations.resolveLocationRedirect(locationId);
+      const reviews = await firebaseOperations.getReviewsByLocationId(location?.id || locationId);
 
       // Filter for approved reviews and sort by date
       const approvedReviews = reviews
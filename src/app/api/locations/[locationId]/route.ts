@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { withComputedOpenStatus } from "@/lib/utils/hours";
+
+/**
+ * Fetch a single approved location. Ids of locations that were merged
+ * resolve to the surviving record, with `redirectedFrom` set.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const { locationId } = await params;
+
+    const location = await adminFirebaseOperations.resolveLocationRedirect(locationId);
+    if (!location || location.status !== "approved") {
+      return NextResponse.json(
+        { success: false, error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: withComputedOpenStatus(location),
+      ...(location.id !== locationId ? { redirectedFrom: locationId } : {}),
+    });
+  } catch (error) {
+    console.error("Location fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch location" },
+      { status: 500 }
+    );
+  }
+}
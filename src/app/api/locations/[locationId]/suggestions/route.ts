@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isLocationOwner, rateLimit, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { EditSuggestionSchema } from "@/lib/validation/location-schemas";
+import { logAnalyticsEvent } from "@/lib/utils";
+import { OWNER_FAST_TRACK_FIELDS, type EditableField } from "@/types/edit-suggestion";
+
+/**
+ * Propose changes to an approved location. The suggestion waits in the
+ * moderation queue; nothing on the location changes until a moderator
+ * accepts some or all of the fields. Menu changes are limited to scouts,
+ * moderators and the location's verified owners.
+ *
+ * A verified owner's changes to hours, timezone and menu are applied straight
+ * away (still recorded in the revision history); any other fields they change
+ * go to the queue as usual.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const user = authResult.user!;
+    const rl = rateLimit(`locations:suggestions:${user.id}`, 10, 60_000);
+    if (!rl.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Rate limit exceeded. Try again later." },
+        { status: 429 }
+      );
+    }
+
+    const validation = EditSuggestionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid suggestion",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { locationId } = await params;
+    const location = await adminFirebaseOperations.resolveLocationRedirect(locationId);
+    if (!location || location.status !== "approved") {
+      return NextResponse.json(
+        { success: false, error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    const isOwner = isLocationOwner(user, location);
+    const canEditMenu = isOwner || user.roles.some((role) => role === "scout" || role === "mod" || role === "admin");
+    if (validation.data.changes.menu && !canEditMenu) {
+      return NextResponse.json(
+        { success: false, error: "Only scouts and verified owners can update menus" },
+        { status: 403 }
+      );
+    }
+
+    const fastTracked: Partial<Record<EditableField, unknown>> = {};
+    const queued: Partial<Record<EditableField, unknown>> = {};
+    for (const [field, value] of Object.entries(validation.data.changes)) {
+      const target = isOwner && (OWNER_FAST_TRACK_FIELDS as readonly string[]).includes(field) ? fastTracked : queued;
+      target[field as EditableField] = value;
+    }
+
+    const submitter = { id: user.id, email: user.email || user.id };
+    const applied = Object.keys(fastTracked).length > 0
+      ? await adminFirebaseOperations.applyOwnerEdit(location, fastTracked, submitter, validation.data.note)
+      : null;
+    const suggestion = Object.keys(queued).length > 0
+      ? await adminFirebaseOperations.createEditSuggestion(location, queued, submitter, validation.data.note)
+      : null;
+    if (!applied && !suggestion) {
+      return NextResponse.json(
+        { success: false, error: "The proposed values match the current listing" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      for (const [event, recorded] of [["owner_edit_applied", applied], ["edit_suggested", suggestion]] as const) {
+        if (!recorded) continue;
+        await logAnalyticsEvent(event, location.id, {
+          suggestionId: recorded.id,
+          fields: recorded.changes.map((change) => change.field),
+        });
+      }
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: suggestion,
+        applied,
+        message: !suggestion
+          ? "Your changes are live."
+          : applied
+            ? "Your hours and menu changes are live. A moderator will review the rest."
+            : "Thanks! A moderator will review your suggestion.",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Edit suggestion error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to submit suggestion" },
+      { status: 500 }
+    );
+  }
+}
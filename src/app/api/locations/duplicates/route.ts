@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimit, verifyBearerToken } from "@/lib/auth";
+import { checkForDuplicatesWithReasons } from "@/lib/database/dedup-helper";
+
+/**
+ * Check a location for duplicates before it is submitted, so the form can
+ * show matches and let the submitter confirm it is a different place
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const rl = rateLimit(`locations:duplicates:${authResult.user!.id}`, 30, 60_000);
+    if (!rl.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Rate limit exceeded. Try again later." },
+        { status: 429 }
+      );
+    }
+
+    const { location } = await request.json();
+    if (!location?.name || !location?.address) {
+      return NextResponse.json(
+        { success: false, error: "Location name and address are required" },
+        { status: 400 }
+      );
+    }
+
+    const duplicateCheck = await checkForDuplicatesWithReasons({
+      name: location.name,
+      address: location.address,
+      coordinates: location.coordinates,
+      phone: location.phone,
+      website: location.website,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        isDuplicate: duplicateCheck.isDuplicate,
+        reason: duplicateCheck.reason,
+        confidence: duplicateCheck.confidence ?? 0,
+        matches: duplicateCheck.matches.slice(0, 3),
+      },
+    });
+  } catch (error) {
+    console.error("Duplicate check error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to check for duplicates" },
+      { status: 500 }
+    );
+  }
+}
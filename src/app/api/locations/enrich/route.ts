@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { firebaseOperations } from "@/lib/firebase/database";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 import { PlacesApiNewService } from "@/lib/services/places-api";
 import { BatchedPlacesApiService } from "@/lib/services/places-api-batch";
 import { memoryCache, CacheKeys } from "@/lib/cache/memory-cache";
@@ -127,23 +128,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Update location in database with enriched data
-    const enrichedData = {
-      rating: details.rating || undefined,
-      reviewCount: details.userRatingCount || undefined,
+    // Curated fields only change where provenance allows; the rest is ours to overwrite
+    const proposedData = {
       images: images,
-      isOpenNow: isOpenNow,
       hours: Object.keys(hours).length > 0 ? hours : undefined,
       phone: details.nationalPhoneNumber || undefined,
       website: details.websiteUri || undefined,
+    };
+    const enrichmentData = {
+      rating: details.rating || undefined,
+      reviewCount: details.userRatingCount || undefined,
+      isOpenNow: isOpenNow,
       placeId: placeId,
-      // Keep existing data and add Places API data
       enrichedAt: new Date().toISOString(),
       enrichmentSource: "google-places-api",
     };
 
     // Update the location in Firebase
     let updatedLocation = null;
+    let enrichmentOutcome = null;
     try {
       // First, delete existing Google Places API reviews for this location
       await firebaseOperations.deleteReviewsBySource(locationId, "google-places-api");
@@ -174,8 +177,11 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Update the location with enriched data
-      updatedLocation = await firebaseOperations.updateLocation(locationId, enrichedData);
+      // Update the location with enriched data (recorded as an enrichment revision)
+      enrichmentOutcome = await adminFirebaseOperations.applyEnrichment(locationId, proposedData, enrichmentData, {
+        id: "google-places-api",
+      });
+      updatedLocation = await adminFirebaseOperations.getLocationById(locationId);
 
       if (!updatedLocation) {
         console.error("❌ Database update error: Location not found");
@@ -198,7 +204,9 @@ export async function POST(request: NextRequest) {
     const enrichmentResult = {
       locationId,
       placeId,
-      enrichedData,
+      enrichedData: { ...enrichmentData, ...proposedData },
+      appliedFields: enrichmentOutcome?.appliedFields ?? [],
+      conflicts: enrichmentOutcome?.conflicts ?? 0,
       updatedLocation,
     };
     memoryCache.set(cacheKey, enrichmentResult, 7 * 24 * 60 * 60 * 1000); // 7 days
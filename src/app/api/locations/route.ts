@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { firebaseOperations } from "@/lib/firebase/database";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
-import { AmalaLocation, LocationFilter } from "@/types/location";
+import { AmalaLocation, LocationFilter, Review } from "@/types/location";
+import type { RuleDecision } from "@/types/moderation-rules";
 import { rateLimit, verifyBearerToken } from "@/lib/auth";
 import {
   LocationSubmissionSchema,
@@ -14,6 +15,44 @@ import { logAnalyticsEvent } from "@/lib/utils";
 import { BatchedPlacesApiService } from "@/lib/services/places-api-batch";
 import { withCache } from "@/lib/middleware/cache-middleware";
 import { queryBatcher } from "@/lib/database/query-batcher";
+import { matchesHoursFilter, withComputedOpenStatus } from "@/lib/utils/hours";
+import { DEFAULT_DISH_CURRENCY, matchesMenuFilter } from "@/lib/utils/menu";
+import { convertToSmallestUnit } from "@/lib/currency-utils";
+import { compareByRanking } from "@/lib/utils/ratings";
+import {
+  geohashRangesForBounds,
+  geohashRangesForRadius,
+  isPointInBounds,
+} from "@/lib/utils/geohash";
+import { LocationService } from "@/lib/services/location-service";
+import { FieldProvenanceService } from "@/lib/services/field-provenance";
+import { SearchIndex } from "@/lib/services/search-index";
+import { memoryCache } from "@/lib/cache/memory-cache";
+
+const DEFAULT_RADIUS_KM = 10;
+const REVIEW_INDEX_TTL = 10 * 60 * 1000;
+
+// Approved reviews grouped by location, so dish mentions can be searched
+async function getApprovedReviewsByLocation(): Promise<Map<string, Review[]>> {
+  const cacheKey = 'search:approved-reviews-by-location';
+  const cached = memoryCache.get<Map<string, Review[]>>(cacheKey);
+  if (cached) return cached;
+
+  const reviewsByLocation = new Map<string, Review[]>();
+  try {
+    const reviews = await adminFirebaseOperations.getReviewsByStatus('approved');
+    for (const review of reviews) {
+      const list = reviewsByLocation.get(review.location_id) || [];
+      list.push(review);
+      reviewsByLocation.set(review.location_id, list);
+    }
+  } catch (error) {
+    console.error('Failed to load reviews for search index:', error);
+  }
+
+  memoryCache.set(cacheKey, reviewsByLocation, REVIEW_INDEX_TTL);
+  return reviewsByLocation;
+}
 
 async function getLocationsHandler(request: NextRequest) {
   try {
@@ -60,12 +99,22 @@ async function getLocationsHandler(request: NextRequest) {
     const filters: LocationFilter = {
       searchQuery: validatedQuery.search,
       isOpenNow: validatedQuery.openNow,
+      openAt: validatedQuery.openAt,
+      openingSoon: validatedQuery.openingSoon,
+      closingSoon: validatedQuery.closingSoon,
       serviceType: validatedQuery.serviceType,
       priceRange: validatedQuery.priceRange,
+      dish: validatedQuery.dish,
+      maxDishPrice: validatedQuery.maxDishPrice !== undefined
+        ? convertToSmallestUnit(validatedQuery.maxDishPrice, validatedQuery.dishCurrency || DEFAULT_DISH_CURRENCY)
+        : undefined,
+      dishCurrency: validatedQuery.dishCurrency,
       cuisine: validatedQuery.cuisine,
       dietary: validatedQuery.dietary,
       features: validatedQuery.features,
       bounds: validatedQuery.bounds,
+      near: validatedQuery.near,
+      radiusKm: validatedQuery.near ? validatedQuery.radiusKm ?? DEFAULT_RADIUS_KM : undefined,
       sortBy: validatedQuery.sortBy,
     };
 
@@ -86,11 +135,29 @@ async function getLocationsHandler(request: NextRequest) {
       : null;
     
     let locations;
+    let applyInMemoryFilters = true;
     if (includeAll) {
       // PERFORMANCE: Use query batcher for paginated locations
       locations = await queryBatcher.batchRead('locations', undefined, {
         limit: actualLimit
       });
+      applyInMemoryFilters = false;
+    } else if (filters.near || filters.bounds) {
+      // GEO: read only the geohash cells covering the search area
+      const ranges = filters.near
+        ? geohashRangesForRadius(filters.near, filters.radiusKm!)
+        : geohashRangesForBounds(filters.bounds!);
+      locations = await adminFirebaseOperations.getLocationsByGeohashRanges(ranges, status || 'approved');
+
+      // Cells overhang the area, so apply the exact radius/bounds check
+      locations = locations.filter((location: AmalaLocation) => {
+        if (filters.near) {
+          const distance = LocationService.calculateDistance(filters.near, location.coordinates);
+          if (distance > filters.radiusKm! * 1000) return false;
+        }
+        if (filters.bounds && !isPointInBounds(location.coordinates, filters.bounds)) return false;
+        return true;
+      });
     } else if (status) {
       // PERFORMANCE: Use query batcher for status-based queries
       locations = await queryBatcher.batchRead('locations', undefined, {
@@ -99,6 +166,7 @@ async function getLocationsHandler(request: NextRequest) {
         value: status,
         limit: actualLimit
       });
+      applyInMemoryFilters = false;
     } else {
       // PERFORMANCE: Use batch query for approved locations with filters
       const approvedQuery = {
@@ -107,21 +175,24 @@ async function getLocationsHandler(request: NextRequest) {
         value: 'approved'
       };
       locations = await queryBatcher.batchRead('locations', undefined, approvedQuery);
-      
-      // Apply client-side filtering for complex filters (temporary until we add more indexes)
-      if (filters.searchQuery || filters.cuisine || filters.serviceType) {
-        locations = locations.filter((location: AmalaLocation) => {
-          if (filters.searchQuery) {
-            const query = filters.searchQuery.toLowerCase();
-            const matchesName = location.name.toLowerCase().includes(query);
-            const matchesAddress = location.address.toLowerCase().includes(query);
-            if (!matchesName && !matchesAddress) return false;
-          }
-          if (filters.cuisine && filters.cuisine.length > 0 && !location.cuisine.some(c => filters.cuisine!.includes(c))) return false;
-          if (filters.serviceType && location.serviceType !== filters.serviceType) return false;
-          return true;
-        });
-      }
+    }
+
+    // Apply client-side filtering for complex filters (temporary until we add more indexes)
+    if (applyInMemoryFilters && (filters.cuisine || filters.serviceType || filters.dish || filters.maxDishPrice !== undefined)) {
+      locations = locations.filter((location: AmalaLocation) => {
+        if (filters.cuisine && filters.cuisine.length > 0 && !location.cuisine.some(c => filters.cuisine!.includes(c))) return false;
+        if (filters.serviceType && location.serviceType !== filters.serviceType) return false;
+        if (!matchesMenuFilter(location, filters)) return false;
+        return true;
+      });
+    }
+
+    // Full-text search: typo tolerant, diacritic folded, ranked by relevance
+    if (applyInMemoryFilters && filters.searchQuery) {
+      const index = new SearchIndex(locations, {
+        reviewsByLocation: await getApprovedReviewsByLocation(),
+      });
+      locations = index.search(filters.searchQuery).map(hit => hit.location);
     }
 
     const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
@@ -184,20 +255,16 @@ async function getLocationsHandler(request: NextRequest) {
                 )
               : location.images || [];
 
-          // Update rating and review count
-          const rating = details.rating || location.rating;
-          const reviewCount = details.userRatingCount || location.reviewCount;
+          // Google's rating sits alongside the review-derived one, never replacing it
+          const googleRating = details.rating ?? location.googleRating;
+          const googleReviewCount = details.userRatingCount ?? location.googleReviewCount;
 
           // Parse hours
-          let hours = location.hours;
-          const isOpenNow =
-            details.regularOpeningHours?.openNow ?? location.isOpenNow ?? false;
-          if (
+          const hours =
             details.regularOpeningHours?.periods &&
             details.regularOpeningHours.periods.length > 0
-          ) {
-            hours = parseGoogleHours(details.regularOpeningHours.periods);
-          }
+              ? parseGoogleHours(details.regularOpeningHours.periods)
+              : undefined;
 
           // Infer service type
           let serviceType = location.serviceType || "both";
@@ -231,30 +298,32 @@ async function getLocationsHandler(request: NextRequest) {
                 : "$$$$";
           }
 
-          // Phone and website
-          const phone = details.nationalPhoneNumber || location.phone;
-          const website = details.websiteUri || location.website;
-          const description = location.description;
-          const coordinates = details.location
-            ? {
-                lat: details.location.latitude,
-                lng: details.location.longitude,
-              }
-            : location.coordinates;
+          // Places data only shows where provenance would let enrichment write it:
+          // empty or lower-trust fields that aren't locked. Curated values are kept.
+          const plan = FieldProvenanceService.planEnrichment(
+            location,
+            {
+              images,
+              hours,
+              serviceType,
+              priceRange,
+              phone: details.nationalPhoneNumber,
+              website: details.websiteUri,
+              coordinates: details.location
+                ? {
+                    lat: details.location.latitude,
+                    lng: details.location.longitude,
+                  }
+                : undefined,
+            },
+            { source: "enrichment", sourceId: "google-places-api" }
+          );
 
           return {
             ...location,
-            images,
-            rating,
-            reviewCount,
-            hours,
-            isOpenNow,
-            serviceType,
-            priceRange,
-            phone,
-            website,
-            description,
-            coordinates,
+            ...plan.updates,
+            googleRating,
+            googleReviewCount,
             lastEnriched: new Date(), // PERFORMANCE: Track enrichment time
             enrichmentSource: 'google-places-api'
           };
@@ -267,6 +336,36 @@ async function getLocationsHandler(request: NextRequest) {
       );
     }
 
+    // Open status is derived from hours at request time, never trusted from storage
+    const now = new Date();
+    locations = locations.map((location: AmalaLocation) => withComputedOpenStatus(location, now));
+    if (filters.isOpenNow || filters.openAt || filters.openingSoon || filters.closingSoon) {
+      locations = locations.filter((location: AmalaLocation) =>
+        matchesHoursFilter(location, {
+          isOpenNow: filters.isOpenNow || undefined,
+          openAt: filters.openAt,
+          openingSoon: filters.openingSoon,
+          closingSoon: filters.closingSoon,
+        }, now)
+      );
+    }
+
+    // Nearest first when searching around a point (search results keep relevance order)
+    if (filters.near && (filters.sortBy === "distance" || (filters.sortBy === "default" && !filters.searchQuery))) {
+      const origin = filters.near;
+      locations = locations
+        .map((location: AmalaLocation) => ({
+          ...location,
+          distanceKm: Math.round(LocationService.calculateDistance(origin, location.coordinates) / 10) / 100,
+        }))
+        .sort((a: { distanceKm: number }, b: { distanceKm: number }) => a.distanceKm - b.distanceKm);
+    }
+
+    // Best rated first, ranked by Bayesian average rather than the raw mean
+    if (filters.sortBy === "rating") {
+      locations = [...locations].sort(compareByRanking);
+    }
+
     if (includeReviews) {
       // For small sets, fetch reviews for each
       locations = await Promise.all(
@@ -309,19 +408,32 @@ export const GET = withCache(getLocationsHandler, {
       searchParams.get('limit') || '50',
       searchParams.get('includeReviews') || '',
       searchParams.get('openNow') || '',
+      searchParams.get('openAt') || '',
+      searchParams.get('openingSoon') || '',
+      searchParams.get('closingSoon') || '',
       searchParams.get('serviceType') || '',
       searchParams.get('priceRange') || '',
       searchParams.get('cuisine') || '',
-      searchParams.get('sortBy') || ''
+      searchParams.get('sortBy') || '',
+      searchParams.get('near') || '',
+      searchParams.get('radiusKm') || '',
+      searchParams.get('bounds') || '',
+      searchParams.get('dish') || '',
+      searchParams.get('maxDishPrice') || '',
+      searchParams.get('dishCurrency') || ''
     ].join(':');
     
     return `locations:${cacheParams}`;
   },
   skipCache: (req) => {
     const url = new URL(req.url);
-    // Skip cache for admin queries that need real-time data
+    // Skip cache for admin queries that need real-time data, and for
+    // open-now/soon filters, which depend on the current time
     return url.searchParams.get('includeAll') === 'true' || 
-           url.searchParams.get('status') === 'pending';
+           url.searchParams.get('status') === 'pending' ||
+           url.searchParams.get('openNow') === 'true' ||
+           url.searchParams.get('openingSoon') === 'true' ||
+           url.searchParams.get('closingSoon') === 'true';
   }
 });
 
@@ -355,7 +467,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { location } = body;
+    const { location, ignoreDuplicates } = body;
 
     // Validate and normalize the location data using Zod
     let validatedLocation: LocationSubmissionOutput;
@@ -377,26 +489,38 @@ export async function POST(request: NextRequest) {
       name: validatedLocation.name,
       address: validatedLocation.address,
       coordinates: validatedLocation.coordinates,
+      phone: validatedLocation.phone,
+      website: validatedLocation.website,
     });
 
     if (duplicateCheck.isDuplicate) {
       // Log duplicate attempt
-      await logAnalyticsEvent("duplicate_submission_attempted", undefined, {
-        name: validatedLocation.name,
-        reason: duplicateCheck.reason,
-        similarLocations: duplicateCheck.similarLocations.length,
-      });
-
-      return NextResponse.json(
+      await logAnalyticsEvent(
+        ignoreDuplicates === true ? "duplicate_warning_overridden" : "duplicate_submission_attempted",
+        undefined,
         {
-          success: false,
-          error: "Duplicate location detected",
-          details: duplicateCheck.reason,
-          similarLocations: duplicateCheck.similarLocations.slice(0, 3), // Show top 3 similar
-          moderationReasons: duplicateCheck.moderationReasons,
-        },
-        { status: 409 }
+          name: validatedLocation.name,
+          reason: duplicateCheck.reason,
+          similarLocations: duplicateCheck.similarLocations.length,
+          confidence: duplicateCheck.confidence,
+        }
       );
+
+      // The submitter has seen the warning and confirmed this is a different place
+      if (ignoreDuplicates !== true) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Duplicate location detected",
+            details: duplicateCheck.reason,
+            similarLocations: duplicateCheck.similarLocations.slice(0, 3), // Show top 3 similar
+            matches: duplicateCheck.matches.slice(0, 3),
+            confidence: duplicateCheck.confidence,
+            moderationReasons: duplicateCheck.moderationReasons,
+          },
+          { status: 409 }
+        );
+      }
     }
 
     const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
@@ -409,7 +533,7 @@ export async function POST(request: NextRequest) {
       console.warn("⚠️ Google Maps API key not found - skipping location enrichment");
     }
     
-    let enrichedLocation = { ...validatedLocation };
+    let enrichedLocation: typeof validatedLocation & Pick<AmalaLocation, "googleRating" | "googleReviewCount"> = { ...validatedLocation };
 
     if (googleApiKey && validatedLocation.address) {
       try {
@@ -439,29 +563,33 @@ export async function POST(request: NextRequest) {
             : [];
 
 
-          // Parse hours from Google
-          let hours = validatedLocation.hours;
-          if (details.regularOpeningHours?.periods) {
-            hours = parseGoogleHours(details.regularOpeningHours.periods);
-          }
+          // What the submitter entered wins; Places only fills what they left empty
+          const submittedHours = validatedLocation.hours;
+          const hasSubmittedHours =
+            !!submittedHours && Object.values(submittedHours).some((day) => day?.isOpen);
+          const hours =
+            !hasSubmittedHours && details.regularOpeningHours?.periods
+              ? parseGoogleHours(details.regularOpeningHours.periods)
+              : submittedHours;
 
           enrichedLocation = {
             ...validatedLocation,
-            coordinates: details.location
-              ? {
-                  lat: details.location.latitude,
-                  lng: details.location.longitude,
-                }
-              : validatedLocation.coordinates,
-            phone: details.nationalPhoneNumber || validatedLocation.phone,
-            website: details.websiteUri || validatedLocation.website,
-            rating: details.rating || validatedLocation.rating,
-            reviewCount:
-              details.userRatingCount || validatedLocation.reviewCount,
+            coordinates: validatedLocation.coordinates?.lat && validatedLocation.coordinates?.lng
+              ? validatedLocation.coordinates
+              : details.location
+                ? {
+                    lat: details.location.latitude,
+                    lng: details.location.longitude,
+                  }
+                : validatedLocation.coordinates,
+            phone: validatedLocation.phone || details.nationalPhoneNumber,
+            website: validatedLocation.website || details.websiteUri,
+            googleRating: details.rating,
+            googleReviewCount: details.userRatingCount,
             images: [...(validatedLocation.images || []), ...images],
             hours,
             priceRange:
-              details.priceLevel !== undefined
+              !validatedLocation.priceRange && details.priceLevel !== undefined
                 ? details.priceLevel === "PRICE_LEVEL_FREE" ||
                   details.priceLevel === "PRICE_LEVEL_INEXPENSIVE"
                   ? "$"
@@ -521,7 +649,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newLocation = await adminFirebaseOperations.createLocation(locationData);
+    const newLocation = await adminFirebaseOperations.createLocation(locationData, {
+      type: "user",
+      id: user.email,
+    });
+
+    // Admin-configured rules may approve, reject or route the submission straight away
+    let decision: RuleDecision | null = null;
+    try {
+      const facts = await adminFirebaseOperations.buildSubmissionFacts(newLocation, {
+        source: "user",
+        duplicateConfidence: duplicateCheck.confidence,
+      });
+      decision = await adminFirebaseOperations.autoModerateLocation(newLocation, facts);
+    } catch (ruleError) {
+      console.error("❌ Auto-moderation failed, leaving submission pending:", ruleError);
+    }
 
     // Log analytics with submitter tracking
     await logAnalyticsEvent("location_submitted", newLocation.id, {
@@ -530,8 +673,24 @@ export async function POST(request: NextRequest) {
       submittedBy: user.email,
       hasCoordinates: !!newLocation.coordinates,
       hasImages: (newLocation.images?.length || 0) > 0,
+      autoModeration: decision?.action.type || "none",
     });
 
+    if (decision?.action.type === "approve") {
+      return NextResponse.json({
+        success: true,
+        data: { ...newLocation, status: "approved" },
+        message: "Location published",
+      });
+    }
+    if (decision?.action.type === "reject") {
+      return NextResponse.json({
+        success: true,
+        data: { ...newLocation, status: "rejected", rejectionReason: decision.action.reasonCode },
+        message: `Location was not accepted (${decision.action.reasonCode.replace(/_/g, " ")})`,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: newLocation,
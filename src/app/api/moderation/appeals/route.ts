@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { moderatorIdentity, requireRole, verifyBearerToken } from "@/lib/auth";
+import { AppealDecisionSchema } from "@/lib/validation/location-schemas";
+import type { AppealStatus } from "@/types/appeal";
+
+const APPEAL_STATUSES: AppealStatus[] = ["pending", "upheld", "overturned"];
+
+/**
+ * Appeals against rejections, oldest pending first. Moderators can't decide
+ * appeals against their own rejections, so `moderatorId` is returned for the UI.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "pending") as AppealStatus;
+    if (!APPEAL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Status must be one of ${APPEAL_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 100);
+
+    const appeals = await adminFirebaseOperations.getAppeals(status, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: appeals,
+      count: appeals.length,
+      moderatorId: moderatorIdentity(authResult.user!),
+    });
+  } catch (error) {
+    console.error("Failed to fetch appeals:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch appeals" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Uphold or overturn the rejection an appeal is about
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = AppealDecisionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { appealId, decision, note } = validation.data;
+    const result = await adminFirebaseOperations.decideAppeal(
+      appealId,
+      decision,
+      authResult.user!,
+      note || undefined
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: decision === "overturn" ? "Rejection overturned" : "Rejection upheld",
+    });
+  } catch (error) {
+    console.error("Failed to decide appeal:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to decide appeal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+
+/**
+ * Per-moderator rejection counts and how often their rejections were
+ * overturned on appeal
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const stats = await adminFirebaseOperations.getModeratorOverturnStats();
+
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error) {
+    console.error("Failed to fetch appeal stats:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch appeal stats" },
+      { status: 500 }
+    );
+  }
+}
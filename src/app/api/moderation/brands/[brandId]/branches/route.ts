@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { BranchActionSchema } from "@/lib/validation/location-schemas";
+import { logAnalyticsEvent } from "@/lib/utils";
+
+/**
+ * Attach a location to a chain as a branch, or detach it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = BranchActionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { brandId } = await params;
+    const { locationId, action } = validation.data;
+    const result = await adminFirebaseOperations.setLocationBrand(
+      locationId,
+      brandId,
+      action,
+      authResult.user!.email || authResult.user!.id
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    try {
+      await logAnalyticsEvent(`mod_branch_${action}`, result.data.id, { brandId });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: action === "attach" ? `${result.data.name} attached` : `${result.data.name} detached`,
+    });
+  } catch (error) {
+    console.error("Failed to update branch:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update branch" },
+      { status: 500 }
+    );
+  }
+}
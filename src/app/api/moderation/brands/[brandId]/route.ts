@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { BrandUpdateSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Edit a chain's name or the defaults its branches share
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = BrandUpdateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid brand",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { brandId } = await params;
+    const result = await adminFirebaseOperations.updateBrand(brandId, validation.data);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, data: result.data, message: `Brand "${result.data.name}" updated` });
+  } catch (error) {
+    console.error("Failed to update brand:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update brand" },
+      { status: 500 }
+    );
+  }
+}
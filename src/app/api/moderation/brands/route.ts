@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { BrandSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Create a chain. Branches are attached to it separately.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = BrandSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid brand",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const brand = await adminFirebaseOperations.createBrand(
+      validation.data,
+      authResult.user!.email || authResult.user!.id
+    );
+
+    return NextResponse.json(
+      { success: true, data: brand, message: `Brand "${brand.name}" created` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create brand:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create brand" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { ClaimDecisionSchema } from "@/lib/validation/location-schemas";
+import type { ClaimStatus } from "@/types/claim";
+
+const CLAIM_STATUSES: ClaimStatus[] = ["pending", "approved", "rejected"];
+
+/**
+ * Ownership claims, oldest pending first. Phone callback claims include the
+ * number and code for the moderator to call with.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "pending") as ClaimStatus;
+    if (!CLAIM_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Status must be one of ${CLAIM_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 100);
+
+    const claims = await adminFirebaseOperations.getOwnershipClaims(status, limit);
+
+    return NextResponse.json({ success: true, data: claims, count: claims.length });
+  } catch (error) {
+    console.error("Failed to fetch ownership claims:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch claims" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Approve or reject an ownership claim. Approving makes the claimant an
+ * owner of the listing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = ClaimDecisionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { claimId, decision, note } = validation.data;
+    const result = await adminFirebaseOperations.decideOwnershipClaim(
+      claimId,
+      decision,
+      authResult.user!.email || authResult.user!.id,
+      note || undefined
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: decision === "approve" ? "Claim approved" : "Claim rejected",
+    });
+  } catch (error) {
+    console.error("Failed to decide ownership claim:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to decide claim" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { FieldConflictResolutionSchema } from "@/lib/validation/location-schemas";
+import { logAnalyticsEvent } from "@/lib/utils";
+import type { FieldConflictStatus } from "@/types/provenance";
+
+const CONFLICT_STATUSES: FieldConflictStatus[] = ["pending", "accepted", "dismissed"];
+
+/**
+ * Field conflicts by status (pending by default): enrichment values that
+ * disagree with curated or locked data
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "pending") as FieldConflictStatus;
+    if (!CONFLICT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${CONFLICT_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const conflicts = await adminFirebaseOperations.getFieldConflicts(status, limit);
+
+    return NextResponse.json({ success: true, data: conflicts });
+  } catch (error) {
+    console.error("Failed to fetch field conflicts:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch field conflicts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Resolve a conflict: `accept` writes the proposed value, `dismiss` keeps the
+ * current one. `lock` also protects the field from future enrichment.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = FieldConflictResolutionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { conflictId, decision, lock } = validation.data;
+    const moderator = authResult.user!.email || authResult.user!.id;
+    const result = await adminFirebaseOperations.resolveFieldConflict(conflictId, decision, moderator, { lock });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    const { conflict } = result.data;
+    try {
+      await logAnalyticsEvent("mod_field_conflict", conflict.locationId, {
+        conflictId,
+        field: conflict.field,
+        decision,
+        lock,
+        moderator,
+      });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: decision === "accept"
+        ? `Updated ${conflict.field} from ${conflict.proposedSourceId || conflict.proposedSource}`
+        : `Kept the current ${conflict.field}${lock ? " and locked it" : ""}`,
+    });
+  } catch (error) {
+    console.error("❌ Field conflict resolution error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to resolve conflict",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { FieldLockSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Lock or unlock a curated field on a location. Enrichment never writes a
+ * locked field; disagreements are raised as field conflicts instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = FieldLockSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { locationId, field, locked } = validation.data;
+    const moderator = authResult.user!.email || authResult.user!.id;
+    const result = await adminFirebaseOperations.setFieldLock(locationId, field, locked, moderator);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `${field} ${locked ? "locked" : "unlocked"}`,
+    });
+  } catch (error) {
+    console.error("❌ Field lock error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update field lock",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { findDuplicateMatches } from "@/lib/database/dedup-helper";
+import { logAnalyticsEvent } from "@/lib/utils";
+import { MERGEABLE_FIELDS, type MergeFieldChoices } from "@/types/merge";
+
+/**
+ * Recent merges (for undo), or with `?locationId=` the likely duplicates of
+ * that location to merge it with
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const locationId = searchParams.get("locationId");
+
+    if (locationId) {
+      const location = await adminFirebaseOperations.getLocationById(locationId);
+      if (!location) {
+        return NextResponse.json({ success: false, error: "Location not found" }, { status: 404 });
+      }
+
+      const resolution = await findDuplicateMatches(location, { limit: 10 });
+      return NextResponse.json({
+        success: true,
+        data: { location, matches: resolution.matches },
+      });
+    }
+
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
+    const merges = await adminFirebaseOperations.getRecentMerges(limit);
+
+    return NextResponse.json({ success: true, data: { merges } });
+  } catch (error) {
+    console.error("Failed to fetch merge data:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch merge data" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Merge `mergedId` into `survivorId`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { survivorId, mergedId, fieldChoices = {} } = await request.json();
+
+    if (!survivorId || !mergedId) {
+      return NextResponse.json(
+        { success: false, error: "survivorId and mergedId are required" },
+        { status: 400 }
+      );
+    }
+
+    const invalidFields = Object.entries(fieldChoices).filter(
+      ([field, source]) =>
+        !(MERGEABLE_FIELDS as readonly string[]).includes(field) ||
+        (source !== "survivor" && source !== "merged")
+    );
+    if (invalidFields.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Invalid field choices: ${invalidFields.map(([field]) => field).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await adminFirebaseOperations.mergeLocations(
+      { survivorId, mergedId, fieldChoices: fieldChoices as MergeFieldChoices },
+      authResult.user!.id
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    try {
+      await logAnalyticsEvent("mod_merge", survivorId, {
+        mergedId,
+        moderator: authResult.user!.email || authResult.user!.id,
+        movedReviews: result.data.movedReviews,
+        movedPhotos: result.data.movedPhotos,
+      });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Merged into ${result.data.survivor.name}`,
+    });
+  } catch (error) {
+    console.error("❌ Merge error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to merge locations",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
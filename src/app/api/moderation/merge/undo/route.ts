@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { logAnalyticsEvent } from "@/lib/utils";
+
+/**
+ * Undo a merge by its moderation log id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { logId } = await request.json();
+    if (!logId) {
+      return NextResponse.json(
+        { success: false, error: "logId is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await adminFirebaseOperations.undoLocationMerge(logId, authResult.user!.id);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    try {
+      await logAnalyticsEvent("mod_unmerge", result.data.restoredId, {
+        survivorId: result.data.survivorId,
+        moderator: authResult.user!.email || authResult.user!.id,
+      });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Merge undone",
+    });
+  } catch (error) {
+    console.error("❌ Undo merge error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to undo merge",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { QueueClaimSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Pending locations, reviews, photos and flags in one queue, escalated items
+ * first and then by SLA deadline. Each item carries its current claim, if any.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const items = await adminFirebaseOperations.getModerationQueue();
+
+    return NextResponse.json({
+      success: true,
+      data: items,
+      count: items.length,
+      moderatorId: authResult.user!.email || authResult.user!.id,
+    });
+  } catch (error) {
+    console.error("Failed to fetch moderation queue:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch moderation queue" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Claim (or renew) a queue item, or release it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = QueueClaimSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { itemId, action } = validation.data;
+    const result = await adminFirebaseOperations.setQueueClaim(
+      itemId,
+      action,
+      authResult.user!.email || authResult.user!.id
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: action === "claim" ? "Item claimed" : "Item released",
+    });
+  } catch (error) {
+    console.error("❌ Queue claim error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update claim" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import type { ReviewReply } from "@/types/location";
+
+const REPLY_STATUSES: ReviewReply["status"][] = ["pending", "approved", "rejected"];
+
+/**
+ * Review replies by status (pending by default), each with the review it
+ * answers. Approve or reject through PATCH /api/reviews/{id}/replies.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "pending") as ReviewReply["status"];
+    if (!REPLY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${REPLY_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const replies = await adminFirebaseOperations.getReviewRepliesByStatus(status, limit);
+
+    const reviewIds = Array.from(new Set(replies.map((reply) => reply.review_id)));
+    const reviews = await Promise.all(reviewIds.map((id) => adminFirebaseOperations.getReviewById(id)));
+    const reviewsById = new Map(reviewIds.map((id, i) => [id, reviews[i]]));
+
+    return NextResponse.json({
+      success: true,
+      data: replies.map((reply) => ({
+        ...reply,
+        review: reviewsById.get(reply.review_id) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch review replies:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch review replies" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
-import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { moderatorIdentity, requireRole, verifyBearerToken } from "@/lib/auth";
 import { queryBatcher } from "@/lib/database/query-batcher";
 import { logAnalyticsEvent } from "@/lib/utils";
 
@@ -49,7 +49,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
     }
     
-    const { locationId, action, moderatorId } = await request.json();
+    const { locationId, action, reason } = await request.json();
+    const moderatorId = moderatorIdentity(authResult.user!);
 
     if (!locationId || !action) {
       return NextResponse.json(
@@ -65,11 +66,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Another moderator's claim on the item takes precedence
+    const claim = await adminFirebaseOperations.checkQueueClaim(
+      "location",
+      locationId,
+      moderatorId
+    );
+    if (!claim.success) {
+      return NextResponse.json({ success: false, error: claim.error }, { status: claim.status });
+    }
+
     console.log(`🔄 Moderating location ${locationId}: ${action}`);
     const moderatedLocation = await adminFirebaseOperations.moderateLocation(
       locationId,
       action as "approve" | "reject",
-      moderatorId || authResult.user!.id
+      moderatorId,
+      typeof reason === "string" ? reason.trim().slice(0, 200) || undefined : undefined
     );
     console.log(`✅ Location ${locationId} ${action}d successfully`);
 
@@ -77,13 +89,13 @@ export async function POST(request: NextRequest) {
     try {
       await logAnalyticsEvent(
         action === "approve" ? "mod_approve" : "mod_reject",
-        `location_id:${locationId},moderator:${moderatorId || authResult.user!.email || authResult.user!.id},action:${action}`
+        `location_id:${locationId},moderator:${moderatorId},action:${action}`
       );
       // Additional scout-specific analytics if location was user-submitted
       if (moderatedLocation.submittedBy && moderatedLocation.discoverySource === "user-submitted") {
         await logAnalyticsEvent(
           action === "approve" ? "scout_submission_approved" : "scout_submission_rejected",
-          `location_id:${locationId},scout:${moderatedLocation.submittedBy},moderator:${moderatorId || authResult.user!.email || authResult.user!.id}`
+          `location_id:${locationId},scout:${moderatedLocation.submittedBy},moderator:${moderatorId}`
         );
       }
     } catch (error) {
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { EditSuggestionReviewSchema } from "@/lib/validation/location-schemas";
+import { logAnalyticsEvent } from "@/lib/utils";
+import type { EditSuggestionStatus } from "@/types/edit-suggestion";
+
+const SUGGESTION_STATUSES: EditSuggestionStatus[] = ["pending", "accepted", "partially_accepted", "rejected"];
+
+/**
+ * Edit suggestions by status (pending by default), each with the location's
+ * current record so the queue can show a field-level diff
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "pending") as EditSuggestionStatus;
+    if (!SUGGESTION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${SUGGESTION_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const suggestions = await adminFirebaseOperations.getEditSuggestions(status, limit);
+
+    const locationIds = Array.from(new Set(suggestions.map((suggestion) => suggestion.locationId)));
+    const locations = await Promise.all(
+      locationIds.map((id) => adminFirebaseOperations.resolveLocationRedirect(id))
+    );
+    const locationsById = new Map(locationIds.map((id, i) => [id, locations[i]]));
+
+    return NextResponse.json({
+      success: true,
+      data: suggestions.map((suggestion) => ({
+        ...suggestion,
+        location: locationsById.get(suggestion.locationId) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch edit suggestions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch edit suggestions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Review a suggestion: `acceptedFields` are applied to the location, every
+ * other proposed field is rejected
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = EditSuggestionReviewSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { suggestionId, acceptedFields, notes } = validation.data;
+    const moderator = authResult.user!.email || authResult.user!.id;
+    const result = await adminFirebaseOperations.reviewEditSuggestion(
+      suggestionId,
+      acceptedFields,
+      moderator,
+      notes
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    const { suggestion } = result.data;
+    try {
+      await logAnalyticsEvent("mod_edit_suggestion", suggestion.locationId, {
+        suggestionId,
+        status: suggestion.status,
+        moderator,
+        scout: suggestion.submittedBy,
+      });
+    } catch (error) {
+      console.error("Failed to log analytics:", error);
+    }
+
+    const acceptedCount = suggestion.changes.filter((change) => change.decision === "accepted").length;
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: acceptedCount > 0
+        ? `Applied ${acceptedCount} of ${suggestion.changes.length} suggested change${suggestion.changes.length === 1 ? "" : "s"}`
+        : "Suggestion rejected",
+    });
+  } catch (error) {
+    console.error("❌ Edit suggestion review error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to review suggestion",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { NotificationReadSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * The signed-in user's notifications, newest first, with the unread count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to view notifications" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1), 100);
+    const unreadOnly = searchParams.get("unread") === "true";
+
+    const { notifications, unreadCount } = await adminFirebaseOperations.getNotifications(user.uid, {
+      limit,
+      unreadOnly,
+    });
+
+    return NextResponse.json({ success: true, data: notifications, unreadCount });
+  } catch (error) {
+    console.error("Failed to fetch notifications:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mark notifications read: `{ ids: [...] }` or `{ all: true }`
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to update notifications" },
+        { status: 401 }
+      );
+    }
+
+    const validation = NotificationReadSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await adminFirebaseOperations.markNotificationsRead(
+      user.uid,
+      "ids" in validation.data ? validation.data.ids : undefined
+    );
+
+    return NextResponse.json({ success: true, data: { updated } });
+  } catch (error) {
+    console.error("Failed to update notifications:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { OwnerInsightsService } from "@/lib/services/owner-insights";
+import type { AmalaLocation } from "@/types/location";
+import type { InsightTotals } from "@/types/insights";
+
+/**
+ * Insights for the listings the caller owns: daily detail views, directions,
+ * shares, photo views and search impressions over the last `days` days
+ * (7-90, default 30), the monthly rating trend, and the city median for
+ * comparison. Owners only ever see their own listings.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["owner"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "30") || 30, 7), 90);
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const locations = await adminFirebaseOperations.getOwnedLocations(authResult.user!.id);
+    if (locations.length === 0) {
+      return NextResponse.json({ success: true, data: [], since: since.toISOString().slice(0, 10) });
+    }
+
+    const events = await adminFirebaseOperations.getInsightEventsForLocations(
+      locations.map((location) => location.id),
+      since
+    );
+
+    // City peers are compared through the daily rollups rather than raw events
+    const cities = new Map<string, { locations: AmalaLocation[]; counts: Map<string, InsightTotals> }>();
+    for (const city of new Set(locations.map((location) => location.city?.trim()).filter((city): city is string => !!city))) {
+      const cityLocations = await adminFirebaseOperations.getApprovedLocationsInCity(city);
+      cities.set(city.toLowerCase(), {
+        locations: cityLocations,
+        counts: await adminFirebaseOperations.getInsightRollupTotals(cityLocations.map((location) => location.id), since),
+      });
+    }
+
+    const insights = await Promise.all(
+      locations.map(async (location) => {
+        const reviews = await adminFirebaseOperations.getReviewsByLocation(location.id);
+        const city = cities.get(location.city?.trim().toLowerCase() || "");
+        return OwnerInsightsService.build(location, events, reviews, city?.locations || [], city?.counts || new Map(), since);
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: insights,
+      since: since.toISOString().slice(0, 10),
+    });
+  } catch (error) {
+    console.error("Error computing owner insights:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load insights" },
+      { status: 500 }
+    );
+  }
+}
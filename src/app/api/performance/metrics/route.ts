@@ -64,7 +64,7 @@ export async function GET(request: NextRequest) {
       // Collect real performance metrics
       const cacheStats = memoryCache.getStats();
       const placesApiStats = BatchedPlacesApiService.getCacheStats();
-      const jobStats = BackgroundEnrichmentService.getQueueStats();
+      const jobStats = await BackgroundEnrichmentService.getQueueStats();
       const apiCallStats = ApiCallTracker.getApiCallStats();
 
       // Calculate real cache performance
@@ -1,8 +1,9 @@
 // Photo upload API - Handle restaurant photo uploads with Cloudinary
 import { NextRequest, NextResponse } from "next/server";
-import { rateLimit, verifyBearerToken } from "@/lib/auth";
+import { isLocationOwner, rateLimit, requireRole, verifyBearerToken } from "@/lib/auth";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 import cloudinary, { getUploadOptions } from "@/lib/cloudinary/config";
+import { PhotoModerationSchema } from "@/lib/validation/location-schemas";
 
 // POST /api/photos/upload - Upload photos for restaurants (requires auth)
 export async function POST(request: NextRequest) {
@@ -76,6 +77,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A verified owner's photos of their own spot skip moderation
+    const isOwner = isLocationOwner(user, location);
+    const status = isOwner ? "approved" : "pending";
+
     // Generate unique public ID for Cloudinary
     const publicId = `restaurant_photos/${locationId}/${user.id}/${Date.now()}_${Math.random()
       .toString(36)
@@ -108,7 +113,8 @@ export async function POST(request: NextRequest) {
         cloudinary_url: downloadURL,
         cloudinary_public_id: result.public_id,
         description: caption || "",
-        status: "pending", // Photos require moderation before publication
+        status, // Other photos require moderation before publication
+        owner_upload: isOwner || undefined,
       });
 
       // Log analytics event using admin SDK
@@ -129,9 +135,9 @@ export async function POST(request: NextRequest) {
           id: photoId,
           url: downloadURL,
           caption: caption,
-          status: "pending",
+          status,
         },
-        message: "Photo uploaded and submitted for moderation!",
+        message: isOwner ? "Photo uploaded and published!" : "Photo uploaded and submitted for moderation!",
       });
     } catch (uploadError) {
       console.error("Cloudinary photo upload error:", uploadError);
@@ -193,3 +199,55 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// PATCH /api/photos - Approve or reject a pending photo (requires mod/admin)
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = PhotoModerationSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { photoId, action } = validation.data;
+    const moderatorId = authResult.user!.email || authResult.user!.id;
+
+    const claim = await adminFirebaseOperations.checkQueueClaim("photo", photoId, moderatorId);
+    if (!claim.success) {
+      return NextResponse.json({ success: false, error: claim.error }, { status: claim.status });
+    }
+
+    const result = await adminFirebaseOperations.moderatePhoto(photoId, action, moderatorId);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Photo ${action}d successfully`,
+    });
+  } catch (error) {
+    console.error("Photo moderation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to moderate photo" },
+      { status: 500 }
+    );
+  }
+}
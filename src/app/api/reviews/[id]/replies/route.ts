@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimit, requireRole, verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import {
+  ReviewReplyModerationSchema,
+  ReviewReplySchema,
+} from "@/lib/validation/location-schemas";
+
+/**
+ * Approved replies to a review, oldest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const replies = await adminFirebaseOperations.getReviewReplies(id);
+    return NextResponse.json({ success: true, data: replies });
+  } catch (error) {
+    console.error("Failed to fetch review replies:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch replies" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reply to an approved review. Replies are published once a moderator
+ * approves them.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to reply" },
+        { status: 401 }
+      );
+    }
+
+    const rl = rateLimit(`reviews:replies:${user.uid}`, 10, 60_000);
+    if (!rl.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Rate limit exceeded. Try again later." },
+        { status: 429 }
+      );
+    }
+
+    const validation = ReviewReplySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reply",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const review = await adminFirebaseOperations.getReviewById(id);
+    if (!review || review.status !== "approved") {
+      return NextResponse.json(
+        { success: false, error: "Review not found" },
+        { status: 404 }
+      );
+    }
+
+    const reply = await adminFirebaseOperations.createReviewReply(
+      review,
+      { id: user.uid, name: user.name || "Anonymous" },
+      validation.data.text
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: reply,
+        message: "Reply submitted for moderation",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create review reply:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to submit reply" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Approve or reject a reply. **Requires mod/admin role.**
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success) {
+      return NextResponse.json({ success: false, error: authResult.error }, { status: 401 });
+    }
+
+    const roleCheck = requireRole(authResult.user!, ["mod", "admin"]);
+    if (!roleCheck.success) {
+      return NextResponse.json({ success: false, error: roleCheck.error }, { status: 403 });
+    }
+
+    const validation = ReviewReplyModerationSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { replyId, action } = validation.data;
+    const result = await adminFirebaseOperations.updateReviewReplyStatus(
+      id,
+      replyId,
+      action === "approve" ? "approved" : "rejected",
+      authResult.user!.email || authResult.user!.id
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Reply ${action}d successfully`,
+    });
+  } catch (error) {
+    console.error("❌ Reply moderation error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to moderate reply",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
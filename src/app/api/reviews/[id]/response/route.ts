@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { OwnerResponseSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Post or replace the owner's public response to a review. Only verified
+ * owners of the reviewed location may respond; responses publish immediately.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const validation = OwnerResponseSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid response",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await adminFirebaseOperations.setOwnerResponse(
+      id,
+      { id: user.uid, name: user.name || "Owner" },
+      validation.data.text
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Response published",
+    });
+  } catch (error) {
+    console.error("Failed to save owner response:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save response" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the owner's response
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await adminFirebaseOperations.setOwnerResponse(
+      id,
+      { id: user.uid, name: user.name || "Owner" },
+      null
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Response removed",
+    });
+  } catch (error) {
+    console.error("Failed to remove owner response:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to remove response" },
+      { status: 500 }
+    );
+  }
+}
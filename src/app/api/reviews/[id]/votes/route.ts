@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimit } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { ReviewVoteSchema } from "@/lib/validation/location-schemas";
+
+/**
+ * Mark a review helpful or not helpful (`{ vote: null }` clears the vote).
+ * Each user has at most one vote per review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    let user;
+    try {
+      user = await verifyFirebaseToken(request);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "You must be signed in to vote" },
+        { status: 401 }
+      );
+    }
+
+    const rl = rateLimit(`reviews:votes:${user.uid}`, 30, 60_000);
+    if (!rl.allowed) {
+      return NextResponse.json(
+        { success: false, error: "Rate limit exceeded. Try again later." },
+        { status: 429 }
+      );
+    }
+
+    const validation = ReviewVoteSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid vote",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await adminFirebaseOperations.voteOnReview(id, user.uid, validation.data.vote);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Failed to vote on review:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to record vote" },
+      { status: 500 }
+    );
+  }
+}
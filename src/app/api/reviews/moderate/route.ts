@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyBearerToken, requireRole } from "@/lib/auth";
+import { moderatorIdentity, verifyBearerToken, requireRole } from "@/lib/auth";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 import { z } from "zod";
 
 const ReviewModerationSchema = z.object({
   reviewId: z.string().min(1),
   action: z.enum(["approve", "reject"]),
-  reason: z.string().optional(),
+  reason: z.string().trim().max(200).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -45,12 +45,20 @@ export async function POST(request: NextRequest) {
     }
 
     const { reviewId, action, reason } = validation.data;
+    const moderatorId = moderatorIdentity(authResult.user!);
+
+    // Another moderator's claim on the item takes precedence
+    const claim = await adminFirebaseOperations.checkQueueClaim("review", reviewId, moderatorId);
+    if (!claim.success) {
+      return NextResponse.json({ success: false, error: claim.error }, { status: claim.status });
+    }
 
     // Update the review in the database using admin operations
     const updatedReview = await adminFirebaseOperations.updateReviewStatus(
       reviewId, 
       action === "approve" ? "approved" : "rejected",
-      authResult.user!.email
+      moderatorId,
+      reason || undefined
     );
     
     if (!updatedReview) {
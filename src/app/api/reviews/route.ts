@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
 import { verifyFirebaseToken } from "@/lib/firebase/auth-middleware";
+import { moderatorIdentity } from "@/lib/auth";
 import { z } from "zod";
+import { RATING_ASPECTS } from "@/types/rating";
+import type { Review } from "@/types/location";
+import { SUPPORTED_CURRENCIES, estimateCurrencyFromLocation } from "@/lib/currency-utils";
 
 const ReviewSubmissionSchema = z.object({
   location_id: z.string().min(1),
   rating: z.number().min(1).max(5),
+  aspectRatings: z.partialRecord(z.enum(RATING_ASPECTS), z.number().int().min(1).max(5)).optional(),
   text: z.string().min(1).max(1000).optional(),
   photos: z.array(z.string().url()).max(5).optional(), // Max 5 photos per review
+  pricePaid: z.number().int().positive().max(100_000_000).optional(), // smallest currency unit
+  priceCurrency: z.enum(Object.keys(SUPPORTED_CURRENCIES) as [string, ...string[]]).optional(),
 });
 
 // Rate limiting helper (simple in-memory implementation)
@@ -34,6 +41,13 @@ function rateLimit(
   return { allowed: true };
 }
 
+// Risk scores and their reasons are for moderators only
+function withoutRisk(review: Review): Review {
+  const publicReview = { ...review };
+  delete publicReview.risk;
+  return publicReview;
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Rate limit submissions per IP
@@ -98,17 +112,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Allow multiple reviews per user per location
+    // Multiple reviews per user per location are allowed, but repeats count towards the review's risk score
     console.log(`User ${user.uid} submitting review for location ${validatedReview.location_id}`);
 
     // Create review using admin SDK
     const newReview = await adminFirebaseOperations.createReview({
       ...validatedReview,
+      priceCurrency: validatedReview.priceCurrency
+        || location.currency
+        || estimateCurrencyFromLocation(location.country, location.city),
       user_id: user.uid,
       user_name: user.name || "Anonymous",
       user_photo: user.picture || null,
     });
 
+    // Score for fraud and spam signals; high-risk reviews are flagged in the
+    // moderation queue. A scoring failure shouldn't lose the review.
+    try {
+      await adminFirebaseOperations.scoreReview(newReview);
+    } catch (riskError) {
+      console.error("❌ Review risk scoring failed:", riskError);
+    }
+
     // If review has photos and is auto-approved, add them to location photos
     if (validatedReview.photos && validatedReview.photos.length > 0) {
       console.log(`Adding ${validatedReview.photos.length} photos from review to location photos`);
@@ -184,7 +209,24 @@ export async function GET(request: NextRequest) {
       try {
         const reviews = await adminFirebaseOperations.getReviewsByLocation(locationId);
         // Filter to only approved reviews for public access
-        const approvedReviews = reviews.filter((review: any) => review.status === 'approved');
+        const approvedReviews = reviews
+          .filter((review: any) => review.status === 'approved')
+          .map(withoutRisk);
+
+        // Signed-in readers also get their own helpful / not helpful votes
+        if (request.headers.get("authorization")) {
+          try {
+            const user = await verifyFirebaseToken(request);
+            const votes = await adminFirebaseOperations.getUserReviewVotes(locationId, user.uid);
+            return NextResponse.json({
+              success: true,
+              reviews: approvedReviews.map((review) => ({ ...review, myVote: votes[review.id] ?? null })),
+            });
+          } catch (authError) {
+            console.warn("⚠️ Ignoring invalid token on public review query:", authError);
+          }
+        }
+
         return NextResponse.json({ success: true, reviews: approvedReviews });
       } catch (error) {
         console.error("Error fetching location reviews:", error);
@@ -229,7 +271,7 @@ export async function GET(request: NextRequest) {
     // Get all approved reviews for regular users (no auth required for public reviews)
     try {
       const reviews = await adminFirebaseOperations.getReviewsByStatus("approved");
-      return NextResponse.json({ success: true, data: reviews });
+      return NextResponse.json({ success: true, data: reviews.map(withoutRisk) });
     } catch (error) {
       console.error("Error fetching all reviews:", error);
       return NextResponse.json(
@@ -260,7 +302,8 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Forbidden - Moderator access required" }, { status: 403 });
     }
 
-    const { reviewId, action, moderatorId } = await request.json();
+    const { reviewId, action, reason } = await request.json();
+    const moderatorId = moderatorIdentity({ id: user.uid, email: user.email });
 
     if (!reviewId || !action) {
       return NextResponse.json(
@@ -276,12 +319,19 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Another moderator's claim on the item takes precedence
+    const claim = await adminFirebaseOperations.checkQueueClaim("review", reviewId, moderatorId);
+    if (!claim.success) {
+      return NextResponse.json({ success: false, error: claim.error }, { status: claim.status });
+    }
+
     console.log(`🔄 Moderating review ${reviewId}: ${action}`);
     const status = action === "approve" ? "approved" : "rejected";
     const moderatedReview = await adminFirebaseOperations.updateReviewStatus(
       reviewId,
       status,
-      moderatorId || user.uid
+      moderatorId,
+      typeof reason === "string" ? reason.trim().slice(0, 200) || undefined : undefined
     );
     console.log(`✅ Review ${reviewId} ${action}d successfully`);
 
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyBearerToken } from "@/lib/auth";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+
+/**
+ * The signed-in scout's reputation: trust score, level, a daily trust score
+ * history for the last `days` days (7-365) and their latest ledger events.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyBearerToken(request.headers.get("authorization") || undefined);
+    if (!authResult.success || !authResult.user?.email) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "90") || 90, 7), 365);
+
+    const reputation = await adminFirebaseOperations.getReputation(authResult.user.email, days);
+
+    return NextResponse.json({ success: true, data: reputation });
+  } catch (error) {
+    console.error("Error fetching reputation:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch reputation" },
+      { status: 500 }
+    );
+  }
+}
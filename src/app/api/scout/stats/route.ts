@@ -31,10 +31,12 @@ export async function GET(request: NextRequest) {
     const startDate = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000);
     const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-    // Get user's submissions and reviews
-    const [userSubmissions, userReviews] = await Promise.all([
+    // Get user's submissions, reviews, edit suggestions and reputation
+    const [userSubmissions, userReviews, userEditSuggestions, reputation] = await Promise.all([
       adminFirebaseOperations.getUserSubmissions(authResult.user.email || ''),
       adminFirebaseOperations.getUserReviews(authResult.user.email || ''),
+      adminFirebaseOperations.getUserEditSuggestions(authResult.user.email || ''),
+      adminFirebaseOperations.getReputationSummary(authResult.user.email || ''),
     ]);
 
     // Filter by date range
@@ -53,10 +55,16 @@ export async function GET(request: NextRequest) {
     const rejectedSubmissions = filteredSubmissions.filter((s: any) => s.status === 'rejected').length;
     
     const approvalRate = totalSubmissions > 0 ? (approvedSubmissions / totalSubmissions) * 100 : 0;
-    
-    // Calculate scout level based on approved submissions and approval rate
-    const scoutLevel = calculateScoutLevel(approvedSubmissions, approvalRate);
-    const scoutPoints = calculateScoutPoints(approvedSubmissions, approvalRate, userReviews.length);
+
+    // Edit suggestions count once a moderator accepts at least one field
+    const filteredEditSuggestions = userEditSuggestions.filter((suggestion) =>
+      suggestion.submittedAt >= startDate
+    );
+    const acceptedEdits = filteredEditSuggestions.filter((suggestion) =>
+      suggestion.status === 'accepted' || suggestion.status === 'partially_accepted'
+    ).length;
+    const pendingEdits = filteredEditSuggestions.filter((suggestion) => suggestion.status === 'pending').length;
+
 
     // Calculate average rating from approved submissions
     const ratingsSum = filteredSubmissions
@@ -76,13 +84,19 @@ export async function GET(request: NextRequest) {
       pendingSubmissions,
       rejectedSubmissions,
       approvalRate,
-      scoutLevel,
-      scoutPoints,
+      // Level and points come from the reputation ledger, not the selected time range
+      scoutLevel: reputation.level,
+      scoutPoints: reputation.points,
+      trustScore: reputation.trustScore,
+      nextLevel: reputation.nextLevel,
       weeklySubmissions: weeklySubmissions.length,
       monthlySubmissions: totalSubmissions,
       averageRating,
       totalPhotos,
       totalReviews: userReviews.length,
+      editSuggestions: filteredEditSuggestions.length,
+      acceptedEdits,
+      pendingEdits,
     };
 
     return NextResponse.json({
@@ -98,30 +112,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-function calculateScoutLevel(approvedSubmissions: number, approvalRate: number): string {
-  const score = approvedSubmissions * (approvalRate / 100);
-  
-  if (score >= 100) return 'Master Scout';
-  if (score >= 50) return 'Expert Scout';
-  if (score >= 20) return 'Advanced Scout';
-  if (score >= 5) return 'Experienced Scout';
-  return 'Beginner Scout';
-}
-
-function calculateScoutPoints(approvedSubmissions: number, approvalRate: number, reviewCount: number): number {
-  let points = 0;
-  
-  // Points for approved submissions
-  points += approvedSubmissions * 10;
-  
-  // Bonus points for high approval rate
-  if (approvalRate >= 90) points += approvedSubmissions * 5;
-  else if (approvalRate >= 75) points += approvedSubmissions * 3;
-  else if (approvalRate >= 50) points += approvedSubmissions * 1;
-  
-  // Points for reviews
-  points += reviewCount * 2;
-  
-  return points;
-}
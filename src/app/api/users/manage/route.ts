@@ -6,14 +6,14 @@ import { z } from "zod";
 // Schema for user role assignment
 const AssignRoleSchema = z.object({
   email: z.string().email(),
-  role: z.enum(["user", "scout", "mod", "admin"]),
+  role: z.enum(["user", "scout", "owner", "mod", "admin"]),
   action: z.enum(["add", "remove"]),
 });
 
 // Schema for user search
 const SearchUsersSchema = z.object({
   query: z.string().optional(),
-  role: z.enum(["user", "scout", "mod", "admin", "all"]).optional(),
+  role: z.enum(["user", "scout", "owner", "mod", "admin", "all"]).optional(),
   limit: z.number().min(1).max(100).optional(),
 });
 
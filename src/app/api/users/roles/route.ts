@@ -5,14 +5,14 @@ import { z } from "zod";
 
 const UserRoleSchema = z.object({
   email: z.string().email(),
-  roles: z.array(z.enum(["user", "scout", "mod", "admin"])),
+  roles: z.array(z.enum(["user", "scout", "owner", "mod", "admin"])),
   displayName: z.string().optional(),
 });
 
 const UpdateRoleSchema = z.object({
   email: z.string().email(),
   action: z.enum(["add", "remove"]),
-  role: z.enum(["scout", "mod", "admin"]),
+  role: z.enum(["scout", "owner", "mod", "admin"]),
 });
 
 export async function GET(request: NextRequest) {
@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import { AuthProvider } from "@/contexts/FirebaseAuthContext";
 import { ToastProvider } from "@/contexts/ToastContext";
+import { NotificationsProvider } from "@/contexts/NotificationsContext";
 import { ToastContainer } from "@/components/toast/ToastContainer";
 import { NetworkStatusBanner } from "@/components/ui/network-status";
+import { NotificationInbox } from "@/components/notification-inbox";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -89,9 +91,12 @@ export default function RootLayout({
       <body className="antialiased">
         <AuthProvider>
           <ToastProvider>
-            <NetworkStatusBanner />
-            {children}
-            <ToastContainer />
+            <NotificationsProvider>
+              <NetworkStatusBanner />
+              {children}
+              <NotificationInbox />
+              <ToastContainer />
+            </NotificationsProvider>
           </ToastProvider>
         </AuthProvider>
 
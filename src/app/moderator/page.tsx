@@ -8,6 +8,14 @@ import { AmalaLocation, Review } from "@/types/location";
 import { FlaggedContentPanel } from "@/components/moderation/flagged-content-panel";
 import { ModerationHistory } from "@/components/moderation/moderation-history";
 import { ModerationDashboard } from "@/components/moderation/moderation-dashboard";
+import { LocationMergePanel } from "@/components/moderation/location-merge-panel";
+import { EditSuggestionsPanel } from "@/components/moderation/edit-suggestions-panel";
+import { FieldConflictsPanel } from "@/components/moderation/field-conflicts-panel";
+import { ReviewRepliesPanel } from "@/components/moderation/review-replies-panel";
+import { ModerationQueuePanel } from "@/components/moderation/moderation-queue-panel";
+import { AppealsPanel } from "@/components/moderation/appeals-panel";
+import { ClaimsPanel } from "@/components/moderation/claims-panel";
+import { BrandsPanel } from "@/components/moderation/brands-panel";
 
 // Lazy load discovery panel for better performance
 const LazyDiscoveryPanel = lazy(() => import("@/components/discovery/discovery-panel"));
@@ -25,14 +33,29 @@ import {
   StarIcon,
   CheckIcon,
   XMarkIcon,
-  EyeIcon
+  EyeIcon,
+  ArrowsPointingInIcon,
+  PencilSquareIcon,
+  ScaleIcon,
+  ShieldExclamationIcon,
+  QueueListIcon,
+  ArrowUturnLeftIcon,
+  BuildingStorefrontIcon,
+  RectangleGroupIcon
 } from "@heroicons/react/24/outline";
 import { 
   ChartBarIcon as ChartBarSolid,
   ClockIcon as ClockSolid,
   ExclamationTriangleIcon as ExclamationTriangleSolid,
   CpuChipIcon as CpuChipSolid,
-  DocumentTextIcon as DocumentTextSolid
+  DocumentTextIcon as DocumentTextSolid,
+  ArrowsPointingInIcon as ArrowsPointingInSolid,
+  PencilSquareIcon as PencilSquareSolid,
+  ScaleIcon as ScaleSolid,
+  QueueListIcon as QueueListSolid,
+  ArrowUturnLeftIcon as ArrowUturnLeftSolid,
+  BuildingStorefrontIcon as BuildingStorefrontSolid,
+  RectangleGroupIcon as RectangleGroupSolid
 } from "@heroicons/react/24/solid";
 import { ModeratorDashboardSkeleton } from "@/components/skeletons";
 import { ResponsiveSidebar } from "@/components/responsive-sidebar";
@@ -60,6 +83,7 @@ function ModeratorDashboard() {
   const [selectedReviews, setSelectedReviews] = useState<Set<string>>(new Set());
   const [selectedLocations, setSelectedLocations] = useState<Set<string>>(new Set());
   const [bulkActionLoading, setBulkActionLoading] = useState(false);
+  const [bulkRejectReason, setBulkRejectReason] = useState("");
   const [stats, setStats] = useState({
     pendingReviews: 0,
     pendingLocations: 0,
@@ -196,7 +220,10 @@ function ModeratorDashboard() {
       // Process reviews
       if (reviewsResponse.status === 'fulfilled' && reviewsResponse.value.ok) {
         reviewsData = await reviewsResponse.value.json();
-        setPendingReviews(reviewsData.data || []);
+        // Riskiest reviews first
+        setPendingReviews(
+          ((reviewsData.data || []) as Review[]).sort((a, b) => (b.risk?.score || 0) - (a.risk?.score || 0))
+        );
       }
 
       // Process flagged content
@@ -246,7 +273,8 @@ function ModeratorDashboard() {
   // Bulk selection handlers
   const handleSelectAllReviews = (checked: boolean) => {
     if (checked) {
-      setSelectedReviews(new Set(pendingReviews.map(r => r.id)));
+      // High-risk reviews have to be approved one at a time
+      setSelectedReviews(new Set(pendingReviews.filter(r => r.risk?.level !== 'high').map(r => r.id)));
     } else {
       setSelectedReviews(new Set());
     }
@@ -294,7 +322,7 @@ function ModeratorDashboard() {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${idToken}`
           },
-          body: JSON.stringify({ reviewId, action })
+          body: JSON.stringify({ reviewId, action, reason: action === 'reject' ? bulkRejectReason.trim() || undefined : undefined })
         })
       );
       
@@ -304,6 +332,7 @@ function ModeratorDashboard() {
       // Remove processed reviews from the list
       setPendingReviews(prev => prev.filter(r => !selectedReviews.has(r.id)));
       setSelectedReviews(new Set());
+      setBulkRejectReason("");
       
       // Update stats
       setStats(prev => ({
@@ -334,7 +363,7 @@ function ModeratorDashboard() {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${idToken}`
           },
-          body: JSON.stringify({ locationId, action })
+          body: JSON.stringify({ locationId, action, reason: action === 'reject' ? bulkRejectReason.trim() || undefined : undefined })
         })
       );
       
@@ -344,6 +373,7 @@ function ModeratorDashboard() {
       // Remove processed locations from the list
       setPendingLocations(prev => prev.filter(l => !selectedLocations.has(l.id)));
       setSelectedLocations(new Set());
+      setBulkRejectReason("");
       
       // Update stats
       setStats(prev => ({
@@ -368,8 +398,15 @@ function ModeratorDashboard() {
 
   const sidebarItems = [
     { id: "overview", label: "Overview", icon: ChartBarIcon, iconSolid: ChartBarSolid },
+    { id: "queue", label: "Queue", icon: QueueListIcon, iconSolid: QueueListSolid },
     { id: "pending", label: "Pending Content", icon: ClockIcon, iconSolid: ClockSolid, count: stats.pendingReviews + stats.pendingLocations },
+    { id: "appeals", label: "Appeals", icon: ArrowUturnLeftIcon, iconSolid: ArrowUturnLeftSolid },
+    { id: "claims", label: "Ownership Claims", icon: BuildingStorefrontIcon, iconSolid: BuildingStorefrontSolid },
     { id: "flagged", label: "Flagged Content", icon: ExclamationTriangleIcon, iconSolid: ExclamationTriangleSolid, count: stats.flaggedContent },
+    { id: "suggestions", label: "Edit Suggestions", icon: PencilSquareIcon, iconSolid: PencilSquareSolid },
+    { id: "conflicts", label: "Data Conflicts", icon: ScaleIcon, iconSolid: ScaleSolid },
+    { id: "merge", label: "Merge Locations", icon: ArrowsPointingInIcon, iconSolid: ArrowsPointingInSolid },
+    { id: "brands", label: "Chains", icon: RectangleGroupIcon, iconSolid: RectangleGroupSolid },
     { id: "discovery", label: "Discovery", icon: CpuChipIcon, iconSolid: CpuChipSolid },
     { id: "history", label: "History", icon: DocumentTextIcon, iconSolid: DocumentTextSolid }
   ];
@@ -401,6 +438,11 @@ function ModeratorDashboard() {
             <ModerationDashboard stats={stats} loading={loading} />
           )}
 
+          {/* Unified Queue Tab */}
+          {activeTab === "queue" && (
+            <ModerationQueuePanel />
+          )}
+
           {/* Pending Content Tab */}
           {activeTab === "pending" && (
             <div className="space-y-6">
@@ -443,6 +485,14 @@ function ModeratorDashboard() {
                         {selectedReviews.size > 0 && (
                           <div className="flex items-center gap-2">
                             <span className="text-sm text-gray-600">{selectedReviews.size} selected</span>
+                            <input
+                              type="text"
+                              value={bulkRejectReason}
+                              onChange={(e) => setBulkRejectReason(e.target.value)}
+                              maxLength={200}
+                              placeholder="Rejection reason (optional)"
+                              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
                             <button
                               onClick={() => handleBulkReviewAction('approve')}
                               disabled={bulkActionLoading}
@@ -468,12 +518,15 @@ function ModeratorDashboard() {
                         <input
                           type="checkbox"
                           id="select-all-reviews"
-                          checked={selectedReviews.size === pendingReviews.length && pendingReviews.length > 0}
+                          checked={selectedReviews.size > 0 && selectedReviews.size === pendingReviews.filter(r => r.risk?.level !== 'high').length}
                           onChange={(e) => handleSelectAllReviews(e.target.checked)}
                           className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                         />
                         <label htmlFor="select-all-reviews" className="text-sm font-medium text-gray-700">
                           Select all reviews
+                          {pendingReviews.some(r => r.risk?.level === 'high') && (
+                            <span className="font-normal text-gray-500"> (except high risk)</span>
+                          )}
                         </label>
                       </div>
                       
@@ -500,7 +553,22 @@ function ModeratorDashboard() {
                                     <span className="text-sm font-medium text-gray-700">
                                       by {review.author}
                                     </span>
+                                    {review.risk && review.risk.level !== 'low' && (
+                                      <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${
+                                        review.risk.level === 'high' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                                      }`}>
+                                        <ShieldExclamationIcon className="w-3 h-3" />
+                                        {review.risk.level === 'high' ? 'High' : 'Medium'} risk · {review.risk.score}
+                                      </span>
+                                    )}
                                   </div>
+                                  {review.risk && review.risk.reasons.length > 0 && (
+                                    <ul className="text-xs text-gray-600 mb-2 list-disc list-inside">
+                                      {review.risk.reasons.map(reason => (
+                                        <li key={reason.signal}>{reason.detail}</li>
+                                      ))}
+                                    </ul>
+                                  )}
                                   {review.text && (
                                     <p className="text-gray-700 mb-2">{review.text}</p>
                                   )}
@@ -529,6 +597,14 @@ function ModeratorDashboard() {
                         {selectedLocations.size > 0 && (
                           <div className="flex items-center gap-2">
                             <span className="text-sm text-gray-600">{selectedLocations.size} selected</span>
+                            <input
+                              type="text"
+                              value={bulkRejectReason}
+                              onChange={(e) => setBulkRejectReason(e.target.value)}
+                              maxLength={200}
+                              placeholder="Rejection reason (optional)"
+                              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
                             <button
                               onClick={() => handleBulkLocationAction('approve')}
                               disabled={bulkActionLoading}
@@ -598,14 +674,46 @@ function ModeratorDashboard() {
                   )}
                 </div>
               )}
+
+              <ReviewRepliesPanel />
             </div>
           )}
 
+          {/* Appeals Tab */}
+          {activeTab === "appeals" && (
+            <AppealsPanel />
+          )}
+
+          {/* Ownership Claims Tab */}
+          {activeTab === "claims" && (
+            <ClaimsPanel />
+          )}
+
+          {/* Chains Tab */}
+          {activeTab === "brands" && (
+            <BrandsPanel />
+          )}
+
           {/* Flagged Content Tab */}
           {activeTab === "flagged" && (
             <FlaggedContentPanel />
           )}
 
+          {/* Edit Suggestions Tab */}
+          {activeTab === "suggestions" && (
+            <EditSuggestionsPanel />
+          )}
+
+          {/* Data Conflicts Tab */}
+          {activeTab === "conflicts" && (
+            <FieldConflictsPanel />
+          )}
+
+          {/* Merge Tab */}
+          {activeTab === "merge" && (
+            <LocationMergePanel />
+          )}
+
           {/* History Tab */}
           {activeTab === "history" && (
             <ModerationHistory />
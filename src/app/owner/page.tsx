@@ -0,0 +1,14 @@
+"use client";
+
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { OwnerDashboard } from "@/components/owner/owner-dashboard";
+
+export default function OwnerPage() {
+  return (
+    <ProtectedRoute requiredRoles={["owner"]}>
+      <div className="min-h-screen bg-gray-50">
+        <OwnerDashboard />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -16,6 +16,13 @@ import { firebaseOperations } from "@/lib/firebase/database";
 import { useAnalytics } from "@/hooks/useAnalytics";
 import { GoogleMapsLocationDetail } from "@/components/google-maps-location-detail";
 import { StarIcon, MapPinIcon } from "@heroicons/react/24/outline";
+import { matchesHoursFilter } from "@/lib/utils/hours";
+import { matchesMenuFilter } from "@/lib/utils/menu";
+import { SearchIndex } from "@/lib/services/search-index";
+import { trackEvent } from "@/lib/utils";
+import { SEARCH_IMPRESSION_LIMIT } from "@/types/insights";
+import { collapseBranches, withBrandDefaults } from "@/lib/utils/brand";
+import type { BrandSummary } from "@/types/brand";
 import {
   AmalaLocation,
   LocationFilter,
@@ -36,6 +43,28 @@ export default function Home() {
   const [searchResults, setSearchResults] = useState<AmalaLocation[]>([]);
   const [pendingCount, setPendingCount] = useState(0);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [brands, setBrands] = useState<Map<string, BrandSummary>>(new Map());
+
+  // Branches fall back to their brand's logo, description, website and menu
+  const brandedLocations = useMemo(
+    () => allLocations.map((loc) => withBrandDefaults(loc, loc.brandId ? brands.get(loc.brandId) : undefined)),
+    [allLocations, brands]
+  );
+
+  // Rebuilt only when the loaded locations change
+  const searchIndex = useMemo(() => new SearchIndex(brandedLocations), [brandedLocations]);
+
+  // A chain's branches show as one search result at its best-ranked branch
+  const searchGroups = useMemo(() => collapseBranches(searchResults), [searchResults]);
+  const headerSearchResults = useMemo(
+    () => searchGroups.map(({ location, branches }) => ({
+      id: location.id,
+      name: branches.length > 1 ? brands.get(location.brandId!)?.name || location.name : location.name,
+      address: branches.length > 1 ? `${branches.length} locations` : location.address,
+      isOpenNow: location.isOpenNow,
+    })),
+    [searchGroups, brands]
+  );
 
   // Optimized search with debouncing and memoization
   const handleSearch = useCallback(
@@ -45,13 +74,7 @@ export default function Home() {
         return;
       }
 
-      const lowerQuery = query.toLowerCase();
-      const results = allLocations.filter(
-        (location) =>
-          location.name.toLowerCase().includes(lowerQuery) ||
-          location.address.toLowerCase().includes(lowerQuery) ||
-          location.description?.toLowerCase().includes(lowerQuery)
-      );
+      const results = searchIndex.search(query).map((hit) => hit.location);
       
       // Debug: Uncomment for search debugging
       // console.log('🔍 Search results:', { query, resultsCount: results.length, totalLocations: allLocations.length });
@@ -67,12 +90,19 @@ export default function Home() {
 
       // Track search analytics
       analytics.trackSearch(query, results.length, filters);
+      if (results.length > 0) {
+        trackEvent({
+          type: "search_impression",
+          ids: results.slice(0, SEARCH_IMPRESSION_LIMIT).map((location) => location.id),
+          resultCount: results.length,
+        });
+      }
     },
-    [allLocations, analytics, filters]
+    [searchIndex, analytics, filters]
   );
 
   const handleSearchResultSelect = (locationId: string) => {
-    const location = allLocations.find((loc) => loc.id === locationId);
+    const location = brandedLocations.find((loc) => loc.id === locationId);
     if (location) {
       setSelectedLocation(location);
       // Clear search results when a location is selected
@@ -132,6 +162,26 @@ export default function Home() {
     }
   }, [isAuthLoading]);
 
+  useEffect(() => {
+    fetch("/api/brands")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setBrands(new Map((data.data as BrandSummary[]).map((brand) => [brand.id, brand])));
+        }
+      })
+      .catch((error) => console.error("❌ Error loading brands:", error));
+  }, []);
+
+  // Branches listed in the detail panel come without brand defaults applied
+  const handleBranchSelect = (branch: AmalaLocation) => {
+    setSelectedLocation(
+      brandedLocations.find((loc) => loc.id === branch.id) ||
+      withBrandDefaults(branch, branch.brandId ? brands.get(branch.brandId) : undefined)
+    );
+    analytics.trackLocationView(branch.id, branch.name, 'list');
+  };
+
   // Track page view on component mount
   useEffect(() => {
     analytics.trackPageView('Home - Map View', 'Amala Discovery Platform');
@@ -141,7 +191,7 @@ export default function Home() {
   const filteredLocations = useMemo(() => {
     // Don't apply search filters to map - only to sidebar
     // Search results are handled separately in the sidebar
-    let filtered = allLocations;
+    let filtered = brandedLocations;
 
     // Debug: Uncomment for filter debugging
     // console.log('🔍 Filtering locations:', { totalLocations: allLocations.length, filters, sampleLocation: allLocations[0] });
@@ -152,9 +202,16 @@ export default function Home() {
       // console.log(`🔍 After serviceType filter (${filters.serviceType}):`, filtered.length);
     }
 
-    if (filters.isOpenNow) {
-      filtered = filtered.filter(loc => loc.isOpenNow === true);
-      // console.log('🔍 After isOpenNow filter:', filtered.length);
+    if (filters.isOpenNow || filters.openAt || filters.openingSoon || filters.closingSoon) {
+      // Derived from each location's hours in its own timezone, not the stored flag
+      const now = new Date();
+      filtered = filtered.filter(loc => matchesHoursFilter(loc, {
+        isOpenNow: filters.isOpenNow || undefined,
+        openAt: filters.openAt,
+        openingSoon: filters.openingSoon,
+        closingSoon: filters.closingSoon,
+      }, now));
+      // console.log('🔍 After hours filters:', filtered.length);
     }
 
     // Apply price range filter
@@ -168,9 +225,13 @@ export default function Home() {
       // console.log('🔍 After priceRange filter:', filtered.length);
     }
 
+    if (filters.dish || filters.maxDishPrice !== undefined) {
+      filtered = filtered.filter(loc => matchesMenuFilter(loc, filters));
+    }
+
     // console.log('🔍 Final filtered locations:', filtered.length);
     return filtered;
-  }, [allLocations, filters]);
+  }, [brandedLocations, filters]);
 
   const handleAddLocation = () => {
     // Check if user is authenticated before opening the dialog
@@ -210,7 +271,6 @@ export default function Home() {
           features: [], // Default empty array
           discoverySource: "user-submitted" as const,
           serviceType: location.serviceType || "both" as const, // Use form data or default
-          isOpenNow: true, // Default to open
         };
 
         const response = await fetch("/api/locations", {
@@ -221,6 +281,7 @@ export default function Home() {
           },
           body: JSON.stringify({
             location: submission,
+            ignoreDuplicates: location.ignoreDuplicates === true,
             submitterInfo: {
               timestamp: new Date().toISOString(),
               userAgent: navigator.userAgent,
@@ -352,12 +413,7 @@ export default function Home() {
             <Header
               onAddLocation={handleAddLocation}
               onSearch={handleSearch}
-              searchResults={searchResults.map((loc) => ({
-                id: loc.id,
-                name: loc.name,
-                address: loc.address,
-                isOpenNow: loc.isOpenNow,
-              }))}
+              searchResults={headerSearchResults}
               onSearchResultSelect={handleSearchResultSelect}
             />
           </div>
@@ -371,7 +427,7 @@ export default function Home() {
                 </h1>
                 <p className="text-sm text-gray-600">
                   {searchResults.length > 0
-                    ? `${searchResults.length} ${searchResults.length === 1 ? 'result' : 'results'}`
+                    ? `${searchGroups.length} ${searchGroups.length === 1 ? 'result' : 'results'}`
                     : `${filteredLocations.length} ${filteredLocations.length === 1 ? 'result' : 'results'}`
                   }
                 </p>
@@ -385,7 +441,10 @@ export default function Home() {
               <LocationSkeleton count={8} />
             ) : (
               <div className="divide-y divide-gray-100">
-                {(searchResults.length > 0 ? searchResults : filteredLocations).map((location, idx) => (
+                {(searchResults.length > 0
+                  ? searchGroups
+                  : filteredLocations.map((location) => ({ location, branches: [location] }))
+                ).map(({ location, branches }, idx) => (
                   <div
                     key={location.id ?? `location-${idx}`}
                     className="p-4 cursor-pointer transition-all duration-200 hover:bg-gray-50"
@@ -393,9 +452,18 @@ export default function Home() {
                   >
                     <div className="flex gap-3">
                       <div className="flex-1 min-w-0 space-y-1">
-                        <h3 className="font-medium text-gray-900 text-base leading-tight">
-                          {location.name}
-                        </h3>
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-medium text-gray-900 text-base leading-tight">
+                            {branches.length > 1
+                              ? brands.get(location.brandId!)?.name || location.name
+                              : location.name}
+                          </h3>
+                          {branches.length > 1 && (
+                            <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium text-orange-700 bg-orange-50 rounded-full">
+                              {branches.length} locations
+                            </span>
+                          )}
+                        </div>
 
                         <div className="flex items-center gap-2 text-sm">
                           <div className="flex items-center gap-1">
@@ -514,6 +582,7 @@ export default function Home() {
                 location={selectedLocation}
                 variant="full"
                 onClose={() => setSelectedLocation(null)}
+                onSelectLocation={handleBranchSelect}
                 onDirections={() => { }}
                 onShare={() => { }}
                 onSave={() => { }}
@@ -529,12 +598,7 @@ export default function Home() {
         <Header
           onAddLocation={handleAddLocation}
           onSearch={handleSearch}
-          searchResults={searchResults.map((loc) => ({
-            id: loc.id,
-            name: loc.name,
-            address: loc.address,
-            isOpenNow: loc.isOpenNow,
-          }))}
+          searchResults={headerSearchResults}
           onSearchResultSelect={handleSearchResultSelect}
         />
       </div>
@@ -6,7 +6,7 @@ import { useAuth } from "@/contexts/FirebaseAuthContext";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRoles?: Array<"scout" | "mod" | "admin">;
+  requiredRoles?: Array<"scout" | "owner" | "mod" | "admin">;
   fallbackPath?: string;
   loadingComponent?: React.ReactNode;
 }
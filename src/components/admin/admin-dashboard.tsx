@@ -61,6 +61,7 @@ interface TopLocation {
   country: string;
   rating: number;
   reviewCount: number;
+  rankingScore: number; // Bayesian average used for the ordering
 }
 
 function AdminDashboard() {
@@ -425,6 +426,7 @@ function AdminDashboard() {
       <div className="bg-white rounded-lg shadow">
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-lg font-medium text-gray-900">Top Rated Locations</h3>
+          <p className="text-sm text-gray-500 mt-1">Ranked by rating weighted by review count</p>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -442,6 +444,9 @@ function AdminDashboard() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Reviews
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Score
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -465,6 +470,9 @@ function AdminDashboard() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {location.reviewCount}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {location.rankingScore.toFixed(2)}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -0,0 +1,325 @@
+"use client";
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowUturnLeftIcon,
+  ClockIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  MagnifyingGlassIcon,
+  MapPinIcon,
+} from '@heroicons/react/24/outline';
+import { AmalaLocation } from '@/types/location';
+import type { LocationRevision, RevisionActorType } from '@/types/revision';
+import { PROVENANCE_FIELDS, type ProvenanceField } from '@/types/provenance';
+
+const ACTOR_STYLES: Record<RevisionActorType, string> = {
+  user: 'bg-blue-100 text-blue-800',
+  owner: 'bg-teal-100 text-teal-800',
+  moderator: 'bg-purple-100 text-purple-800',
+  enrichment: 'bg-green-100 text-green-800',
+  discovery: 'bg-orange-100 text-orange-800',
+  system: 'bg-gray-100 text-gray-800',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatValue).join(', ') : '—';
+  if (typeof value === 'object') {
+    const seconds = (value as { _seconds?: number; seconds?: number })._seconds ?? (value as { seconds?: number }).seconds;
+    if (typeof seconds === 'number') return new Date(seconds * 1000).toLocaleString();
+    const { lat, lng } = value as { lat?: number; lng?: number };
+    if (typeof lat === 'number' && typeof lng === 'number') return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+function LocationRevisions() {
+  const { getIdToken } = useAuth();
+  const { success, error } = useToast();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<AmalaLocation[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [location, setLocation] = useState<AmalaLocation | null>(null);
+  const [revisions, setRevisions] = useState<LocationRevision[]>([]);
+  const [loadingRevisions, setLoadingRevisions] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [lockingField, setLockingField] = useState<ProvenanceField | null>(null);
+
+  const searchLocations = async () => {
+    const query = searchQuery.trim();
+    if (!query) return;
+    try {
+      setSearching(true);
+      const response = await fetch(`/api/locations?search=${encodeURIComponent(query)}&limit=10`);
+      const data = await response.json();
+      const results: AmalaLocation[] = data.success ? data.data : [];
+      setSearchResults(results);
+      // Not an approved location by name: try it as a location id
+      if (results.length === 0 && !query.includes(' ')) {
+        await loadLocation(query);
+      }
+    } catch (err) {
+      console.error('Error searching locations:', err);
+      error('Failed to search locations', 'Error');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const loadLocation = async (locationId: string) => {
+    try {
+      setLoadingRevisions(true);
+      const response = await fetch(`/api/admin/locations/${locationId}/revisions`, {
+        headers: { 'Authorization': `Bearer ${await getIdToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to load revisions', 'Error');
+        return;
+      }
+      setLocation(data.data.location);
+      setRevisions(data.data.revisions.map((revision: any) => ({
+        ...revision,
+        createdAt: new Date(revision.createdAt),
+      })));
+      setSearchResults([]);
+    } catch (err) {
+      console.error('Error loading revisions:', err);
+      error('Failed to load revisions', 'Error');
+    } finally {
+      setLoadingRevisions(false);
+    }
+  };
+
+  const rollback = async (revision: LocationRevision) => {
+    if (!location) return;
+    try {
+      setRollingBackId(revision.id);
+      const response = await fetch(`/api/admin/locations/${location.id}/revisions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await getIdToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ revisionId: revision.id }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to roll back', 'Rollback failed');
+        return;
+      }
+      success(data.message, `Rolled back to revision ${revision.version}`);
+      await loadLocation(location.id);
+    } catch (err) {
+      console.error('Error rolling back location:', err);
+      error('Failed to roll back', 'Rollback failed');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const toggleLock = async (field: ProvenanceField) => {
+    if (!location) return;
+    const locked = !(location.lockedFields || []).includes(field);
+    try {
+      setLockingField(field);
+      const response = await fetch('/api/moderation/locks', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await getIdToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ locationId: location.id, field, locked }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to update lock', 'Error');
+        return;
+      }
+      success(data.message, locked ? 'Field locked' : 'Field unlocked');
+      await loadLocation(location.id);
+    } catch (err) {
+      console.error('Error updating field lock:', err);
+      error('Failed to update lock', 'Error');
+    } finally {
+      setLockingField(null);
+    }
+  };
+
+  const latestVersion = revisions[0]?.version;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Location History</h1>
+        <div className="text-sm text-gray-500 mt-1">
+          Every change to a location, who made it, and one-click rollback
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && searchLocations()}
+            placeholder="Search by name or paste a location ID"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            onClick={searchLocations}
+            disabled={searching}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <MagnifyingGlassIcon className="w-4 h-4" />
+            Search
+          </button>
+        </div>
+        {searchResults.length > 0 && (
+          <ul className="border border-gray-200 rounded-md divide-y divide-gray-100">
+            {searchResults.map(result => (
+              <li key={result.id}>
+                <button
+                  onClick={() => loadLocation(result.id)}
+                  className="w-full text-left px-4 py-2 hover:bg-blue-50"
+                >
+                  <span className="font-medium text-gray-900">{result.name}</span>
+                  <span className="block text-xs text-gray-500">{result.address}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {loadingRevisions && (
+        <div className="text-center text-gray-500 py-8">Loading history...</div>
+      )}
+
+      {location && !loadingRevisions && (
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{location.name}</h2>
+                <p className="text-sm text-gray-600 flex items-center gap-1">
+                  <MapPinIcon className="w-4 h-4" />
+                  {location.address}
+                </p>
+              </div>
+              <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 capitalize">
+                {location.status}
+              </span>
+            </div>
+            <dl className="mt-3 grid grid-cols-2 gap-2 text-sm">
+              <div><dt className="text-gray-500 inline">Phone: </dt><dd className="inline">{formatValue(location.phone)}</dd></div>
+              <div><dt className="text-gray-500 inline">Website: </dt><dd className="inline break-all">{formatValue(location.website)}</dd></div>
+              <div><dt className="text-gray-500 inline">Revision: </dt><dd className="inline">{location.revision ?? '—'}</dd></div>
+              <div><dt className="text-gray-500 inline">ID: </dt><dd className="inline font-mono text-xs">{location.id}</dd></div>
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">Field sources</h3>
+              <p className="text-xs text-gray-500">Locked fields are never overwritten by enrichment</p>
+            </div>
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {PROVENANCE_FIELDS.map(field => {
+                  const provenance = location.provenance?.[field];
+                  const locked = (location.lockedFields || []).includes(field);
+                  return (
+                    <tr key={field}>
+                      <td className="px-4 py-2 font-medium text-gray-700 align-top w-32">{field}</td>
+                      <td className="px-4 py-2 text-gray-800 align-top break-words">{formatValue(location[field])}</td>
+                      <td className="px-4 py-2 align-top whitespace-nowrap">
+                        {provenance ? (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTOR_STYLES[provenance.source]}`}>
+                            {provenance.sourceId || provenance.source}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-400">unknown</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 align-top text-right">
+                        <button
+                          onClick={() => toggleLock(field)}
+                          disabled={lockingField !== null}
+                          title={locked ? 'Unlock field' : 'Lock field'}
+                          className={`p-1 rounded hover:bg-gray-100 disabled:opacity-50 ${locked ? 'text-gray-900' : 'text-gray-400'}`}
+                        >
+                          {locked ? <LockClosedIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {revisions.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+              No revisions recorded yet. Changes made from now on will appear here.
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {revisions.map(revision => (
+                <li key={revision.id} className="bg-white rounded-lg shadow p-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold text-gray-900">v{revision.version}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTOR_STYLES[revision.actor.type]}`}>
+                        {revision.actor.type}
+                      </span>
+                      <span className="text-gray-700 capitalize">{revision.action}</span>
+                      {revision.actor.id && <span className="text-gray-500">by {revision.actor.id}</span>}
+                      <span className="flex items-center gap-1 text-gray-400">
+                        <ClockIcon className="w-4 h-4" />
+                        {revision.createdAt.toLocaleString()}
+                      </span>
+                    </div>
+                    {revision.version !== latestVersion && (
+                      <button
+                        onClick={() => rollback(revision)}
+                        disabled={rollingBackId !== null || location.status === 'merged'}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <ArrowUturnLeftIcon className="w-4 h-4" />
+                        {rollingBackId === revision.id ? 'Restoring...' : 'Roll back to this'}
+                      </button>
+                    )}
+                  </div>
+                  {(revision.note || revision.rollbackOf) && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {revision.rollbackOf ? `Restored revision ${revision.rollbackOf.version}` : revision.note}
+                    </p>
+                  )}
+                  <table className="mt-3 w-full text-sm">
+                    <tbody className="divide-y divide-gray-100">
+                      {revision.changes.map(change => (
+                        <tr key={change.field}>
+                          <td className="py-1 pr-4 font-medium text-gray-700 align-top w-32">{change.field}</td>
+                          <td className="py-1 pr-4 text-red-700 align-top break-words">{formatValue(change.before)}</td>
+                          <td className="py-1 text-green-700 align-top break-words">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LocationRevisions;
@@ -0,0 +1,731 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  BeakerIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import {
+  CHECKABLE_FIELDS,
+  KEYWORD_FIELDS,
+  MODERATION_LANES,
+  REJECTION_REASON_CODES,
+  type DryRunOutcome,
+  type DryRunResult,
+  type DryRunSummary,
+  type ModerationRule,
+  type ModerationRuleInput,
+  type RuleAction,
+  type RuleCondition,
+  type RuleConditionType,
+} from '@/types/moderation-rules';
+import { ModerationRulesService } from '@/lib/services/moderation-rules';
+
+const ROLES = ['user', 'scout', 'owner', 'mod', 'admin'];
+
+const CONDITION_LABELS: Record<RuleConditionType, string> = {
+  source: 'Submission source',
+  submitter_role: 'Submitter role',
+  submitter_trust: 'Submitter track record',
+  trust_score: 'Submitter trust score',
+  duplicate_confidence: 'Duplicate confidence',
+  discovery_confidence: 'Discovery confidence',
+  missing_fields: 'Missing fields',
+  keywords: 'Keywords',
+};
+
+const DEFAULT_CONDITIONS: Record<RuleConditionType, RuleCondition> = {
+  source: { type: 'source', sources: ['user'] },
+  submitter_role: { type: 'submitter_role', roles: ['mod', 'admin'] },
+  submitter_trust: { type: 'submitter_trust', minApproved: 5, minApprovalRate: 0.9 },
+  trust_score: { type: 'trust_score', min: 100 },
+  duplicate_confidence: { type: 'duplicate_confidence', min: 0.95 },
+  discovery_confidence: { type: 'discovery_confidence', min: 0.9 },
+  missing_fields: { type: 'missing_fields', fields: ['phone', 'website'], match: 'all' },
+  keywords: { type: 'keywords', keywords: [], fields: ['name', 'description'], match: 'any' },
+};
+
+const DEFAULT_ACTIONS: Record<RuleAction['type'], RuleAction> = {
+  approve: { type: 'approve' },
+  reject: { type: 'reject', reasonCode: 'spam' },
+  route: { type: 'route', queue: 'senior' },
+};
+
+const OUTCOME_STYLES: Record<DryRunOutcome, string> = {
+  agree: 'bg-green-100 text-green-800',
+  disagree: 'bg-red-100 text-red-800',
+  routed: 'bg-blue-100 text-blue-800',
+  no_rule: 'bg-gray-100 text-gray-700',
+};
+
+type RuleDraft = ModerationRuleInput & { id?: string };
+
+const emptyDraft = (): RuleDraft => ({
+  name: '',
+  enabled: true,
+  priority: 100,
+  conditions: [DEFAULT_CONDITIONS.duplicate_confidence],
+  action: DEFAULT_ACTIONS.reject,
+});
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const parseBound = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+// Keywords are edited as raw comma-separated text and cleaned up on save
+const cleanDraft = ({ id: _id, ...draft }: RuleDraft): ModerationRuleInput => ({
+  ...draft,
+  conditions: draft.conditions.map(condition =>
+    condition.type === 'keywords'
+      ? { ...condition, keywords: condition.keywords.map(keyword => keyword.trim()).filter(Boolean) }
+      : condition
+  ),
+});
+
+function ModerationRules() {
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+  const [rules, setRules] = useState<ModerationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+  const [dryRunLimit, setDryRunLimit] = useState(50);
+  const [dryRunning, setDryRunning] = useState(false);
+  const [dryRun, setDryRun] = useState<{ label: string; results: DryRunResult[]; summary: DryRunSummary } | null>(null);
+  const [onlyDisagreements, setOnlyDisagreements] = useState(false);
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${await getIdToken()}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    const data = await response.json();
+    return { ok: response.ok && data.success, data };
+  };
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const { ok, data } = await request('/api/admin/moderation-rules');
+      if (!ok) {
+        error(data.error || 'Failed to load rules', 'Error');
+        return;
+      }
+      setRules(data.data);
+    } catch (err) {
+      console.error('Error loading moderation rules:', err);
+      error('Failed to load rules', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchRules();
+  }, [user]);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      const { ok, data } = await request(
+        draft.id ? `/api/admin/moderation-rules/${draft.id}` : '/api/admin/moderation-rules',
+        { method: draft.id ? 'PATCH' : 'POST', body: JSON.stringify(cleanDraft(draft)) }
+      );
+      if (!ok) {
+        const details = Array.isArray(data.details)
+          ? data.details.map((issue: any) => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+          : undefined;
+        error(details || data.error || 'Failed to save rule', 'Invalid rule');
+        return;
+      }
+      success(data.message, 'Rule saved');
+      setDraft(null);
+      await fetchRules();
+    } catch (err) {
+      console.error('Error saving moderation rule:', err);
+      error('Failed to save rule', 'Error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setEnabled = async (rule: ModerationRule, enabled: boolean) => {
+    try {
+      setBusyRuleId(rule.id);
+      const { ok, data } = await request(`/api/admin/moderation-rules/${rule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled }),
+      });
+      if (!ok) {
+        error(data.error || 'Failed to update rule', 'Error');
+        return;
+      }
+      setRules(rules.map(item => (item.id === rule.id ? data.data : item)));
+    } catch (err) {
+      console.error('Error updating moderation rule:', err);
+      error('Failed to update rule', 'Error');
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const deleteRule = async (rule: ModerationRule) => {
+    try {
+      setBusyRuleId(rule.id);
+      const { ok, data } = await request(`/api/admin/moderation-rules/${rule.id}`, { method: 'DELETE' });
+      if (!ok) {
+        error(data.error || 'Failed to delete rule', 'Error');
+        return;
+      }
+      success(`"${rule.name}" will no longer run`, 'Rule deleted');
+      setRules(rules.filter(item => item.id !== rule.id));
+    } catch (err) {
+      console.error('Error deleting moderation rule:', err);
+      error('Failed to delete rule', 'Error');
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const runDryRun = async (label: string, draftRules?: ModerationRuleInput[]) => {
+    try {
+      setDryRunning(true);
+      const { ok, data } = await request('/api/admin/moderation-rules/dry-run', {
+        method: 'POST',
+        body: JSON.stringify({ limit: dryRunLimit, ...(draftRules ? { rules: draftRules } : {}) }),
+      });
+      if (!ok) {
+        error(data.error || 'Dry run failed', 'Error');
+        return;
+      }
+      setDryRun({
+        label,
+        summary: data.data.summary,
+        results: data.data.results.map((result: any) => ({ ...result, decidedAt: new Date(result.decidedAt) })),
+      });
+    } catch (err) {
+      console.error('Error running moderation rule dry run:', err);
+      error('Dry run failed', 'Error');
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((item, i) => (i === index ? condition : item)) });
+  };
+
+  const renderConditionInputs = (condition: RuleCondition, index: number) => {
+    const update = (changes: Partial<RuleCondition>) =>
+      updateCondition(index, { ...condition, ...changes } as RuleCondition);
+
+    switch (condition.type) {
+      case 'source':
+        return (['user', 'discovery'] as const).map(source => (
+          <label key={source} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={condition.sources.includes(source)}
+              onChange={() => update({ sources: toggle(condition.sources, source) })}
+            />
+            {source}
+          </label>
+        ));
+      case 'submitter_role':
+        return ROLES.map(role => (
+          <label key={role} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={condition.roles.includes(role)}
+              onChange={() => update({ roles: toggle(condition.roles, role) })}
+            />
+            {role}
+          </label>
+        ));
+      case 'submitter_trust':
+        return (
+          <>
+            <label className="text-sm">
+              Min approved{' '}
+              <input
+                type="number"
+                min={0}
+                value={condition.minApproved ?? ''}
+                onChange={(e) => update({ minApproved: parseBound(e.target.value) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="text-sm">
+              Min approval rate{' '}
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={condition.minApprovalRate ?? ''}
+                onChange={(e) => update({ minApprovalRate: parseBound(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="text-sm">
+              Max rejected{' '}
+              <input
+                type="number"
+                min={0}
+                value={condition.maxRejected ?? ''}
+                onChange={(e) => update({ maxRejected: parseBound(e.target.value) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+          </>
+        );
+      case 'trust_score':
+        return (
+          <>
+            <label className="text-sm">
+              Min{' '}
+              <input
+                type="number"
+                value={condition.min ?? ''}
+                onChange={(e) => update({ min: parseBound(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="text-sm">
+              Max{' '}
+              <input
+                type="number"
+                value={condition.max ?? ''}
+                onChange={(e) => update({ max: parseBound(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+          </>
+        );
+      case 'duplicate_confidence':
+      case 'discovery_confidence':
+        return (
+          <>
+            <label className="text-sm">
+              Min{' '}
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={condition.min ?? ''}
+                onChange={(e) => update({ min: parseBound(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="text-sm">
+              Max{' '}
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={condition.max ?? ''}
+                onChange={(e) => update({ max: parseBound(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+          </>
+        );
+      case 'missing_fields':
+        return (
+          <>
+            <select
+              value={condition.match}
+              onChange={(e) => update({ match: e.target.value as 'any' | 'all' })}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="any">any of</option>
+              <option value="all">all of</option>
+            </select>
+            {CHECKABLE_FIELDS.map(field => (
+              <label key={field} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={condition.fields.includes(field)}
+                  onChange={() => update({ fields: toggle(condition.fields, field) })}
+                />
+                {field}
+              </label>
+            ))}
+          </>
+        );
+      case 'keywords':
+        return (
+          <>
+            <select
+              value={condition.match}
+              onChange={(e) => update({ match: e.target.value as 'any' | 'none' })}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="any">mentions any of</option>
+              <option value="none">mentions none of</option>
+            </select>
+            <input
+              type="text"
+              value={condition.keywords.join(',')}
+              onChange={(e) => update({ keywords: e.target.value.split(',') })}
+              placeholder="casino, free money"
+              className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            {KEYWORD_FIELDS.map(field => (
+              <label key={field} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={condition.fields.includes(field)}
+                  onChange={() => update({ fields: toggle(condition.fields, field) })}
+                />
+                {field}
+              </label>
+            ))}
+          </>
+        );
+    }
+  };
+
+  const visibleResults = dryRun
+    ? dryRun.results.filter(result => !onlyDisagreements || result.outcome === 'disagree')
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Moderation Rules</h1>
+          <p className="text-gray-600">
+            Rules run on every new location in priority order; the first match approves, rejects or routes it.
+            Unmatched submissions wait for a moderator.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(emptyDraft())}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 shrink-0"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New rule
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Rule name"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="text-sm text-gray-700">
+              Priority{' '}
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={draft.priority}
+                onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-700">When all of these hold</h3>
+            {draft.conditions.map((condition, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-3 border border-gray-200 rounded-md p-2">
+                <select
+                  value={condition.type}
+                  onChange={(e) => updateCondition(index, DEFAULT_CONDITIONS[e.target.value as RuleConditionType])}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                {renderConditionInputs(condition, index)}
+                {draft.conditions.length > 1 && (
+                  <button
+                    onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                    title="Remove condition"
+                    className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, DEFAULT_CONDITIONS.source] })}
+              className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Add condition
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <h3 className="text-sm font-semibold text-gray-700">Then</h3>
+            <select
+              value={draft.action.type}
+              onChange={(e) => setDraft({ ...draft, action: DEFAULT_ACTIONS[e.target.value as RuleAction['type']] })}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="approve">Approve</option>
+              <option value="reject">Reject</option>
+              <option value="route">Route to queue</option>
+            </select>
+            {draft.action.type === 'reject' && (
+              <select
+                value={draft.action.reasonCode}
+                onChange={(e) => setDraft({ ...draft, action: { type: 'reject', reasonCode: e.target.value as typeof REJECTION_REASON_CODES[number] } })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {REJECTION_REASON_CODES.map(code => (
+                  <option key={code} value={code}>{code.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            )}
+            {draft.action.type === 'route' && (
+              <select
+                value={draft.action.queue}
+                onChange={(e) => setDraft({ ...draft, action: { type: 'route', queue: e.target.value as typeof MODERATION_LANES[number] } })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {MODERATION_LANES.map(lane => (
+                  <option key={lane} value={lane}>{lane}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => runDryRun(draft.name || 'Draft rule', [{ ...cleanDraft(draft), enabled: true }])}
+              disabled={dryRunning}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 flex items-center gap-1"
+            >
+              <BeakerIcon className="w-4 h-4" />
+              Dry run this rule
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={saving || !draft.name.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : draft.id ? 'Save changes' : 'Create rule'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No rules yet. Every submission waits for a moderator.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {rules.map(rule => (
+              <li key={rule.id} className={`p-4 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs font-mono text-gray-500">#{rule.priority}</span>
+                      <span className="font-semibold text-gray-900">{rule.name}</span>
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        {ModerationRulesService.describeAction(rule.action)}
+                      </span>
+                      {!rule.enabled && <span className="text-xs text-gray-500">disabled</span>}
+                    </div>
+                    <ul className="text-sm text-gray-600 list-disc list-inside">
+                      {rule.conditions.map((condition, i) => (
+                        <li key={i}>{ModerationRulesService.describeCondition(condition)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        disabled={busyRuleId === rule.id}
+                        onChange={(e) => setEnabled(rule, e.target.checked)}
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      onClick={() => setDraft({
+                        id: rule.id,
+                        name: rule.name,
+                        enabled: rule.enabled,
+                        priority: rule.priority,
+                        conditions: rule.conditions,
+                        action: rule.action,
+                      })}
+                      title="Edit rule"
+                      className="p-1 text-gray-500 hover:text-blue-600"
+                    >
+                      <PencilSquareIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      disabled={busyRuleId === rule.id}
+                      title="Delete rule"
+                      className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                    >
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Dry run</h2>
+            <p className="text-sm text-gray-500">Replay rules against recent moderator decisions. Nothing is changed.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-700">
+              Last{' '}
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={dryRunLimit}
+                onChange={(e) => setDryRunLimit(Math.min(200, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+              {' '}decisions
+            </label>
+            <button
+              onClick={() => runDryRun('Saved rules')}
+              disabled={dryRunning}
+              className="px-4 py-2 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 flex items-center gap-1"
+            >
+              <BeakerIcon className="w-4 h-4" />
+              {dryRunning ? 'Running...' : 'Dry run saved rules'}
+            </button>
+          </div>
+        </div>
+
+        {dryRun && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+              <div className="rounded-md bg-gray-50 p-3">
+                <div className="text-2xl font-bold text-gray-900">{dryRun.summary.evaluated}</div>
+                <div className="text-xs text-gray-500">{dryRun.label}: decisions replayed</div>
+              </div>
+              {(Object.keys(OUTCOME_STYLES) as DryRunOutcome[]).map(outcome => (
+                <div key={outcome} className={`rounded-md p-3 ${OUTCOME_STYLES[outcome]}`}>
+                  <div className="text-2xl font-bold">{dryRun.summary.outcomes[outcome]}</div>
+                  <div className="text-xs capitalize">{outcome.replace('_', ' ')}</div>
+                </div>
+              ))}
+            </div>
+
+            {Object.keys(dryRun.summary.byRule).length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Rule</th>
+                    <th className="py-1 pr-4 font-medium">Matched</th>
+                    <th className="py-1 pr-4 font-medium">Agreed</th>
+                    <th className="py-1 font-medium">Disagreed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {Object.entries(dryRun.summary.byRule).map(([ruleId, stats]) => (
+                    <tr key={ruleId}>
+                      <td className="py-1 pr-4 text-gray-900">{stats.name}</td>
+                      <td className="py-1 pr-4">{stats.matched}</td>
+                      <td className="py-1 pr-4 text-green-700">{stats.agreed}</td>
+                      <td className="py-1 text-red-700">{stats.disagreed}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyDisagreements}
+                onChange={(e) => setOnlyDisagreements(e.target.checked)}
+              />
+              Only show disagreements
+            </label>
+
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {visibleResults.length === 0 && (
+                <li className="p-3 text-sm text-gray-500 text-center">Nothing to show</li>
+              )}
+              {visibleResults.map(result => (
+                <li key={result.logId} className="p-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[result.outcome]}`}>
+                      {result.outcome.replace('_', ' ')}
+                    </span>
+                    <span className="font-medium text-gray-900">{result.locationName}</span>
+                    <span className="text-gray-500">
+                      {result.moderatorName} chose {result.moderatorAction} on {result.decidedAt.toLocaleDateString()}
+                    </span>
+                    {result.signals === 'reconstructed' && (
+                      <span className="text-xs text-gray-400" title="Submitted before signals were recorded">
+                        reconstructed
+                      </span>
+                    )}
+                  </div>
+                  {result.decision && (
+                    <p className="mt-1 text-gray-600">
+                      {result.decision.ruleName} would {ModerationRulesService.describeAction(result.decision.action).toLowerCase()}: {result.decision.reasons.join('; ')}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ModerationRules;
@@ -318,6 +318,7 @@ function UserManagement() {
       case 'admin': return 'bg-red-100 text-red-800';
       case 'mod': return 'bg-purple-100 text-purple-800';
       case 'scout': return 'bg-blue-100 text-blue-800';
+      case 'owner': return 'bg-teal-100 text-teal-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -458,6 +459,7 @@ function UserManagement() {
                 <option value="admin">Admin</option>
                 <option value="mod">Moderator</option>
                 <option value="scout">Scout</option>
+                <option value="owner">Owner</option>
                 <option value="user">User</option>
               </select>
 
@@ -8,12 +8,18 @@ import {
   XMarkIcon as X,
   ChevronDownIcon as ChevronDown,
   BuildingStorefrontIcon as RestaurantIcon,
+  CalendarDaysIcon as Calendar,
+  CakeIcon as Dish,
 } from "@heroicons/react/24/outline";
 import { LocationFilter } from "@/types/location";
+import { DISH_TAXONOMY, type DishId } from "@/types/menu";
+import { convertFromSmallestUnit, convertToSmallestUnit, getCurrencySymbol } from "@/lib/currency-utils";
+import { DEFAULT_DISH_CURRENCY, getDishLabel } from "@/lib/utils/menu";
 
 // Define the types inline since they're not exported from the location types
 type PriceRange = "$" | "$$" | "$$$" | "$$$$";
 type ServiceType = "dine-in" | "takeaway" | "both" | "all";
+type OpenAtDay = NonNullable<LocationFilter["openAt"]>["day"];
 
 interface CentralFiltersProps {
   filters: LocationFilter;
@@ -24,13 +30,28 @@ export function CentralFilters({
   filters,
   onFilterChange,
 }: CentralFiltersProps) {
-  const { isOpenNow = false, serviceType = "all", priceRange = [] } = filters;
+  const {
+    isOpenNow = false,
+    serviceType = "all",
+    priceRange = [],
+    openAt,
+    openingSoon = false,
+    closingSoon = false,
+    dish,
+    maxDishPrice,
+  } = filters;
   const [showServiceDropdown, setShowServiceDropdown] = useState(false);
   const [showPriceDropdown, setShowPriceDropdown] = useState(false);
+  const [showHoursDropdown, setShowHoursDropdown] = useState(false);
+  const [showDishDropdown, setShowDishDropdown] = useState(false);
   const serviceDropdownRef = useRef<HTMLDivElement>(null);
   const priceDropdownRef = useRef<HTMLDivElement>(null);
+  const hoursDropdownRef = useRef<HTMLDivElement>(null);
+  const dishDropdownRef = useRef<HTMLDivElement>(null);
 
-  const hasActiveFilters = isOpenNow || serviceType !== "all" || priceRange.length > 0;
+  const hasHoursFilters = !!openAt || openingSoon || closingSoon;
+  const hasDishFilters = !!dish || maxDishPrice !== undefined;
+  const hasActiveFilters = isOpenNow || serviceType !== "all" || priceRange.length > 0 || hasHoursFilters || hasDishFilters;
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -41,6 +62,12 @@ export function CentralFilters({
       if (priceDropdownRef.current && !priceDropdownRef.current.contains(event.target as Node)) {
         setShowPriceDropdown(false);
       }
+      if (hoursDropdownRef.current && !hoursDropdownRef.current.contains(event.target as Node)) {
+        setShowHoursDropdown(false);
+      }
+      if (dishDropdownRef.current && !dishDropdownRef.current.contains(event.target as Node)) {
+        setShowDishDropdown(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -63,11 +90,30 @@ export function CentralFilters({
     onFilterChange({ ...filters, priceRange: newPriceRange });
   };
 
+  const handleOpenAtChange = (value: LocationFilter["openAt"]) => {
+    onFilterChange({ ...filters, openAt: value });
+  };
+
+  // Dish prices are entered in naira and filtered in kobo
+  const handleMaxDishPriceChange = (value: string) => {
+    const amount = Number(value);
+    onFilterChange({
+      ...filters,
+      maxDishPrice: value !== "" && amount > 0 ? convertToSmallestUnit(amount, DEFAULT_DISH_CURRENCY) : undefined,
+      dishCurrency: DEFAULT_DISH_CURRENCY,
+    });
+  };
+
   const clearFilters = () => {
     onFilterChange({
       isOpenNow: false,
       serviceType: "all",
       priceRange: [],
+      openAt: undefined,
+      openingSoon: false,
+      closingSoon: false,
+      dish: undefined,
+      maxDishPrice: undefined,
     });
   };
 
@@ -85,6 +131,42 @@ export function CentralFilters({
     { value: "$$$$", label: "$$$$", description: "Very Expensive" },
   ];
 
+  const weekDays: { value: OpenAtDay; label: string }[] = [
+    { value: "monday", label: "Monday" },
+    { value: "tuesday", label: "Tuesday" },
+    { value: "wednesday", label: "Wednesday" },
+    { value: "thursday", label: "Thursday" },
+    { value: "friday", label: "Friday" },
+    { value: "saturday", label: "Saturday" },
+    { value: "sunday", label: "Sunday" },
+  ];
+
+  // Half-hour slots for the "open at" picker
+  const timeSlots = Array.from({ length: 48 }, (_, i) =>
+    `${String(Math.floor(i / 2)).padStart(2, "0")}:${i % 2 === 0 ? "00" : "30"}`
+  );
+
+  const getHoursLabel = () => {
+    if (openAt) {
+      const day = weekDays.find(d => d.value === openAt.day)?.label.slice(0, 3);
+      return `Open ${day} ${openAt.time}`;
+    }
+    if (openingSoon && closingSoon) return "Opening/closing soon";
+    if (openingSoon) return "Opening soon";
+    if (closingSoon) return "Closing soon";
+    return "Hours";
+  };
+
+  const getDishFilterLabel = () => {
+    const price = maxDishPrice !== undefined
+      ? `${getCurrencySymbol(DEFAULT_DISH_CURRENCY)}${convertFromSmallestUnit(maxDishPrice, DEFAULT_DISH_CURRENCY).toLocaleString()}`
+      : null;
+    if (dish && price) return `${getDishLabel(dish).split(" (")[0]} under ${price}`;
+    if (dish) return getDishLabel(dish).split(" (")[0];
+    if (price) return `Plates under ${price}`;
+    return "Dish";
+  };
+
   const getServiceTypeLabel = () => {
     const service = serviceTypes.find(s => s.value === serviceType);
     return service?.label || "Service Type";
@@ -186,6 +268,132 @@ export function CentralFilters({
           )}
         </div>
 
+        {/* Hours Dropdown: open at a given time, opening/closing soon */}
+        <div className="relative" ref={hoursDropdownRef}>
+          <button
+            onClick={() => setShowHoursDropdown(!showHoursDropdown)}
+            className={`p-3 xl:px-3 xl:py-2 text-xs sm:text-sm font-medium rounded-full transition-all duration-200 flex items-center gap-1 sm:gap-2 shadow-lg backdrop-blur-sm border ${hasHoursFilters
+                ? "bg-[var(--primary)] text-[var(--primary-foreground)] border-[var(--primary)]"
+                : "bg-white/90 text-gray-700 dark:text-gray-200 border-gray-200/50 dark:border-gray-700/50 hover:bg-white dark:hover:bg-gray-800 hover:shadow-xl"
+              }`}
+            title={getHoursLabel()}
+          >
+            <Calendar className="h-4 w-4" />
+            <span className="hidden xl:inline">{getHoursLabel()}</span>
+            <ChevronDown className={`h-4 w-4 transition-transform ${showHoursDropdown ? 'rotate-180' : ''} hidden xl:block`} />
+          </button>
+
+          {showHoursDropdown && (
+            <div className="absolute top-full xl:mt-2 left-0 xl:left-0 mt-2 bg-white rounded-lg shadow-xl border border-gray-200 py-2 min-w-[220px] z-50">
+              {[
+                { key: "openingSoon" as const, label: "Opening soon", active: openingSoon },
+                { key: "closingSoon" as const, label: "Closing soon", active: closingSoon },
+              ].map((option) => (
+                <button
+                  key={option.key}
+                  onClick={() => onFilterChange({ ...filters, [option.key]: !option.active })}
+                  className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center justify-between ${option.active
+                      ? 'bg-[var(--primary)]/10 text-[var(--primary)] dark:bg-[var(--primary)]/20 dark:text-[var(--primary-foreground)]'
+                      : 'text-gray-700 dark:text-gray-200'
+                    }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="text-xs text-gray-500">within 1 hour</span>
+                  </div>
+                  {option.active && (
+                    <div className="w-2 h-2 bg-[var(--primary)] rounded-full" />
+                  )}
+                </button>
+              ))}
+
+              <div className="border-t border-gray-100 mt-2 pt-2 px-4 pb-1">
+                <div className="text-xs font-medium text-gray-500 mb-2">Open at</div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={openAt?.day ?? ""}
+                    onChange={(e) =>
+                      handleOpenAtChange(
+                        e.target.value
+                          ? { day: e.target.value as OpenAtDay, time: openAt?.time ?? "21:00" }
+                          : undefined
+                      )
+                    }
+                    className="flex-1 text-sm border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700"
+                  >
+                    <option value="">Any day</option>
+                    {weekDays.map((day) => (
+                      <option key={day.value} value={day.value}>{day.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={openAt?.time ?? "21:00"}
+                    disabled={!openAt}
+                    onChange={(e) => openAt && handleOpenAtChange({ ...openAt, time: e.target.value })}
+                    className="text-sm border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700 disabled:opacity-50"
+                  >
+                    {timeSlots.map((slot) => (
+                      <option key={slot} value={slot}>{slot}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">Local time at each spot</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Dish Dropdown: spots with a dish on the menu, optionally under a price */}
+        <div className="relative" ref={dishDropdownRef}>
+          <button
+            onClick={() => setShowDishDropdown(!showDishDropdown)}
+            className={`p-3 xl:px-3 xl:py-2 text-xs sm:text-sm font-medium rounded-full transition-all duration-200 flex items-center gap-1 sm:gap-2 shadow-lg backdrop-blur-sm border ${hasDishFilters
+                ? "bg-[var(--primary)] text-[var(--primary-foreground)] border-[var(--primary)]"
+                : "bg-white/90 text-gray-700 dark:text-gray-200 border-gray-200/50 dark:border-gray-700/50 hover:bg-white dark:hover:bg-gray-800 hover:shadow-xl"
+              }`}
+            title={getDishFilterLabel()}
+          >
+            <Dish className="h-4 w-4" />
+            <span className="hidden xl:inline">{getDishFilterLabel()}</span>
+            <ChevronDown className={`h-4 w-4 transition-transform ${showDishDropdown ? 'rotate-180' : ''} hidden xl:block`} />
+          </button>
+
+          {showDishDropdown && (
+            <div className="absolute top-full xl:mt-2 left-0 xl:left-0 mt-2 bg-white rounded-lg shadow-xl border border-gray-200 py-2 min-w-[220px] z-50">
+              <div className="px-4 pb-1">
+                <div className="text-xs font-medium text-gray-500 mb-2">On the menu</div>
+                <select
+                  value={dish ?? ""}
+                  onChange={(e) => onFilterChange({ ...filters, dish: (e.target.value || undefined) as DishId | undefined })}
+                  className="w-full text-sm border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700"
+                >
+                  <option value="">Any dish</option>
+                  {DISH_TAXONOMY.map((entry) => (
+                    <option key={entry.id} value={entry.id}>{entry.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="border-t border-gray-100 mt-2 pt-2 px-4 pb-1">
+                <div className="text-xs font-medium text-gray-500 mb-2">Max price per plate</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500">{getCurrencySymbol(DEFAULT_DISH_CURRENCY)}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={maxDishPrice !== undefined ? convertFromSmallestUnit(maxDishPrice, DEFAULT_DISH_CURRENCY) : ""}
+                    onChange={(e) => handleMaxDishPriceChange(e.target.value)}
+                    placeholder="2000"
+                    className="flex-1 text-sm border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700"
+                  />
+                </div>
+                <p className="text-xs text-gray-400 mt-2">From menus kept up to date by scouts and owners</p>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Clear All Filters */}
         {hasActiveFilters && (
           <button
@@ -0,0 +1,320 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { AmalaLocation } from "@/types/location";
+import type { ClaimantRelationship, ClaimProofMethod, OwnershipClaim } from "@/types/claim";
+
+interface ClaimListingFormProps {
+  location: AmalaLocation;
+  onCancel?: () => void;
+}
+
+const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Claim a spot as its owner or manager, and follow the claim through
+ * verification: enter the callback code, or wait for a moderator to check
+ * the document.
+ */
+export function ClaimListingForm({ location, onCancel }: ClaimListingFormProps) {
+  const { user, getIdToken } = useAuth();
+  const { success, error: showError } = useToast();
+  const [claim, setClaim] = useState<OwnershipClaim | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [relationship, setRelationship] = useState<ClaimantRelationship>("owner");
+  const [proofMethod, setProofMethod] = useState<ClaimProofMethod>(location.phone ? "phone_callback" : "document");
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [contactPhone, setContactPhone] = useState("");
+  const [message, setMessage] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchClaim = async () => {
+    try {
+      const token = await getIdToken();
+      const response = await fetch("/api/claims", {
+        headers: { "Authorization": `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        const forLocation = (data.data as OwnershipClaim[]).filter((c) => c.locationId === location.id);
+        // A rejected claim can be followed by a new one, so only a live claim is shown
+        setClaim(forLocation.find((c) => c.status !== "rejected") || null);
+      }
+    } catch (err) {
+      console.error("Error fetching ownership claims:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchClaim();
+    else setIsLoading(false);
+  }, [user?.id, location.id]);
+
+  const uploadDocument = async (token: string | null): Promise<string | null> => {
+    if (!documentFile || !user) return null;
+    const formData = new FormData();
+    formData.append("file", documentFile);
+    formData.append("locationId", location.id);
+    formData.append("userId", user.id);
+
+    const response = await fetch("/api/reviews/upload-image", {
+      method: "POST",
+      headers: token ? { "Authorization": `Bearer ${token}` } : {},
+      body: formData,
+    });
+    if (!response.ok) return null;
+    const result = await response.json();
+    return result.imageUrl || null;
+  };
+
+  const submitClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (proofMethod === "document" && !documentFile) {
+      showError("Add a photo of a document that shows you run this spot", "Proof needed");
+      return;
+    }
+    if (documentFile && documentFile.size > MAX_DOCUMENT_SIZE) {
+      showError("The document photo is too large (max 5MB)", "Upload Error");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const token = await getIdToken();
+      let documentUrl: string | undefined;
+      if (proofMethod === "document") {
+        const uploaded = await uploadDocument(token);
+        if (!uploaded) {
+          showError("Failed to upload the document photo", "Upload Error");
+          return;
+        }
+        documentUrl = uploaded;
+      }
+
+      const response = await fetch(`/api/locations/${location.id}/claims`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          relationship,
+          proofMethod,
+          documentUrl,
+          contactPhone: contactPhone.trim() || undefined,
+          message: message.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        showError(data.details?.[0]?.message || data.error || "Failed to submit claim", "Claim not sent");
+        return;
+      }
+
+      success(data.message, "Claim submitted");
+      setClaim(data.data);
+    } catch (err) {
+      console.error("Error submitting ownership claim:", err);
+      showError("Failed to submit claim", "Error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!claim) return;
+
+    setIsSubmitting(true);
+    try {
+      const token = await getIdToken();
+      const response = await fetch(`/api/claims/${claim.id}/verify`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        showError(data.details?.[0]?.message || data.error || "Failed to confirm code", "Code not confirmed");
+        return;
+      }
+
+      success(data.message, "Code confirmed");
+      setClaim(data.data);
+      setCode("");
+    } catch (err) {
+      console.error("Error confirming callback code:", err);
+      showError("Failed to confirm code", "Error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500";
+
+  const renderStatus = () => {
+    if (!claim) return null;
+    if (claim.status === "approved") {
+      return (
+        <p className="text-sm text-gray-700">
+          You manage {location.name}. Your hours, menu and photo updates go live straight away.
+        </p>
+      );
+    }
+    if (claim.proofMethod === "phone_callback" && !claim.callbackVerifiedAt) {
+      return (
+        <form onSubmit={confirmCode} className="space-y-3">
+          <p className="text-sm text-gray-700">
+            A moderator will call {claim.callbackPhone} with a 6-digit code. Enter it here to confirm the claim.
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            placeholder="123456"
+            className={`${inputClass} tracking-widest`}
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || code.length !== 6}
+            className="w-full px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSubmitting ? "Confirming..." : "Confirm code"}
+          </button>
+        </form>
+      );
+    }
+    return (
+      <p className="text-sm text-gray-700">
+        Your claim is waiting for a moderator. We&apos;ll let you know when it&apos;s decided.
+      </p>
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-lg shadow-lg max-w-md w-full mx-auto max-h-[90vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Claim this spot</h3>
+          <p className="text-sm text-gray-600">
+            Run {location.name}? Verified owners keep their hours, menu and photos up to date.
+          </p>
+        </div>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {!user ? (
+        <div className="text-center text-gray-600">Please sign in to claim this spot</div>
+      ) : isLoading ? (
+        <div className="text-center text-sm text-gray-500">Loading...</div>
+      ) : claim ? (
+        renderStatus()
+      ) : (
+        <form onSubmit={submitClaim} className="space-y-3">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">I am the</span>
+            <select
+              value={relationship}
+              onChange={(e) => setRelationship(e.target.value as ClaimantRelationship)}
+              className={inputClass}
+            >
+              <option value="owner">Owner</option>
+              <option value="manager">Manager</option>
+            </select>
+          </label>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">How should we check?</legend>
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="radio"
+                checked={proofMethod === "phone_callback"}
+                disabled={!location.phone}
+                onChange={() => setProofMethod("phone_callback")}
+                className="mt-1"
+              />
+              <span className={location.phone ? "text-gray-700" : "text-gray-400"}>
+                Call the spot{location.phone ? ` on ${location.phone}` : " (no phone number listed)"} with a code
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={proofMethod === "document"}
+                onChange={() => setProofMethod("document")}
+                className="mt-1"
+              />
+              <span>Photo of a document, such as a business registration, utility bill or signage permit</span>
+            </label>
+          </fieldset>
+
+          {proofMethod === "document" && (
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-gray-700"
+            />
+          )}
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Your phone (optional)</span>
+            <input
+              type="tel"
+              value={contactPhone}
+              onChange={(e) => setContactPhone(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Anything moderators should know (optional)</span>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={2}
+              maxLength={500}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="flex justify-end gap-2">
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSubmitting ? "Submitting..." : "Submit claim"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
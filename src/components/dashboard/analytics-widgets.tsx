@@ -9,9 +9,16 @@ import {
   ClockIcon,
   CheckCircleIcon,
   XCircleIcon,
-  EyeIcon
+  EyeIcon,
+  ShareIcon,
+  PhotoIcon,
+  MagnifyingGlassIcon,
+  StarIcon
 } from '@heroicons/react/24/outline';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
+import type { CityPriceIndex } from '@/types/price';
+import { OWNER_INSIGHT_EVENTS, type LocationInsights, type OwnerInsightMetric } from '@/types/insights';
+import { convertFromSmallestUnit, formatPrice, getCurrencySymbol } from '@/lib/currency-utils';
 
 // Helper function to fetch real timeline data
 async function fetchTimelineData(userEmail?: string) {
@@ -390,3 +397,250 @@ export function SystemAnalyticsWidget({ isAdmin = false }: SystemAnalyticsProps)
     </div>
   );
 }
+
+/**
+ * The Amala Price Index: a city's monthly median plate price, in local
+ * currency or normalised to US dollars for comparing cities
+ */
+export function PriceIndexWidget() {
+  const [index, setIndex] = useState<CityPriceIndex[]>([]);
+  const [city, setCity] = useState('');
+  const [months, setMonths] = useState(12);
+  const [inUsd, setInUsd] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchIndex = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/analytics/price-index?months=${months}`);
+        if (response.ok) {
+          const data = await response.json();
+          setIndex(data.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch price index:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchIndex();
+  }, [months]);
+
+  const selected = index.find(entry => entry.city === city) || index[0];
+  const currency = inUsd ? 'USD' : selected?.currency || 'USD';
+  const chartData = (selected?.points || []).map(point => ({
+    month: new Date(`${point.month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' }),
+    median: convertFromSmallestUnit(inUsd ? point.medianUsd : point.median, currency),
+    locations: point.locations,
+  }));
+  const latest = selected?.points[selected.points.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Amala Price Index</h3>
+          <p className="text-sm text-gray-500">
+            Median plate price across spots, by month
+            {latest && ` · latest ${formatPrice(inUsd ? latest.medianUsd : latest.median, currency)} from ${latest.locations} spot${latest.locations === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={selected?.city || ''}
+            onChange={(e) => setCity(e.target.value)}
+            disabled={index.length === 0}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            {index.map(entry => (
+              <option key={entry.city} value={entry.city}>{entry.city}</option>
+            ))}
+          </select>
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            <option value={6}>6 months</option>
+            <option value={12}>12 months</option>
+            <option value={24}>24 months</option>
+          </select>
+          <button
+            onClick={() => setInUsd(!inUsd)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {inUsd ? 'Local currency' : 'In USD'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-64 bg-gray-100 rounded animate-pulse" />
+      ) : chartData.length === 0 ? (
+        <div className="h-64 flex items-center justify-center text-gray-500">
+          No price observations yet
+        </div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis />
+              <Tooltip formatter={(value) => [`${getCurrencySymbol(currency)}${Number(value).toLocaleString()}`, 'Median plate']} />
+              <Line type="monotone" dataKey="median" stroke="#f97316" strokeWidth={2} name="Median plate" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {inUsd && (
+        <p className="text-xs text-gray-400 mt-2">USD values use fixed reference exchange rates</p>
+      )}
+    </div>
+  );
+}
+
+const INSIGHT_ICONS: Record<OwnerInsightMetric, React.ComponentType<{ className?: string }>> = {
+  place_viewed: EyeIcon,
+  directions_clicked: MapPinIcon,
+  location_shared: ShareIcon,
+  photo_viewed: PhotoIcon,
+  search_impression: MagnifyingGlassIcon,
+};
+
+const INSIGHT_COLORS: Record<OwnerInsightMetric, string> = {
+  place_viewed: '#f97316',
+  directions_clicked: '#22c55e',
+  location_shared: '#3b82f6',
+  photo_viewed: '#a855f7',
+  search_impression: '#94a3b8',
+};
+
+// "+25% vs city median", or nothing when there is no median to compare with
+function compareWithMedian(value: number, median: number | null | undefined): Pick<AnalyticsWidgetProps, 'change' | 'changeType'> {
+  if (median === null || median === undefined) return {};
+  if (median === 0) {
+    return value > 0 ? { change: 'Above city median', changeType: 'positive' } : {};
+  }
+  const percent = Math.round(((value - median) / median) * 100);
+  return {
+    change: `${percent >= 0 ? '+' : ''}${percent}% vs city median`,
+    changeType: percent > 0 ? 'positive' : percent < 0 ? 'negative' : 'neutral',
+  };
+}
+
+interface OwnerInsightsProps {
+  insights: LocationInsights;
+}
+
+/**
+ * How visitors interact with one of an owner's listings, and how it compares
+ * with the median listing in the same city
+ */
+export function OwnerInsightsWidget({ insights }: OwnerInsightsProps) {
+  const metrics = Object.keys(OWNER_INSIGHT_EVENTS) as OwnerInsightMetric[];
+  const interactions = metrics.filter(metric => metric !== 'search_impression');
+  const seriesData = insights.series.map(point => ({
+    ...point,
+    label: new Date(`${point.date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+  const ratingData = insights.ratingTrend.map(point => ({
+    ...point,
+    label: new Date(`${point.month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' }),
+  }));
+  const median = insights.cityMedian;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {metrics.map(metric => (
+          <AnalyticsWidget
+            key={metric}
+            title={OWNER_INSIGHT_EVENTS[metric]}
+            value={insights.totals[metric].toLocaleString()}
+            icon={INSIGHT_ICONS[metric]}
+            description={median ? `City median ${median.totals[metric].toLocaleString()}` : undefined}
+            {...compareWithMedian(insights.totals[metric], median?.totals[metric])}
+          />
+        ))}
+        <AnalyticsWidget
+          title="Rating"
+          value={insights.rating ? insights.rating.toFixed(1) : '–'}
+          icon={StarIcon}
+          description={`${insights.reviewCount} review${insights.reviewCount === 1 ? '' : 's'}${median?.rating ? ` · city median ${median.rating.toFixed(1)}` : ''}`}
+          {...(insights.rating ? compareWithMedian(insights.rating, median?.rating) : {})}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold mb-4">Visitor activity</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={seriesData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              {interactions.map(metric => (
+                <Line
+                  key={metric}
+                  type="monotone"
+                  dataKey={metric}
+                  stroke={INSIGHT_COLORS[metric]}
+                  strokeWidth={2}
+                  dot={false}
+                  name={OWNER_INSIGHT_EVENTS[metric]}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold mb-4">Search impressions</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={seriesData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="search_impression" fill={INSIGHT_COLORS.search_impression} name={OWNER_INSIGHT_EVENTS.search_impression} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold mb-4">Rating by month</h3>
+          {ratingData.length === 0 ? (
+            <div className="h-64 flex items-center justify-center text-gray-500">
+              No approved reviews yet
+            </div>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={ratingData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis domain={[1, 5]} />
+                  <Tooltip formatter={(value, _name, item) => [`${value} (${item.payload.count} review${item.payload.count === 1 ? '' : 's'})`, 'Average rating']} />
+                  <Line type="monotone" dataKey="average" stroke="#f97316" strokeWidth={2} name="Average rating" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          {median?.rating && (
+            <p className="text-xs text-gray-400 mt-2">
+              City median {median.rating.toFixed(1)} across {median.locations} spots in {median.city}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
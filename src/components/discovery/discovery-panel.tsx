@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/FirebaseAuthContext';
 import { useToast } from '@/contexts/ToastContext';
 import {
@@ -13,9 +13,11 @@ import {
   ChartBarIcon,
   ClockIcon,
   CheckCircleIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
 import { BrandLogo } from '@/components/ui/brand-logo';
+import type { DiscoveryRun, DiscoveryRunStatus } from '@/types/discovery';
 
 interface DiscoveryResult {
   totalDiscovered: number;
@@ -37,6 +39,18 @@ interface DiscoverySession {
   result?: DiscoveryResult;
 }
 
+// Run reports arrive as JSON, so dates are strings
+type ScheduledRun = Omit<DiscoveryRun, 'startedAt' | 'completedAt'> & {
+  startedAt: string;
+  completedAt?: string;
+};
+
+interface ScheduleCoverage {
+  searched: number;
+  total: number;
+  nextTargets: string[];
+}
+
 interface DiscoveryPanelProps {
   onDiscoveryComplete?: (result: DiscoveryResult) => void;
 }
@@ -50,10 +64,71 @@ export default function DiscoveryPanel({ onDiscoveryComplete }: DiscoveryPanelPr
   const [targetQuery, setTargetQuery] = useState('');
   const [sessions, setSessions] = useState<DiscoverySession[]>([]);
   const [currentSession, setCurrentSession] = useState<DiscoverySession | null>(null);
+  const [scheduledRuns, setScheduledRuns] = useState<ScheduledRun[]>([]);
+  const [scheduleCoverage, setScheduleCoverage] = useState<ScheduleCoverage | null>(null);
+  const [isRunningBatch, setIsRunningBatch] = useState(false);
 
-  const { getIdToken } = useAuth();
+  const { user, getIdToken } = useAuth();
   const { success, error, info } = useToast();
 
+  const loadScheduledRuns = async () => {
+    try {
+      const token = await getIdToken();
+      const response = await fetch('/api/discovery/scheduled?limit=10', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setScheduledRuns(data.data.runs);
+        setScheduleCoverage({
+          searched: data.data.coverage.filter((entry: { lastSearchedAt?: string }) => entry.lastSearchedAt).length,
+          total: data.data.coverage.length,
+          nextTargets: data.data.nextTargets
+        });
+      }
+    } catch (err) {
+      console.error('Failed to load scheduled discovery runs:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      loadScheduledRuns();
+    }
+  }, [user]);
+
+  // Run the next batch of scheduled targets now instead of waiting for cron
+  const runScheduledBatch = async () => {
+    if (isRunningBatch) return;
+
+    try {
+      setIsRunningBatch(true);
+      info('Searching the next scheduled targets...', 'Scheduled Discovery');
+
+      const token = await getIdToken();
+      const response = await fetch('/api/discovery/scheduled', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Scheduled discovery failed');
+      }
+      success(data.message, 'Scheduled Discovery');
+    } catch (err: any) {
+      error(`Scheduled discovery failed: ${err.message}`, 'Discovery Error');
+    } finally {
+      setIsRunningBatch(false);
+      loadScheduledRuns();
+    }
+  };
+
   const availableRegions = {
     continents: ['Americas', 'Europe', 'Africa', 'Asia-Pacific', 'Middle East'],
     countries: {
@@ -296,6 +371,75 @@ export default function DiscoveryPanel({ onDiscoveryComplete }: DiscoveryPanelPr
     );
   };
 
+  const ScheduledRunCard = ({ run }: { run: ScheduledRun }) => {
+    const statusStyles: Record<DiscoveryRunStatus, string> = {
+      running: 'bg-blue-100 text-blue-800',
+      completed: 'bg-green-100 text-green-800',
+      completed_with_errors: 'bg-yellow-100 text-yellow-800',
+      failed: 'bg-red-100 text-red-800'
+    };
+    const errorMessages = run.targets.flatMap(target => target.errors.map(message => `${target.key}: ${message}`));
+
+    return (
+      <div className="bg-white border rounded-lg p-4">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[run.status]}`}>
+              {run.status.replace(/_/g, ' ')}
+            </span>
+            <span className="text-xs text-gray-500">
+              {run.trigger === 'cron' ? 'Cron' : `Manual${run.triggeredBy ? ` · ${run.triggeredBy}` : ''}`}
+            </span>
+          </div>
+          <span className="text-sm text-gray-500">
+            {new Date(run.startedAt).toLocaleString()}
+          </span>
+        </div>
+
+        <p className="text-sm text-gray-700 mb-3">
+          {run.targets.length > 0
+            ? run.targets.map(target => target.state ? `${target.state}, ${target.country}` : target.country).join(' · ')
+            : 'No targets searched yet'}
+        </p>
+
+        <div className="grid grid-cols-5 gap-2 text-sm">
+          <div>
+            <span className="block text-gray-500">Queries</span>
+            <span className="font-medium">{run.totals.queriesIssued}</span>
+          </div>
+          <div>
+            <span className="block text-gray-500">Found</span>
+            <span className="font-medium">{run.totals.found}</span>
+          </div>
+          <div>
+            <span className="block text-gray-500">Saved</span>
+            <span className="font-medium text-green-600">{run.totals.saved}</span>
+          </div>
+          <div>
+            <span className="block text-gray-500">Duplicates</span>
+            <span className="font-medium text-yellow-600">{run.totals.duplicatesSkipped}</span>
+          </div>
+          <div>
+            <span className="block text-gray-500">Errors</span>
+            <span className={`font-medium ${run.totals.errors > 0 ? 'text-red-600' : ''}`}>{run.totals.errors}</span>
+          </div>
+        </div>
+
+        {(run.error || errorMessages.length > 0) && (
+          <details className="mt-3 text-xs text-red-700">
+            <summary className="cursor-pointer">Show errors</summary>
+            <ul className="mt-1 space-y-1">
+              {run.error && <li>{run.error}</li>}
+              {errorMessages.slice(0, 10).map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -448,6 +592,38 @@ export default function DiscoveryPanel({ onDiscoveryComplete }: DiscoveryPanelPr
         </div>
       </div>
 
+      {/* Scheduled Runs */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Scheduled Discovery Runs</h3>
+            {scheduleCoverage && (
+              <p className="text-sm text-gray-500">
+                {scheduleCoverage.searched} of {scheduleCoverage.total} regions searched
+                {scheduleCoverage.nextTargets.length > 0 && ` · Next: ${scheduleCoverage.nextTargets.join(', ')}`}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={runScheduledBatch}
+            disabled={isRunningBatch}
+            className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <ArrowPathIcon className={`w-4 h-4 mr-2 ${isRunningBatch ? 'animate-spin' : ''}`} />
+            {isRunningBatch ? 'Running...' : 'Run Next Batch'}
+          </button>
+        </div>
+        {scheduledRuns.length > 0 ? (
+          <div className="space-y-3">
+            {scheduledRuns.map(run => (
+              <ScheduledRunCard key={run.id} run={run} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No scheduled runs yet.</p>
+        )}
+      </div>
+
       {/* Recent Sessions */}
       {sessions.length > 0 && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -9,17 +9,17 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { AmalaLocation } from "@/types/location";
+import type { EntityMatch } from "@/lib/services/entity-resolution";
 
 interface DuplicateWarningProps {
-  similarLocations: AmalaLocation[];
+  matches: EntityMatch[];
   confidence: number;
   onProceedAnyway: () => void;
   onCancel: () => void;
 }
 
 export function DuplicateWarning({
-  similarLocations,
+  matches,
   confidence,
   onProceedAnyway,
   onCancel,
@@ -34,27 +34,36 @@ export function DuplicateWarning({
       </CardHeader>
       <CardContent className="space-y-4">
         <p className="text-sm text-orange-700">
-          We found {similarLocations.length} similar location
-          {similarLocations.length > 1 ? "s" : ""} (
+          We found {matches.length} similar location
+          {matches.length > 1 ? "s" : ""} (
           {Math.round(confidence * 100)}% confidence). Please review:
         </p>
 
         <div className="space-y-3">
-          {similarLocations.slice(0, 2).map((location) => (
+          {matches.slice(0, 2).map(({ location, score, verdict, reasons }) => (
             <div
               key={location.id}
               className="p-3 bg-white rounded border border-orange-200"
             >
               <div className="flex justify-between items-start mb-2">
                 <h4 className="font-medium text-gray-900">{location.name}</h4>
-                <Badge
-                  variant={
-                    location.status === "approved" ? "default" : "secondary"
-                  }
-                  className="text-xs"
-                >
-                  {location.status}
-                </Badge>
+                <div className="flex items-center gap-1">
+                  <Badge
+                    variant={verdict === "duplicate" ? "destructive" : "outline"}
+                    className="text-xs"
+                  >
+                    {verdict === "duplicate" ? "Likely same place" : "Possible match"} ·{" "}
+                    {Math.round(score * 100)}%
+                  </Badge>
+                  <Badge
+                    variant={
+                      location.status === "approved" ? "default" : "secondary"
+                    }
+                    className="text-xs"
+                  >
+                    {location.status}
+                  </Badge>
+                </div>
               </div>
 
               <div className="space-y-1 text-sm text-gray-600">
@@ -96,6 +105,14 @@ export function DuplicateWarning({
                 <span className="text-xs text-gray-400">•</span>
                 <span className="text-xs">{location.cuisine.join(", ")}</span>
               </div>
+
+              {reasons.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-xs text-orange-700 list-disc list-inside">
+                  {reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           ))}
         </div>
@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect } from "react";
 import { AmalaLocation, Review } from "@/types/location";
+import type { Brand } from "@/types/brand";
+import { RATING_ASPECTS, RATING_ASPECT_LABELS } from "@/types/rating";
 import {
   StarIcon as Star,
   PhoneIcon as Phone,
@@ -14,8 +16,6 @@ import {
   ArrowTopRightOnSquareIcon as Directions,
   EllipsisHorizontalIcon as MoreHorizontal,
   XMarkIcon as X,
-  HandThumbUpIcon as ThumbsUp,
-  HandThumbDownIcon as ThumbsDown,
   ArrowsUpDownIcon as Sort,
   AdjustmentsHorizontalIcon as Filter,
   ChevronLeftIcon as ChevronLeft,
@@ -24,6 +24,7 @@ import {
   HeartIcon as Heart,
   CurrencyDollarIcon as DollarSign,
   ChatBubbleLeftIcon as RateReview,
+  PencilSquareIcon as SuggestEdit,
 } from "@heroicons/react/24/outline";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -31,8 +32,16 @@ import Image from "next/image";
 import { useAuth } from "@/contexts/FirebaseAuthContext";
 import { useToast } from "@/contexts/ToastContext";
 import { ReviewSubmission } from "./review-submission";
+import { ReviewThread } from "./review-thread";
+import { SuggestEditForm } from "./suggest-edit-form";
+import { MenuEditForm } from "./menu-edit-form";
+import { ClaimListingForm } from "./claim-listing-form";
+import { PriceHistory } from "./price-history";
 import { trackEvent } from "@/lib/utils";
 import { TabContentLoader } from "@/components/ui/loading-spinner";
+import { formatDayHours, getLocationStatusForLocation } from "@/lib/utils/hours";
+import { getDishLabel, sortMenuItems } from "@/lib/utils/menu";
+import { formatPrice as formatAmount } from "@/lib/currency-utils";
 
 interface GoogleMapsLocationDetailProps {
   location: AmalaLocation;
@@ -41,6 +50,7 @@ interface GoogleMapsLocationDetailProps {
   onCall?: () => void;
   onShare?: () => void;
   onSave?: () => void;
+  onSelectLocation?: (location: AmalaLocation) => void;
   compact?: boolean;
   variant?: 'full' | 'compact'; // New prop to support both layouts
 }
@@ -52,10 +62,11 @@ export function GoogleMapsLocationDetail({
   onCall,
   onShare,
   onSave,
+  onSelectLocation,
   compact = false,
   variant = 'full',
 }: GoogleMapsLocationDetailProps) {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, getIdToken } = useAuth();
   const { success, error, info } = useToast();
   const [activeTab, setActiveTab] = useState<
     "overview" | "reviews" | "photos" | "about"
@@ -64,10 +75,20 @@ export function GoogleMapsLocationDetail({
   const [reviewSort, setReviewSort] = useState("newest");
   const [reviewFilter, setReviewFilter] = useState("all");
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [showSuggestEdit, setShowSuggestEdit] = useState(false);
+  const [showMenuEdit, setShowMenuEdit] = useState(false);
+  const [showClaimForm, setShowClaimForm] = useState(false);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [reviewsLoading, setReviewsLoading] = useState(false);
   const [locationPhotos, setLocationPhotos] = useState<any[]>([]);
   const [photosLoading, setPhotosLoading] = useState(false);
+  const [brand, setBrand] = useState<Brand | null>(null);
+  const [branches, setBranches] = useState<AmalaLocation[]>([]);
+  const hoursStatus = getLocationStatusForLocation(location);
+  const isOwner = !!user && (user.roles || []).includes("owner") && !!location.ownerIds?.includes(user.id);
+  // Scouts, moderators and the spot's verified owners keep the menu up to date
+  const canEditMenu = isOwner || !!user?.roles?.some((role) => role === "scout" || role === "mod" || role === "admin");
+  const menuItems = sortMenuItems(location.menu || []);
 
   // Fetch reviews for this location
   const fetchReviews = async () => {
@@ -75,7 +96,9 @@ export function GoogleMapsLocationDetail({
     
     setReviewsLoading(true);
     try {
-      const response = await fetch(`/api/reviews?location_id=${location.id}`);
+      // Signed-in users get their own helpful votes back with each review
+      const headers: HeadersInit = user ? { Authorization: `Bearer ${await getIdToken()}` } : {};
+      const response = await fetch(`/api/reviews?location_id=${location.id}`, { headers });
       if (response.ok) {
         const data = await response.json();
         setReviews(data.reviews || []);
@@ -107,9 +130,36 @@ export function GoogleMapsLocationDetail({
 
   useEffect(() => {
     fetchReviews();
+  }, [location.id, user]);
+
+  useEffect(() => {
     fetchPhotos();
   }, [location.id]);
 
+  // Branches of a chain link to each other
+  useEffect(() => {
+    setBrand(null);
+    setBranches([]);
+    if (!location.brandId) return;
+
+    fetch(`/api/brands/${location.brandId}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) return;
+        setBrand(data.data.brand);
+        setBranches(data.data.branches);
+      })
+      .catch((error) => console.error('Error fetching brand:', error));
+  }, [location.id, location.brandId]);
+
+  const otherBranches = branches.filter((branch) => branch.id !== location.id);
+
+  // Opening or paging to a photo counts as a photo view for the owner's insights
+  const viewPhoto = (index: number) => {
+    setCurrentImageIndex(index);
+    trackEvent({ type: "photo_viewed", id: location.id, photoIndex: index });
+  };
+
   // Enhanced action handlers from LocationInfoWindow
   const shareLocationWithDirections = (location: AmalaLocation) => {
     if (navigator.share) {
@@ -156,7 +206,7 @@ export function GoogleMapsLocationDetail({
   const handleShare = () => {
     shareLocationWithDirections(location);
     onShare?.();
-    trackEvent({ type: "place_viewed", id: location.id });
+    trackEvent({ type: "location_shared", id: location.id });
   };
 
   // Format price display locally without server-side service
@@ -262,20 +312,13 @@ export function GoogleMapsLocationDetail({
       <div className="space-y-3">
         <div className="flex items-center gap-2 text-sm text-gray-600">
           <Clock className="w-4 h-4" />
-          <span>{location.isOpenNow ? "Open now" : "Closed"}</span>
-          {location.hours &&
-            location.hours[
-              new Date().toLocaleDateString("en-US", { weekday: "long" })
-            ] && (
-              <span>
-                • Closes{" "}
-                {
-                  location.hours[
-                    new Date().toLocaleDateString("en-US", { weekday: "long" })
-                  ].close
-                }
-              </span>
-            )}
+          {hoursStatus ? (
+            <span>
+              {hoursStatus.isOpen ? "Open now" : "Closed"} • {hoursStatus.status}
+            </span>
+          ) : (
+            <span>{location.isOpenNow ? "Open now" : "Closed"}</span>
+          )}
         </div>
 
         {location.address && (
@@ -305,6 +348,75 @@ export function GoogleMapsLocationDetail({
         )}
       </div>
 
+      {/* Other Branches */}
+      {brand && otherBranches.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-900">Other {brand.name} branches</h4>
+          <ul className="divide-y divide-gray-100">
+            {otherBranches.map((branch) => (
+              <li key={branch.id}>
+                <button
+                  onClick={() => onSelectLocation?.(branch)}
+                  disabled={!onSelectLocation}
+                  className="w-full text-left py-2 disabled:cursor-default"
+                >
+                  <span className="block text-sm text-gray-900">{branch.name}</span>
+                  <span className="block text-xs text-gray-500 truncate">{branch.address}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Menu */}
+      {(menuItems.length > 0 || canEditMenu) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-900">Menu</h4>
+            {canEditMenu && (
+              <button
+                onClick={() => setShowMenuEdit(true)}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <SuggestEdit className="w-4 h-4" />
+                Update menu
+              </button>
+            )}
+          </div>
+          {menuItems.length === 0 ? (
+            <p className="text-sm text-gray-500">No menu yet. Add the plates and prices you know.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {menuItems.map((item) => (
+                <li key={item.id} className={`py-2 ${item.available ? "" : "opacity-60"}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <span className={`text-sm text-gray-900 ${item.available ? "" : "line-through"}`}>{item.name}</span>
+                    <span className="text-sm font-medium text-gray-900 whitespace-nowrap">
+                      {formatAmount(item.price, item.currency)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {item.dishes.map((dish) => (
+                      <Badge key={dish} variant="secondary" className="text-xs">
+                        {getDishLabel(dish)}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-gray-500 ml-1">
+                      {item.available ? "" : "Unavailable · "}Last seen {item.lastSeenAt}
+                    </span>
+                  </div>
+                  {item.notes && <p className="text-xs text-gray-500 mt-1">{item.notes}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Price History */}
+      <PriceHistory location={location} />
+
       {/* Features */}
       {location.features && location.features.length > 0 && (
         <div className="space-y-2">
@@ -362,6 +474,26 @@ export function GoogleMapsLocationDetail({
           </Button>
         </div>
 
+        {/* Sub-rating breakdown */}
+        {location.aspectRatings && Object.keys(location.aspectRatings).length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 py-2">
+            {RATING_ASPECTS.filter((aspect) => location.aspectRatings?.[aspect]).map((aspect) => {
+              const { average, count } = location.aspectRatings![aspect]!;
+              return (
+                <div key={aspect} className="flex items-center gap-2 text-sm">
+                  <span className="w-36 text-gray-600 truncate">{RATING_ASPECT_LABELS[aspect]}</span>
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400" style={{ width: `${(average / 5) * 100}%` }} />
+                  </div>
+                  <span className="w-16 text-right text-gray-700" title={`${count} rating${count === 1 ? "" : "s"}`}>
+                    {average.toFixed(1)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
       {/* Review Controls */}
       <div className="flex items-center gap-4 py-2 border-b">
         <div className="flex items-center gap-2">
@@ -375,6 +507,7 @@ export function GoogleMapsLocationDetail({
             <option value="oldest">Oldest first</option>
             <option value="highest">Highest rated</option>
             <option value="lowest">Lowest rated</option>
+            <option value="helpful">Most helpful</option>
           </select>
         </div>
         <div className="flex items-center gap-2">
@@ -413,6 +546,9 @@ export function GoogleMapsLocationDetail({
                 return b.rating - a.rating;
               case "lowest":
                 return a.rating - b.rating;
+              case "helpful":
+                return ((b.helpfulCount || 0) - (b.notHelpfulCount || 0)) -
+                  ((a.helpfulCount || 0) - (a.notHelpfulCount || 0));
               default:
                 return 0;
             }
@@ -458,16 +594,13 @@ export function GoogleMapsLocationDetail({
                   <p className="text-sm text-gray-600 leading-relaxed">
                     {review.text}
                   </p>
-                  <div className="flex items-center gap-4 mt-2">
-                    <button className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700">
-                      <ThumbsUp className="w-3 h-3" />
-                      Helpful
-                    </button>
-                    <button className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700">
-                      <ThumbsDown className="w-3 h-3" />
-                      Not helpful
-                    </button>
-                  </div>
+                  <ReviewThread
+                    review={review}
+                    location={location}
+                    onReviewChange={(updated) =>
+                      setReviews((prev) => prev.map((r) => (r.id === updated.id ? updated : r)))
+                    }
+                  />
                 </div>
               </div>
             </div>
@@ -534,7 +667,7 @@ export function GoogleMapsLocationDetail({
               <div
                 key={index}
                 className="aspect-square relative rounded-lg overflow-hidden cursor-pointer hover:opacity-90 group"
-                onClick={() => setCurrentImageIndex(index)}
+                onClick={() => viewPhoto(index)}
               >
                 <Image
                   src={photo.url}
@@ -655,14 +788,46 @@ export function GoogleMapsLocationDetail({
             {Object.entries(location.hours).map(([day, hours]) => (
               <div key={day} className="flex justify-between">
                 <span className="capitalize">{day}:</span>
-                <span>
-                  {hours.open} - {hours.close}
-                </span>
+                <span>{formatDayHours(hours)}</span>
               </div>
             ))}
           </div>
         </div>
       )}
+
+      {/* Suggest an edit */}
+      <div className="pt-3 border-t">
+        <button
+          onClick={() => {
+            if (!user) {
+              error("Please sign in to suggest an edit", "Authentication Required");
+              return;
+            }
+            setShowSuggestEdit(true);
+          }}
+          className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <SuggestEdit className="w-4 h-4" />
+          Suggest an edit
+        </button>
+        <p className="text-xs text-gray-500 mt-1">
+          Wrong phone number or moved address? Let us know.
+        </p>
+        {!isOwner && (
+          <button
+            onClick={() => {
+              if (!user) {
+                error("Please sign in to claim this spot", "Authentication Required");
+                return;
+              }
+              setShowClaimForm(true);
+            }}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+          >
+            Own or manage this spot? Claim it
+          </button>
+        )}
+      </div>
     </div>
   );
 
@@ -710,20 +875,14 @@ export function GoogleMapsLocationDetail({
         {images.length > 1 && (
           <>
             <button
-              onClick={() =>
-                setCurrentImageIndex(Math.max(0, currentImageIndex - 1))
-              }
+              onClick={() => viewPhoto(Math.max(0, currentImageIndex - 1))}
               className="absolute left-2 top-1/2 -translate-y-1/2 p-1 bg-white/80 rounded-full hover:bg-white"
               disabled={currentImageIndex === 0}
             >
               <ChevronLeft className="w-4 h-4" />
             </button>
             <button
-              onClick={() =>
-                setCurrentImageIndex(
-                  Math.min(images.length - 1, currentImageIndex + 1)
-                )
-              }
+              onClick={() => viewPhoto(Math.min(images.length - 1, currentImageIndex + 1))}
               className="absolute right-2 top-1/2 -translate-y-1/2 p-1 bg-white/80 rounded-full hover:bg-white"
               disabled={currentImageIndex === images.length - 1}
             >
@@ -766,6 +925,11 @@ export function GoogleMapsLocationDetail({
               : location.cuisine || "Nigerian"}
           </span>
         </div>
+        {brand && (
+          <Badge variant="secondary" className="mt-2 text-xs">
+            Part of {brand.name} · {branches.length} location{branches.length === 1 ? "" : "s"}
+          </Badge>
+        )}
       </div>
 
       {/* Tabs */}
@@ -824,6 +988,35 @@ export function GoogleMapsLocationDetail({
           </div>
         </div>
       )}
+
+      {/* Suggest Edit Modal */}
+      {showSuggestEdit && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 sm:p-6">
+          <SuggestEditForm
+            location={location}
+            onSubmitted={() => setShowSuggestEdit(false)}
+            onCancel={() => setShowSuggestEdit(false)}
+          />
+        </div>
+      )}
+
+      {/* Menu Edit Modal */}
+      {showMenuEdit && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 sm:p-6">
+          <MenuEditForm
+            location={location}
+            onSubmitted={() => setShowMenuEdit(false)}
+            onCancel={() => setShowMenuEdit(false)}
+          />
+        </div>
+      )}
+
+      {/* Claim Listing Modal */}
+      {showClaimForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 sm:p-6">
+          <ClaimListingForm location={location} onCancel={() => setShowClaimForm(false)} />
+        </div>
+      )}
     </div>
   );
 
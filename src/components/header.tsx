@@ -8,7 +8,10 @@ import {
   XMarkIcon as X,
   MapPinIcon,
   EyeIcon as Eye,
+  BellIcon as Bell,
 } from "@heroicons/react/24/outline";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useNotifications } from "@/contexts/NotificationsContext";
 
 interface HeaderProps {
   onAddLocation: () => void;
@@ -34,6 +37,8 @@ export function Header({
   const [isFocused, setIsFocused] = useState(false);
   const [highContrast, setHighContrast] = useState(false);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0, width: 0 });
+  const { user } = useAuth();
+  const { unreadCount, openInbox } = useNotifications();
 
   useEffect(() => {
     const saved = localStorage.getItem("highContrast") === "true";
@@ -200,6 +205,22 @@ export function Header({
               <Eye className="h-4 w-4" aria-hidden="true" />
             </button>
 
+            {user && (
+              <button
+                onClick={openInbox}
+                className="relative p-1.5 rounded-full hover:bg-gray-100/90 text-gray-600 hover:text-gray-900 transition-colors active:scale-95 duration-200"
+                aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+                title="Notifications"
+              >
+                <Bell className="h-4 w-4" aria-hidden="true" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+                    {unreadCount > 9 ? "9+" : unreadCount}
+                  </span>
+                )}
+              </button>
+            )}
+
             <button
               onClick={onAddLocation}
               className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-full font-medium transition-colors flex items-center space-x-2 shadow-sm"
@@ -77,7 +77,7 @@ export function LocationInfoWindow({ location, onDirections, onShare, onSave }:
       info("Location details copied to clipboard!", "Shared");
     }
     onShare?.();
-    trackEvent({ type: "place_viewed", id: location.id });
+    trackEvent({ type: "location_shared", id: location.id });
   };
 
   return (
@@ -5,7 +5,7 @@ import Image from "next/image";
 import { IoStar, IoStarHalf, IoStarOutline } from "react-icons/io5";
 import { AmalaLocation, Review } from "@/types/location";
 import { useMultipleLocationReviews } from "@/hooks/useLocationReviews";
-import { getLocationStatus, WeeklyHours } from "@/lib/utils/hours";
+import { getLocationStatusForLocation } from "@/lib/utils/hours";
 
 interface LocationReview {
   id: string;
@@ -56,31 +56,16 @@ export function LocationList({
   };
 
   const getCurrentHours = (location: AmalaLocation): { status: string; isOpen: boolean } => {
-    if (!location.hours) {
-      return { status: "Hours not available", isOpen: false };
-    }
-    
-    try {
-      // Safely convert location hours to WeeklyHours format
-      const weeklyHours: WeeklyHours = {
-        monday: location.hours.monday || { open: "09:00", close: "21:00", isOpen: false },
-        tuesday: location.hours.tuesday || { open: "09:00", close: "21:00", isOpen: false },
-        wednesday: location.hours.wednesday || { open: "09:00", close: "21:00", isOpen: false },
-        thursday: location.hours.thursday || { open: "09:00", close: "21:00", isOpen: false },
-        friday: location.hours.friday || { open: "09:00", close: "21:00", isOpen: false },
-        saturday: location.hours.saturday || { open: "09:00", close: "21:00", isOpen: false },
-        sunday: location.hours.sunday || { open: "09:00", close: "21:00", isOpen: false },
-      };
-      
-      const hoursStatus = getLocationStatus(weeklyHours);
-      return {
-        status: hoursStatus.status,
-        isOpen: hoursStatus.isOpen
-      };
-    } catch (error) {
-      console.error("Error getting location status:", error);
+    // Evaluated in the location's own timezone, including holiday exceptions
+    const hoursStatus = getLocationStatusForLocation(location);
+    if (!hoursStatus) {
       return { status: "Hours not available", isOpen: false };
     }
+
+    return {
+      status: hoursStatus.status,
+      isOpen: hoursStatus.isOpen
+    };
   };
 
   return (
@@ -26,7 +26,10 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/contexts/ToastContext";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
 import { LocationResult } from "@/types/location";
+import { DuplicateWarning } from "@/components/duplicate-warning";
+import type { EntityMatch } from "@/lib/services/entity-resolution";
 
 const locationSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -57,6 +60,12 @@ export function ManualLocationForm({ onSubmit, onCancel }: ManualLocationFormPro
   const [isGeocoding, setIsGeocoding] = useState(false);
   const [cuisineInput, setCuisineInput] = useState("");
   const [cuisineList, setCuisineList] = useState<string[]>(["Nigerian"]);
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    location: LocationResult;
+    matches: EntityMatch[];
+    confidence: number;
+  } | null>(null);
+  const { getIdToken } = useAuth();
 
   const {
     register,
@@ -176,9 +185,47 @@ export function ManualLocationForm({ onSubmit, onCancel }: ManualLocationFormPro
       serviceType: data.serviceType, // Include service type
     };
 
+    // Show likely matches first; the submitter can still confirm it's a different place
+    const duplicates = await findDuplicates(locationResult);
+    if (duplicates && duplicates.matches.length > 0) {
+      setDuplicateCheck({ location: locationResult, ...duplicates });
+      return;
+    }
+
     await onSubmit(locationResult);
   };
 
+  const findDuplicates = async (
+    location: LocationResult
+  ): Promise<{ matches: EntityMatch[]; confidence: number } | null> => {
+    try {
+      const token = await getIdToken();
+      if (!token) return null;
+
+      const response = await fetch("/api/locations/duplicates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ location }),
+      });
+      const result = await response.json();
+      return result.success ? result.data : null;
+    } catch (err) {
+      // The server checks again on submit, so don't block the form here
+      console.warn("Duplicate check failed:", err);
+      return null;
+    }
+  };
+
+  const handleProceedAnyway = async () => {
+    if (!duplicateCheck) return;
+    const location = { ...duplicateCheck.location, ignoreDuplicates: true };
+    setDuplicateCheck(null);
+    await onSubmit(location);
+  };
+
   return (
     <div className="flex-1 overflow-y-auto p-6">
       <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
@@ -444,12 +491,21 @@ export function ManualLocationForm({ onSubmit, onCancel }: ManualLocationFormPro
           </CardContent>
         </Card>
 
+        {duplicateCheck && (
+          <DuplicateWarning
+            matches={duplicateCheck.matches}
+            confidence={duplicateCheck.confidence}
+            onProceedAnyway={handleProceedAnyway}
+            onCancel={() => setDuplicateCheck(null)}
+          />
+        )}
+
         {/* Form Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button type="button" variant="outline" onClick={onCancel}>
             Cancel
           </Button>
-          <Button type="submit" disabled={isSubmitting} className="bg-orange-600 hover:bg-orange-700">
+          <Button type="submit" disabled={isSubmitting || !!duplicateCheck} className="bg-orange-600 hover:bg-orange-700">
             {isSubmitting ? "Adding Location..." : "Add Location"}
           </Button>
         </div>
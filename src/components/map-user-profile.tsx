@@ -5,7 +5,8 @@ import Image from "next/image";
 import Link from "next/link";
 import { useAuth } from "@/contexts/FirebaseAuthContext";
 import { useToast } from "@/contexts/ToastContext";
-import { UserIcon, ArrowRightOnRectangleIcon, ShieldCheckIcon, EyeIcon, MagnifyingGlassIcon, ChartBarIcon } from "@heroicons/react/24/outline";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import { UserIcon, ArrowRightOnRectangleIcon, ShieldCheckIcon, EyeIcon, MagnifyingGlassIcon, ChartBarIcon, BellIcon, BuildingStorefrontIcon } from "@heroicons/react/24/outline";
 
 // Component for profile image with fallback
 function ProfileImage({ src, alt, size = 32, className = "" }: { src?: string; alt: string; size?: number; className?: string }) {
@@ -91,6 +92,7 @@ export function MapUserProfile() {
   const [showHoverText, setShowHoverText] = useState(false);
   const { user, signOut, isLoading, canAdmin, canModerate } = useAuth();
   const { info } = useToast();
+  const { unreadCount, openInbox } = useNotifications();
 
   // Only log critical user data changes in development
   React.useEffect(() => {
@@ -115,7 +117,7 @@ export function MapUserProfile() {
             onClick={() => setShowUserMenu(!showUserMenu)}
             onMouseEnter={() => setShowHoverText(true)}
             onMouseLeave={() => setShowHoverText(false)}
-            className="w-10 h-10 bg-white rounded-full shadow-lg border-2 border-red-500 hover:shadow-xl transition-all duration-200 flex items-center justify-center"
+            className="relative w-10 h-10 bg-white rounded-full shadow-lg border-2 border-red-500 hover:shadow-xl transition-all duration-200 flex items-center justify-center"
             title={`Signed in as ${user.email}`}
           >
             <ProfileImage 
@@ -124,6 +126,11 @@ export function MapUserProfile() {
               size={32} 
               className="w-8 h-8" 
             />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
           </button>
 
           {/* Hover logout text - positioned sideways (left) */}
@@ -191,10 +198,30 @@ export function MapUserProfile() {
                 </div>
               </div>
 
+              {/* Notifications */}
+              <div className="border-t border-gray-100 pt-2">
+                <button
+                  onClick={() => {
+                    setShowUserMenu(false);
+                    openInbox();
+                  }}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 transition-colors duration-150"
+                >
+                  <BellIcon className="h-4 w-4" />
+                  Notifications
+                  {unreadCount > 0 && (
+                    <span className="ml-auto text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                      {unreadCount}
+                    </span>
+                  )}
+                </button>
+              </div>
+
               {/* Role-Specific Dashboards */}
               {(canAdmin() ||
                 canModerate() ||
-                user.roles.includes("scout")) && (
+                user.roles.includes("scout") ||
+                user.roles.includes("owner")) && (
                 <div className="border-t border-gray-100 pt-2">
                   {canAdmin() && (
                     <Link
@@ -226,6 +253,16 @@ export function MapUserProfile() {
                       Scout Dashboard
                     </Link>
                   )}
+                  {user.roles.includes("owner") && (
+                    <Link
+                      href="/owner"
+                      className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors duration-150"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      <BuildingStorefrontIcon className="h-4 w-4" />
+                      Your Spots
+                    </Link>
+                  )}
                 </div>
               )}
 
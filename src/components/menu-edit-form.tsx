@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { AmalaLocation } from "@/types/location";
+import { DISH_TAXONOMY, type DishId, type MenuItem } from "@/types/menu";
+import {
+  SUPPORTED_CURRENCIES,
+  convertFromSmallestUnit,
+  convertToSmallestUnit,
+  estimateCurrencyFromLocation,
+} from "@/lib/currency-utils";
+
+interface MenuEditFormProps {
+  location: AmalaLocation;
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+}
+
+// A menu item as edited, with the price in main units (naira, dollars)
+interface MenuRow {
+  id: string;
+  name: string;
+  dishes: DishId[];
+  price: string;
+  currency: string;
+  available: boolean;
+  lastSeenAt: string;
+  notes: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "item";
+
+const toRow = (item: MenuItem): MenuRow => ({
+  id: item.id,
+  name: item.name,
+  dishes: item.dishes,
+  price: String(convertFromSmallestUnit(item.price, item.currency)),
+  currency: item.currency,
+  available: item.available,
+  lastSeenAt: item.lastSeenAt,
+  notes: item.notes || "",
+});
+
+// New items get an id from their name, suffixed if another item already has it
+const uniqueId = (name: string, taken: Set<string>) => {
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+export function MenuEditForm({ location, onSubmitted, onCancel }: MenuEditFormProps) {
+  const { user, getIdToken } = useAuth();
+  const { success, error: showError } = useToast();
+  const defaultCurrency = location.currency || estimateCurrencyFromLocation(location.country, location.city);
+  const [rows, setRows] = useState<MenuRow[]>(() => (location.menu || []).map(toRow));
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isOwner = !!user?.roles?.includes("owner") && !!location.ownerIds?.includes(user.id);
+
+  const updateRow = (index: number, patch: Partial<MenuRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const toggleDish = (index: number, dish: DishId) => {
+    const dishes = rows[index].dishes;
+    updateRow(index, { dishes: dishes.includes(dish) ? dishes.filter((d) => d !== dish) : [...dishes, dish] });
+  };
+
+  const addRow = () =>
+    setRows([
+      ...rows,
+      { id: "", name: "", dishes: [], price: "", currency: defaultCurrency, available: true, lastSeenAt: today(), notes: "" },
+    ]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const incomplete = rows.find((row) => !row.name.trim() || row.dishes.length === 0 || !(Number(row.price) > 0));
+    if (incomplete) {
+      showError("Every item needs a name, at least one dish and a price", "Menu incomplete");
+      return;
+    }
+
+    const taken = new Set(rows.map((row) => row.id).filter(Boolean));
+    const menu: MenuItem[] = rows.map((row) => ({
+      id: row.id || uniqueId(row.name, taken),
+      name: row.name.trim(),
+      dishes: row.dishes,
+      price: convertToSmallestUnit(Number(row.price), row.currency),
+      currency: row.currency,
+      available: row.available,
+      lastSeenAt: row.lastSeenAt,
+      ...(row.notes.trim() && { notes: row.notes.trim() }),
+    }));
+
+    setIsSubmitting(true);
+    try {
+      const token = await getIdToken();
+      const response = await fetch(`/api/locations/${location.id}/suggestions`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ changes: { menu }, note: note.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        const detail = data.details?.[0]?.message;
+        showError(detail || data.error || "Failed to submit menu", "Menu not sent");
+        return;
+      }
+
+      success(data.message, "Menu submitted");
+      onSubmitted?.();
+    } catch (err) {
+      console.error("Error submitting menu update:", err);
+      showError("Failed to submit menu", "Error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-4 text-center">
+        <div className="text-gray-600">Please sign in to update the menu</div>
+      </div>
+    );
+  }
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-4 sm:p-6 rounded-lg shadow-lg max-w-lg w-full mx-auto max-h-[90vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Update menu</h3>
+          <p className="text-sm text-gray-600">
+            Plates and prices at {location.name}.{" "}
+            {isOwner ? "As the verified owner, your changes go live straight away." : "A moderator reviews every change."}
+          </p>
+        </div>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {rows.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No menu items yet</p>
+        )}
+
+        {rows.map((row, index) => (
+          <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-start gap-2">
+              <input
+                type="text"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                maxLength={80}
+                placeholder="e.g. Amala, abula and 2 ponmo"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label="Remove item"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {DISH_TAXONOMY.map((dish) => (
+                <button
+                  key={dish.id}
+                  type="button"
+                  onClick={() => toggleDish(index, dish.id)}
+                  className={`px-2 py-0.5 text-xs rounded-full border ${
+                    row.dishes.includes(dish.id)
+                      ? "bg-orange-600 text-white border-orange-600"
+                      : "bg-white text-gray-600 border-gray-300 hover:border-orange-400"
+                  }`}
+                >
+                  {dish.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block col-span-2">
+                <span className="text-xs font-medium text-gray-700">Price</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={row.price}
+                  onChange={(e) => updateRow(index, { price: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700">Currency</span>
+                <select
+                  value={row.currency}
+                  onChange={(e) => updateRow(index, { currency: e.target.value })}
+                  className={inputClass}
+                >
+                  {Object.keys(SUPPORTED_CURRENCIES).map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 items-end">
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700">Last seen</span>
+                <input
+                  type="date"
+                  value={row.lastSeenAt}
+                  max={today()}
+                  onChange={(e) => updateRow(index, { lastSeenAt: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={row.available}
+                  onChange={(e) => updateRow(index, { available: e.target.checked })}
+                />
+                Available
+              </label>
+            </div>
+
+            <input
+              type="text"
+              value={row.notes}
+              onChange={(e) => updateRow(index, { notes: e.target.value })}
+              maxLength={200}
+              placeholder="Notes (optional), e.g. only on weekdays"
+              className={inputClass}
+            />
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={addRow}
+          className="flex items-center gap-1 text-sm text-orange-600 hover:text-orange-700"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add item
+        </button>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Note for moderators (optional)</span>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="e.g. New prices from their board this week"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+        >
+          {isSubmitting ? "Submitting..." : "Submit menu"}
+        </button>
+      </div>
+    </form>
+  );
+}
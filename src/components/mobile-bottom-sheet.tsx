@@ -227,7 +227,7 @@ export function MobileBottomSheet({
       navigator.clipboard.writeText(`${selectedLocation.name} - ${selectedLocation.address}`);
       info("Location details copied to clipboard!", "Shared");
     }
-    trackEvent({ type: "place_viewed", id: selectedLocation.id });
+    trackEvent({ type: "location_shared", id: selectedLocation.id });
   };
 
   if (locations.length === 0) return null;
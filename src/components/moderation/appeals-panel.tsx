@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  MapPinIcon,
+  StarIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { Appeal, AppealDecision, AppealStatus } from '@/types/appeal';
+
+const STATUS_LABELS: Record<AppealStatus, string> = {
+  pending: 'Pending',
+  upheld: 'Upheld',
+  overturned: 'Overturned',
+};
+
+const parseAppeal = (appeal: Appeal): Appeal => ({
+  ...appeal,
+  createdAt: new Date(appeal.createdAt),
+  decidedAt: appeal.decidedAt ? new Date(appeal.decidedAt) : undefined,
+});
+
+/**
+ * Appeals against rejected locations and reviews. An appeal has to be
+ * decided by someone other than the moderator who rejected the item.
+ */
+export function AppealsPanel() {
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [status, setStatus] = useState<AppealStatus>('pending');
+  const [moderatorId, setModeratorId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchAppeals = async () => {
+    try {
+      setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch(`/api/moderation/appeals?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch appeals', 'Error');
+        return;
+      }
+
+      setAppeals(data.data.map(parseAppeal));
+      setModeratorId(data.moderatorId);
+    } catch (err) {
+      console.error('Error fetching appeals:', err);
+      error('Failed to fetch appeals', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchAppeals();
+  }, [user, status]);
+
+  const decide = async (appeal: Appeal, decision: AppealDecision) => {
+    try {
+      setProcessingId(appeal.id);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/appeals', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ appealId: appeal.id, decision, note: notes[appeal.id]?.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to decide appeal', 'Error');
+        return;
+      }
+
+      success(data.message, 'Appeal decided');
+      setAppeals(appeals.filter(other => other.id !== appeal.id));
+    } catch (err) {
+      console.error('Error deciding appeal:', err);
+      error('Failed to decide appeal', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Appeals</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Submitters asking for a second look at a rejection · you can&apos;t decide appeals against your own rejections
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as AppealStatus)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={fetchAppeals}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {!loading && appeals.length === 0 && (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckIcon className="w-8 h-8 mx-auto text-green-600 mb-2" />
+          <p className="text-gray-600">No {STATUS_LABELS[status].toLowerCase()} appeals</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {appeals.map(appeal => {
+          // Older rejections recorded the moderator's uid rather than their email
+          const ownRejection = appeal.rejectedBy === moderatorId || appeal.rejectedBy === user?.id;
+          const isProcessing = processingId === appeal.id;
+          const TypeIcon = appeal.contentType === 'location' ? MapPinIcon : StarIcon;
+
+          return (
+            <div key={appeal.id} className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TypeIcon className="w-4 h-4 text-gray-500" />
+                    <h3 className="font-semibold text-gray-900">
+                      {appeal.contentType === 'review' ? `Review of ${appeal.contentName}` : appeal.contentName}
+                    </h3>
+                    <span className="text-xs text-gray-500">
+                      by {appeal.submitterEmail || appeal.submittedBy} · {appeal.createdAt.toLocaleDateString()}
+                    </span>
+                  </div>
+                  {appeal.contentPreview && (
+                    <p className="text-sm text-gray-600 mt-1 line-clamp-2">&ldquo;{appeal.contentPreview}&rdquo;</p>
+                  )}
+                  <p className="text-sm text-gray-500 mt-2">
+                    Rejected by {appeal.rejectedBy}
+                    {appeal.rejectionReason && <> · {appeal.rejectionReason}</>}
+                  </p>
+                  <div className="mt-2 p-3 bg-gray-50 rounded text-sm text-gray-800">
+                    <span className="font-medium">Appeal: </span>{appeal.explanation}
+                  </div>
+                  {appeal.status !== 'pending' && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      {STATUS_LABELS[appeal.status]} by {appeal.decidedBy}
+                      {appeal.decidedAt && ` on ${appeal.decidedAt.toLocaleDateString()}`}
+                      {appeal.decisionNote && ` · ${appeal.decisionNote}`}
+                    </p>
+                  )}
+                  {appeal.status === 'pending' && !ownRejection && (
+                    <input
+                      type="text"
+                      value={notes[appeal.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                      maxLength={200}
+                      placeholder="Note for the submitter (optional)"
+                      className="mt-2 w-full max-w-md px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                </div>
+
+                {appeal.status === 'pending' && (
+                  <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                    {ownRejection ? (
+                      <span className="text-sm text-gray-500">You rejected this · another moderator must decide</span>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => decide(appeal, 'overturn')}
+                          disabled={isProcessing}
+                          className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <CheckIcon className="w-4 h-4" />
+                          Overturn
+                        </button>
+                        <button
+                          onClick={() => decide(appeal, 'uphold')}
+                          disabled={isProcessing}
+                          className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                          Uphold
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
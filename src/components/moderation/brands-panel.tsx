@@ -0,0 +1,405 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  LinkIcon,
+  MagnifyingGlassIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline';
+import { AmalaLocation } from '@/types/location';
+import type { BranchAction, Brand, BrandSummary } from '@/types/brand';
+
+interface BrandFormValues {
+  name: string;
+  logo: string;
+  website: string;
+  description: string;
+}
+
+const EMPTY_FORM: BrandFormValues = { name: '', logo: '', website: '', description: '' };
+
+const toForm = (brand: Brand): BrandFormValues => ({
+  name: brand.name,
+  logo: brand.logo || '',
+  website: brand.website || '',
+  description: brand.description || '',
+});
+
+// Empty optional fields are left out rather than sent as blank strings
+const toPayload = (values: BrandFormValues) => ({
+  name: values.name.trim(),
+  logo: values.logo.trim() || undefined,
+  website: values.website.trim() || undefined,
+  description: values.description.trim() || undefined,
+});
+
+/**
+ * Chains and their branches. Moderators create a brand, attach the
+ * locations that are its branches, and set the logo, description, website
+ * and menu that branches without their own fall back to.
+ */
+export function BrandsPanel() {
+  const [brands, setBrands] = useState<BrandSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [branches, setBranches] = useState<AmalaLocation[]>([]);
+  const [form, setForm] = useState<BrandFormValues>(EMPTY_FORM);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<AmalaLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const selected = brands.find(brand => brand.id === selectedId) || null;
+
+  const authHeaders = async () => ({
+    'Authorization': `Bearer ${await getIdToken()}`,
+    'Content-Type': 'application/json',
+  });
+
+  const fetchBrands = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/brands');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch brands', 'Error');
+        return;
+      }
+      setBrands(data.data);
+    } catch (err) {
+      console.error('Error fetching brands:', err);
+      error('Failed to fetch brands', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBranches = async (brandId: string) => {
+    try {
+      const response = await fetch(`/api/brands/${brandId}`);
+      const data = await response.json();
+      setBranches(data.success ? data.data.branches : []);
+    } catch (err) {
+      console.error('Error fetching branches:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchBrands();
+  }, [user]);
+
+  useEffect(() => {
+    setSearchResults([]);
+    if (selected) {
+      setForm(toForm(selected));
+      fetchBranches(selected.id);
+    } else {
+      setForm(EMPTY_FORM);
+      setBranches([]);
+    }
+  }, [selectedId]);
+
+  const saveBrand = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const response = await fetch(selected ? `/api/moderation/brands/${selected.id}` : '/api/moderation/brands', {
+        method: selected ? 'PATCH' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify(toPayload(form)),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.details?.[0]?.message || data.error || 'Failed to save brand', 'Error');
+        return;
+      }
+
+      success(data.message, 'Brand saved');
+      await fetchBrands();
+      setSelectedId(data.data.id);
+    } catch (err) {
+      console.error('Error saving brand:', err);
+      error('Failed to save brand', 'Error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setDefaultMenu = async (branch: AmalaLocation) => {
+    if (!selected) return;
+    try {
+      setProcessingId(branch.id);
+      const response = await fetch(`/api/moderation/brands/${selected.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ menu: branch.menu }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to update menu', 'Error');
+        return;
+      }
+
+      success(`Branches without a menu now show ${branch.name}'s`, 'Default menu set');
+      await fetchBrands();
+    } catch (err) {
+      console.error('Error setting brand menu:', err);
+      error('Failed to update menu', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const searchLocations = async () => {
+    if (!searchQuery.trim()) return;
+    try {
+      setSearching(true);
+      const response = await fetch(`/api/locations?search=${encodeURIComponent(searchQuery)}&limit=10`);
+      const data = await response.json();
+      setSearchResults(data.success ? data.data : []);
+    } catch (err) {
+      console.error('Error searching locations:', err);
+      error('Failed to search locations', 'Error');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const updateBranch = async (location: AmalaLocation, action: BranchAction) => {
+    if (!selected) return;
+    try {
+      setProcessingId(location.id);
+      const response = await fetch(`/api/moderation/brands/${selected.id}/branches`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ locationId: location.id, action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to update branch', 'Error');
+        return;
+      }
+
+      success(data.message, action === 'attach' ? 'Branch attached' : 'Branch detached');
+      setSearchResults(searchResults.map(result => (result.id === location.id ? data.data : result)));
+      await Promise.all([fetchBranches(selected.id), fetchBrands()]);
+    } catch (err) {
+      console.error('Error updating branch:', err);
+      error('Failed to update branch', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Chains</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Group branches of the same spot · branches without their own logo, description or menu use the brand&apos;s
+          </p>
+        </div>
+        <button
+          onClick={fetchBrands}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Brand list */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2 h-fit">
+          <button
+            onClick={() => setSelectedId(null)}
+            className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md ${!selected ? 'bg-orange-50 text-orange-700' : 'text-gray-700 hover:bg-gray-50'}`}
+          >
+            <PlusIcon className="w-4 h-4" />
+            New brand
+          </button>
+          {brands.map(brand => (
+            <button
+              key={brand.id}
+              onClick={() => setSelectedId(brand.id)}
+              className={`w-full text-left px-3 py-2 rounded-md ${brand.id === selectedId ? 'bg-orange-50' : 'hover:bg-gray-50'}`}
+            >
+              <span className="font-medium text-gray-900">{brand.name}</span>
+              <span className="block text-xs text-gray-500">
+                {brand.branchCount} branch{brand.branchCount === 1 ? '' : 'es'}
+                {brand.menu?.length ? ' · default menu' : ''}
+              </span>
+            </button>
+          ))}
+          {!loading && brands.length === 0 && (
+            <p className="px-3 py-2 text-sm text-gray-500">No brands yet</p>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Brand details */}
+          <form onSubmit={saveBrand} className="bg-white border border-gray-200 rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">{selected ? selected.name : 'New brand'}</h2>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={100}
+                placeholder="e.g. Amala Shitta"
+                className={inputClass}
+              />
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Logo URL</span>
+                <input
+                  type="url"
+                  value={form.logo}
+                  onChange={(e) => setForm({ ...form, logo: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Website</span>
+                <input
+                  type="url"
+                  value={form.website}
+                  onChange={(e) => setForm({ ...form, website: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Description</span>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+                maxLength={1000}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || !form.name.trim()}
+                className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : selected ? 'Save brand' : 'Create brand'}
+              </button>
+            </div>
+          </form>
+
+          {selected && (
+            <>
+              {/* Branches */}
+              <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-3">
+                <h2 className="text-lg font-semibold text-gray-900">Branches</h2>
+                {branches.length === 0 ? (
+                  <p className="text-sm text-gray-500">No branches attached yet</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {branches.map(branch => (
+                      <li key={branch.id} className="flex items-center justify-between gap-3 py-2">
+                        <div className="min-w-0">
+                          <span className="font-medium text-gray-900">{branch.name}</span>
+                          <span className="block text-xs text-gray-500 truncate">{branch.address}</span>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          {!!branch.menu?.length && (
+                            <button
+                              onClick={() => setDefaultMenu(branch)}
+                              disabled={processingId === branch.id}
+                              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              Use as default menu
+                            </button>
+                          )}
+                          <button
+                            onClick={() => updateBranch(branch, 'detach')}
+                            disabled={processingId === branch.id}
+                            className="px-3 py-1 text-sm text-red-700 border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Detach
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Attach */}
+              <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-3">
+                <h2 className="text-lg font-semibold text-gray-900">Attach a branch</h2>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && searchLocations()}
+                    placeholder="Search approved locations by name or address"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                  <button
+                    onClick={searchLocations}
+                    disabled={searching || !searchQuery.trim()}
+                    className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <MagnifyingGlassIcon className="w-4 h-4" />
+                    Search
+                  </button>
+                </div>
+                {searchResults.length > 0 && (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {searchResults.map(location => {
+                      const isBranch = location.brandId === selected.id;
+                      const otherBrand = location.brandId && !isBranch
+                        ? brands.find(brand => brand.id === location.brandId)
+                        : undefined;
+                      return (
+                        <li key={location.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                          <div className="min-w-0">
+                            <span className="font-medium text-gray-900">{location.name}</span>
+                            <span className="block text-xs text-gray-500 truncate">
+                              {location.address}
+                              {otherBrand && ` · branch of ${otherBrand.name}`}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => updateBranch(location, 'attach')}
+                            disabled={isBranch || processingId === location.id}
+                            className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 shrink-0"
+                          >
+                            <LinkIcon className="w-4 h-4" />
+                            {isBranch ? 'Attached' : otherBrand ? 'Move here' : 'Attach'}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
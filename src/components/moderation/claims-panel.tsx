@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  DocumentIcon,
+  PhoneIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { ClaimDecision, ClaimStatus, OwnershipClaim } from '@/types/claim';
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const parseClaim = (claim: OwnershipClaim): OwnershipClaim => ({
+  ...claim,
+  createdAt: new Date(claim.createdAt),
+  callbackVerifiedAt: claim.callbackVerifiedAt ? new Date(claim.callbackVerifiedAt) : undefined,
+  decidedAt: claim.decidedAt ? new Date(claim.decidedAt) : undefined,
+});
+
+/**
+ * Ownership claims on listings. For phone callback claims the moderator
+ * calls the listed number and reads out the code; the claim can be approved
+ * once the claimant has entered it.
+ */
+export function ClaimsPanel() {
+  const [claims, setClaims] = useState<OwnershipClaim[]>([]);
+  const [status, setStatus] = useState<ClaimStatus>('pending');
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchClaims = async () => {
+    try {
+      setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch(`/api/moderation/claims?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch claims', 'Error');
+        return;
+      }
+
+      setClaims(data.data.map(parseClaim));
+    } catch (err) {
+      console.error('Error fetching ownership claims:', err);
+      error('Failed to fetch claims', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchClaims();
+  }, [user, status]);
+
+  const decide = async (claim: OwnershipClaim, decision: ClaimDecision) => {
+    try {
+      setProcessingId(claim.id);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/claims', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ claimId: claim.id, decision, note: notes[claim.id]?.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to decide claim', 'Error');
+        return;
+      }
+
+      success(data.message, 'Claim decided');
+      setClaims(claims.filter(other => other.id !== claim.id));
+    } catch (err) {
+      console.error('Error deciding ownership claim:', err);
+      error('Failed to decide claim', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ownership Claims</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Owners and managers claiming their listings · approved owners can update hours, menu and photos directly
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ClaimStatus)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={fetchClaims}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {!loading && claims.length === 0 && (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckIcon className="w-8 h-8 mx-auto text-green-600 mb-2" />
+          <p className="text-gray-600">No {STATUS_LABELS[status].toLowerCase()} claims</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {claims.map(claim => {
+          const isProcessing = processingId === claim.id;
+          const isPhone = claim.proofMethod === 'phone_callback';
+          const awaitingCode = isPhone && !claim.callbackVerifiedAt;
+
+          return (
+            <div key={claim.id} className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isPhone ? <PhoneIcon className="w-4 h-4 text-gray-500" /> : <DocumentIcon className="w-4 h-4 text-gray-500" />}
+                    <h3 className="font-semibold text-gray-900">{claim.locationName}</h3>
+                    <span className="text-xs text-gray-500">
+                      {claim.relationship} · {claim.claimantName || claim.claimantEmail} · {claim.createdAt.toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {claim.claimantEmail}
+                    {claim.contactPhone && <> · {claim.contactPhone}</>}
+                  </p>
+                  {claim.message && (
+                    <div className="mt-2 p-3 bg-gray-50 rounded text-sm text-gray-800">{claim.message}</div>
+                  )}
+                  {isPhone ? (
+                    <p className="text-sm mt-2">
+                      {awaitingCode ? (
+                        <span className="text-gray-700">
+                          Call <span className="font-medium">{claim.callbackPhone}</span> and read out code{' '}
+                          <span className="font-mono font-semibold tracking-widest">{claim.callbackCode}</span>
+                          {!!claim.callbackAttempts && ` · ${claim.callbackAttempts} wrong attempt${claim.callbackAttempts === 1 ? '' : 's'}`}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">
+                          Code confirmed{claim.callbackVerifiedAt && ` on ${claim.callbackVerifiedAt.toLocaleDateString()}`}
+                        </span>
+                      )}
+                    </p>
+                  ) : claim.documentUrl && (
+                    <a
+                      href={claim.documentUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block text-sm text-blue-600 hover:text-blue-700 mt-2"
+                    >
+                      View document
+                    </a>
+                  )}
+                  {claim.status !== 'pending' && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      {STATUS_LABELS[claim.status]} by {claim.decidedBy}
+                      {claim.decidedAt && ` on ${claim.decidedAt.toLocaleDateString()}`}
+                      {claim.decisionNote && ` · ${claim.decisionNote}`}
+                    </p>
+                  )}
+                  {claim.status === 'pending' && (
+                    <input
+                      type="text"
+                      value={notes[claim.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [claim.id]: e.target.value })}
+                      maxLength={200}
+                      placeholder="Note for the claimant (optional)"
+                      className="mt-2 w-full max-w-md px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                </div>
+
+                {claim.status === 'pending' && (
+                  <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                    <button
+                      onClick={() => decide(claim, 'approve')}
+                      disabled={isProcessing || awaitingCode}
+                      title={awaitingCode ? 'Waiting for the claimant to enter the callback code' : undefined}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <CheckIcon className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => decide(claim, 'reject')}
+                      disabled={isProcessing}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
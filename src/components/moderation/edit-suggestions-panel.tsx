@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  ClockIcon,
+  PencilSquareIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+import { AmalaLocation } from '@/types/location';
+import type { EditableField, EditSuggestion } from '@/types/edit-suggestion';
+import type { MenuItem } from '@/types/menu';
+import { formatPrice } from '@/lib/currency-utils';
+
+type QueuedSuggestion = EditSuggestion & { location: AmalaLocation | null };
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  name: 'Name',
+  address: 'Address',
+  coordinates: 'Coordinates',
+  phone: 'Phone',
+  website: 'Website',
+  email: 'Email',
+  description: 'Description',
+  hours: 'Hours',
+  timezone: 'Timezone',
+  serviceType: 'Service type',
+  priceInfo: 'Price info',
+  priceRange: 'Price range',
+  cuisine: 'Cuisine',
+  menu: 'Menu',
+};
+
+const formatValue = (field: EditableField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'coordinates') {
+    const { lat, lng } = value as { lat: number; lng: number };
+    return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  }
+  if (field === 'hours') {
+    const days = Object.entries(value as Record<string, { isOpen: boolean; open: string; close: string }>);
+    return days
+      .map(([day, hours]) => `${day.slice(0, 3)} ${hours.isOpen ? `${hours.open}–${hours.close}` : 'closed'}`)
+      .join(', ');
+  }
+  if (field === 'menu') {
+    const items = value as MenuItem[];
+    if (items.length === 0) return '—';
+    return items
+      .map(item => `${item.name} ${formatPrice(item.price, item.currency)}${item.available ? '' : ' (unavailable)'} · seen ${item.lastSeenAt}`)
+      .join('; ');
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+export function EditSuggestionsPanel() {
+  const [suggestions, setSuggestions] = useState<QueuedSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acceptedFields, setAcceptedFields] = useState<Record<string, Set<EditableField>>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchSuggestions = async () => {
+    try {
+      setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/suggestions?status=pending', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch edit suggestions', 'Error');
+        return;
+      }
+
+      const queued: QueuedSuggestion[] = data.data.map((suggestion: any) => ({
+        ...suggestion,
+        submittedAt: new Date(suggestion.submittedAt),
+      }));
+      setSuggestions(queued);
+      // Default to accepting every proposed field
+      setAcceptedFields(Object.fromEntries(
+        queued.map(suggestion => [suggestion.id, new Set(suggestion.changes.map(change => change.field))])
+      ));
+    } catch (err) {
+      console.error('Error fetching edit suggestions:', err);
+      error('Failed to fetch edit suggestions', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchSuggestions();
+  }, [user]);
+
+  const toggleField = (suggestionId: string, field: EditableField) => {
+    const current = new Set(acceptedFields[suggestionId] || []);
+    if (current.has(field)) {
+      current.delete(field);
+    } else {
+      current.add(field);
+    }
+    setAcceptedFields({ ...acceptedFields, [suggestionId]: current });
+  };
+
+  const reviewSuggestion = async (suggestion: QueuedSuggestion, rejectAll: boolean) => {
+    try {
+      setProcessingId(suggestion.id);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/suggestions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          suggestionId: suggestion.id,
+          acceptedFields: rejectAll ? [] : Array.from(acceptedFields[suggestion.id] || []),
+          notes: notes[suggestion.id]?.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to review suggestion', 'Error');
+        return;
+      }
+
+      success(data.message, 'Suggestion reviewed');
+      setSuggestions(suggestions.filter(item => item.id !== suggestion.id));
+    } catch (err) {
+      console.error('Error reviewing edit suggestion:', err);
+      error('Failed to review suggestion', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Edit Suggestions</h1>
+        <button
+          onClick={fetchSuggestions}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {!loading && suggestions.length === 0 && (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckIcon className="w-8 h-8 mx-auto text-green-600 mb-2" />
+          <p className="text-gray-600">No pending edit suggestions</p>
+        </div>
+      )}
+
+      {suggestions.map(suggestion => {
+        const selected = acceptedFields[suggestion.id] || new Set<EditableField>();
+        const isProcessing = processingId === suggestion.id;
+
+        return (
+          <div key={suggestion.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <PencilSquareIcon className="w-5 h-5 text-orange-600" />
+                  <h3 className="font-semibold text-gray-900">
+                    {suggestion.location?.name || suggestion.locationName}
+                  </h3>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mt-1 text-sm text-gray-500">
+                  <span className="flex items-center gap-1">
+                    <UserIcon className="w-4 h-4" />
+                    {suggestion.submittedBy}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <ClockIcon className="w-4 h-4" />
+                    {suggestion.submittedAt.toLocaleString()}
+                  </span>
+                </div>
+                {suggestion.note && (
+                  <p className="mt-2 text-sm text-gray-700 italic">&ldquo;{suggestion.note}&rdquo;</p>
+                )}
+              </div>
+              {!suggestion.location && (
+                <span className="text-xs text-red-600">Location no longer exists</span>
+              )}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium w-20">Accept</th>
+                  <th className="px-4 py-2 font-medium">Field</th>
+                  <th className="px-4 py-2 font-medium">Current</th>
+                  <th className="px-4 py-2 font-medium">Proposed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {suggestion.changes.map(change => {
+                  const liveValue = suggestion.location?.[change.field];
+                  // The listing changed after the suggestion was made
+                  const drifted = suggestion.location &&
+                    JSON.stringify(liveValue ?? null) !== JSON.stringify(change.currentValue ?? null);
+
+                  return (
+                    <tr key={change.field}>
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(change.field)}
+                          onChange={() => toggleField(suggestion.id, change.field)}
+                          disabled={isProcessing}
+                          className="h-4 w-4 text-orange-600 rounded"
+                        />
+                      </td>
+                      <td className="px-4 py-2 font-medium text-gray-700">{FIELD_LABELS[change.field]}</td>
+                      <td className="px-4 py-2 text-gray-500 break-words">
+                        {formatValue(change.field, drifted ? liveValue : change.currentValue)}
+                        {drifted && (
+                          <span className="block text-xs text-yellow-700">Changed since suggested</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-green-700 break-words">
+                        {formatValue(change.field, change.proposedValue)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="p-4 border-t border-gray-100 flex flex-col sm:flex-row gap-3 sm:items-center">
+              <input
+                type="text"
+                value={notes[suggestion.id] || ''}
+                onChange={(e) => setNotes({ ...notes, [suggestion.id]: e.target.value })}
+                placeholder="Moderator notes (optional)"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => reviewSuggestion(suggestion, true)}
+                  disabled={isProcessing}
+                  className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Reject all
+                </button>
+                <button
+                  onClick={() => reviewSuggestion(suggestion, false)}
+                  disabled={isProcessing || !suggestion.location || selected.size === 0}
+                  className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+                >
+                  {selected.size === suggestion.changes.length
+                    ? 'Accept all'
+                    : `Accept ${selected.size} of ${suggestion.changes.length}`}
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  ClockIcon,
+  LockClosedIcon,
+  ScaleIcon,
+} from '@heroicons/react/24/outline';
+import type { FieldConflict, ProvenanceField } from '@/types/provenance';
+
+const FIELD_LABELS: Record<ProvenanceField, string> = {
+  name: 'Name',
+  address: 'Address',
+  coordinates: 'Coordinates',
+  phone: 'Phone',
+  website: 'Website',
+  email: 'Email',
+  description: 'Description',
+  hours: 'Hours',
+  timezone: 'Timezone',
+  serviceType: 'Service type',
+  priceInfo: 'Price info',
+  priceRange: 'Price range',
+  cuisine: 'Cuisine',
+  images: 'Images',
+};
+
+const formatValue = (field: ProvenanceField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'coordinates') {
+    const { lat, lng } = value as { lat: number; lng: number };
+    return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  }
+  if (field === 'hours') {
+    const days = Object.entries(value as Record<string, { isOpen: boolean; open: string; close: string }>);
+    return days
+      .map(([day, hours]) => `${day.slice(0, 3)} ${hours.isOpen ? `${hours.open}–${hours.close}` : 'closed'}`)
+      .join(', ');
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+export function FieldConflictsPanel() {
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchConflicts = async () => {
+    try {
+      setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/conflicts?status=pending', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch data conflicts', 'Error');
+        return;
+      }
+
+      setConflicts(data.data.map((conflict: any) => ({
+        ...conflict,
+        createdAt: new Date(conflict.createdAt),
+      })));
+    } catch (err) {
+      console.error('Error fetching field conflicts:', err);
+      error('Failed to fetch data conflicts', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchConflicts();
+  }, [user]);
+
+  const resolveConflict = async (conflict: FieldConflict, decision: 'accept' | 'dismiss', lock: boolean) => {
+    try {
+      setProcessingId(conflict.id);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/conflicts', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conflictId: conflict.id, decision, lock }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to resolve conflict', 'Error');
+        return;
+      }
+
+      success(data.message, 'Conflict resolved');
+      setConflicts(conflicts.filter(item => item.id !== conflict.id));
+    } catch (err) {
+      console.error('Error resolving field conflict:', err);
+      error('Failed to resolve conflict', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Data Conflicts</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Enrichment values that disagree with curated or locked fields
+          </p>
+        </div>
+        <button
+          onClick={fetchConflicts}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {!loading && conflicts.length === 0 && (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckIcon className="w-8 h-8 mx-auto text-green-600 mb-2" />
+          <p className="text-gray-600">No data conflicts to review</p>
+        </div>
+      )}
+
+      {conflicts.map(conflict => {
+        const isProcessing = processingId === conflict.id;
+
+        return (
+          <div key={conflict.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <ScaleIcon className="w-5 h-5 text-orange-600" />
+                  <h3 className="font-semibold text-gray-900">{conflict.locationName}</h3>
+                  <span className="text-sm text-gray-500">· {FIELD_LABELS[conflict.field]}</span>
+                  {conflict.locked && (
+                    <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                      <LockClosedIcon className="w-3 h-3" />
+                      Locked
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 mt-1 text-sm text-gray-500">
+                  <ClockIcon className="w-4 h-4" />
+                  {conflict.createdAt.toLocaleString()}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 divide-y sm:divide-y-0 sm:divide-x divide-gray-100 text-sm">
+              <div className="p-4">
+                <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+                  Current{conflict.currentProvenance && ` · ${conflict.currentProvenance.sourceId || conflict.currentProvenance.source}`}
+                </div>
+                <div className="text-gray-800 break-words">{formatValue(conflict.field, conflict.currentValue)}</div>
+              </div>
+              <div className="p-4">
+                <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+                  Proposed · {conflict.proposedSourceId || conflict.proposedSource}
+                </div>
+                <div className="text-green-700 break-words">{formatValue(conflict.field, conflict.proposedValue)}</div>
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-gray-100 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => resolveConflict(conflict, 'dismiss', false)}
+                disabled={isProcessing}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+              >
+                Keep current
+              </button>
+              {!conflict.locked && (
+                <button
+                  onClick={() => resolveConflict(conflict, 'dismiss', true)}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <LockClosedIcon className="w-4 h-4" />
+                  Keep &amp; lock
+                </button>
+              )}
+              <button
+                onClick={() => resolveConflict(conflict, 'accept', false)}
+                disabled={isProcessing}
+                className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+              >
+                Accept proposed
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
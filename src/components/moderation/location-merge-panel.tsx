@@ -0,0 +1,433 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowsRightLeftIcon,
+  ArrowUturnLeftIcon,
+  MagnifyingGlassIcon,
+  MapPinIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { AmalaLocation } from '@/types/location';
+import { MERGEABLE_FIELDS, type MergeableField, type MergeFieldChoices } from '@/types/merge';
+import type { EntityMatch } from '@/lib/services/entity-resolution';
+
+interface MergeLogEntry {
+  id: string;
+  locationId: string;
+  locationName: string;
+  moderatorName?: string;
+  timestamp: Date;
+  undoneAt?: Date;
+  details: {
+    mergedId: string;
+    mergedName: string;
+    movedReviews?: number;
+    movedPhotos?: number;
+  };
+}
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  name: 'Name',
+  address: 'Address',
+  coordinates: 'Coordinates',
+  city: 'City',
+  country: 'Country',
+  phone: 'Phone',
+  website: 'Website',
+  email: 'Email',
+  description: 'Description',
+  hours: 'Hours',
+  timezone: 'Timezone',
+  serviceType: 'Service type',
+  priceInfo: 'Price info',
+  priceRange: 'Price range',
+};
+
+const formatFieldValue = (location: AmalaLocation, field: MergeableField): string => {
+  const value = location[field];
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'coordinates') {
+    const { lat, lng } = location.coordinates;
+    return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  }
+  if (field === 'hours') {
+    const openDays = Object.values(location.hours || {}).filter(day => day.isOpen).length;
+    return openDays > 0 ? `Open ${openDays} day${openDays === 1 ? '' : 's'} a week` : '—';
+  }
+  return String(value);
+};
+
+const isEmptyValue = (location: AmalaLocation, field: MergeableField) =>
+  formatFieldValue(location, field) === '—';
+
+export function LocationMergePanel() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<AmalaLocation[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [survivor, setSurvivor] = useState<AmalaLocation | null>(null);
+  const [merged, setMerged] = useState<AmalaLocation | null>(null);
+  const [suggestions, setSuggestions] = useState<EntityMatch[]>([]);
+  const [fieldChoices, setFieldChoices] = useState<MergeFieldChoices>({});
+  const [merging, setMerging] = useState(false);
+  const [recentMerges, setRecentMerges] = useState<MergeLogEntry[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      fetchRecentMerges();
+    }
+  }, [user]);
+
+  const authHeaders = async () => ({
+    'Authorization': `Bearer ${await getIdToken()}`,
+    'Content-Type': 'application/json',
+  });
+
+  const fetchRecentMerges = async () => {
+    try {
+      const response = await fetch('/api/moderation/merge', { headers: await authHeaders() });
+      if (!response.ok) return;
+      const data = await response.json();
+      setRecentMerges((data.data?.merges || []).map((entry: any) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp),
+        undoneAt: entry.undoneAt ? new Date(entry.undoneAt) : undefined,
+      })));
+    } catch (err) {
+      console.error('Error fetching recent merges:', err);
+    }
+  };
+
+  const searchLocations = async () => {
+    if (!searchQuery.trim()) return;
+    try {
+      setSearching(true);
+      const response = await fetch(`/api/locations?search=${encodeURIComponent(searchQuery)}&limit=10`);
+      const data = await response.json();
+      setSearchResults(data.success ? data.data : []);
+    } catch (err) {
+      console.error('Error searching locations:', err);
+      error('Failed to search locations', 'Error');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const fetchSuggestions = async (locationId: string) => {
+    try {
+      const response = await fetch(`/api/moderation/merge?locationId=${locationId}`, {
+        headers: await authHeaders(),
+      });
+      const data = await response.json();
+      setSuggestions(data.success ? data.data.matches : []);
+    } catch (err) {
+      console.error('Error fetching duplicate suggestions:', err);
+      setSuggestions([]);
+    }
+  };
+
+  // Default each field to the survivor's value, unless only the other record has one
+  const defaultChoices = (keep: AmalaLocation, drop: AmalaLocation): MergeFieldChoices =>
+    Object.fromEntries(
+      MERGEABLE_FIELDS.map(field => [
+        field,
+        isEmptyValue(keep, field) && !isEmptyValue(drop, field) ? 'merged' : 'survivor',
+      ])
+    );
+
+  const selectLocation = (location: AmalaLocation) => {
+    if (!survivor) {
+      setSurvivor(location);
+      fetchSuggestions(location.id);
+    } else if (location.id !== survivor.id) {
+      setMerged(location);
+      setFieldChoices(defaultChoices(survivor, location));
+    }
+    setSearchResults([]);
+    setSearchQuery('');
+  };
+
+  const swapRecords = () => {
+    if (!survivor || !merged) return;
+    setSurvivor(merged);
+    setMerged(survivor);
+    setFieldChoices(defaultChoices(merged, survivor));
+  };
+
+  const resetSelection = () => {
+    setSurvivor(null);
+    setMerged(null);
+    setSuggestions([]);
+    setFieldChoices({});
+  };
+
+  const mergeLocations = async () => {
+    if (!survivor || !merged) return;
+    try {
+      setMerging(true);
+      const response = await fetch('/api/moderation/merge', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ survivorId: survivor.id, mergedId: merged.id, fieldChoices }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        success(
+          `${merged.name} merged into ${data.data.survivor.name} (${data.data.movedReviews} reviews, ${data.data.movedPhotos} photos moved)`,
+          'Merge Complete'
+        );
+        resetSelection();
+        fetchRecentMerges();
+      } else {
+        error(data.error || 'Failed to merge locations', 'Merge Failed');
+      }
+    } catch (err) {
+      console.error('Error merging locations:', err);
+      error('Failed to merge locations', 'Merge Failed');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const undoMerge = async (logId: string) => {
+    try {
+      setUndoingId(logId);
+      const response = await fetch('/api/moderation/merge/undo', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ logId }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        success('Merge undone and both locations restored', 'Undo Complete');
+        fetchRecentMerges();
+      } else {
+        error(data.error || 'Failed to undo merge', 'Undo Failed');
+      }
+    } catch (err) {
+      console.error('Error undoing merge:', err);
+      error('Failed to undo merge', 'Undo Failed');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const LocationSummary = ({ location, label, onClear }: {
+    location: AmalaLocation;
+    label: string;
+    onClear: () => void;
+  }) => (
+    <div className="flex-1 bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-xs font-medium uppercase text-gray-500">{label}</p>
+          <h3 className="font-semibold text-gray-900">{location.name}</h3>
+          <p className="text-sm text-gray-600 flex items-center gap-1">
+            <MapPinIcon className="w-4 h-4" />
+            {location.address}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {location.reviewCount || 0} reviews · {location.rating ? `${location.rating}★` : 'No rating'} · {location.status}
+          </p>
+        </div>
+        <button onClick={onClear} className="text-gray-400 hover:text-gray-600" aria-label="Clear selection">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Merge Locations</h1>
+        <div className="text-sm text-gray-500">
+          Combine duplicate records; reviews and photos move to the surviving location
+        </div>
+      </div>
+
+      {/* Location search */}
+      {(!survivor || !merged) && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <p className="text-sm text-gray-700">
+            {survivor
+              ? `Choose the location to merge into ${survivor.name}`
+              : 'Choose the location to keep'}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && searchLocations()}
+              placeholder="Search approved locations by name or address"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+            <button
+              onClick={searchLocations}
+              disabled={searching || !searchQuery.trim()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              <MagnifyingGlassIcon className="w-4 h-4" />
+              Search
+            </button>
+          </div>
+
+          {searchResults.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {searchResults.map(location => (
+                <li key={location.id}>
+                  <button
+                    onClick={() => selectLocation(location)}
+                    disabled={location.id === survivor?.id}
+                    className="w-full text-left px-4 py-2 hover:bg-orange-50 disabled:opacity-50"
+                  >
+                    <span className="font-medium text-gray-900">{location.name}</span>
+                    <span className="block text-xs text-gray-500">{location.address}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {survivor && suggestions.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Likely duplicates of {survivor.name}</p>
+              <ul className="space-y-2">
+                {suggestions.map(match => (
+                  <li key={match.location.id}>
+                    <button
+                      onClick={() => selectLocation(match.location)}
+                      className="w-full text-left px-4 py-2 border border-orange-200 bg-orange-50 rounded-md hover:bg-orange-100"
+                    >
+                      <span className="font-medium text-gray-900">{match.location.name}</span>
+                      <span className="ml-2 text-xs text-orange-700">{Math.round(match.score * 100)}% match</span>
+                      <span className="block text-xs text-gray-600">{match.reasons.join(' · ')}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Selected records */}
+      {survivor && (
+        <div className="flex flex-col md:flex-row items-stretch gap-4">
+          <LocationSummary location={survivor} label="Keep" onClear={resetSelection} />
+          {merged && (
+            <>
+              <button
+                onClick={swapRecords}
+                className="self-center p-2 rounded-full border border-gray-300 hover:bg-gray-100"
+                aria-label="Swap which location is kept"
+              >
+                <ArrowsRightLeftIcon className="w-5 h-5 text-gray-600" />
+              </button>
+              <LocationSummary location={merged} label="Merge & retire" onClear={() => setMerged(null)} />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Field-by-field choices */}
+      {survivor && merged && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Field</th>
+                <th className="px-4 py-2 font-medium">{survivor.name}</th>
+                <th className="px-4 py-2 font-medium">{merged.name}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {MERGEABLE_FIELDS.map(field => {
+                const survivorValue = formatFieldValue(survivor, field);
+                const mergedValue = formatFieldValue(merged, field);
+                const same = survivorValue === mergedValue;
+
+                return (
+                  <tr key={field} className={same ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2 font-medium text-gray-700">{FIELD_LABELS[field]}</td>
+                    {(['survivor', 'merged'] as const).map(source => (
+                      <td key={source} className="px-4 py-2">
+                        <label className="flex items-start gap-2">
+                          <input
+                            type="radio"
+                            name={`merge-${field}`}
+                            checked={(fieldChoices[field] || 'survivor') === source}
+                            onChange={() => setFieldChoices(prev => ({ ...prev, [field]: source }))}
+                            disabled={same}
+                            className="mt-1"
+                          />
+                          <span className="break-words">{source === 'survivor' ? survivorValue : mergedValue}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-t">
+            <p className="text-xs text-gray-500">
+              Cuisine, dietary options, features and images are combined from both.
+            </p>
+            <button
+              onClick={mergeLocations}
+              disabled={merging}
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {merging ? 'Merging...' : 'Merge Locations'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recent merges */}
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Recent Merges</h2>
+        {recentMerges.length === 0 ? (
+          <p className="text-sm text-gray-500">No merges yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {recentMerges.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-4 py-3">
+                <div>
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{entry.details.mergedName}</span> → <span className="font-medium">{entry.locationName}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {entry.moderatorName || 'Unknown'} · {entry.timestamp.toLocaleString()} · {entry.details.movedReviews || 0} reviews, {entry.details.movedPhotos || 0} photos moved
+                  </p>
+                </div>
+                {entry.undoneAt ? (
+                  <span className="text-xs text-gray-500">Undone {entry.undoneAt.toLocaleDateString()}</span>
+                ) : (
+                  <button
+                    onClick={() => undoMerge(entry.id)}
+                    disabled={undoingId === entry.id}
+                    className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                    {undoingId === entry.id ? 'Undoing...' : 'Undo'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -20,16 +20,23 @@ import {
   ArrowPathIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  ArrowsPointingInIcon,
+  PencilSquareIcon,
+  ArrowUturnLeftIcon,
+  ScaleIcon,
+  LockClosedIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import {
   CheckCircleIcon as CheckSolid,
   XCircleIcon as XSolid,
   ClockIcon as ClockSolid,
 } from '@heroicons/react/24/solid';
+import type { ModeratorOverturnStats } from '@/types/appeal';
 
 interface ModerationAction {
   id: string;
-  action: 'approve' | 'reject' | 'flag' | 'unflag';
+  action: 'approve' | 'reject' | 'flag' | 'unflag' | 'merge' | 'unmerge' | 'accept' | 'partial_accept' | 'rollback' | 'dismiss' | 'lock' | 'unlock' | 'escalate' | 'route' | 'uphold' | 'overturn';
   contentType: 'location' | 'review' | 'user';
   contentId: string;
   contentName: string;
@@ -84,6 +91,8 @@ export function ModerationHistory() {
     search: '',
   });
 
+  const [overturnStats, setOverturnStats] = useState<ModeratorOverturnStats[]>([]);
+
   const [stats, setStats] = useState({
     totalActions: 0,
     todayActions: 0,
@@ -95,6 +104,7 @@ export function ModerationHistory() {
   // Fetch moderation history
   useEffect(() => {
     fetchModerationHistory(1, true);
+    fetchOverturnStats();
   }, []);
 
   // Reset to first page when filters change
@@ -149,12 +159,18 @@ export function ModerationHistory() {
         let contentType = 'unknown';
         let contentId = '';
 
-        if (item.type === 'location_moderation') {
+        if (['location_moderation', 'auto_moderation'].includes(item.type)) {
+          contentType = 'location';
+          contentId = item.locationId || '';
+        } else if (['location_merge', 'edit_suggestion', 'location_revision', 'field_conflict', 'field_lock', 'photo_moderation'].includes(item.type)) {
           contentType = 'location';
           contentId = item.locationId || '';
-        } else if (item.type === 'review_moderation') {
+        } else if (['review_moderation', 'reply_moderation'].includes(item.type)) {
           contentType = 'review';
           contentId = item.reviewId || '';
+        } else if (['queue_escalation', 'appeal'].includes(item.type)) {
+          contentType = item.itemType === 'review' ? 'review' : 'location';
+          contentId = item.reviewId || item.locationId || '';
         }
 
         // Extract moderator name - prefer actual name over email prefix
@@ -220,6 +236,22 @@ export function ModerationHistory() {
     }
   };
 
+  // How often each moderator's rejections were overturned on appeal
+  const fetchOverturnStats = async () => {
+    try {
+      const idToken = await getIdToken();
+      const response = await fetch('/api/moderation/appeals/stats', {
+        headers: { 'Authorization': `Bearer ${idToken}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setOverturnStats(data.data);
+      }
+    } catch (err) {
+      console.error('Error fetching overturn rates:', err);
+    }
+  };
+
   const getDaysFromRange = (range: string): number => {
     switch (range) {
       case '1d': return 1;
@@ -441,6 +473,26 @@ export function ModerationHistory() {
         return <XSolid className="w-5 h-5 text-red-600" />;
       case 'flag':
         return <ExclamationTriangleIcon className="w-5 h-5 text-yellow-600" />;
+      case 'merge':
+      case 'unmerge':
+        return <ArrowsPointingInIcon className="w-5 h-5 text-blue-600" />;
+      case 'accept':
+      case 'partial_accept':
+        return <PencilSquareIcon className="w-5 h-5 text-orange-600" />;
+      case 'rollback':
+        return <ArrowUturnLeftIcon className="w-5 h-5 text-purple-600" />;
+      case 'dismiss':
+        return <ScaleIcon className="w-5 h-5 text-slate-600" />;
+      case 'lock':
+      case 'unlock':
+        return <LockClosedIcon className="w-5 h-5 text-slate-600" />;
+      case 'escalate':
+        return <ExclamationTriangleIcon className="w-5 h-5 text-red-600" />;
+      case 'route':
+        return <ArrowsRightLeftIcon className="w-5 h-5 text-indigo-600" />;
+      case 'uphold':
+      case 'overturn':
+        return <ScaleIcon className="w-5 h-5 text-amber-600" />;
       default:
         return <ClockSolid className="w-5 h-5 text-gray-600" />;
     }
@@ -454,6 +506,25 @@ export function ModerationHistory() {
         return 'bg-red-100 text-red-800';
       case 'flag':
         return 'bg-yellow-100 text-yellow-800';
+      case 'merge':
+      case 'unmerge':
+        return 'bg-blue-100 text-blue-800';
+      case 'accept':
+      case 'partial_accept':
+        return 'bg-orange-100 text-orange-800';
+      case 'rollback':
+        return 'bg-purple-100 text-purple-800';
+      case 'dismiss':
+      case 'lock':
+      case 'unlock':
+        return 'bg-slate-100 text-slate-800';
+      case 'escalate':
+        return 'bg-red-100 text-red-800';
+      case 'route':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'uphold':
+      case 'overturn':
+        return 'bg-amber-100 text-amber-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -591,6 +662,45 @@ export function ModerationHistory() {
         </div>
       </div>
 
+      {/* Appeal Overturn Rates */}
+      {overturnStats.length > 0 && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Appeal Overturn Rates</h3>
+            <p className="text-sm text-gray-500">Share of decided appeals against each moderator&apos;s rejections that were overturned</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Moderator</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rejections</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Appeals Decided</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Overturned</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Overturn Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {overturnStats.map((row) => (
+                  <tr key={row.moderatorId}>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {row.moderatorName}
+                      <span className="block text-xs text-gray-500">{row.moderatorId}</span>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700 text-right">{row.rejections}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700 text-right">{row.appeals}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700 text-right">{row.overturned}</td>
+                    <td className={`px-6 py-3 text-sm font-medium text-right ${row.overturnRate >= 0.5 ? 'text-red-600' : row.overturnRate >= 0.25 ? 'text-orange-600' : 'text-gray-900'}`}>
+                      {(row.overturnRate * 100).toFixed(0)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Filters and Search */}
       <div className="bg-white rounded-lg shadow">
         <div className="p-6 border-b border-gray-200">
@@ -653,6 +763,18 @@ export function ModerationHistory() {
                 <option value="reject">Reject</option>
                 <option value="flag">Flag</option>
                 <option value="unflag">Unflag</option>
+                <option value="merge">Merge</option>
+                <option value="unmerge">Undo Merge</option>
+                <option value="accept">Accept Edit</option>
+                <option value="partial_accept">Partially Accept Edit</option>
+                <option value="rollback">Rollback</option>
+                <option value="dismiss">Dismiss Data Conflict</option>
+                <option value="lock">Lock Field</option>
+                <option value="unlock">Unlock Field</option>
+                <option value="escalate">Escalate</option>
+                <option value="route">Route to Queue</option>
+                <option value="uphold">Uphold on Appeal</option>
+                <option value="overturn">Overturn on Appeal</option>
               </select>
 
               <select
@@ -692,7 +814,7 @@ export function ModerationHistory() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center space-x-2 mb-1">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getActionColor(action.action)}`}>
-                        {action.action.charAt(0).toUpperCase() + action.action.slice(1)}
+                        {(action.action.charAt(0).toUpperCase() + action.action.slice(1)).replace('_', ' ')}
                       </span>
                       <span className="inline-flex items-center text-sm text-gray-500">
                         {getContentTypeIcon(action.contentType)}
@@ -0,0 +1,442 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+  QueueListIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { ModerationQueueItem, QueueItemType } from '@/types/moderation-queue';
+import { MODERATION_LANES, type ModerationLane } from '@/types/moderation-rules';
+
+const TYPE_LABELS: Record<QueueItemType, string> = {
+  location: 'Location',
+  review: 'Review',
+  photo: 'Photo',
+  flag: 'Flag',
+};
+
+const TYPE_STYLES: Record<QueueItemType, string> = {
+  location: 'bg-green-100 text-green-700',
+  review: 'bg-blue-100 text-blue-700',
+  photo: 'bg-purple-100 text-purple-700',
+  flag: 'bg-yellow-100 text-yellow-800',
+};
+
+type QueueSort = 'sla' | 'trust';
+
+// Trusted submitters can be fast-tracked; negative scores mean upheld flags or duplicates
+const trustStyle = (score: number) =>
+  score >= 100 ? 'bg-emerald-100 text-emerald-700' : score < 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700';
+
+type QueueDecision = 'approve' | 'reject' | 'dismiss' | 'uphold' | 'escalate';
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const parseItem = (item: any): ModerationQueueItem => ({
+  ...item,
+  submittedAt: new Date(item.submittedAt),
+  slaDueAt: new Date(item.slaDueAt),
+  escalatedAt: item.escalatedAt ? new Date(item.escalatedAt) : undefined,
+  lease: item.lease
+    ? { ...item.lease, claimedAt: new Date(item.lease.claimedAt), expiresAt: new Date(item.lease.expiresAt) }
+    : null,
+});
+
+// Endpoint and body that carry out a decision on each kind of item
+const decisionRequest = (item: ModerationQueueItem, decision: QueueDecision, reason?: string) => {
+  switch (item.type) {
+    case 'location':
+      return { url: '/api/moderation', method: 'POST', body: { locationId: item.contentId, action: decision, reason } };
+    case 'review':
+      return { url: '/api/reviews', method: 'PATCH', body: { reviewId: item.contentId, action: decision, reason } };
+    case 'photo':
+      return { url: '/api/photos', method: 'PATCH', body: { photoId: item.contentId, action: decision } };
+    case 'flag':
+      return { url: '/api/flagged', method: 'POST', body: { flagId: item.contentId, action: decision } };
+  }
+};
+
+export function ModerationQueuePanel() {
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [moderatorId, setModeratorId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<QueueItemType | 'all'>('all');
+  const [laneFilter, setLaneFilter] = useState<ModerationLane | 'all'>('all');
+  const [sortBy, setSortBy] = useState<QueueSort>('sla');
+  const [now, setNow] = useState(Date.now());
+  // Optional reasons sent to submitters, by queue item id
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchQueue = async (showLoading = true) => {
+    try {
+      if (showLoading) setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/queue', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch moderation queue', 'Error');
+        return;
+      }
+
+      setItems(data.data.map(parseItem));
+      setModeratorId(data.moderatorId);
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Error fetching moderation queue:', err);
+      error('Failed to fetch moderation queue', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    fetchQueue();
+
+    // Keep claims and SLA timers current while the queue is open
+    const refresh = setInterval(() => fetchQueue(false), 60_000);
+    const tick = setInterval(() => setNow(Date.now()), 15_000);
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, [user]);
+
+  const setClaim = async (item: ModerationQueueItem, action: 'claim' | 'release') => {
+    try {
+      setProcessingId(item.id);
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/queue', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ itemId: item.id, action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to update claim', 'Error');
+        if (response.status === 409) fetchQueue(false);
+        return;
+      }
+
+      const lease = data.data
+        ? { ...data.data, claimedAt: new Date(data.data.claimedAt), expiresAt: new Date(data.data.expiresAt) }
+        : null;
+      setItems(items.map(other => (other.id === item.id ? { ...other, lease } : other)));
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Error updating queue claim:', err);
+      error('Failed to update claim', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const decide = async (item: ModerationQueueItem, decision: QueueDecision) => {
+    try {
+      setProcessingId(item.id);
+      const token = await getIdToken();
+      const { url, method, body } = decisionRequest(item, decision, reasons[item.id]?.trim() || undefined);
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok || data.success === false) {
+        error(data.error || 'Failed to moderate item', 'Error');
+        return;
+      }
+
+      success(data.message || `${TYPE_LABELS[item.type]} updated`, 'Moderated');
+      if (decision === 'escalate') {
+        fetchQueue(false);
+      } else {
+        setItems(items.filter(other => other.id !== item.id));
+      }
+    } catch (err) {
+      console.error('Error moderating queue item:', err);
+      error('Failed to moderate item', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const visibleItems = items.filter(item =>
+    (typeFilter === 'all' || item.type === typeFilter) && (laneFilter === 'all' || item.lane === laneFilter)
+  );
+  // The server orders by escalation then SLA; trust sort keeps escalated items on top
+  if (sortBy === 'trust') {
+    visibleItems.sort((a, b) =>
+      Number(b.escalated) - Number(a.escalated)
+        || (b.submitterTrustScore ?? -Infinity) - (a.submitterTrustScore ?? -Infinity)
+    );
+  }
+  const escalatedCount = items.filter(item => item.escalated).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Moderation Queue</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {items.length} waiting{escalatedCount > 0 && ` · ${escalatedCount} escalated`} · claim an item before acting on it
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as QueueItemType | 'all')}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All items</option>
+            {Object.entries(TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}s</option>
+            ))}
+          </select>
+          <select
+            value={laneFilter}
+            onChange={(e) => setLaneFilter(e.target.value as ModerationLane | 'all')}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All lanes</option>
+            {MODERATION_LANES.map(lane => (
+              <option key={lane} value={lane} className="capitalize">{lane}</option>
+            ))}
+          </select>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as QueueSort)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="sla">SLA due first</option>
+            <option value="trust">Most trusted first</option>
+          </select>
+          <button
+            onClick={() => fetchQueue()}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {!loading && visibleItems.length === 0 && (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckIcon className="w-8 h-8 mx-auto text-green-600 mb-2" />
+          <p className="text-gray-600">The queue is empty</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {visibleItems.map(item => {
+          const lease = item.lease && item.lease.expiresAt.getTime() > now ? item.lease : null;
+          const mine = !!lease && lease.moderatorId === moderatorId;
+          const claimedByOther = !!lease && !mine;
+          const slaRemaining = item.slaDueAt.getTime() - now;
+          const isProcessing = processingId === item.id;
+
+          return (
+            <div
+              key={item.id}
+              className={`bg-white border rounded-lg p-4 ${
+                item.escalated ? 'border-red-300' : 'border-gray-200'
+              } ${claimedByOther ? 'opacity-50' : ''}`}
+            >
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  {item.previewUrl && (
+                    <Image
+                      src={item.previewUrl}
+                      alt={item.title}
+                      width={64}
+                      height={64}
+                      className="w-16 h-16 rounded object-cover shrink-0"
+                    />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${TYPE_STYLES[item.type]}`}>
+                        {TYPE_LABELS[item.type]}
+                      </span>
+                      <h3 className="font-semibold text-gray-900 truncate">{item.title}</h3>
+                      {item.escalated && (
+                        <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                          <ExclamationTriangleIcon className="w-3 h-3" />
+                          {item.escalationReason === 'sla_breach' ? 'Escalated · SLA breached' : 'Escalated'}
+                        </span>
+                      )}
+                      {item.lane && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 capitalize">
+                          {item.lane} lane
+                        </span>
+                      )}
+                      {item.riskScore !== undefined && item.riskScore >= 30 && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-700">
+                          Risk {item.riskScore}
+                        </span>
+                      )}
+                      {item.submitterTrustScore !== undefined && (
+                        <span
+                          className={`text-xs px-2 py-0.5 rounded-full ${trustStyle(item.submitterTrustScore)}`}
+                          title="Submitter's reputation trust score"
+                        >
+                          Trust {item.submitterTrustScore}
+                        </span>
+                      )}
+                    </div>
+                    {item.summary && (
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">{item.summary}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-500">
+                      <span className="flex items-center gap-1">
+                        <ClockIcon className="w-3 h-3" />
+                        Waiting {formatDuration(now - item.submittedAt.getTime())}
+                      </span>
+                      <span className={slaRemaining < 0 ? 'text-red-600 font-medium' : slaRemaining < 60 * 60 * 1000 ? 'text-orange-600' : ''}>
+                        {slaRemaining < 0
+                          ? `SLA overdue by ${formatDuration(-slaRemaining)}`
+                          : `SLA due in ${formatDuration(slaRemaining)}`}
+                      </span>
+                      {item.submittedBy && <span>by {item.submittedBy}</span>}
+                      {lease && (
+                        <span className="flex items-center gap-1 text-gray-700">
+                          <LockClosedIcon className="w-3 h-3" />
+                          {mine ? 'Claimed by you' : `Claimed by ${lease.moderatorName}`}
+                          {' · '}{formatDuration(lease.expiresAt.getTime() - now)} left
+                        </span>
+                      )}
+                    </div>
+                    {mine && (item.type === 'location' || item.type === 'review') && (
+                      <input
+                        type="text"
+                        value={reasons[item.id] || ''}
+                        onChange={(e) => setReasons({ ...reasons, [item.id]: e.target.value })}
+                        maxLength={200}
+                        placeholder="Reason shown to the submitter (optional)"
+                        className="mt-2 w-full max-w-md px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                  {!lease && (
+                    <button
+                      onClick={() => setClaim(item, 'claim')}
+                      disabled={isProcessing}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Claim
+                    </button>
+                  )}
+                  {mine && (
+                    <>
+                      {item.type === 'flag' ? (
+                        <>
+                          <button
+                            onClick={() => decide(item, 'uphold')}
+                            disabled={isProcessing}
+                            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Uphold
+                          </button>
+                          <button
+                            onClick={() => decide(item, 'dismiss')}
+                            disabled={isProcessing}
+                            className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            Dismiss
+                          </button>
+                          {!item.escalated && (
+                            <button
+                              onClick={() => decide(item, 'escalate')}
+                              disabled={isProcessing}
+                              className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-50 disabled:opacity-50"
+                            >
+                              Escalate
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => decide(item, 'approve')}
+                            disabled={isProcessing}
+                            className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <CheckIcon className="w-4 h-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => decide(item, 'reject')}
+                            disabled={isProcessing}
+                            className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => setClaim(item, 'claim')}
+                        disabled={isProcessing}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Extend
+                      </button>
+                      <button
+                        onClick={() => setClaim(item, 'release')}
+                        disabled={isProcessing}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Release
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {loading && items.length === 0 && (
+        <div className="flex items-center justify-center py-12 text-gray-500">
+          <QueueListIcon className="w-5 h-5 mr-2 animate-pulse" />
+          Loading queue...
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ChatBubbleLeftRightIcon,
+  CheckIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { Review, ReviewReply } from '@/types/location';
+
+type PendingReply = ReviewReply & { review: Review | null };
+
+/**
+ * Pending replies to reviews. Renders nothing while the queue is empty.
+ */
+export function ReviewRepliesPanel() {
+  const [replies, setReplies] = useState<PendingReply[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+
+  const fetchReplies = async () => {
+    try {
+      const token = await getIdToken();
+      const response = await fetch('/api/moderation/replies?status=pending', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to fetch pending replies', 'Error');
+        return;
+      }
+
+      setReplies(data.data);
+    } catch (err) {
+      console.error('Error fetching pending replies:', err);
+      error('Failed to fetch pending replies', 'Error');
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchReplies();
+  }, [user]);
+
+  const moderateReply = async (reply: PendingReply, action: 'approve' | 'reject') => {
+    try {
+      setProcessingId(reply.id);
+      const token = await getIdToken();
+      const response = await fetch(`/api/reviews/${reply.review_id}/replies`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ replyId: reply.id, action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to moderate reply', 'Error');
+        return;
+      }
+
+      success(data.message, 'Reply moderated');
+      setReplies(replies.filter(item => item.id !== reply.id));
+    } catch (err) {
+      console.error('Error moderating reply:', err);
+      error('Failed to moderate reply', 'Error');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (replies.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <ChatBubbleLeftRightIcon className="w-6 h-6 text-gray-600" />
+        <h2 className="text-xl font-semibold">Pending Replies ({replies.length})</h2>
+      </div>
+
+      <div className="space-y-4">
+        {replies.map(reply => {
+          const isProcessing = processingId === reply.id;
+
+          return (
+            <div key={reply.id} className="border rounded-lg p-4">
+              {reply.review && (
+                <div className="text-sm text-gray-500 border-l-2 border-gray-200 pl-3 mb-3">
+                  <span className="font-medium text-gray-700">{reply.review.author}</span>
+                  {' '}({reply.review.rating}★): {reply.review.text}
+                </div>
+              )}
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{reply.author}</span>
+                    <span className="text-gray-500"> · {new Date(reply.date_posted).toLocaleString()}</span>
+                  </div>
+                  <p className="text-gray-700 mt-1">{reply.text}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => moderateReply(reply, 'approve')}
+                    disabled={isProcessing}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition-colors flex items-center gap-1"
+                  >
+                    <CheckIcon className="w-4 h-4" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => moderateReply(reply, 'reject')}
+                    disabled={isProcessing}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition-colors flex items-center gap-1"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                    Reject
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
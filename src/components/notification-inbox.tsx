@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { BellIcon, CheckCircleIcon, XCircleIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import type { Appeal, AppealStatus } from "@/types/appeal";
+import type { NotificationType, UserNotification } from "@/types/notification";
+
+const APPROVED_TYPES: NotificationType[] = ["location_approved", "review_approved", "appeal_overturned", "claim_approved"];
+
+const APPEAL_STATUS_LABELS: Record<AppealStatus, string> = {
+  pending: "Appeal pending",
+  upheld: "Appeal declined",
+  overturned: "Appeal accepted",
+};
+
+// The appealable item a rejection notification is about
+const appealTarget = (notification: UserNotification) => {
+  if (notification.type === "location_rejected" && notification.data.locationId) {
+    return { contentType: "location" as const, contentId: notification.data.locationId };
+  }
+  if (notification.type === "review_rejected" && notification.data.reviewId) {
+    return { contentType: "review" as const, contentId: notification.data.reviewId };
+  }
+  return null;
+};
+
+const formatTimeAgo = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString();
+};
+
+export function NotificationInbox() {
+  const { notifications, unreadCount, loading, isInboxOpen, closeInbox, markRead, markAllRead } = useNotifications();
+  const { getIdToken } = useAuth();
+  const { success, error } = useToast();
+  // Appeals the user has filed, keyed by `${contentType}__${contentId}`
+  const [appeals, setAppeals] = useState<Record<string, Appeal>>({});
+  const [appealingId, setAppealingId] = useState<string | null>(null);
+  const [explanation, setExplanation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchAppeals = async () => {
+    try {
+      const token = await getIdToken();
+      const response = await fetch("/api/appeals", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setAppeals(Object.fromEntries(data.data.map((appeal: Appeal) => [appeal.id, appeal])));
+      }
+    } catch (err) {
+      console.error("Error fetching appeals:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (isInboxOpen) fetchAppeals();
+  }, [isInboxOpen]);
+
+  const submitAppeal = async (notification: UserNotification) => {
+    const target = appealTarget(notification);
+    if (!target) return;
+
+    try {
+      setSubmitting(true);
+      const token = await getIdToken();
+      const response = await fetch("/api/appeals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ...target, explanation }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.details?.[0]?.message || data.error || "Failed to submit appeal", "Error");
+        return;
+      }
+
+      success(data.message, "Appeal submitted");
+      setAppeals({ ...appeals, [data.data.id]: data.data });
+      setAppealingId(null);
+      setExplanation("");
+    } catch (err) {
+      console.error("Error submitting appeal:", err);
+      error("Failed to submit appeal", "Error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isInboxOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end" role="dialog" aria-modal="true" aria-label="Notifications">
+      <div className="absolute inset-0 bg-black/20" onClick={closeInbox} />
+
+      <div className="relative w-full max-w-sm h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <BellIcon className="w-5 h-5 text-gray-700" />
+            <h2 className="font-semibold text-gray-900">Notifications</h2>
+            {unreadCount > 0 && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">{unreadCount} unread</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {unreadCount > 0 && (
+              <button onClick={markAllRead} className="text-sm text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+            <button
+              onClick={closeInbox}
+              className="p-1 rounded-full hover:bg-gray-100 text-gray-500"
+              aria-label="Close notifications"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <BellIcon className="w-8 h-8 mb-2 text-gray-300" />
+              <p className="text-sm">{loading ? "Loading notifications..." : "No notifications yet"}</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map((notification) => {
+                const approved = APPROVED_TYPES.includes(notification.type);
+                const Icon = approved ? CheckCircleIcon : XCircleIcon;
+                const target = appealTarget(notification);
+                const appeal = target ? appeals[`${target.contentType}__${target.contentId}`] : undefined;
+                return (
+                  <li key={notification.id} className={notification.read ? "" : "bg-blue-50/50"}>
+                    <div
+                      onClick={() => !notification.read && markRead([notification.id])}
+                      className="px-4 py-3 flex gap-3 hover:bg-gray-50 transition-colors cursor-pointer"
+                    >
+                      <Icon className={`w-5 h-5 flex-shrink-0 mt-0.5 ${approved ? "text-green-600" : "text-red-500"}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-2">
+                          <p className={`text-sm text-gray-900 ${notification.read ? "" : "font-semibold"}`}>
+                            {notification.title}
+                          </p>
+                          {!notification.read && <span className="w-2 h-2 mt-1.5 rounded-full bg-blue-600 flex-shrink-0" />}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-0.5">{notification.body}</p>
+                        <p className="text-xs text-gray-400 mt-1">{formatTimeAgo(notification.createdAt)}</p>
+                      </div>
+                    </div>
+
+                    {target && (
+                      <div className="px-4 pb-3 pl-12">
+                        {appeal ? (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                            {APPEAL_STATUS_LABELS[appeal.status]}
+                          </span>
+                        ) : appealingId === notification.id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={explanation}
+                              onChange={(e) => setExplanation(e.target.value)}
+                              maxLength={1000}
+                              rows={3}
+                              placeholder="Explain why this should be reconsidered. You can only appeal once."
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => submitAppeal(notification)}
+                                disabled={submitting || explanation.trim().length < 10}
+                                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {submitting ? "Submitting..." : "Submit appeal"}
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setAppealingId(null);
+                                  setExplanation("");
+                                }}
+                                className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setAppealingId(notification.id);
+                              setExplanation("");
+                            }}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            Appeal this decision
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/FirebaseAuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ArrowLeftIcon, ArrowPathIcon, BuildingStorefrontIcon } from '@heroicons/react/24/outline';
+import { OwnerInsightsWidget } from '@/components/dashboard/analytics-widgets';
+import type { LocationInsights } from '@/types/insights';
+
+/**
+ * Insights for the spots the signed-in owner manages, one spot at a time
+ */
+export function OwnerDashboard() {
+  const { user, getIdToken } = useAuth();
+  const { error } = useToast();
+  const [insights, setInsights] = useState<LocationInsights[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInsights = async () => {
+    try {
+      setLoading(true);
+      const token = await getIdToken();
+      const response = await fetch(`/api/owner/insights?days=${days}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        error(data.error || 'Failed to load insights', 'Error');
+        return;
+      }
+
+      setInsights(data.data);
+    } catch (err) {
+      console.error('Error fetching owner insights:', err);
+      error('Failed to load insights', 'Error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) fetchInsights();
+  }, [user, days]);
+
+  const selected = insights.find(entry => entry.locationId === locationId) || insights[0];
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeftIcon className="w-4 h-4" />
+            Back to map
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">Your spots</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            How visitors find and interact with your listings, compared with other spots in your city
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {insights.length > 1 && (
+            <select
+              value={selected?.locationId || ''}
+              onChange={(e) => setLocationId(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {insights.map(entry => (
+                <option key={entry.locationId} value={entry.locationId}>{entry.locationName}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+          </select>
+          <button
+            onClick={fetchInsights}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {loading && insights.length === 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="bg-white rounded-lg shadow p-6 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded mb-2"></div>
+              <div className="h-8 bg-gray-200 rounded"></div>
+            </div>
+          ))}
+        </div>
+      ) : !selected ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <BuildingStorefrontIcon className="w-8 h-8 mx-auto text-orange-600 mb-2" />
+          <p className="text-gray-600">You don&apos;t manage any approved spots yet</p>
+          <p className="text-sm text-gray-500 mt-1">Claim your spot from its page on the map</p>
+        </div>
+      ) : (
+        <OwnerInsightsWidget insights={selected} />
+      )}
+    </div>
+  );
+}
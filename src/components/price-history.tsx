@@ -0,0 +1,170 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { AmalaLocation } from "@/types/location";
+import type { PriceObservationSource, PriceTrendPoint } from "@/types/price";
+import {
+  convertFromSmallestUnit,
+  estimateCurrencyFromLocation,
+  formatPrice,
+  getCurrencySymbol,
+} from "@/lib/currency-utils";
+
+interface PriceHistoryProps {
+  location: AmalaLocation;
+}
+
+const SOURCE_LABELS: Record<PriceObservationSource, string> = {
+  review: "review",
+  scout_visit: "scout visit",
+  menu_edit: "menu update",
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "short", year: "2-digit", timeZone: "UTC" });
+
+/**
+ * Monthly median plate price at a location, from reviews, scout visits and
+ * menu updates. Scouts can log the price they saw on a visit.
+ */
+export function PriceHistory({ location }: PriceHistoryProps) {
+  const { user, getIdToken } = useAuth();
+  const { success, error: showError } = useToast();
+  const [trend, setTrend] = useState<PriceTrendPoint[]>([]);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [latest, setLatest] = useState<{ price: number; currency: string; source: PriceObservationSource; observedAt: string } | null>(null);
+  const [showLogForm, setShowLogForm] = useState(false);
+  const [price, setPrice] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isScout = !!user?.roles?.some((role) => role === "scout" || role === "mod" || role === "admin");
+  const visitCurrency = location.currency || estimateCurrencyFromLocation(location.country, location.city);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch(`/api/locations/${location.id}/prices`);
+      const data = await response.json();
+      if (data.success) {
+        setTrend(data.data.trend);
+        setCurrency(data.data.currency);
+        setLatest(data.data.observations[0] || null);
+      }
+    } catch (err) {
+      console.error("Error fetching price history:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (location.id) fetchHistory();
+  }, [location.id]);
+
+  const logPrice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const token = await getIdToken();
+      const response = await fetch(`/api/locations/${location.id}/prices`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ price: Number(price), currency: visitCurrency }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        showError(data.details?.[0]?.message || data.error || "Failed to log price", "Price not logged");
+        return;
+      }
+
+      success(data.message, "Thanks for the update");
+      setShowLogForm(false);
+      setPrice("");
+      await fetchHistory();
+    } catch (err) {
+      console.error("Error logging visit price:", err);
+      showError("Failed to log price", "Error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!latest && !isScout) {
+    return null;
+  }
+
+  const chartData = trend.map((point) => ({
+    month: formatMonth(point.month),
+    median: convertFromSmallestUnit(point.median, currency || "USD"),
+  }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">Price history</h4>
+        {isScout && !showLogForm && (
+          <button
+            onClick={() => setShowLogForm(true)}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Log visit price
+          </button>
+        )}
+      </div>
+
+      {latest && (
+        <p className="text-sm text-gray-600">
+          Latest plate price {formatPrice(latest.price, latest.currency)} · {SOURCE_LABELS[latest.source]},{" "}
+          {new Date(latest.observedAt).toLocaleDateString()}
+        </p>
+      )}
+
+      {chartData.length > 1 && (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={48} />
+              <Tooltip formatter={(value) => [`${getCurrencySymbol(currency || "USD")}${Number(value).toLocaleString()}`, "Median plate"]} />
+              <Line type="monotone" dataKey="median" stroke="#ea580c" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {showLogForm && (
+        <form onSubmit={logPrice} className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">{getCurrencySymbol(visitCurrency)}</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="Plate price today"
+            className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !(Number(price) > 0)}
+            className="px-3 py-1 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Log"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowLogForm(false)}
+            className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
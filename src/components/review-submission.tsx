@@ -7,6 +7,8 @@ import { useToast } from "@/contexts/ToastContext";
 import { StarIcon, CloudArrowUpIcon, XMarkIcon } from "@heroicons/react/24/outline";
 import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
 import { AmalaLocation } from "@/types/location";
+import { RATING_ASPECTS, RATING_ASPECT_LABELS, type AspectRatings, type RatingAspect } from "@/types/rating";
+import { convertToSmallestUnit, estimateCurrencyFromLocation, getCurrencySymbol } from "@/lib/currency-utils";
 
 interface ReviewSubmissionProps {
   location: AmalaLocation;
@@ -23,11 +25,14 @@ export function ReviewSubmission({
   const { success, error: showError } = useToast();
   const [rating, setRating] = useState<number>(0);
   const [hoverRating, setHoverRating] = useState<number>(0);
+  const [aspectRatings, setAspectRatings] = useState<AspectRatings>({});
   const [reviewText, setReviewText] = useState("");
+  const [pricePaid, setPricePaid] = useState("");
   const [images, setImages] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [userReviews, setUserReviews] = useState<any[]>([]);
+  const priceCurrency = location.currency || estimateCurrencyFromLocation(location.country, location.city);
   const [loadingReviews, setLoadingReviews] = useState(false);
   
   // Add ref to track if component is mounted to prevent state updates after unmount
@@ -326,8 +331,11 @@ export function ReviewSubmission({
         body: JSON.stringify({
           location_id: location.id,
           rating,
+          aspectRatings: Object.keys(aspectRatings).length > 0 ? aspectRatings : undefined,
           text: reviewText,
           photos: imageUrls, // Use 'photos' field as per existing API
+          pricePaid: Number(pricePaid) > 0 ? convertToSmallestUnit(Number(pricePaid), priceCurrency) : undefined,
+          priceCurrency,
         }),
       });
 
@@ -343,7 +351,9 @@ export function ReviewSubmission({
       // Reset form only if component is still mounted
       if (isMountedRef.current) {
         setRating(0);
+        setAspectRatings({});
         setReviewText("");
+        setPricePaid("");
         setImages([]);
         success("Review submitted for moderation!", "Your review will be published after approval by Moderators");
         
@@ -507,6 +517,45 @@ export function ReviewSubmission({
           </div>
         </div>
 
+        {/* Optional sub-ratings; tap the same star again to clear */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Rate the details (Optional)
+          </label>
+          <div className="space-y-1">
+            {RATING_ASPECTS.map((aspect: RatingAspect) => (
+              <div key={aspect} className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">{RATING_ASPECT_LABELS[aspect]}</span>
+                <div className="flex space-x-0.5">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      type="button"
+                      onClick={() => {
+                        const next = { ...aspectRatings };
+                        if (next[aspect] === star) {
+                          delete next[aspect];
+                        } else {
+                          next[aspect] = star;
+                        }
+                        setAspectRatings(next);
+                      }}
+                      className="focus:outline-none"
+                      aria-label={`${RATING_ASPECT_LABELS[aspect]}: ${star} star${star === 1 ? "" : "s"}`}
+                    >
+                      {star <= (aspectRatings[aspect] || 0) ? (
+                        <StarSolidIcon className="w-4 h-4 text-yellow-400" />
+                      ) : (
+                        <StarIcon className="w-4 h-4 text-gray-300" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Review Text */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -526,6 +575,28 @@ export function ReviewSubmission({
           </div>
         </div>
 
+        {/* Price Paid */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            What did you pay for your plate? (Optional)
+          </label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500">{getCurrencySymbol(priceCurrency)}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={pricePaid}
+              onChange={(e) => setPricePaid(e.target.value)}
+              placeholder="e.g. 2000"
+              className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            Helps others compare prices and keeps the price history current
+          </div>
+        </div>
+
         {/* Image Upload */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,302 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  HandThumbUpIcon as ThumbsUp,
+  HandThumbDownIcon as ThumbsDown,
+  ChatBubbleLeftRightIcon as Replies,
+  BuildingStorefrontIcon as Storefront,
+} from "@heroicons/react/24/outline";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { AmalaLocation, Review, ReviewReply, ReviewVote } from "@/types/location";
+
+interface ReviewThreadProps {
+  review: Review;
+  location: AmalaLocation;
+  onReviewChange: (review: Review) => void;
+}
+
+/**
+ * Helpful votes, the owner's response and the reply thread under a review
+ */
+export function ReviewThread({ review, location, onReviewChange }: ReviewThreadProps) {
+  const { user, getIdToken } = useAuth();
+  const { success, error } = useToast();
+  const [voting, setVoting] = useState(false);
+  const [replies, setReplies] = useState<ReviewReply[] | null>(null);
+  const [showReplies, setShowReplies] = useState(false);
+  const [replyText, setReplyText] = useState("");
+  const [showReplyForm, setShowReplyForm] = useState(false);
+  const [responseText, setResponseText] = useState("");
+  const [showResponseForm, setShowResponseForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isOwner = !!user && (location.ownerIds || []).includes(user.id);
+  const isAuthor = !!user && review.user_id === user.id;
+
+  const vote = async (value: ReviewVote) => {
+    if (!user) {
+      error("Please sign in to vote on reviews", "Authentication Required");
+      return;
+    }
+    const next = review.myVote === value ? null : value;
+    try {
+      setVoting(true);
+      const response = await fetch(`/api/reviews/${review.id}/votes`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${await getIdToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ vote: next }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || "Failed to record vote", "Error");
+        return;
+      }
+      onReviewChange({
+        ...review,
+        helpfulCount: data.data.helpfulCount,
+        notHelpfulCount: data.data.notHelpfulCount,
+        myVote: data.data.vote,
+      });
+    } catch (err) {
+      console.error("Error voting on review:", err);
+      error("Failed to record vote", "Error");
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const toggleReplies = async () => {
+    if (showReplies) {
+      setShowReplies(false);
+      return;
+    }
+    setShowReplies(true);
+    if (replies) return;
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/replies`);
+      const data = await response.json();
+      setReplies(data.success ? data.data : []);
+    } catch (err) {
+      console.error("Error fetching replies:", err);
+      setReplies([]);
+    }
+  };
+
+  const submitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) {
+      error("Please sign in to reply", "Authentication Required");
+      return;
+    }
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/reviews/${review.id}/replies`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${await getIdToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ text: replyText }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || "Failed to submit reply", "Error");
+        return;
+      }
+      success("Your reply will appear once a moderator approves it", "Reply submitted");
+      setReplyText("");
+      setShowReplyForm(false);
+    } catch (err) {
+      console.error("Error submitting reply:", err);
+      error("Failed to submit reply", "Error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveResponse = async (remove: boolean) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/reviews/${review.id}/response`, {
+        method: remove ? "DELETE" : "PUT",
+        headers: {
+          "Authorization": `Bearer ${await getIdToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: remove ? undefined : JSON.stringify({ text: responseText }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        error(data.error || "Failed to save response", "Error");
+        return;
+      }
+      success(data.message, "Owner response");
+      onReviewChange({ ...review, ownerResponse: data.data.ownerResponse });
+      setShowResponseForm(false);
+    } catch (err) {
+      console.error("Error saving owner response:", err);
+      error("Failed to save response", "Error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => vote("helpful")}
+          disabled={voting || isAuthor}
+          className={`flex items-center gap-1 text-xs disabled:opacity-50 ${
+            review.myVote === "helpful" ? "text-blue-600 font-medium" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          <ThumbsUp className="w-3 h-3" />
+          Helpful{review.helpfulCount ? ` (${review.helpfulCount})` : ""}
+        </button>
+        <button
+          onClick={() => vote("not_helpful")}
+          disabled={voting || isAuthor}
+          className={`flex items-center gap-1 text-xs disabled:opacity-50 ${
+            review.myVote === "not_helpful" ? "text-blue-600 font-medium" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          <ThumbsDown className="w-3 h-3" />
+          Not helpful{review.notHelpfulCount ? ` (${review.notHelpfulCount})` : ""}
+        </button>
+        <button
+          onClick={toggleReplies}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+        >
+          <Replies className="w-3 h-3" />
+          {review.replyCount ? `${review.replyCount} repl${review.replyCount === 1 ? "y" : "ies"}` : "Replies"}
+        </button>
+        {user && (
+          <button
+            onClick={() => setShowReplyForm(!showReplyForm)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Reply
+          </button>
+        )}
+        {isOwner && !review.ownerResponse && !showResponseForm && (
+          <button
+            onClick={() => {
+              setResponseText("");
+              setShowResponseForm(true);
+            }}
+            className="text-xs text-orange-600 hover:text-orange-700"
+          >
+            Respond as owner
+          </button>
+        )}
+      </div>
+
+      {review.ownerResponse && !showResponseForm && (
+        <div className="ml-2 pl-3 border-l-2 border-orange-300 bg-orange-50 rounded-r p-2">
+          <div className="flex items-center gap-1 text-xs font-medium text-orange-800">
+            <Storefront className="w-3 h-3" />
+            Response from the owner
+            <span className="font-normal text-gray-500">
+              · {new Date(review.ownerResponse.respondedAt).toLocaleDateString()}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 mt-1">{review.ownerResponse.text}</p>
+          {isOwner && (
+            <div className="flex gap-3 mt-1">
+              <button
+                onClick={() => {
+                  setResponseText(review.ownerResponse!.text);
+                  setShowResponseForm(true);
+                }}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => saveResponse(true)}
+                disabled={submitting}
+                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showResponseForm && (
+        <div className="space-y-2">
+          <textarea
+            value={responseText}
+            onChange={(e) => setResponseText(e.target.value)}
+            placeholder="Respond publicly as the owner..."
+            rows={3}
+            maxLength={1000}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowResponseForm(false)}
+              className="px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => saveResponse(false)}
+              disabled={submitting || responseText.trim().length < 2}
+              className="px-3 py-1 text-xs bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              Publish response
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showReplies && (
+        <div className="ml-2 pl-3 border-l-2 border-gray-200 space-y-2">
+          {replies === null ? (
+            <p className="text-xs text-gray-500">Loading replies...</p>
+          ) : replies.length === 0 ? (
+            <p className="text-xs text-gray-500">No replies yet</p>
+          ) : (
+            replies.map((reply) => (
+              <div key={reply.id}>
+                <div className="text-xs">
+                  <span className="font-medium text-gray-800">{reply.author}</span>
+                  <span className="text-gray-500"> · {new Date(reply.date_posted).toLocaleDateString()}</span>
+                </div>
+                <p className="text-sm text-gray-600">{reply.text}</p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {showReplyForm && (
+        <form onSubmit={submitReply} className="flex gap-2">
+          <input
+            type="text"
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            placeholder="Write a reply..."
+            maxLength={500}
+            className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={submitting || replyText.trim().length < 2}
+            className="px-3 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -44,6 +44,7 @@ import {
   AdjustmentsHorizontalIcon,
   CpuChipIcon,
   MagnifyingGlassIcon,
+  PencilSquareIcon,
   PlayIcon,
 } from '@heroicons/react/24/outline';
 import {
@@ -54,6 +55,17 @@ import {
 import { ScoutDashboardSkeleton } from "@/components/skeletons";
 import { ResponsiveSidebar } from "@/components/responsive-sidebar";
 import { ComponentLoader } from "@/components/ui/loading-spinner";
+import type { ReputationEvent, ReputationEventType, ReputationHistoryPoint } from "@/types/reputation";
+
+const REPUTATION_EVENT_LABELS: Record<ReputationEventType, string> = {
+  location_approved: 'Location approved',
+  review_approved: 'Review approved',
+  review_helpful: 'Review marked helpful',
+  edit_accepted: 'Edit accepted',
+  edit_partially_accepted: 'Edit partially accepted',
+  flag_upheld: 'Flag upheld against your content',
+  duplicate_rejected: 'Duplicate submission',
+};
 
 interface ScoutStats {
   totalSubmissions: number;
@@ -63,11 +75,16 @@ interface ScoutStats {
   approvalRate: number;
   scoutLevel: string;
   scoutPoints: number;
+  trustScore: number;
+  nextLevel: { name: string; minScore: number } | null;
   weeklySubmissions: number;
   monthlySubmissions: number;
   averageRating: number;
   totalPhotos: number;
   totalReviews: number;
+  editSuggestions: number;
+  acceptedEdits: number;
+  pendingEdits: number;
 }
 
 interface SubmissionData {
@@ -104,14 +121,21 @@ export function ScoutDashboard() {
     approvalRate: 0,
     scoutLevel: 'Beginner Scout',
     scoutPoints: 0,
+    trustScore: 0,
+    nextLevel: null,
     weeklySubmissions: 0,
     monthlySubmissions: 0,
     averageRating: 0,
     totalPhotos: 0,
     totalReviews: 0,
+    editSuggestions: 0,
+    acceptedEdits: 0,
+    pendingEdits: 0,
   });
   const [submissions, setSubmissions] = useState<SubmissionData[]>([]);
   const [chartData, setChartData] = useState<ChartData[]>([]);
+  const [trustHistory, setTrustHistory] = useState<ReputationHistoryPoint[]>([]);
+  const [reputationEvents, setReputationEvents] = useState<ReputationEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('30d');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -139,7 +163,7 @@ export function ScoutDashboard() {
       setLoading(true);
       const idToken = await getIdToken();
 
-      const [submissionsResponse, statsResponse] = await Promise.all([
+      const [submissionsResponse, statsResponse, reputationResponse] = await Promise.all([
         fetch(`/api/scout/submissions?timeRange=${timeRange}`, {
           headers: {
             'Authorization': `Bearer ${idToken}`,
@@ -152,6 +176,12 @@ export function ScoutDashboard() {
             'Content-Type': 'application/json',
           },
         }),
+        fetch(`/api/scout/reputation?days=${timeRange.replace('d', '')}`, {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+            'Content-Type': 'application/json',
+          },
+        }),
       ]);
 
       if (submissionsResponse.ok) {
@@ -165,6 +195,12 @@ export function ScoutDashboard() {
         const statsData = await statsResponse.json();
         setStats(statsData.stats || stats);
       }
+
+      if (reputationResponse.ok) {
+        const reputationData = await reputationResponse.json();
+        setTrustHistory(reputationData.data?.history || []);
+        setReputationEvents(reputationData.data?.recentEvents || []);
+      }
     } catch (err: any) {
       console.error('Error fetching scout data:', err);
       error('Failed to load scout data', 'Error');
@@ -373,7 +409,14 @@ export function ScoutDashboard() {
                   {getScoutLevelIcon(stats.scoutLevel)}
                   <div>
                     <h2 className="text-xl font-bold">{stats.scoutLevel}</h2>
-                    <p className="text-white/80">{stats.scoutPoints} Scout Points</p>
+                    <p className="text-white/80">
+                      Trust score {stats.trustScore} · {stats.scoutPoints} Scout Points
+                    </p>
+                    {stats.nextLevel && (
+                      <p className="text-white/70 text-sm">
+                        {Math.max(0, Math.ceil(stats.nextLevel.minScore - stats.trustScore))} more to {stats.nextLevel.name}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
@@ -384,7 +427,7 @@ export function ScoutDashboard() {
             </div>
 
             {/* Stats Grid */}
-            <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+            <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
               <div className="bg-white rounded-lg shadow p-6">
                 <div className="flex items-center">
                   <div className="flex-shrink-0">
@@ -432,6 +475,21 @@ export function ScoutDashboard() {
                   </div>
                 </div>
               </div>
+
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <PencilSquareIcon className="h-8 w-8 text-orange-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-500">Accepted Edits</p>
+                    <p className="text-2xl font-semibold text-gray-900">{stats.acceptedEdits}</p>
+                    {stats.pendingEdits > 0 && (
+                      <p className="text-xs text-gray-500">{stats.pendingEdits} awaiting review</p>
+                    )}
+                  </div>
+                </div>
+              </div>
             </div>
 
             {/* Charts */}
@@ -514,6 +572,51 @@ export function ScoutDashboard() {
                 </ResponsiveContainer>
               </div>
             </div>
+
+            {/* Reputation */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+              <div className="bg-white rounded-lg shadow p-6 lg:col-span-2">
+                <h3 className="text-lg font-medium text-gray-900">Trust Score Over Time</h3>
+                <p className="text-sm text-gray-500 mb-4">Points fade by half every six months, so recent contributions count most</p>
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={trustHistory}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={(value) => new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit' })}
+                    />
+                    <YAxis />
+                    <Tooltip
+                      labelFormatter={(value) => new Date(value).toLocaleDateString('en-GB')}
+                    />
+                    <Line type="monotone" dataKey="trustScore" stroke="#ea580c" strokeWidth={2} dot={false} name="Trust score" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="bg-white rounded-lg shadow p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Reputation</h3>
+                {reputationEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500">Approved submissions, accepted edits and helpful reviews earn points.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {reputationEvents.slice(0, 8).map((event) => (
+                      <li key={event.id} className="flex items-center justify-between text-sm">
+                        <div className="min-w-0">
+                          <p className={`truncate ${event.reversedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                            {REPUTATION_EVENT_LABELS[event.type]}
+                          </p>
+                          <p className="text-xs text-gray-500">{new Date(event.occurredAt).toLocaleDateString('en-GB')}</p>
+                        </div>
+                        <span className={`font-medium ${event.points < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {event.points > 0 ? '+' : ''}{event.points}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
           </div>
         )}
 
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { AmalaLocation } from "@/types/location";
+
+interface SuggestEditFormProps {
+  location: AmalaLocation;
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+}
+
+type TextField = "name" | "address" | "phone" | "website" | "email" | "description" | "priceInfo";
+
+const TEXT_FIELDS: { field: TextField; label: string; multiline?: boolean }[] = [
+  { field: "name", label: "Name" },
+  { field: "address", label: "Address" },
+  { field: "phone", label: "Phone" },
+  { field: "website", label: "Website" },
+  { field: "email", label: "Email" },
+  { field: "priceInfo", label: "Price info" },
+  { field: "description", label: "Description", multiline: true },
+];
+
+const initialValues = (location: AmalaLocation) => ({
+  name: location.name || "",
+  address: location.address || "",
+  phone: location.phone || "",
+  website: location.website || "",
+  email: location.email || "",
+  description: location.description || "",
+  priceInfo: location.priceInfo || "",
+  serviceType: (location.serviceType || "") as string,
+  priceRange: location.priceRange || "",
+  cuisine: (location.cuisine || []).join(", "),
+});
+
+export function SuggestEditForm({ location, onSubmitted, onCancel }: SuggestEditFormProps) {
+  const { user, getIdToken } = useAuth();
+  const { success, error: showError } = useToast();
+  const [original] = useState(() => initialValues(location));
+  const [values, setValues] = useState(original);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const changedFields = (Object.keys(values) as (keyof typeof values)[]).filter(
+    (field) => values[field].trim() !== original[field].trim()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changedFields.length === 0) {
+      showError("Change at least one field before submitting", "Nothing to suggest");
+      return;
+    }
+
+    // Only send the fields the user actually changed
+    const changes: Record<string, unknown> = {};
+    for (const field of changedFields) {
+      const value = values[field].trim();
+      changes[field] = field === "cuisine"
+        ? value.split(",").map((item) => item.trim()).filter(Boolean)
+        : value;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const token = await getIdToken();
+      const response = await fetch(`/api/locations/${location.id}/suggestions`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ changes, note: note.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        const detail = data.details?.[0]?.message;
+        showError(detail || data.error || "Failed to submit suggestion", "Suggestion not sent");
+        return;
+      }
+
+      success(data.message, "Suggestion submitted");
+      onSubmitted?.();
+    } catch (err) {
+      console.error("Error submitting edit suggestion:", err);
+      showError("Failed to submit suggestion", "Error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-4 text-center">
+        <div className="text-gray-600">Please sign in to suggest an edit</div>
+      </div>
+    );
+  }
+
+  const inputClass = (field: keyof typeof values) =>
+    `w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500 ${
+      changedFields.includes(field) ? "border-orange-400 bg-orange-50" : "border-gray-300"
+    }`;
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-4 sm:p-6 rounded-lg shadow-lg max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Suggest an edit</h3>
+          <p className="text-sm text-gray-600">
+            Correct details for {location.name}. A moderator reviews every change.
+          </p>
+        </div>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {TEXT_FIELDS.map(({ field, label, multiline }) => (
+          <label key={field} className="block">
+            <span className="text-sm font-medium text-gray-700">{label}</span>
+            {multiline ? (
+              <textarea
+                value={values[field]}
+                onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                rows={3}
+                className={inputClass(field)}
+              />
+            ) : (
+              <input
+                type="text"
+                value={values[field]}
+                onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                className={inputClass(field)}
+              />
+            )}
+          </label>
+        ))}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Service</span>
+            <select
+              value={values.serviceType}
+              onChange={(e) => setValues({ ...values, serviceType: e.target.value })}
+              className={inputClass("serviceType")}
+            >
+              <option value="" disabled>Select</option>
+              <option value="dine-in">Dine-in</option>
+              <option value="takeaway">Takeaway</option>
+              <option value="both">Both</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Price range</span>
+            <select
+              value={values.priceRange}
+              onChange={(e) => setValues({ ...values, priceRange: e.target.value })}
+              className={inputClass("priceRange")}
+            >
+              <option value="" disabled>Select</option>
+              {["$", "$$", "$$$", "$$$$"].map((range) => (
+                <option key={range} value={range}>{range}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Cuisine (comma separated)</span>
+          <input
+            type="text"
+            value={values.cuisine}
+            onChange={(e) => setValues({ ...values, cuisine: e.target.value })}
+            className={inputClass("cuisine")}
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Note for moderators (optional)</span>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="e.g. They moved across the street in March"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || changedFields.length === 0}
+          className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+        >
+          {isSubmitting
+            ? "Submitting..."
+            : `Submit ${changedFields.length || ""} change${changedFields.length === 1 ? "" : "s"}`}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -22,7 +22,7 @@ interface AuthUser {
   email?: string;
   name?: string;
   avatar?: string;
-  roles: Array<"user" | "scout" | "mod" | "admin">;
+  roles: Array<"user" | "scout" | "owner" | "mod" | "admin">;
 }
 
 interface AuthContextType {
@@ -35,7 +35,7 @@ interface AuthContextType {
   signUp: (email: string, password: string, name: string) => Promise<{ error?: string }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error?: string }>;
-  hasRole: (role: "scout" | "mod" | "admin") => boolean;
+  hasRole: (role: "scout" | "owner" | "mod" | "admin") => boolean;
   canModerate: () => boolean;
   canAdmin: () => boolean;
   refreshUser: () => Promise<void>;
@@ -64,7 +64,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const fetchUserWithRoles = async (firebaseUser: User): Promise<AuthUser> => {
     try {
-      let roles: Array<"user" | "scout" | "mod" | "admin"> = ["user"];
+      let roles: Array<"user" | "scout" | "owner" | "mod" | "admin"> = ["user"];
 
       // Fetch roles from API (server-side computation, no Firestore needed)
       try {
@@ -295,7 +295,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const hasRole = (role: "scout" | "mod" | "admin") => {
+  const hasRole = (role: "scout" | "owner" | "mod" | "admin") => {
     return user?.roles.includes(role) || false;
   };
 
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from "react";
+import { useAuth } from "@/contexts/FirebaseAuthContext";
+import type { UserNotification } from "@/types/notification";
+
+const POLL_INTERVAL_MS = 60_000;
+
+interface NotificationsContextType {
+  notifications: UserNotification[];
+  unreadCount: number;
+  loading: boolean;
+  isInboxOpen: boolean;
+  openInbox: () => void;
+  closeInbox: () => void;
+  refresh: () => Promise<void>;
+  markRead: (ids: string[]) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return context;
+}
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { user, getIdToken } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+
+  // getIdToken is recreated on every auth render; keep the latest without re-creating the poller
+  const getIdTokenRef = useRef(getIdToken);
+  useEffect(() => {
+    getIdTokenRef.current = getIdToken;
+  });
+
+  const refresh = useCallback(async () => {
+    const token = await getIdTokenRef.current();
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/notifications?limit=50", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setNotifications(
+          data.data.map((notification: UserNotification) => ({
+            ...notification,
+            createdAt: new Date(notification.createdAt),
+            readAt: notification.readAt ? new Date(notification.readAt) : undefined,
+          }))
+        );
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Failed to fetch notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateRead = useCallback(
+    async (body: { ids: string[] } | { all: true }) => {
+      const token = await getIdTokenRef.current();
+      if (!token) return;
+
+      const ids = "ids" in body ? new Set(body.ids) : null;
+      const unreadMarked = notifications.filter((n) => !n.read && (!ids || ids.has(n.id))).length;
+      setNotifications((prev) => prev.map((n) => (!ids || ids.has(n.id) ? { ...n, read: true } : n)));
+      setUnreadCount((prev) => (ids ? Math.max(0, prev - unreadMarked) : 0));
+
+      try {
+        await fetch("/api/notifications", {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(body),
+        });
+      } catch (error) {
+        console.error("Failed to mark notifications read:", error);
+        refresh();
+      }
+    },
+    [notifications, refresh]
+  );
+
+  const markRead = useCallback((ids: string[]) => updateRead({ ids }), [updateRead]);
+  const markAllRead = useCallback(() => updateRead({ all: true }), [updateRead]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setIsInboxOpen(false);
+      return;
+    }
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, refresh]);
+
+  const openInbox = useCallback(() => {
+    setIsInboxOpen(true);
+    refresh();
+  }, [refresh]);
+
+  const closeInbox = useCallback(() => setIsInboxOpen(false), []);
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        loading,
+        isInboxOpen,
+        openInbox,
+        closeInbox,
+        refresh,
+        markRead,
+        markAllRead,
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
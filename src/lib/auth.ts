@@ -1,3 +1,4 @@
+import { timingSafeEqual } from 'crypto';
 import { adminAuth, isFirebaseAdminInitialized } from './firebase/admin';
 import { adminFirebaseOperations } from './firebase/admin-database';
 import { DecodedIdToken } from 'firebase-admin/auth';
@@ -5,12 +6,12 @@ import { DecodedIdToken } from 'firebase-admin/auth';
 export interface AuthUserInfo {
   id: string;
   email?: string;
-  roles: Array<"user" | "scout" | "mod" | "admin">;
+  roles: Array<"user" | "scout" | "owner" | "mod" | "admin">;
 }
 
 // Type guard to validate roles array
-const validRoles = ['user', 'scout', 'mod', 'admin'];
-function isValidRoles(roles: string[]): roles is Array<"user" | "scout" | "mod" | "admin"> {
+const validRoles = ['user', 'scout', 'owner', 'mod', 'admin'];
+function isValidRoles(roles: string[]): roles is Array<"user" | "scout" | "owner" | "mod" | "admin"> {
   return roles.every(role => validRoles.includes(role));
 }
 
@@ -47,7 +48,7 @@ export async function verifyBearerToken(
     const roles = await adminFirebaseOperations.getUserRolesWithFallback(email);
     
     // Validate and cast roles to the specific type
-    const validatedRoles: Array<"user" | "scout" | "mod" | "admin"> = 
+    const validatedRoles: Array<"user" | "scout" | "owner" | "mod" | "admin"> = 
       isValidRoles(roles) ? roles : ['user'];
 
     console.log('✅ Auth successful for user:', email);
@@ -63,9 +64,25 @@ export async function verifyBearerToken(
   }
 }
 
+/**
+ * Whether the user is a verified owner of this location. The owner role only
+ * covers the locations whose ownerIds include the user.
+ */
+export function isLocationOwner(user: AuthUserInfo, location: { ownerIds?: string[] }): boolean {
+  return user.roles.includes("owner") && !!location.ownerIds?.includes(user.id);
+}
+
+/**
+ * The identity stored on moderation records (moderatedBy, reviewedBy,
+ * rejectedBy, decidedBy): the lower-cased email, or the uid without one.
+ */
+export function moderatorIdentity(user: { id: string; email?: string }): string {
+  return user.email?.toLowerCase() || user.id;
+}
+
 export function requireRole(
   user: AuthUserInfo | null,
-  allowed: Array<"mod" | "admin">
+  allowed: AuthUserInfo["roles"]
 ): { success: boolean; error?: string } {
   if (!user) {
     console.log('❌ Role check failed: No user provided');
@@ -92,6 +109,17 @@ export function requireRole(
   return { success: true };
 }
 
+// Scheduled jobs (e.g. Vercel Cron) authenticate with `Authorization: Bearer <CRON_SECRET>`
+export function verifyCronSecret(authorizationHeader?: string): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !authorizationHeader) return false;
+  // Constant-time comparison so the secret can't be recovered from response timing
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authorizationHeader);
+  if (received.length !== expected.length) return false;
+  return timingSafeEqual(received, expected);
+}
+
 // Simple in-memory rate limiter per route+IP
 type Bucket = { count: number; resetAt: number };
 const buckets = new Map<string, Bucket>();
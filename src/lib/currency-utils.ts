@@ -8,6 +8,7 @@ export interface CurrencyConfig {
   name: string;
   smallestUnit: string;
   decimalPlaces: number;
+  usdRate: number; // US dollars per main unit, a fixed reference rate for comparisons
 }
 
 export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
@@ -17,6 +18,7 @@ export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
     name: "Nigerian Naira",
     smallestUnit: "kobo",
     decimalPlaces: 2,
+    usdRate: 0.00065,
   },
   USD: {
     code: "USD",
@@ -24,6 +26,7 @@ export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
     name: "US Dollar",
     smallestUnit: "cents",
     decimalPlaces: 2,
+    usdRate: 1,
   },
   GBP: {
     code: "GBP",
@@ -31,6 +34,7 @@ export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
     name: "British Pound",
     smallestUnit: "pence",
     decimalPlaces: 2,
+    usdRate: 1.27,
   },
   CAD: {
     code: "CAD",
@@ -38,6 +42,7 @@ export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
     name: "Canadian Dollar",
     smallestUnit: "cents",
     decimalPlaces: 2,
+    usdRate: 0.73,
   },
 };
 
@@ -65,6 +70,15 @@ export function convertToSmallestUnit(
   return Math.round(amount * Math.pow(10, config.decimalPlaces));
 }
 
+/**
+ * Convert an amount in the smallest unit to US cents at the reference rate
+ * E.g., 200000 kobo -> 130 cents
+ */
+export function convertToUsd(amount: number, currency: string): number {
+  const config = SUPPORTED_CURRENCIES[currency] || SUPPORTED_CURRENCIES.USD;
+  return convertToSmallestUnit(convertFromSmallestUnit(amount, currency) * config.usdRate, "USD");
+}
+
 /**
  * Format price range for display
  */
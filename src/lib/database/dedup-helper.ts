@@ -1,20 +1,41 @@
 import { AmalaLocation } from "@/types/location";
-import { firebaseOperations } from "@/lib/firebase/database";
-import { LocationService } from "@/lib/services/location-service";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import {
+  EntityResolutionService,
+  type EntityMatch,
+  type EntityResolutionResult,
+  type ResolvableEntity,
+} from "@/lib/services/entity-resolution";
 
 export interface DuplicateCheckWithReasonsResult {
   isDuplicate: boolean;
   reason?: string;
   similarLocations: AmalaLocation[];
+  matches: EntityMatch[];
   moderationReasons: string[];
   confidence?: number;
 }
 
-export interface LocationForDuplicateCheck {
+export type LocationForDuplicateCheck = ResolvableEntity & {
   name: string;
   address: string;
-  coordinates?: { lat: number; lng: number };
-  phone?: string;
+};
+
+/**
+ * Resolve a location against stored locations, loading only the candidates
+ * in its block (nearby geohash cells or a shared distinctive name token)
+ */
+export async function findDuplicateMatches(
+  location: ResolvableEntity,
+  options: { limit?: number } = {}
+): Promise<EntityResolutionResult> {
+  const candidates = await adminFirebaseOperations.findEntityCandidates(
+    EntityResolutionService.nameTokens(location.name),
+    EntityResolutionService.blockingRanges(location)
+  );
+  // Merge tombstones are not live locations
+  const liveCandidates = candidates.filter((candidate) => candidate.status !== "merged");
+  return EntityResolutionService.resolve(location, liveCandidates, options);
 }
 
 /**
@@ -24,39 +45,24 @@ export async function checkForDuplicatesWithReasons(
   location: LocationForDuplicateCheck
 ): Promise<DuplicateCheckWithReasonsResult> {
   try {
-    // Get all existing locations for comparison
-    const existingLocations = await firebaseOperations.getAllLocations();
+    const resolution = await findDuplicateMatches(location, { limit: 5 });
 
-    // Use the LocationService for duplicate detection
-    const duplicateResult = await LocationService.detectDuplicate(
-      location,
-      existingLocations
-    );
-
-    if (!duplicateResult.isDuplicate) {
+    if (resolution.matches.length === 0) {
       return {
         isDuplicate: false,
         similarLocations: [],
+        matches: [],
         moderationReasons: [],
       };
     }
 
-    // Generate detailed reason based on the similarity factors
-    const primaryReason = generatePrimaryReason(duplicateResult.reasons);
-
-    // Generate moderation reasons for review
-    const moderationReasons = generateModerationReasons(
-      location,
-      duplicateResult.similarLocations,
-      duplicateResult.confidence
-    );
-
     return {
-      isDuplicate: true,
-      reason: primaryReason,
-      similarLocations: duplicateResult.similarLocations,
-      moderationReasons,
-      confidence: duplicateResult.confidence,
+      isDuplicate: resolution.isDuplicate,
+      reason: generatePrimaryReason(resolution.matches[0]),
+      similarLocations: resolution.matches.map((match) => match.location),
+      matches: resolution.matches,
+      moderationReasons: generateModerationReasons(resolution.matches),
+      confidence: resolution.confidence,
     };
   } catch (error) {
     console.error("Error in duplicate check:", error);
@@ -65,6 +71,7 @@ export async function checkForDuplicatesWithReasons(
     return {
       isDuplicate: false,
       similarLocations: [],
+      matches: [],
       moderationReasons: [
         "Error occurred during duplicate check - manual review recommended",
       ],
@@ -73,104 +80,54 @@ export async function checkForDuplicatesWithReasons(
 }
 
 /**
- * Generate a primary reason for duplicate detection
+ * Generate a primary reason from the strongest match
  */
-function generatePrimaryReason(reasons: string[]): string {
-  if (reasons.length === 0) {
-    return "Similar location detected";
-  }
-
-  // Prioritize reasons by importance
-  const phoneReason = reasons.find((r) => r.includes("phone"));
-  const nameReason = reasons.find((r) => r.includes("name"));
-  const addressReason = reasons.find((r) => r.includes("address"));
-
-  if (phoneReason) {
-    return `Duplicate detected: ${phoneReason}`;
-  }
-
-  if (nameReason && addressReason) {
-    return `Duplicate detected: ${nameReason} and ${addressReason}`;
-  }
-
-  if (nameReason) {
-    return `Duplicate detected: ${nameReason}`;
+function generatePrimaryReason(match: EntityMatch): string {
+  const label = match.verdict === "duplicate" ? "Duplicate detected" : "Possible duplicate";
+  if (match.reasons.length === 0) {
+    return `${label}: similar to "${match.location.name}"`;
   }
-
-  if (addressReason) {
-    return `Duplicate detected: ${addressReason}`;
-  }
-
-  return `Duplicate detected: ${reasons[0]}`;
+  return `${label}: ${match.reasons.join(", ")}`;
 }
 
 /**
  * Generate moderation reasons for manual review
  */
-function generateModerationReasons(
-  newLocation: LocationForDuplicateCheck,
-  similarLocations: AmalaLocation[],
-  confidence: number
-): string[] {
+function generateModerationReasons(matches: EntityMatch[]): string[] {
   const reasons: string[] = [];
+  const confidence = matches[0].score;
 
   if (confidence > 0.95) {
     reasons.push("High confidence duplicate match - likely exact duplicate");
-  } else if (confidence > 0.85) {
+  } else if (matches[0].verdict === "duplicate") {
     reasons.push("Strong duplicate match - manual verification recommended");
   } else {
     reasons.push("Potential duplicate - requires human review");
   }
 
-  if (similarLocations.length > 1) {
-    reasons.push(
-      `Multiple similar locations found (${similarLocations.length})`
-    );
+  if (matches.length > 1) {
+    reasons.push(`Multiple similar locations found (${matches.length})`);
   }
 
-  // Check for exact name matches
-  const exactNameMatch = similarLocations.some(
-    (loc) =>
-      loc.name.toLowerCase().trim() === newLocation.name.toLowerCase().trim()
-  );
-  if (exactNameMatch) {
+  const featureMatches = (feature: string) =>
+    matches.filter((match) =>
+      match.features.some((f) => f.feature === feature && f.similarity === 1)
+    ).length;
+
+  if (featureMatches("name") > 0) {
     reasons.push("Exact name match found");
   }
-
-  // Check for phone number matches
-  if (newLocation.phone) {
-    const phoneMatch = similarLocations.some(
-      (loc) =>
-        loc.phone &&
-        normalizePhone(loc.phone!) === normalizePhone(newLocation.phone!)
-    );
-    if (phoneMatch) {
-      reasons.push("Phone number already exists in database");
-    }
+  if (featureMatches("phone") > 0) {
+    reasons.push("Phone number already exists in database");
+  }
+  if (featureMatches("website") > 0) {
+    reasons.push("Website already exists in database");
   }
 
-  // Check for proximity if coordinates are available
-  if (newLocation.coordinates) {
-    const proximityMatches = similarLocations.filter((loc) => {
-      if (!loc.coordinates) return false;
-      const distance = LocationService.calculateDistance(
-        newLocation.coordinates!,
-        loc.coordinates
-      );
-      return distance < 50; // Within 50 meters
-    });
-
-    if (proximityMatches.length > 0) {
-      reasons.push(`${proximityMatches.length} location(s) within 50m radius`);
-    }
+  const proximityMatches = featureMatches("distance");
+  if (proximityMatches > 0) {
+    reasons.push(`${proximityMatches} location(s) within 50m radius`);
   }
 
   return reasons;
 }
-
-/**
- * Normalize phone number for comparison
- */
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, "");
-}
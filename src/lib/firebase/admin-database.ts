@@ -1,6 +1,102 @@
 import { adminDb, adminAuth } from './admin';
-import { AmalaLocation, Review } from "@/types/location";
+import { AmalaLocation, OwnerResponse, Review, ReviewReply, ReviewVote } from "@/types/location";
+import { DiscoveryCursor, DiscoveryRun } from "@/types/discovery";
+import {
+  MERGEABLE_FIELDS,
+  UNIONED_FIELDS,
+  type MergeLocationsRequest,
+  type MergeResult,
+  type MergeUndoSnapshot,
+} from "@/types/merge";
+import {
+  EDITABLE_FIELDS,
+  type EditableField,
+  type EditSuggestion,
+  type EditSuggestionStatus,
+  type FieldChange,
+} from "@/types/edit-suggestion";
+import {
+  ROLLBACK_EXCLUDED_FIELDS,
+  type FieldDiff,
+  type LocationRevision,
+  type RevisionAction,
+  type RevisionActor,
+} from "@/types/revision";
+import type {
+  FieldConflict,
+  FieldConflictStatus,
+  ProvenanceField,
+} from "@/types/provenance";
+import type { ReviewRisk, ReviewRiskLevel } from "@/types/review-risk";
+import {
+  QUEUE_ITEM_TYPES,
+  QUEUE_LEASE_MINUTES,
+  QUEUE_SLA_HOURS,
+  type ModerationQueueItem,
+  type QueueClaimAction,
+  type QueueItemType,
+  type QueueLease,
+} from "@/types/moderation-queue";
+import type {
+  DryRunOutcome,
+  DryRunResult,
+  DryRunSummary,
+  ModerationRule,
+  ModerationRuleInput,
+  RuleDecision,
+  SubmissionFacts,
+  SubmissionSource,
+  SubmitterStats,
+} from "@/types/moderation-rules";
+import type { NotificationData, NotificationType, UserNotification } from "@/types/notification";
+import type {
+  Appeal,
+  AppealContentType,
+  AppealDecision,
+  AppealStatus,
+  ModeratorOverturnStats,
+} from "@/types/appeal";
+import {
+  REPUTATION_POINTS,
+  type ReputationEvent,
+  type ReputationEventType,
+  type ReputationHistoryPoint,
+  type ReputationSourceType,
+  type ReputationSummary,
+} from "@/types/reputation";
+import type { PriceObservation, PriceObservationSource } from "@/types/price";
+import type { MenuItem } from "@/types/menu";
+import { OWNER_INSIGHT_METRICS, type InsightTotals, type OwnerInsightMetric } from "@/types/insights";
+import type { BranchAction, Brand, BrandInput, BrandSummary } from "@/types/brand";
+import { OwnerInsightsService, type InsightEvent } from "@/lib/services/owner-insights";
+import {
+  MAX_CALLBACK_ATTEMPTS,
+  type ClaimDecision,
+  type ClaimStatus,
+  type OwnershipClaim,
+} from "@/types/claim";
+import { geohashForCoordinates, type GeohashRange } from "@/lib/utils/geohash";
+import {
+  diffLocationFields,
+  isVersionedField,
+  valuesEqual,
+  versionedSnapshot,
+} from "@/lib/utils/location-revisions";
+import { aggregateAspectRatings } from "@/lib/utils/ratings";
+import { EntityResolutionService } from "@/lib/services/entity-resolution";
+import { FieldProvenanceService } from "@/lib/services/field-provenance";
+import { ReviewFraudService } from "@/lib/services/review-fraud";
+import { ModerationRulesService } from "@/lib/services/moderation-rules";
+import { NotificationService } from "@/lib/services/notifications";
+import { EmailService } from "@/lib/services/email";
+import { ReputationService } from "@/lib/services/reputation";
+import { PriceIndexService } from "@/lib/services/price-index";
 import { FieldValue } from 'firebase-admin/firestore';
+import { randomInt } from 'crypto';
+
+export type ModerationOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
 
 // Admin database operations that bypass security rules
 class AdminDatabase {
@@ -33,6 +129,10 @@ class AdminDatabase {
       ...data,
       id: doc.id,
       date_posted: this.convertTimestamp(data.date_posted),
+      ownerResponse: data.ownerResponse
+        ? { ...data.ownerResponse, respondedAt: this.convertTimestamp(data.ownerResponse.respondedAt) }
+        : undefined,
+      risk: data.risk ? { ...data.risk, scoredAt: this.convertTimestamp(data.risk.scoredAt) } : undefined,
     } as Review;
   }
 
@@ -67,7 +167,8 @@ class AdminDatabase {
   async moderateLocation(
     locationId: string,
     action: 'approve' | 'reject',
-    moderatorId: string
+    moderatorId: string,
+    reason?: string
   ): Promise<AmalaLocation> {
     try {
       const locationRef = adminDb.collection('locations').doc(locationId);
@@ -85,7 +186,7 @@ class AdminDatabase {
         moderatedBy: moderatorId,
       };
 
-      await locationRef.update(updateData);
+      await this.writeLocationRevision(locationId, updateData, { type: 'moderator', id: moderatorId }, 'status');
       const updatedDoc = await locationRef.get();
 
       // Log the moderation action to moderation_logs collection
@@ -110,11 +211,32 @@ class AdminDatabase {
         moderatorEmail: moderatorId,
         moderatorName: moderatorName,
         moderatorId: moderatorId,
+        ...(reason ? { reason } : {}),
         timestamp: FieldValue.serverTimestamp(),
         details: sanitizedDetails
       });
 
       console.log(`✅ Logged moderation action: ${action} for location ${locationId} by ${moderatorName} (${moderatorId})`);
+      await this.clearQueueState('location', locationId);
+
+      // Tell the submitter, unless the location was discovered or already in this state
+      if (locationData?.submittedBy?.includes('@') && locationData.status !== details.newStatus) {
+        await this.notifyUser(
+          { email: locationData.submittedBy },
+          action === 'approve' ? 'location_approved' : 'location_rejected',
+          { locationId, locationName: locationData.name, reason }
+        );
+      }
+
+      if (action === 'approve') {
+        await this.recordReputationEvent({ email: locationData?.submittedBy }, 'location_approved', {
+          sourceType: 'location',
+          sourceId: locationId,
+          locationId,
+        });
+      } else if (locationData?.status === 'approved') {
+        await this.reverseReputationEvent('location_approved', locationId, 'Location rejected');
+      }
 
       return this.convertFirestoreLocation(updatedDoc as FirebaseFirestore.QueryDocumentSnapshot);
     } catch (error: unknown) {
@@ -155,78 +277,38 @@ class AdminDatabase {
     }
   }
 
-  // PERFORMANCE OPTIMIZATION: Find similar locations using database queries
-  // instead of loading all locations into memory
-  async findSimilarLocations(name: string, address: string, threshold: number = 0.7): Promise<AmalaLocation[]> {
+  /**
+   * Blocking query for entity resolution: locations sharing a distinctive
+   * name token or lying within the given geohash ranges, in any status
+   */
+  async findEntityCandidates(
+    nameTokens: string[],
+    ranges: GeohashRange[],
+    limitPerQuery: number = 50
+  ): Promise<AmalaLocation[]> {
     try {
       const locationsRef = adminDb.collection('locations');
-
-      // Use name-based query first (more efficient than loading all)
-      const nameWords = name.toLowerCase().split(' ').filter(word => word.length > 2);
-      const addressWords = address.toLowerCase().split(' ').filter(word => word.length > 2);
-
-      // Query by first significant word in name
-      if (nameWords.length > 0) {
-        const firstWord = nameWords[0];
-        const q = adminDb.collection('locations').where('name', '>=', firstWord).where('name', '<=', firstWord + '\uf8ff').limit(50);
-
-        const snapshot = await q.get();
-        const locations = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as AmalaLocation[];
-
-        // Filter by similarity threshold
-        return locations.filter(location => {
-          const nameSim = this.calculateSimilarity(name.toLowerCase(), location.name.toLowerCase());
-          const addrSim = this.calculateSimilarity(address.toLowerCase(), location.address.toLowerCase());
-          return nameSim > threshold || addrSim > 0.85;
-        });
+      const queries: Promise<FirebaseFirestore.QuerySnapshot>[] = ranges.map(range =>
+        locationsRef.orderBy('geohash').startAt(range.start).endAt(range.end).limit(limitPerQuery).get()
+      );
+      if (nameTokens.length > 0) {
+        queries.push(
+          locationsRef.where('nameTokens', 'array-contains-any', nameTokens.slice(0, 10)).limit(limitPerQuery).get()
+        );
       }
 
-      return [];
-    } catch (error) {
-      console.error('Error finding similar locations:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Calculate string similarity using Levenshtein distance
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    const matrix = [];
-    const len1 = str1.length;
-    const len2 = str2.length;
-
-    if (len1 === 0) return len2 === 0 ? 1 : 0;
-    if (len2 === 0) return 0;
-
-    // Initialize matrix
-    for (let i = 0; i <= len2; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= len1; j++) {
-      matrix[0][j] = j;
-    }
-
-    // Fill matrix
-    for (let i = 1; i <= len2; i++) {
-      for (let j = 1; j <= len1; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
+      const snapshots = await Promise.all(queries);
+      const locationsById = new Map<string, AmalaLocation>();
+      for (const snapshot of snapshots) {
+        for (const doc of snapshot.docs) {
+          locationsById.set(doc.id, this.convertFirestoreLocation(doc));
         }
       }
+      return Array.from(locationsById.values());
+    } catch (error) {
+      console.error('Error finding entity candidates:', error);
+      throw error;
     }
-
-    const maxLen = Math.max(len1, len2);
-    return (maxLen - matrix[len2][len1]) / maxLen;
   }
 
   /**
@@ -276,6 +358,94 @@ class AdminDatabase {
   }
 
   // Get locations by specific status
+  /**
+   * Fetch locations whose geohash falls in any of the given prefix ranges.
+   * Callers still need to filter by exact distance/bounds: cells overhang the area.
+   */
+  async getLocationsByGeohashRanges(
+    ranges: GeohashRange[],
+    status: "pending" | "approved" | "rejected" = "approved"
+  ): Promise<AmalaLocation[]> {
+    try {
+      const snapshots = await Promise.all(
+        ranges.map(range =>
+          adminDb
+            .collection('locations')
+            .where('status', '==', status)
+            .orderBy('geohash')
+            .startAt(range.start)
+            .endAt(range.end)
+            .get()
+        )
+      );
+
+      // Ranges never overlap, but dedupe defensively
+      const locationsById = new Map<string, AmalaLocation>();
+      for (const snapshot of snapshots) {
+        for (const doc of snapshot.docs) {
+          locationsById.set(doc.id, this.convertFirestoreLocation(doc));
+        }
+      }
+      return Array.from(locationsById.values());
+    } catch (error) {
+      console.error('Error fetching locations by geohash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add or repair derived index fields (geohash, nameTokens) on existing locations
+   */
+  async backfillIndexFields(options: { dryRun?: boolean } = {}): Promise<{
+    scanned: number;
+    updated: number;
+    skipped: number;
+  }> {
+    const snapshot = await adminDb.collection('locations').get();
+    const result = { scanned: snapshot.size, updated: 0, skipped: 0 };
+    let batch = adminDb.batch();
+    let pendingWrites = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const updates: Record<string, unknown> = {};
+
+      const geohash = geohashForCoordinates(data.coordinates);
+      if (!geohash) {
+        result.skipped++;
+      } else if (data.geohash !== geohash) {
+        updates.geohash = geohash;
+      }
+
+      const nameTokens = EntityResolutionService.nameTokens(data.name);
+      if ((data.nameTokens || []).join(' ') !== nameTokens.join(' ')) {
+        updates.nameTokens = nameTokens;
+      }
+
+      if (Object.keys(updates).length === 0) continue;
+
+      result.updated++;
+      if (options.dryRun) continue;
+
+      batch.update(doc.ref, updates);
+      pendingWrites++;
+
+      // Firestore batches are limited to 500 writes
+      if (pendingWrites === 400) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    console.log(`🌍 Index field backfill${options.dryRun ? ' (dry run)' : ''}:`, result);
+    return result;
+  }
+
   async getLocationsByStatus(status: "pending" | "approved" | "rejected"): Promise<AmalaLocation[]> {
     try {
       console.log(`🗄️ Admin: Querying locations with status: ${status}...`);
@@ -306,23 +476,40 @@ class AdminDatabase {
   }
 
   /**
-   * Update an existing location
+   * Update an existing location, recording the change as a revision by `actor`
+   * and stamping the provenance of the curated fields it writes
    */
-  async updateLocation(locationId: string, updateData: Partial<AmalaLocation>): Promise<void> {
+  async updateLocation(
+    locationId: string,
+    updateData: Partial<AmalaLocation>,
+    actor: RevisionActor,
+    options: { note?: string; confidence?: number } = {}
+  ): Promise<void> {
     try {
-      const locationRef = adminDb.collection('locations').doc(locationId);
-      
       // Sanitize data to remove undefined values
-      const sanitizedData = Object.fromEntries(
+      const sanitizedData: Record<string, unknown> = Object.fromEntries(
         Object.entries(updateData).filter(([_, value]) => value !== undefined)
       );
+      Object.assign(sanitizedData, this.provenanceUpdates(Object.keys(sanitizedData), actor, options.confidence));
+
+      // Keep the geohash in step with coordinates
+      if (updateData.coordinates) {
+        const geohash = geohashForCoordinates(updateData.coordinates);
+        sanitizedData.geohash = geohash ?? FieldValue.delete();
+      }
+      if (updateData.name) {
+        sanitizedData.nameTokens = EntityResolutionService.nameTokens(updateData.name);
+      }
       
-      await locationRef.update({
-        ...sanitizedData,
-        updatedAt: FieldValue.serverTimestamp()
-      });
+      const version = await this.writeLocationRevision(
+        locationId,
+        { ...sanitizedData, updatedAt: FieldValue.serverTimestamp() },
+        actor,
+        'update',
+        { note: options.note }
+      );
       
-      console.log(`✅ Updated location ${locationId}`);
+      console.log(`✅ Updated location ${locationId}${version ? ` (revision ${version}, ${actor.type})` : ''}`);
     } catch (error) {
       console.error(`Error updating location ${locationId}:`, error);
       throw error;
@@ -330,7 +517,10 @@ class AdminDatabase {
   }
 
   // Create a new location
-  async createLocation(locationData: Partial<Omit<AmalaLocation, "id">>): Promise<AmalaLocation> {
+  async createLocation(
+    locationData: Partial<Omit<AmalaLocation, "id">>,
+    actor: RevisionActor
+  ): Promise<AmalaLocation> {
     try {
       const { reviews, ...locationDataClean } = locationData;
       
@@ -340,15 +530,21 @@ class AdminDatabase {
         name: locationDataClean.name || "",
         address: locationDataClean.address || "",
         coordinates: locationDataClean.coordinates || { lat: 0, lng: 0 },
+        geohash: geohashForCoordinates(locationDataClean.coordinates),
+        nameTokens: EntityResolutionService.nameTokens(locationDataClean.name),
         isOpenNow: locationDataClean.isOpenNow ?? false,
         serviceType: locationDataClean.serviceType || "dine-in",
         cuisine: locationDataClean.cuisine || [],
         dietary: locationDataClean.dietary || [],
         features: locationDataClean.features || [],
         hours: locationDataClean.hours || {},
+        timezone: locationDataClean.timezone,
+        hoursExceptions: locationDataClean.hoursExceptions,
         status: "pending",
         submittedAt: FieldValue.serverTimestamp() as unknown as Date,
         reviewCount: reviews?.length || 0,
+        googleRating: locationDataClean.googleRating,
+        googleReviewCount: locationDataClean.googleReviewCount,
         
         // Optional fields with defaults
         phone: locationDataClean.phone || "",
@@ -366,6 +562,12 @@ class AdminDatabase {
         moderatedAt: locationDataClean.moderatedAt,
         moderatedBy: locationDataClean.moderatedBy,
         submittedBy: locationDataClean.submittedBy,
+        discoverySource: locationDataClean.discoverySource,
+        discoveryConfidence: locationDataClean.discoveryConfidence,
+        provenance: FieldProvenanceService.stamp(
+          FieldProvenanceService.filledFields(locationDataClean),
+          { source: actor.type, sourceId: actor.id }
+        ),
       };
 
       // Sanitize data to remove undefined values (Firestore doesn't accept undefined)
@@ -373,8 +575,15 @@ class AdminDatabase {
         Object.entries(defaults).filter(([_, value]) => value !== undefined)
       ) as Omit<AmalaLocation, "id">;
 
-      // Add the document to Firestore
-      const docRef = await adminDb.collection("locations").add(sanitizedData);
+      // Add the document to Firestore together with its first revision
+      const docRef = adminDb.collection("locations").doc();
+      const created = this.applyLocationWrite({}, sanitizedData, new Date());
+      const batch = adminDb.batch();
+      batch.set(docRef, { ...sanitizedData, revision: 1 });
+      batch.set(docRef.collection('revisions').doc(), this.buildRevisionRecord(
+        docRef.id, 1, actor, 'create', diffLocationFields(null, created), created
+      ));
+      await batch.commit();
       
       // Return the created location with the new ID
       return {
@@ -404,7 +613,12 @@ class AdminDatabase {
         updateData.moderatedBy = moderatorId;
       }
       
-      await adminDb.collection('locations').doc(locationId).update(updateData);
+      await this.writeLocationRevision(
+        locationId,
+        updateData,
+        moderatorId ? { type: 'moderator', id: moderatorId } : { type: 'system' },
+        'status'
+      );
       
       // Return the updated location
       const doc = await adminDb.collection('locations').doc(locationId).get();
@@ -443,7 +657,8 @@ class AdminDatabase {
   async updateReviewStatus(
     reviewId: string, 
     status: "approved" | "rejected" | "pending",
-    moderatorId?: string
+    moderatorId?: string,
+    reason?: string
   ): Promise<Review> {
     try {
       // Get the review data before updating for logging
@@ -489,12 +704,57 @@ class AdminDatabase {
           moderatorEmail: moderatorId,
           moderatorName: moderatorName,
           moderatorId: moderatorId,
+          ...(reason ? { reason } : {}),
           timestamp: FieldValue.serverTimestamp(),
           details: sanitizedDetails
         });
 
         console.log(`✅ Logged review moderation action: ${status} for review ${reviewId} by ${moderatorName} (${moderatorId})`);
       }
+      if (status !== "pending") {
+        await this.clearQueueState('review', reviewId);
+      }
+
+      if (status !== "pending" && reviewData?.user_id && reviewData.status !== status) {
+        const location = await this.getLocationById(reviewData.location_id);
+        await this.notifyUser(
+          { userId: reviewData.user_id },
+          status === "approved" ? "review_approved" : "review_rejected",
+          {
+            locationId: reviewData.location_id,
+            locationName: location?.name,
+            reviewId,
+            rating: reviewData.rating,
+            reason,
+          }
+        );
+      }
+
+      if (status === "approved") {
+        await this.recordReputationEvent({ userId: reviewData?.user_id }, 'review_approved', {
+          sourceType: 'review',
+          sourceId: reviewId,
+          locationId: reviewData?.location_id,
+        });
+      } else if (reviewData?.status === "approved") {
+        await this.reverseReputationEvent('review_approved', reviewId, `Review set to ${status}`);
+      }
+
+      // The plate price a reviewer paid only counts once the review is approved
+      if (reviewData?.pricePaid && reviewData.priceCurrency) {
+        const location = status === "approved" ? await this.getLocationById(reviewData.location_id) : null;
+        if (location) {
+          await this.recordPriceObservation(location, 'review', reviewId, {
+            price: reviewData.pricePaid,
+            currency: reviewData.priceCurrency,
+            sourceId: reviewId,
+            observedBy: reviewData.user_id,
+            observedAt: this.convertTimestamp(reviewData.date_posted),
+          });
+        } else if (status !== "approved") {
+          await this.removePriceObservation('review', reviewId);
+        }
+      }
       
       // Return the updated review
       const doc = await adminDb.collection('reviews').doc(reviewId).get();
@@ -514,7 +774,10 @@ class AdminDatabase {
         user_id: reviewData.user_id || "",
         author: reviewData.user_name || reviewData.author || "Anonymous",
         rating: reviewData.rating || 1,
+        aspectRatings: reviewData.aspectRatings,
         text: reviewData.text || "",
+        pricePaid: reviewData.pricePaid,
+        priceCurrency: reviewData.pricePaid ? reviewData.priceCurrency : undefined,
         photos: reviewData.photos || [],
         date_posted: FieldValue.serverTimestamp() as unknown as Date,
         status: "pending",
@@ -525,163 +788,3384 @@ class AdminDatabase {
         Object.entries(defaults).filter(([_, value]) => value !== undefined)
       ) as Omit<Review, "id">;
 
-      // Add the document to Firestore
-      const docRef = await adminDb.collection("reviews").add(sanitizedData);
-      
-      // Return the created review with the new ID
+      // Add the document to Firestore
+      const docRef = await adminDb.collection("reviews").add(sanitizedData);
+      
+      // Return the created review with the new ID
+      return {
+        id: docRef.id,
+        ...sanitizedData,
+        date_posted: new Date(), // Use current time since we can't get the server timestamp back
+      } as Review;
+    } catch (error) {
+      console.error("Error creating review:", error);
+      throw new Error(`Failed to create review: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async getReviewById(reviewId: string): Promise<Review | null> {
+    try {
+      const doc = await adminDb.collection('reviews').doc(reviewId).get();
+      return doc.exists ? this.convertFirestoreReview(doc as FirebaseFirestore.QueryDocumentSnapshot) : null;
+    } catch (error) {
+      console.error(`Error getting review ${reviewId}:`, error);
+      throw error;
+    }
+  }
+
+  // Get all reviews by location
+  async getReviewsByLocation(locationId: string): Promise<Review[]> {
+    try {
+      const snapshot = await adminDb.collection('reviews')
+        .where('location_id', '==', locationId)
+        .orderBy('createdAt', 'desc')
+        .get();
+        
+      return snapshot.docs.map(doc => this.convertFirestoreReview(doc as FirebaseFirestore.QueryDocumentSnapshot));
+    } catch (error) {
+      console.error(`Error getting reviews for location ${locationId}:`, error);
+      throw error;
+    }
+  }
+
+  // Get reviews by location and user
+  async getReviewsByLocationAndUser(locationId: string, userId: string): Promise<Review[]> {
+    try {
+      const snapshot = await adminDb.collection('reviews')
+        .where('location_id', '==', locationId)
+        .where('user_id', '==', userId)
+        .orderBy('createdAt', 'desc')
+        .get();
+        
+      return snapshot.docs.map(doc => this.convertFirestoreReview(doc as FirebaseFirestore.QueryDocumentSnapshot));
+    } catch (error) {
+      console.error(`Error getting reviews for location ${locationId} and user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  // Review votes, replies and owner responses
+  private convertReviewReply(doc: FirebaseFirestore.DocumentSnapshot): ReviewReply {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      date_posted: this.convertTimestamp(data.date_posted),
+    } as ReviewReply;
+  }
+
+  /**
+   * Record a user's helpful / not helpful vote on an approved review, or clear
+   * it with `null`. One vote per user per review; changing it moves the count.
+   */
+  async voteOnReview(
+    reviewId: string,
+    userId: string,
+    vote: ReviewVote | null
+  ): Promise<ModerationOutcome<{ helpfulCount: number; notHelpfulCount: number; vote: ReviewVote | null }>> {
+    const reviewRef = adminDb.collection('reviews').doc(reviewId);
+    const voteRef = adminDb.collection('review_votes').doc(`${reviewId}__${userId}`);
+
+    let change = null as { previous: ReviewVote | null; authorId: string; locationId: string } | null;
+
+    try {
+      const outcome = await adminDb.runTransaction(async (transaction) => {
+        change = null;
+        const [reviewDoc, voteDoc] = await Promise.all([transaction.get(reviewRef), transaction.get(voteRef)]);
+        const review = reviewDoc.data();
+        if (!review || review.status !== 'approved') {
+          return { success: false as const, error: 'Review not found', status: 404 };
+        }
+        if (review.user_id === userId) {
+          return { success: false as const, error: "You can't vote on your own review", status: 403 };
+        }
+
+        const previous: ReviewVote | null = voteDoc.exists ? voteDoc.data()!.value : null;
+        const counts = {
+          helpfulCount: review.helpfulCount || 0,
+          notHelpfulCount: review.notHelpfulCount || 0,
+        };
+        if (previous === vote) {
+          return { success: true as const, data: { ...counts, vote } };
+        }
+
+        if (previous) counts[previous === 'helpful' ? 'helpfulCount' : 'notHelpfulCount']--;
+        if (vote) counts[vote === 'helpful' ? 'helpfulCount' : 'notHelpfulCount']++;
+
+        transaction.update(reviewRef, counts);
+        if (vote) {
+          transaction.set(voteRef, {
+            review_id: reviewId,
+            location_id: review.location_id,
+            user_id: userId,
+            value: vote,
+            createdAt: FieldValue.serverTimestamp(),
+          });
+        } else {
+          transaction.delete(voteRef);
+        }
+
+        change = { previous, authorId: review.user_id, locationId: review.location_id };
+        return { success: true as const, data: { ...counts, vote } };
+      });
+
+      // Helpful votes earn the review's author reputation
+      if (change && vote === 'helpful') {
+        await this.recordReputationEvent({ userId: change.authorId }, 'review_helpful', {
+          sourceType: 'review',
+          sourceId: reviewId,
+          key: `${reviewId}__${userId}`,
+          locationId: change.locationId,
+        });
+      } else if (change?.previous === 'helpful') {
+        await this.reverseReputationEvent('review_helpful', `${reviewId}__${userId}`, 'Vote withdrawn');
+      }
+
+      return outcome;
+    } catch (error) {
+      console.error(`Error voting on review ${reviewId}:`, error);
+      throw error;
+    }
+  }
+
+  // A user's votes on a location's reviews, keyed by review id
+  async getUserReviewVotes(locationId: string, userId: string): Promise<Record<string, ReviewVote>> {
+    try {
+      const snapshot = await adminDb.collection('review_votes')
+        .where('location_id', '==', locationId)
+        .where('user_id', '==', userId)
+        .get();
+
+      return Object.fromEntries(snapshot.docs.map(doc => [doc.data().review_id, doc.data().value]));
+    } catch (error) {
+      console.error(`Error fetching review votes for ${userId} on ${locationId}:`, error);
+      return {};
+    }
+  }
+
+  // Replies start pending and go through moderation like reviews
+  async createReviewReply(
+    review: Review,
+    author: { id: string; name: string },
+    text: string
+  ): Promise<ReviewReply> {
+    try {
+      const replyData = {
+        review_id: review.id,
+        location_id: review.location_id,
+        user_id: author.id,
+        author: author.name,
+        text,
+        status: 'pending' as const,
+      };
+      const docRef = await adminDb.collection('review_replies').add({
+        ...replyData,
+        date_posted: FieldValue.serverTimestamp(),
+      });
+
+      console.log(`💬 Reply ${docRef.id} to review ${review.id} awaiting moderation`);
+      return { ...replyData, id: docRef.id, date_posted: new Date() };
+    } catch (error) {
+      console.error(`Error creating reply to review ${review.id}:`, error);
+      throw error;
+    }
+  }
+
+  async getReviewReplies(reviewId: string, status: ReviewReply['status'] = 'approved'): Promise<ReviewReply[]> {
+    try {
+      const snapshot = await adminDb.collection('review_replies')
+        .where('review_id', '==', reviewId)
+        .where('status', '==', status)
+        .orderBy('date_posted', 'asc')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertReviewReply(doc));
+    } catch (error) {
+      console.error(`Error fetching replies to review ${reviewId}:`, error);
+      return [];
+    }
+  }
+
+  async getReviewRepliesByStatus(status: ReviewReply['status'], limit: number = 50): Promise<ReviewReply[]> {
+    try {
+      const snapshot = await adminDb.collection('review_replies')
+        .where('status', '==', status)
+        .orderBy('date_posted', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertReviewReply(doc));
+    } catch (error) {
+      console.error(`Error fetching ${status} review replies:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Approve or reject a reply, keeping the review's approved reply count in
+   * step, and log the decision to moderation_logs
+   */
+  async updateReviewReplyStatus(
+    reviewId: string,
+    replyId: string,
+    status: 'approved' | 'rejected',
+    moderatorId: string
+  ): Promise<ModerationOutcome<ReviewReply>> {
+    try {
+      const replyRef = adminDb.collection('review_replies').doc(replyId);
+      const replyDoc = await replyRef.get();
+      if (!replyDoc.exists) {
+        return { success: false, error: 'Reply not found', status: 404 };
+      }
+
+      const reply = this.convertReviewReply(replyDoc);
+      if (reply.review_id !== reviewId) {
+        return { success: false, error: 'Reply not found', status: 404 };
+      }
+      if (reply.status !== status) {
+        const delta = status === 'approved' ? 1 : reply.status === 'approved' ? -1 : 0;
+        const batch = adminDb.batch();
+        batch.update(replyRef, {
+          status,
+          reviewedAt: FieldValue.serverTimestamp(),
+          reviewedBy: moderatorId,
+        });
+        if (delta !== 0) {
+          batch.update(adminDb.collection('reviews').doc(reply.review_id), {
+            replyCount: FieldValue.increment(delta),
+          });
+        }
+        await batch.commit();
+      }
+
+      const [moderatorName, location] = await Promise.all([
+        this.getModeratorName(moderatorId),
+        this.getLocationById(reply.location_id),
+      ]);
+      await adminDb.collection('moderation_logs').add({
+        type: 'reply_moderation',
+        reviewId: reply.review_id,
+        locationId: reply.location_id,
+        locationName: location?.name || 'Unknown Location',
+        action: status === 'approved' ? 'approve' : 'reject',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          replyId,
+          previousStatus: reply.status,
+          newStatus: status,
+          replyText: reply.text.substring(0, 100),
+          submittedBy: reply.author,
+        },
+      });
+
+      console.log(`✅ Reply ${replyId} ${status} by ${moderatorName}`);
+      return { success: true, data: { ...reply, status } };
+    } catch (error) {
+      console.error(`❌ Error updating reply ${replyId} status to ${status}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post, replace or (with `null`) remove the owner's public response to a
+   * review. Only verified owners of the reviewed location may respond.
+   */
+  async setOwnerResponse(
+    reviewId: string,
+    owner: { id: string; name: string },
+    text: string | null
+  ): Promise<ModerationOutcome<Review>> {
+    try {
+      const reviewRef = adminDb.collection('reviews').doc(reviewId);
+      const reviewDoc = await reviewRef.get();
+      if (!reviewDoc.exists || reviewDoc.data()!.status !== 'approved') {
+        return { success: false, error: 'Review not found', status: 404 };
+      }
+
+      const review = this.convertFirestoreReview(reviewDoc as FirebaseFirestore.QueryDocumentSnapshot);
+      const location = await this.getLocationById(review.location_id);
+      if (!location?.ownerIds?.includes(owner.id)) {
+        return { success: false, error: 'Only a verified owner of this location can respond', status: 403 };
+      }
+
+      const ownerResponse: OwnerResponse | undefined = text
+        ? { text, authorId: owner.id, authorName: owner.name, respondedAt: new Date() }
+        : undefined;
+      await reviewRef.update({ ownerResponse: ownerResponse ?? FieldValue.delete() });
+
+      console.log(`🏪 Owner ${owner.id} ${ownerResponse ? 'responded to' : 'removed their response to'} review ${reviewId}`);
+      return { success: true, data: { ...review, ownerResponse } };
+    } catch (error) {
+      console.error(`Error setting owner response on review ${reviewId}:`, error);
+      throw error;
+    }
+  }
+
+  // Review fraud scoring
+
+  /**
+   * Score a new review against its author's and location's recent activity
+   * and store the result on the review
+   */
+  async scoreReview(review: Review): Promise<ReviewRisk> {
+    const [userReviews, locationReviews, comparisonSnapshot, location, accounts] = await Promise.all([
+      review.user_id ? this.getRecentReviews('user_id', review.user_id, 50) : Promise.resolve([]),
+      this.getRecentReviews('location_id', review.location_id, 100),
+      adminDb.collection('reviews').orderBy('date_posted', 'desc').limit(300).get(),
+      this.getLocationById(review.location_id),
+      this.getReviewerAccounts(review.user_id ? [review.user_id] : []),
+    ]);
+    const locationSubmitters = await this.getLocationSubmitters(userReviews.map(other => other.location_id));
+
+    const risk = ReviewFraudService.assess(review, {
+      userReviews,
+      locationReviews,
+      comparisonReviews: comparisonSnapshot.docs.map(doc => this.convertFirestoreReview(doc)),
+      location,
+      reviewer: (review.user_id && accounts.get(review.user_id)) || null,
+      locationSubmitters,
+    });
+
+    await adminDb.collection('reviews').doc(review.id).update({ risk });
+    if (risk.level !== 'low') {
+      console.log(`🚩 Review ${review.id} scored ${risk.score} (${risk.level}): ${risk.reasons.map(reason => reason.signal).join(', ')}`);
+    }
+    return risk;
+  }
+
+  /**
+   * Score every stored review. With `requeue`, approved reviews that score
+   * high go back to pending and their locations' ratings are recomputed.
+   */
+  async backfillReviewRisk(options: { dryRun?: boolean; requeue?: boolean } = {}): Promise<{
+    scanned: number;
+    levels: Record<ReviewRiskLevel, number>;
+    requeued: number;
+  }> {
+    const snapshot = await adminDb.collection('reviews').get();
+    const reviews = snapshot.docs
+      .map(doc => this.convertFirestoreReview(doc))
+      .sort((a, b) => new Date(a.date_posted).getTime() - new Date(b.date_posted).getTime());
+
+    const byUser = new Map<string, Review[]>();
+    const byLocation = new Map<string, Review[]>();
+    for (const review of reviews) {
+      if (review.user_id) {
+        if (!byUser.has(review.user_id)) byUser.set(review.user_id, []);
+        byUser.get(review.user_id)!.push(review);
+      }
+      if (!byLocation.has(review.location_id)) byLocation.set(review.location_id, []);
+      byLocation.get(review.location_id)!.push(review);
+    }
+
+    const [accounts, locationSubmitters] = await Promise.all([
+      this.getReviewerAccounts(Array.from(byUser.keys())),
+      this.getLocationSubmitters(Array.from(byLocation.keys())),
+    ]);
+
+    const result = { scanned: reviews.length, levels: { low: 0, medium: 0, high: 0 }, requeued: 0 };
+    const requeuedLocations = new Set<string>();
+    let batch = adminDb.batch();
+    let pendingWrites = 0;
+    let windowStart = 0;
+
+    for (const [index, review] of reviews.entries()) {
+      // Reviews are sorted, so the 30-day copied-text window only ever moves forward
+      const postedAt = new Date(review.date_posted).getTime();
+      while (postedAt - new Date(reviews[windowStart].date_posted).getTime() > 30 * 24 * 60 * 60 * 1000) {
+        windowStart++;
+      }
+
+      const risk = ReviewFraudService.assess(review, {
+        userReviews: review.user_id ? byUser.get(review.user_id)! : [],
+        locationReviews: byLocation.get(review.location_id)!,
+        comparisonReviews: reviews.slice(windowStart, index),
+        location: { submittedBy: locationSubmitters[review.location_id] },
+        reviewer: (review.user_id && accounts.get(review.user_id)) || null,
+        locationSubmitters,
+      });
+      result.levels[risk.level]++;
+
+      const requeue = options.requeue && risk.level === 'high' && review.status === 'approved';
+      if (requeue) {
+        result.requeued++;
+        requeuedLocations.add(review.location_id);
+      }
+      if (options.dryRun) continue;
+
+      batch.update(adminDb.collection('reviews').doc(review.id), requeue ? { risk, status: 'pending' } : { risk });
+      pendingWrites++;
+
+      // Firestore batches are limited to 500 writes
+      if (pendingWrites === 400) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+    if (!options.dryRun) {
+      for (const locationId of requeuedLocations) {
+        await this.updateLocationRating(locationId);
+      }
+    }
+
+    console.log(`🚩 Review risk backfill${options.dryRun ? ' (dry run)' : ''}:`, result);
+    return result;
+  }
+
+  private async getRecentReviews(field: 'user_id' | 'location_id', value: string, limit: number): Promise<Review[]> {
+    const snapshot = await adminDb.collection('reviews')
+      .where(field, '==', value)
+      .orderBy('date_posted', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => this.convertFirestoreReview(doc));
+  }
+
+  // Email and sign-up time of each reviewer, for the new-account and collusion signals
+  private async getReviewerAccounts(uids: string[]): Promise<Map<string, { email?: string; createdAt?: Date }>> {
+    const accounts = new Map<string, { email?: string; createdAt?: Date }>();
+    for (let i = 0; i < uids.length; i += 100) {
+      try {
+        const { users } = await adminAuth.getUsers(uids.slice(i, i + 100).map(uid => ({ uid })));
+        for (const user of users) {
+          accounts.set(user.uid, {
+            email: user.email,
+            createdAt: user.metadata.creationTime ? new Date(user.metadata.creationTime) : undefined,
+          });
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not load reviewer accounts:', error);
+      }
+    }
+    return accounts;
+  }
+
+  private async getLocationSubmitters(locationIds: string[]): Promise<Record<string, string | undefined>> {
+    const ids = Array.from(new Set(locationIds));
+    const submitters: Record<string, string | undefined> = {};
+    for (let i = 0; i < ids.length; i += 100) {
+      const docs = await adminDb.getAll(...ids.slice(i, i + 100).map(id => adminDb.collection('locations').doc(id)));
+      for (const doc of docs) {
+        submitters[doc.id] = doc.data()?.submittedBy;
+      }
+    }
+    return submitters;
+  }
+
+  // Update location rating based on approved reviews
+  async updateLocationRating(locationId: string): Promise<void> {
+    try {
+      // Get all approved reviews for this location
+      const reviewsSnapshot = await adminDb.collection('reviews')
+        .where('location_id', '==', locationId)
+        .where('status', '==', 'approved')
+        .get();
+
+      const reviews = reviewsSnapshot.docs.map(doc => doc.data() as Review);
+      
+      if (reviews.length === 0) {
+        // No reviews yet, set defaults
+        await adminDb.collection('locations').doc(locationId).update({
+          rating: 0,
+          reviewCount: 0,
+          aspectRatings: {},
+        });
+        return;
+      }
+
+      // Calculate average rating
+      const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
+      const averageRating = totalRating / reviews.length;
+
+      // Update location with new rating, count and per-aspect averages
+      await adminDb.collection('locations').doc(locationId).update({
+        rating: Math.round(averageRating * 10) / 10, // Round to 1 decimal place
+        reviewCount: reviews.length,
+        aspectRatings: aggregateAspectRatings(reviews),
+      });
+    } catch (error) {
+      console.error(`Error updating location ${locationId} rating:`, error);
+      throw error;
+    }
+  }
+
+  // Location merges
+  /**
+   * Merge a duplicate location into a surviving one: apply the chosen field
+   * values, combine list fields, move reviews and photos across, recompute the
+   * rating and leave the merged record as a tombstone pointing at the survivor.
+   * The moderation_logs entry keeps everything needed to undo the merge.
+   */
+  async mergeLocations(
+    request: MergeLocationsRequest,
+    moderatorId: string
+  ): Promise<ModerationOutcome<MergeResult>> {
+    const { survivorId, mergedId, fieldChoices = {} } = request;
+    if (survivorId === mergedId) {
+      return { success: false, error: 'Cannot merge a location into itself', status: 400 };
+    }
+
+    try {
+      const survivorRef = adminDb.collection('locations').doc(survivorId);
+      const mergedRef = adminDb.collection('locations').doc(mergedId);
+      const [survivorDoc, mergedDoc] = await Promise.all([survivorRef.get(), mergedRef.get()]);
+
+      if (!survivorDoc.exists || !mergedDoc.exists) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
+
+      const survivor = survivorDoc.data()!;
+      const merged = mergedDoc.data()!;
+      if (survivor.status === 'merged' || merged.status === 'merged') {
+        return { success: false, error: 'One of these locations has already been merged', status: 409 };
+      }
+
+      const survivorBefore: Record<string, unknown> = {};
+      const survivorUpdates: Record<string, unknown> = {};
+
+      for (const field of MERGEABLE_FIELDS) {
+        if (fieldChoices[field] !== 'merged') continue;
+        survivorBefore[field] = survivor[field] ?? null;
+        survivorUpdates[field] = merged[field] ?? FieldValue.delete();
+      }
+
+      for (const field of UNIONED_FIELDS) {
+        const current: unknown[] = survivor[field] || [];
+        const combined = Array.from(new Set([...current, ...(merged[field] || [])]));
+        if (combined.length !== current.length) {
+          survivorBefore[field] = survivor[field] ?? null;
+          survivorUpdates[field] = combined;
+        }
+      }
+
+      // Keep derived index fields in step with the chosen values
+      if ('coordinates' in survivorUpdates) {
+        survivorUpdates.geohash = geohashForCoordinates(merged.coordinates) ?? FieldValue.delete();
+      }
+      if ('name' in survivorUpdates) {
+        survivorUpdates.nameTokens = EntityResolutionService.nameTokens(merged.name);
+      }
+
+      const movedReviewIds = await this.repointLocationDocuments('reviews', mergedId, survivorId);
+      const movedPhotoIds = await this.repointLocationDocuments('restaurant_photos', mergedId, survivorId);
+
+      const mergeActor: RevisionActor = { type: 'moderator', id: moderatorId };
+      await this.writeLocationRevision(survivorId, {
+        ...survivorUpdates,
+        ...this.provenanceUpdates(Object.keys(survivorUpdates), mergeActor),
+        mergedFrom: [...(survivor.mergedFrom || []).filter((id: string) => id !== mergedId), mergedId],
+        updatedAt: FieldValue.serverTimestamp(),
+      }, mergeActor, 'merge', { note: `Merged ${mergedId} into this location` });
+
+      // Tombstone: reads of the old id redirect to the survivor
+      await this.writeLocationRevision(mergedId, {
+        status: 'merged',
+        mergedInto: survivorId,
+        mergedAt: FieldValue.serverTimestamp(),
+        mergedBy: moderatorId,
+      }, mergeActor, 'merge', { note: `Merged into ${survivorId}` });
+
+      await this.updateLocationRating(survivorId);
+
+      const undo: MergeUndoSnapshot = {
+        survivorBefore,
+        mergedBefore: Object.fromEntries(
+          Object.entries({
+            status: merged.status,
+            moderatedAt: merged.moderatedAt,
+            moderatedBy: merged.moderatedBy,
+          }).filter(([_, value]) => value !== undefined)
+        ) as MergeUndoSnapshot['mergedBefore'],
+        movedReviewIds,
+        movedPhotoIds,
+      };
+
+      const moderatorName = await this.getModeratorName(moderatorId);
+      const logRef = await adminDb.collection('moderation_logs').add({
+        type: 'location_merge',
+        locationId: survivorId,
+        locationName: (survivorUpdates.name as string) || survivor.name || 'Unknown Location',
+        action: 'merge',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          previousStatus: merged.status,
+          newStatus: 'merged',
+          survivorId,
+          mergedId,
+          mergedName: merged.name || 'Unknown Location',
+          fieldChoices,
+          movedReviews: movedReviewIds.length,
+          movedPhotos: movedPhotoIds.length,
+          undo,
+        },
+      });
+
+      console.log(`🔀 Merged location ${mergedId} into ${survivorId} (${movedReviewIds.length} reviews, ${movedPhotoIds.length} photos)`);
+
+      // Submitting a place that was already listed costs the submitter its approval
+      if (this.isLaterDuplicate(merged, survivor)) {
+        await this.reverseReputationEvent('location_approved', mergedId, `Merged into ${survivorId} as a duplicate`);
+        await this.recordReputationEvent({ email: merged.submittedBy }, 'duplicate_rejected', {
+          sourceType: 'location',
+          sourceId: mergedId,
+          locationId: survivorId,
+        });
+      }
+
+      const updatedSurvivor = await survivorRef.get();
+      return {
+        success: true,
+        data: {
+          logId: logRef.id,
+          survivor: this.convertFirestoreLocation(updatedSurvivor as FirebaseFirestore.QueryDocumentSnapshot),
+          movedReviews: movedReviewIds.length,
+          movedPhotos: movedPhotoIds.length,
+        },
+      };
+    } catch (error) {
+      console.error(`❌ Failed to merge location ${mergedId} into ${survivorId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a merge recorded in moderation_logs. Refuses if the survivor has
+   * since been merged elsewhere or the tombstone no longer points at it.
+   */
+  async undoLocationMerge(
+    logId: string,
+    moderatorId: string
+  ): Promise<ModerationOutcome<{ survivorId: string; restoredId: string }>> {
+    try {
+      const logRef = adminDb.collection('moderation_logs').doc(logId);
+      const logDoc = await logRef.get();
+      const log = logDoc.data();
+
+      if (!logDoc.exists || log?.type !== 'location_merge' || log.action !== 'merge') {
+        return { success: false, error: 'Merge not found', status: 404 };
+      }
+      if (log.undoneAt) {
+        return { success: false, error: 'This merge has already been undone', status: 409 };
+      }
+
+      const { survivorId, mergedId, undo } = log.details as {
+        survivorId: string;
+        mergedId: string;
+        undo: MergeUndoSnapshot;
+      };
+      const survivorRef = adminDb.collection('locations').doc(survivorId);
+      const mergedRef = adminDb.collection('locations').doc(mergedId);
+      const [survivorDoc, mergedDoc] = await Promise.all([survivorRef.get(), mergedRef.get()]);
+      const survivor = survivorDoc.data();
+      const merged = mergedDoc.data();
+
+      if (!survivor || !merged) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
+      if (survivor.status === 'merged') {
+        return { success: false, error: 'The surviving location was merged again; undo that merge first', status: 409 };
+      }
+      if (merged.status !== 'merged' || merged.mergedInto !== survivorId) {
+        return { success: false, error: 'The merged location has changed since the merge', status: 409 };
+      }
+
+      const survivorRestore: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(undo.survivorBefore)) {
+        survivorRestore[field] = value === null ? FieldValue.delete() : value;
+      }
+      if ('coordinates' in undo.survivorBefore) {
+        survivorRestore.geohash = geohashForCoordinates(undo.survivorBefore.coordinates as AmalaLocation['coordinates']) ?? FieldValue.delete();
+      }
+      if ('name' in undo.survivorBefore) {
+        survivorRestore.nameTokens = EntityResolutionService.nameTokens(undo.survivorBefore.name as string | undefined);
+      }
+
+      const unmergeActor: RevisionActor = { type: 'moderator', id: moderatorId };
+      await this.writeLocationRevision(survivorId, {
+        ...survivorRestore,
+        mergedFrom: (survivor.mergedFrom || []).filter((id: string) => id !== mergedId),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, unmergeActor, 'unmerge', { note: `Undid merge of ${mergedId}` });
+
+      await this.writeLocationRevision(mergedId, {
+        status: undo.mergedBefore.status,
+        moderatedAt: undo.mergedBefore.moderatedAt ?? FieldValue.delete(),
+        moderatedBy: undo.mergedBefore.moderatedBy ?? FieldValue.delete(),
+        mergedInto: FieldValue.delete(),
+        mergedAt: FieldValue.delete(),
+        mergedBy: FieldValue.delete(),
+      }, unmergeActor, 'unmerge', { note: `Undid merge into ${survivorId}` });
+
+      await this.repointLocationDocuments('reviews', survivorId, mergedId, undo.movedReviewIds);
+      await this.repointLocationDocuments('restaurant_photos', survivorId, mergedId, undo.movedPhotoIds);
+
+      await Promise.all([this.updateLocationRating(survivorId), this.updateLocationRating(mergedId)]);
+
+      await logRef.update({
+        undoneAt: FieldValue.serverTimestamp(),
+        undoneBy: moderatorId,
+      });
+
+      const moderatorName = await this.getModeratorName(moderatorId);
+      await adminDb.collection('moderation_logs').add({
+        type: 'location_merge',
+        locationId: mergedId,
+        locationName: merged.name || 'Unknown Location',
+        action: 'unmerge',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          previousStatus: 'merged',
+          newStatus: undo.mergedBefore.status,
+          survivorId,
+          mergedId,
+          mergeLogId: logId,
+        },
+      });
+
+      console.log(`↩️ Undid merge of ${mergedId} into ${survivorId}`);
+
+      await this.reverseReputationEvent('duplicate_rejected', mergedId, 'Merge undone');
+      if (undo.mergedBefore.status === 'approved') {
+        await this.recordReputationEvent({ email: merged.submittedBy }, 'location_approved', {
+          sourceType: 'location',
+          sourceId: mergedId,
+          locationId: mergedId,
+        });
+      }
+      return { success: true, data: { survivorId, restoredId: mergedId } };
+    } catch (error) {
+      console.error(`❌ Failed to undo merge ${logId}:`, error);
+      throw error;
+    }
+  }
+
+  // Recent merges, newest first, for the moderator merge tool
+  async getRecentMerges(limit: number = 20): Promise<any[]> {
+    try {
+      const snapshot = await adminDb.collection('moderation_logs')
+        .where('type', '==', 'location_merge')
+        .orderBy('timestamp', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs
+        .filter(doc => doc.data().action === 'merge')
+        .map(doc => {
+          const data = doc.data();
+          const { undo, ...details } = data.details || {};
+          return {
+            id: doc.id,
+            ...data,
+            details,
+            timestamp: this.convertTimestamp(data.timestamp),
+            undoneAt: data.undoneAt ? this.convertTimestamp(data.undoneAt) : undefined,
+          };
+        });
+    } catch (error) {
+      console.error('Error fetching recent merges:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Follow merge tombstones to the live record (bounded, in case of cycles)
+   */
+  async resolveLocationRedirect(locationId: string): Promise<AmalaLocation | null> {
+    let currentId = locationId;
+    for (let hop = 0; hop < 5; hop++) {
+      const location = await this.getLocationById(currentId);
+      if (!location || location.status !== 'merged' || !location.mergedInto) {
+        return location;
+      }
+      currentId = location.mergedInto;
+    }
+    return null;
+  }
+
+  /**
+   * Point reviews or photos at another location, in batches. With `onlyIds`,
+   * only those documents are moved (and only if they still belong to `fromId`).
+   */
+  private async repointLocationDocuments(
+    collection: 'reviews' | 'restaurant_photos',
+    fromId: string,
+    toId: string,
+    onlyIds?: string[]
+  ): Promise<string[]> {
+    const snapshot = await adminDb.collection(collection).where('location_id', '==', fromId).get();
+    const allowed = onlyIds ? new Set(onlyIds) : null;
+    const docs = snapshot.docs.filter(doc => !allowed || allowed.has(doc.id));
+
+    for (let i = 0; i < docs.length; i += 400) {
+      const batch = adminDb.batch();
+      docs.slice(i, i + 400).forEach(doc => batch.update(doc.ref, { location_id: toId }));
+      await batch.commit();
+    }
+
+    return docs.map(doc => doc.id);
+  }
+
+  // Location revisions
+  async getLocationRevisions(locationId: string, limit: number = 50): Promise<LocationRevision[]> {
+    try {
+      const snapshot = await adminDb.collection('locations').doc(locationId)
+        .collection('revisions')
+        .orderBy('version', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertRevision(doc));
+    } catch (error) {
+      console.error(`Error fetching revisions for location ${locationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a location's content fields to how they were after `revisionId`.
+   * Moderation and merge state are left alone. The rollback is itself a new
+   * revision and is logged to moderation_logs.
+   */
+  async rollbackLocation(
+    locationId: string,
+    revisionId: string,
+    moderatorId: string
+  ): Promise<ModerationOutcome<{ location: AmalaLocation; version: number; restoredFields: string[] }>> {
+    try {
+      const locationRef = adminDb.collection('locations').doc(locationId);
+      const [locationDoc, revisionDoc] = await Promise.all([
+        locationRef.get(),
+        locationRef.collection('revisions').doc(revisionId).get(),
+      ]);
+
+      if (!locationDoc.exists) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
+      if (!revisionDoc.exists) {
+        return { success: false, error: 'Revision not found', status: 404 };
+      }
+
+      const current = locationDoc.data()!;
+      if (current.status === 'merged') {
+        return { success: false, error: 'This location was merged; undo the merge instead', status: 409 };
+      }
+
+      const target = this.convertRevision(revisionDoc);
+      const excluded = new Set<string>(ROLLBACK_EXCLUDED_FIELDS);
+      const fields = new Set([...Object.keys(current), ...Object.keys(target.snapshot)]);
+      const updates: Record<string, unknown> = {};
+
+      for (const field of fields) {
+        if (excluded.has(field) || !isVersionedField(field)) continue;
+        if (valuesEqual(current[field], target.snapshot[field])) continue;
+        updates[field] = target.snapshot[field] ?? FieldValue.delete();
+      }
+
+      const restoredFields = Object.keys(updates).sort();
+      if (restoredFields.length === 0) {
+        return { success: false, error: `Location already matches revision ${target.version}`, status: 409 };
+      }
+
+      // Keep derived index fields in step with the restored values
+      if ('coordinates' in updates) {
+        updates.geohash = geohashForCoordinates(target.snapshot.coordinates as AmalaLocation['coordinates']) ?? FieldValue.delete();
+      }
+      if ('name' in updates) {
+        updates.nameTokens = EntityResolutionService.nameTokens(target.snapshot.name as string | undefined);
+      }
+
+      const rollbackActor: RevisionActor = { type: 'moderator', id: moderatorId };
+      const version = await this.writeLocationRevision(
+        locationId,
+        {
+          ...updates,
+          ...this.provenanceUpdates(restoredFields, rollbackActor),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        rollbackActor,
+        'rollback',
+        { rollbackOf: { revisionId, version: target.version } }
+      );
+
+      const moderatorName = await this.getModeratorName(moderatorId);
+      await adminDb.collection('moderation_logs').add({
+        type: 'location_revision',
+        locationId,
+        locationName: (target.snapshot.name as string) || current.name || 'Unknown Location',
+        action: 'rollback',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          revisionId,
+          restoredVersion: target.version,
+          newVersion: version,
+          restoredFields,
+        },
+      });
+
+      console.log(`⏪ Rolled back location ${locationId} to revision ${target.version} (${restoredFields.join(', ')})`);
+
+      const location = await this.getLocationById(locationId);
+      return { success: true, data: { location: location!, version: version!, restoredFields } };
+    } catch (error) {
+      console.error(`❌ Failed to roll back location ${locationId} to ${revisionId}:`, error);
+      throw error;
+    }
+  }
+
+  private convertRevision(doc: FirebaseFirestore.DocumentSnapshot): LocationRevision {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+    } as LocationRevision;
+  }
+
+  // Resolve the write sentinels we use to the values they will store, for diffs
+  private applyLocationWrite(
+    before: Record<string, unknown>,
+    updates: Record<string, unknown>,
+    now: Date
+  ): Record<string, unknown> {
+    const after = { ...before };
+    for (const [field, value] of Object.entries(updates)) {
+      if (value instanceof FieldValue) {
+        if (value.isEqual(FieldValue.delete())) {
+          delete after[field];
+        } else if (value.isEqual(FieldValue.serverTimestamp())) {
+          after[field] = now;
+        } else {
+          throw new Error(`Unsupported FieldValue in versioned write to ${field}`);
+        }
+      } else {
+        after[field] = value;
+      }
+    }
+    return after;
+  }
+
+  // Dotted provenance entries for the curated fields in a write
+  private provenanceUpdates(
+    fields: string[],
+    actor: RevisionActor,
+    confidence?: number
+  ): Record<string, unknown> {
+    const stamps = FieldProvenanceService.stamp(fields, { source: actor.type, sourceId: actor.id, confidence });
+    return Object.fromEntries(
+      Object.entries(stamps).map(([field, provenance]) => [`provenance.${field}`, provenance])
+    );
+  }
+
+  private buildRevisionRecord(
+    locationId: string,
+    version: number,
+    actor: RevisionActor,
+    action: RevisionAction,
+    changes: FieldDiff[],
+    after: Record<string, unknown>,
+    extra: { note?: string; rollbackOf?: LocationRevision['rollbackOf'] } = {}
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries({
+        locationId,
+        version,
+        actor: Object.fromEntries(Object.entries(actor).filter(([_, value]) => value !== undefined)),
+        action,
+        changes,
+        snapshot: versionedSnapshot(after),
+        note: extra.note,
+        rollbackOf: extra.rollbackOf,
+        createdAt: FieldValue.serverTimestamp(),
+      }).filter(([_, value]) => value !== undefined)
+    );
+  }
+
+  /**
+   * Apply a write to a location and record it as an immutable revision in the
+   * same transaction. Writes that only touch unversioned fields (timestamps,
+   * index fields, review-derived ratings) record nothing and return null.
+   */
+  private async writeLocationRevision(
+    locationId: string,
+    updates: Record<string, unknown>,
+    actor: RevisionActor,
+    action: RevisionAction,
+    extra: { note?: string; rollbackOf?: LocationRevision['rollbackOf'] } = {}
+  ): Promise<number | null> {
+    const locationRef = adminDb.collection('locations').doc(locationId);
+
+    return adminDb.runTransaction(async (transaction) => {
+      const doc = await transaction.get(locationRef);
+      if (!doc.exists) {
+        throw new Error(`Location ${locationId} not found`);
+      }
+
+      const before = doc.data()!;
+      const after = this.applyLocationWrite(before, updates, new Date());
+      const changes = diffLocationFields(before, after);
+
+      if (changes.length === 0) {
+        transaction.update(locationRef, updates);
+        return null;
+      }
+
+      const version = (before.revision || 0) + 1;
+      transaction.update(locationRef, { ...updates, revision: version });
+      transaction.set(
+        locationRef.collection('revisions').doc(),
+        this.buildRevisionRecord(locationId, version, actor, action, changes, after, extra)
+      );
+      return version;
+    });
+  }
+
+  // Flagged Content Management
+  async getFlaggedContent(status: string = "pending"): Promise<any[]> {
+    try {
+      const snapshot = await adminDb.collection('flagged_content')
+        .where('status', '==', status)
+        .orderBy('reportedAt', 'desc')
+        .get();
+        
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        reportedAt: this.convertTimestamp(doc.data().reportedAt),
+      }));
+    } catch (error: any) {
+      console.error(`Error getting flagged content with status ${status}:`, error);
+      // Return empty array if collection doesn't exist yet
+      if (error?.code === 'not-found' || error?.message?.includes('collection')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async createFlaggedContent(flagData: any): Promise<any> {
+    try {
+      const docRef = await adminDb.collection('flagged_content').add({
+        ...flagData,
+        reportedAt: FieldValue.serverTimestamp(),
+        status: 'pending',
+      });
+      
+      return {
+        id: docRef.id,
+        ...flagData,
+        reportedAt: new Date(),
+      };
+    } catch (error) {
+      console.error("Error creating flagged content:", error);
+      throw error;
+    }
+  }
+
+  async moderateFlaggedContent(
+    flagId: string,
+    action: 'dismiss' | 'uphold' | 'escalate',
+    moderatorEmail: string,
+    notes?: string
+  ): Promise<any> {
+    try {
+      const updateData = {
+        status: action === 'dismiss' ? 'dismissed' : action === 'uphold' ? 'upheld' : 'escalated',
+        moderatedAt: FieldValue.serverTimestamp(),
+        moderatedBy: moderatorEmail,
+        moderatorNotes: notes || '',
+      };
+
+      await adminDb.collection('flagged_content').doc(flagId).update(updateData);
+      
+      // Log the moderation action
+      await adminDb.collection('moderation_logs').add({
+        type: 'flag_moderation',
+        flagId,
+        action,
+        moderatorEmail,
+        notes,
+        timestamp: FieldValue.serverTimestamp(),
+      });
+
+      // An upheld flag counts against whoever posted the content
+      if (action === 'uphold') {
+        const flag = (await adminDb.collection('flagged_content').doc(flagId).get()).data();
+        const owner = flag ? await this.getContentOwner(flag.contentType, flag.contentId) : null;
+        if (owner) {
+          await this.recordReputationEvent(owner, 'flag_upheld', {
+            sourceType: 'flag',
+            sourceId: flagId,
+            locationId: owner.locationId,
+          });
+        }
+      } else {
+        await this.reverseReputationEvent('flag_upheld', flagId, `Flag ${updateData.status}`);
+      }
+
+      // Escalated flags stay in the moderation queue, at the top and unclaimed
+      if (action === 'escalate') {
+        await adminDb.collection('moderation_queue').doc(this.queueItemId('flag', flagId)).set({
+          type: 'flag',
+          contentId: flagId,
+          escalated: true,
+          escalatedAt: FieldValue.serverTimestamp(),
+          escalationReason: 'moderator',
+          lease: FieldValue.delete(),
+        }, { merge: true });
+      } else {
+        await this.clearQueueState('flag', flagId);
+      }
+
+      const doc = await adminDb.collection('flagged_content').doc(flagId).get();
+      return {
+        id: doc.id,
+        ...doc.data(),
+        moderatedAt: new Date(),
+      };
+    } catch (error) {
+      console.error(`Error moderating flagged content ${flagId}:`, error);
+      throw error;
+    }
+  }
+
+  // Moderation queue: pending items of every kind, with claim leases and SLA escalation
+
+  private queueItemId(type: QueueItemType, contentId: string): string {
+    return `${type}__${contentId}`;
+  }
+
+  private convertQueueLease(lease: any): QueueLease | null {
+    if (!lease) return null;
+    const expiresAt = this.convertTimestamp(lease.expiresAt);
+    if (expiresAt.getTime() <= Date.now()) return null;
+    return { ...lease, claimedAt: this.convertTimestamp(lease.claimedAt), expiresAt };
+  }
+
+  /**
+   * Everything awaiting moderation, escalated items first and then by SLA
+   * deadline. Read-only: SLA breaches are escalated by escalateBreachedItems.
+   */
+  async getModerationQueue(): Promise<ModerationQueueItem[]> {
+    const items = await this.loadModerationQueueItems();
+    return items.sort((a, b) =>
+      Number(b.escalated) - Number(a.escalated) || a.slaDueAt.getTime() - b.slaDueAt.getTime()
+    );
+  }
+
+  /**
+   * Escalate every queue item that has waited past its SLA and isn't
+   * escalated yet. Run on a schedule; returns how many were escalated.
+   */
+  async escalateBreachedItems(now: Date = new Date()): Promise<number> {
+    const items = await this.loadModerationQueueItems();
+    const breached = items.filter(item => !item.escalated && item.slaDueAt.getTime() < now.getTime());
+
+    if (breached.length > 0) {
+      await this.escalateQueueItems(breached);
+    }
+    return breached.length;
+  }
+
+  // Pending content of every type, with its queue state (escalation, claim) and SLA deadline
+  private async loadModerationQueueItems(): Promise<ModerationQueueItem[]> {
+    const [locationsSnapshot, reviews, photosSnapshot, flagsSnapshot] = await Promise.all([
+      adminDb.collection('locations').where('status', '==', 'pending').get(),
+      this.getReviewsByStatus('pending'),
+      adminDb.collection('restaurant_photos').where('status', '==', 'pending').get(),
+      adminDb.collection('flagged_content').where('status', 'in', ['pending', 'escalated']).get(),
+    ]);
+
+    type QueueSource = Omit<ModerationQueueItem, 'id' | 'slaDueAt' | 'escalated' | 'lease'> & {
+      flagEscalated?: boolean;
+      submitterEmail?: string;
+      submitterUid?: string;
+    };
+    const sources: QueueSource[] = [
+      ...locationsSnapshot.docs.map(doc => {
+        const location = this.convertFirestoreLocation(doc);
+        return {
+          type: 'location' as const,
+          contentId: location.id,
+          title: location.name,
+          summary: location.address,
+          locationId: location.id,
+          submittedBy: location.submittedBy,
+          submittedAt: location.submittedAt,
+          lane: location.moderationQueue,
+          submitterEmail: location.submittedBy,
+        };
+      }),
+      ...reviews.map(review => ({
+        type: 'review' as const,
+        contentId: review.id,
+        title: `${review.rating}★ review by ${review.author}`,
+        summary: review.text?.substring(0, 200),
+        locationId: review.location_id,
+        submittedBy: review.author,
+        submittedAt: review.date_posted,
+        riskScore: review.risk?.score,
+        submitterUid: review.user_id,
+      })),
+      ...photosSnapshot.docs.map(doc => {
+        const photo = doc.data();
+        return {
+          type: 'photo' as const,
+          contentId: doc.id,
+          title: `Photo by ${photo.user_name || 'Anonymous'}`,
+          summary: photo.description,
+          previewUrl: photo.cloudinary_url,
+          locationId: photo.location_id,
+          submittedBy: photo.user_name,
+          submittedAt: this.convertTimestamp(photo.uploaded_at),
+        };
+      }),
+      ...flagsSnapshot.docs.map(doc => {
+        const flag = doc.data();
+        return {
+          type: 'flag' as const,
+          contentId: doc.id,
+          title: `Flagged ${flag.contentType}: ${String(flag.reason).replace(/_/g, ' ')}`,
+          summary: flag.description,
+          locationId: flag.contentType === 'location' ? flag.contentId : undefined,
+          submittedBy: flag.reportedBy,
+          submittedAt: this.convertTimestamp(flag.reportedAt),
+          flagEscalated: flag.status === 'escalated',
+        };
+      }),
+    ];
+    if (sources.length === 0) return [];
+
+    const queueRef = adminDb.collection('moderation_queue');
+    const stateDocs = await adminDb.getAll(
+      ...sources.map(source => queueRef.doc(this.queueItemId(source.type, source.contentId)))
+    );
+
+    // Submitter trust scores, so moderators can fast-track established contributors
+    const reviewerAccounts = await this.getReviewerAccounts(
+      Array.from(new Set(sources.map(source => source.submitterUid).filter((uid): uid is string => !!uid)))
+    );
+    const submitterEmails = sources.map(source =>
+      source.submitterEmail ?? (source.submitterUid ? reviewerAccounts.get(source.submitterUid)?.email : undefined)
+    );
+    const trustScores = await this.getTrustScores(submitterEmails.filter((email): email is string => !!email));
+
+    return sources.map(({ flagEscalated, submitterEmail: _email, submitterUid: _uid, ...source }, i): ModerationQueueItem => {
+      const state = stateDocs[i].data();
+      const email = submitterEmails[i];
+      const slaDueAt = new Date(new Date(source.submittedAt).getTime() + QUEUE_SLA_HOURS[source.type] * 60 * 60 * 1000);
+      return {
+        ...source,
+        id: this.queueItemId(source.type, source.contentId),
+        slaDueAt,
+        escalated: !!state?.escalated || !!flagEscalated,
+        escalatedAt: state?.escalatedAt ? this.convertTimestamp(state.escalatedAt) : undefined,
+        escalationReason: state?.escalationReason ?? (flagEscalated ? 'moderator' : undefined),
+        lease: this.convertQueueLease(state?.lease),
+        submitterTrustScore: email?.includes('@') ? trustScores.get(email) ?? 0 : undefined,
+      };
+    });
+  }
+
+  // Mark items as escalated for breaching their SLA and log each escalation
+  private async escalateQueueItems(items: ModerationQueueItem[]): Promise<void> {
+    let batch = adminDb.batch();
+    let pendingWrites = 0;
+
+    for (const item of items) {
+      batch.set(adminDb.collection('moderation_queue').doc(item.id), {
+        type: item.type,
+        contentId: item.contentId,
+        escalated: true,
+        escalatedAt: FieldValue.serverTimestamp(),
+        escalationReason: 'sla_breach',
+      }, { merge: true });
+      batch.set(adminDb.collection('moderation_logs').doc(), {
+        type: 'queue_escalation',
+        action: 'escalate',
+        itemType: item.type,
+        contentId: item.contentId,
+        ...(item.type === 'review' ? { reviewId: item.contentId } : {}),
+        locationId: item.locationId || '',
+        locationName: item.type === 'location' ? item.title : '',
+        moderatorEmail: 'system',
+        moderatorName: 'System',
+        moderatorId: 'system',
+        timestamp: FieldValue.serverTimestamp(),
+        details: { reason: 'sla_breach', slaHours: QUEUE_SLA_HOURS[item.type] },
+      });
+      pendingWrites += 2;
+
+      // Firestore batches are limited to 500 writes
+      if (pendingWrites >= 400) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+    console.log(`⏰ Escalated ${items.length} moderation queue items past their SLA`);
+  }
+
+  /**
+   * Claim a queue item for QUEUE_LEASE_MINUTES (claiming again renews the
+   * lease) or release it. Another moderator's unexpired claim blocks both.
+   */
+  async setQueueClaim(
+    itemId: string,
+    action: QueueClaimAction,
+    moderatorId: string
+  ): Promise<ModerationOutcome<QueueLease | null>> {
+    const [type, contentId] = itemId.split('__');
+    if (!QUEUE_ITEM_TYPES.includes(type as QueueItemType) || !contentId) {
+      return { success: false, error: 'Unknown queue item', status: 404 };
+    }
+
+    const moderatorName = await this.getModeratorName(moderatorId);
+    const ref = adminDb.collection('moderation_queue').doc(itemId);
+
+    return adminDb.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const current = this.convertQueueLease(doc.data()?.lease);
+      if (current && current.moderatorId !== moderatorId) {
+        return { success: false as const, error: `Claimed by ${current.moderatorName}`, status: 409 };
+      }
+
+      if (action === 'release') {
+        if (doc.exists) transaction.update(ref, { lease: FieldValue.delete() });
+        return { success: true as const, data: null };
+      }
+
+      const now = new Date();
+      const lease: QueueLease = {
+        moderatorId,
+        moderatorName,
+        claimedAt: current?.claimedAt ?? now,
+        expiresAt: new Date(now.getTime() + QUEUE_LEASE_MINUTES * 60 * 1000),
+      };
+      transaction.set(ref, { type, contentId, lease }, { merge: true });
+      return { success: true as const, data: lease };
+    });
+  }
+
+  /**
+   * Refuse to act on an item another moderator has claimed
+   */
+  async checkQueueClaim(type: QueueItemType, contentId: string, moderatorId: string): Promise<ModerationOutcome<null>> {
+    const doc = await adminDb.collection('moderation_queue').doc(this.queueItemId(type, contentId)).get();
+    const lease = this.convertQueueLease(doc.data()?.lease);
+    if (lease && lease.moderatorId !== moderatorId) {
+      return { success: false, error: `${lease.moderatorName} is already reviewing this item`, status: 409 };
+    }
+    return { success: true, data: null };
+  }
+
+  // Drop claim and escalation state once an item has been decided
+  private async clearQueueState(type: QueueItemType, contentId: string): Promise<void> {
+    await adminDb.collection('moderation_queue').doc(this.queueItemId(type, contentId)).delete();
+  }
+
+  // Notifications
+  private convertNotification(doc: FirebaseFirestore.DocumentSnapshot): UserNotification {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+      readAt: data.readAt ? this.convertTimestamp(data.readAt) : undefined,
+    } as UserNotification;
+  }
+
+  /**
+   * Put a notification in the recipient's inbox and email it when a channel
+   * is configured. Never throws, so a failed notification can't undo the
+   * decision it reports.
+   */
+  private async notifyUser(
+    recipient: { userId?: string; email?: string },
+    type: NotificationType,
+    data: NotificationData
+  ): Promise<void> {
+    try {
+      let { userId, email } = recipient;
+      if (!userId && email) {
+        userId = (await adminAuth.getUserByEmail(email).catch(() => null))?.uid;
+      } else if (userId && !email) {
+        email = (await adminAuth.getUser(userId).catch(() => null))?.email;
+      }
+      if (!userId) {
+        console.log(`ℹ️ No account for ${email}, skipping ${type} notification`);
+        return;
+      }
+
+      const { title, body } = NotificationService.render(type, data);
+      const docRef = await adminDb.collection('notifications').add({
+        userId,
+        type,
+        title,
+        body,
+        data: Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      console.log(`🔔 Notified ${userId}: ${type}`);
+
+      if (!EmailService.isEnabled()) return;
+      if (!email) {
+        await docRef.update({ email: 'skipped' });
+        return;
+      }
+      try {
+        await EmailService.send(NotificationService.renderEmail({ title, body }, email));
+        await docRef.update({ email: 'sent' });
+      } catch (error) {
+        console.error(`❌ Failed to email ${type} notification to ${email}:`, error);
+        await docRef.update({ email: 'failed' });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to create ${type} notification:`, error);
+    }
+  }
+
+  // A user's notifications, newest first, with their unread total
+  async getNotifications(
+    userId: string,
+    options: { limit?: number; unreadOnly?: boolean } = {}
+  ): Promise<{ notifications: UserNotification[]; unreadCount: number }> {
+    const inbox = adminDb.collection('notifications').where('userId', '==', userId);
+    const listQuery = options.unreadOnly ? inbox.where('read', '==', false) : inbox;
+
+    const [snapshot, unread] = await Promise.all([
+      listQuery.orderBy('createdAt', 'desc').limit(options.limit || 20).get(),
+      inbox.where('read', '==', false).count().get(),
+    ]);
+
+    return {
+      notifications: snapshot.docs.map(doc => this.convertNotification(doc)),
+      unreadCount: unread.data().count,
+    };
+  }
+
+  /**
+   * Mark the given notifications (or every unread one) read. Ids belonging
+   * to other users are ignored. Returns how many changed.
+   */
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    let docs: FirebaseFirestore.DocumentSnapshot[];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      const collection = adminDb.collection('notifications');
+      docs = await adminDb.getAll(...ids.map(id => collection.doc(id)));
+    } else {
+      docs = (await adminDb.collection('notifications')
+        .where('userId', '==', userId)
+        .where('read', '==', false)
+        .get()).docs;
+    }
+
+    const unread = docs.filter(doc => doc.exists && doc.data()?.userId === userId && !doc.data()?.read);
+    let batch = adminDb.batch();
+    let pendingWrites = 0;
+    for (const doc of unread) {
+      batch.update(doc.ref, { read: true, readAt: FieldValue.serverTimestamp() });
+      pendingWrites++;
+
+      // Firestore batches are limited to 500 writes
+      if (pendingWrites >= 400) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pendingWrites = 0;
+      }
+    }
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    return unread.length;
+  }
+
+  // Appeals
+  private convertAppeal(doc: FirebaseFirestore.DocumentSnapshot): Appeal {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+      decidedAt: data.decidedAt ? this.convertTimestamp(data.decidedAt) : undefined,
+    } as Appeal;
+  }
+
+  // The reason given with the most recent rejection of a location or review, if any
+  private async getLastRejectionReason(contentType: AppealContentType, contentId: string): Promise<string | undefined> {
+    const snapshot = await adminDb.collection('moderation_logs')
+      .where(contentType === 'location' ? 'locationId' : 'reviewId', '==', contentId)
+      .get();
+    const rejection = snapshot.docs
+      .map(doc => doc.data())
+      .filter(log => log.action === 'reject' && log.type !== 'appeal')
+      .sort((a, b) => this.convertTimestamp(b.timestamp).getTime() - this.convertTimestamp(a.timestamp).getTime())[0];
+    return rejection?.reason;
+  }
+
+  /**
+   * Appeal a rejected location or review. Only its submitter can appeal, and
+   * only once.
+   */
+  async createAppeal(
+    submitter: { uid: string; email?: string },
+    contentType: AppealContentType,
+    contentId: string,
+    explanation: string
+  ): Promise<ModerationOutcome<Appeal>> {
+    const appealRef = adminDb.collection('appeals').doc(`${contentType}__${contentId}`);
+
+    let details: Pick<Appeal, 'locationId' | 'contentName' | 'contentPreview' | 'rejectedBy'> & { rejectionReason?: string };
+    if (contentType === 'location') {
+      const location = await this.getLocationById(contentId);
+      if (!location) return { success: false, error: 'Location not found', status: 404 };
+      if (!submitter.email || location.submittedBy !== submitter.email) {
+        return { success: false, error: 'You can only appeal your own submissions', status: 403 };
+      }
+      if (location.status !== 'rejected') {
+        return { success: false, error: 'Only rejected locations can be appealed', status: 409 };
+      }
+      details = {
+        locationId: contentId,
+        contentName: location.name,
+        rejectedBy: location.moderatedBy || 'unknown',
+        rejectionReason: (await this.getLastRejectionReason('location', contentId)) || location.rejectionReason,
+      };
+    } else {
+      const review = await this.getReviewById(contentId);
+      if (!review) return { success: false, error: 'Review not found', status: 404 };
+      if (review.user_id !== submitter.uid) {
+        return { success: false, error: 'You can only appeal your own reviews', status: 403 };
+      }
+      if (review.status !== 'rejected') {
+        return { success: false, error: 'Only rejected reviews can be appealed', status: 409 };
+      }
+      const location = await this.getLocationById(review.location_id);
+      details = {
+        locationId: review.location_id,
+        contentName: location?.name || 'Unknown Location',
+        contentPreview: review.text?.substring(0, 200),
+        rejectedBy: review.reviewedBy || 'unknown',
+        rejectionReason: await this.getLastRejectionReason('review', contentId),
+      };
+    }
+
+    const appeal = Object.fromEntries(
+      Object.entries({
+        contentType,
+        contentId,
+        ...details,
+        submittedBy: submitter.uid,
+        submitterEmail: submitter.email,
+        explanation,
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+      }).filter(([_, value]) => value !== undefined)
+    );
+
+    try {
+      // create() fails if the document exists, which is what limits each item to one appeal
+      await appealRef.create(appeal);
+    } catch (error) {
+      if ((error as { code?: number }).code === 6) {
+        return { success: false, error: 'This has already been appealed', status: 409 };
+      }
+      throw error;
+    }
+
+    console.log(`📨 Appeal filed for ${contentType} ${contentId} by ${submitter.email || submitter.uid}`);
+    return { success: true, data: this.convertAppeal(await appealRef.get()) };
+  }
+
+  async getAppeals(status: AppealStatus = 'pending', limit: number = 50): Promise<Appeal[]> {
+    const snapshot = await adminDb.collection('appeals')
+      .where('status', '==', status)
+      .orderBy('createdAt', status === 'pending' ? 'asc' : 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => this.convertAppeal(doc));
+  }
+
+  async getUserAppeals(userId: string): Promise<Appeal[]> {
+    const snapshot = await adminDb.collection('appeals')
+      .where('submittedBy', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snapshot.docs.map(doc => this.convertAppeal(doc));
+  }
+
+  /**
+   * Uphold or overturn a rejection. The moderator who rejected the item
+   * can't decide its appeal, whether the rejection recorded their email or
+   * (on older records) their uid. Overturning approves the location or review.
+   */
+  async decideAppeal(
+    appealId: string,
+    decision: AppealDecision,
+    decider: { id: string; email?: string },
+    note?: string
+  ): Promise<ModerationOutcome<Appeal>> {
+    const appealRef = adminDb.collection('appeals').doc(appealId);
+    const moderatorId = decider.email?.toLowerCase() || decider.id;
+    const isRejecter = (rejectedBy: string) =>
+      rejectedBy === decider.id || (!!decider.email && rejectedBy.toLowerCase() === decider.email.toLowerCase());
+
+    const claimed = await adminDb.runTransaction(async (transaction) => {
+      const doc = await transaction.get(appealRef);
+      if (!doc.exists) {
+        return { success: false as const, error: 'Appeal not found', status: 404 };
+      }
+      const appeal = this.convertAppeal(doc);
+      if (appeal.status !== 'pending') {
+        return { success: false as const, error: 'This appeal has already been decided', status: 409 };
+      }
+      if (isRejecter(appeal.rejectedBy)) {
+        return { success: false as const, error: 'A different moderator must decide appeals against your own rejections', status: 403 };
+      }
+
+      const contentRef = adminDb.collection(appeal.contentType === 'location' ? 'locations' : 'reviews').doc(appeal.contentId);
+      const content = await transaction.get(contentRef);
+      if (!content.exists || content.data()?.status !== 'rejected') {
+        return { success: false as const, error: `The ${appeal.contentType} is no longer rejected`, status: 409 };
+      }
+
+      transaction.update(appealRef, {
+        status: decision === 'overturn' ? 'overturned' : 'upheld',
+        decidedBy: moderatorId,
+        decidedAt: FieldValue.serverTimestamp(),
+        ...(note ? { decisionNote: note } : {}),
+      });
+      return { success: true as const, data: appeal };
+    });
+    if (!claimed.success) return claimed;
+
+    const appeal = claimed.data;
+    if (decision === 'overturn') {
+      if (appeal.contentType === 'location') {
+        await this.writeLocationRevision(
+          appeal.contentId,
+          {
+            status: 'approved',
+            moderatedAt: FieldValue.serverTimestamp(),
+            moderatedBy: moderatorId,
+            rejectionReason: FieldValue.delete(),
+          },
+          { type: 'moderator', id: moderatorId },
+          'status',
+          { note: 'Rejection overturned on appeal' }
+        );
+        await this.reverseReputationEvent('duplicate_rejected', appeal.contentId, 'Rejection overturned on appeal');
+      } else {
+        await adminDb.collection('reviews').doc(appeal.contentId).update({
+          status: 'approved',
+          reviewedAt: FieldValue.serverTimestamp(),
+          reviewedBy: moderatorId,
+        });
+        await this.updateLocationRating(appeal.locationId);
+      }
+
+      await this.recordReputationEvent(
+        { userId: appeal.submittedBy, email: appeal.submitterEmail },
+        appeal.contentType === 'location' ? 'location_approved' : 'review_approved',
+        { sourceType: appeal.contentType, sourceId: appeal.contentId, locationId: appeal.locationId }
+      );
+    }
+
+    await adminDb.collection('moderation_logs').add({
+      type: 'appeal',
+      appealId,
+      itemType: appeal.contentType,
+      locationId: appeal.locationId,
+      ...(appeal.contentType === 'review' ? { reviewId: appeal.contentId } : {}),
+      locationName: appeal.contentName,
+      action: decision,
+      moderatorEmail: moderatorId,
+      moderatorName: await this.getModeratorName(moderatorId),
+      moderatorId,
+      ...(note ? { reason: note } : {}),
+      timestamp: FieldValue.serverTimestamp(),
+      details: {
+        previousStatus: 'rejected',
+        newStatus: decision === 'overturn' ? 'approved' : 'rejected',
+        rejectedBy: appeal.rejectedBy,
+        explanation: appeal.explanation,
+        submittedBy: appeal.submitterEmail || appeal.submittedBy,
+      },
+    });
+
+    await this.notifyUser(
+      { userId: appeal.submittedBy, email: appeal.submitterEmail },
+      decision === 'overturn' ? 'appeal_overturned' : 'appeal_upheld',
+      {
+        appealId,
+        contentType: appeal.contentType,
+        locationId: appeal.locationId,
+        locationName: appeal.contentName,
+        reviewId: appeal.contentType === 'review' ? appeal.contentId : undefined,
+        reason: note,
+      }
+    );
+
+    console.log(`⚖️ Appeal ${appealId} ${decision === 'overturn' ? 'overturned' : 'upheld'} by ${moderatorId}`);
+    return { success: true, data: this.convertAppeal(await appealRef.get()) };
+  }
+
+  /**
+   * Per moderator: how many items they rejected and how many of the decided
+   * appeals against those rejections were overturned. Automatic rejections
+   * are grouped under their rule.
+   */
+  async getModeratorOverturnStats(): Promise<ModeratorOverturnStats[]> {
+    const decided = await adminDb.collection('appeals')
+      .where('status', 'in', ['upheld', 'overturned'])
+      .get();
+
+    // Older rejections recorded the moderator's uid; key everyone by email
+    const emailByUid = new Map<string, string>();
+    const identityOf = async (rejectedBy: string) => {
+      if (rejectedBy.includes('@') || rejectedBy.startsWith('rule:') || rejectedBy === 'unknown') {
+        return rejectedBy.toLowerCase();
+      }
+      if (!emailByUid.has(rejectedBy)) {
+        const email = (await adminAuth.getUser(rejectedBy).catch(() => null))?.email;
+        emailByUid.set(rejectedBy, email?.toLowerCase() || rejectedBy);
+      }
+      return emailByUid.get(rejectedBy)!;
+    };
+
+    const byModerator = new Map<string, { appeals: number; overturned: number; aliases: Set<string> }>();
+    for (const doc of decided.docs) {
+      const { rejectedBy, status } = doc.data();
+      const moderatorId = await identityOf(rejectedBy);
+      const entry = byModerator.get(moderatorId) || { appeals: 0, overturned: 0, aliases: new Set([moderatorId]) };
+      entry.appeals++;
+      if (status === 'overturned') entry.overturned++;
+      entry.aliases.add(rejectedBy);
+      byModerator.set(moderatorId, entry);
+    }
+
+    const stats = await Promise.all(
+      Array.from(byModerator.entries()).map(async ([moderatorId, { appeals, overturned, aliases }]) => {
+        const rejections = await adminDb.collection('moderation_logs')
+          .where('moderatorId', 'in', Array.from(aliases).slice(0, 30))
+          .where('action', '==', 'reject')
+          .count()
+          .get();
+        return {
+          moderatorId,
+          moderatorName: moderatorId.startsWith('rule:') ? 'Auto-moderation' : await this.getModeratorName(moderatorId),
+          rejections: rejections.data().count,
+          appeals,
+          overturned,
+          overturnRate: overturned / appeals,
+        };
+      })
+    );
+
+    return stats.sort((a, b) => b.overturnRate - a.overturnRate || b.appeals - a.appeals);
+  }
+
+  // Brands
+  private convertBrand(doc: FirebaseFirestore.DocumentSnapshot): Brand {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+      updatedAt: this.convertTimestamp(data.updatedAt),
+    } as Brand;
+  }
+
+  async getBrands(): Promise<BrandSummary[]> {
+    const snapshot = await adminDb.collection('brands').orderBy('name').get();
+    return Promise.all(snapshot.docs.map(async doc => {
+      const branches = await adminDb.collection('locations')
+        .where('brandId', '==', doc.id)
+        .where('status', '==', 'approved')
+        .count()
+        .get();
+      return { ...this.convertBrand(doc), branchCount: branches.data().count };
+    }));
+  }
+
+  async getBrand(brandId: string): Promise<Brand | null> {
+    const doc = await adminDb.collection('brands').doc(brandId).get();
+    return doc.exists ? this.convertBrand(doc) : null;
+  }
+
+  // A brand's approved branches, by name
+  async getBrandBranches(brandId: string): Promise<AmalaLocation[]> {
+    const snapshot = await adminDb.collection('locations')
+      .where('brandId', '==', brandId)
+      .where('status', '==', 'approved')
+      .get();
+    return snapshot.docs
+      .map(doc => this.convertFirestoreLocation(doc))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createBrand(input: BrandInput, createdBy: string): Promise<Brand> {
+    const brandData = Object.fromEntries(
+      Object.entries(input).filter(([_, value]) => value !== undefined)
+    );
+    const docRef = await adminDb.collection('brands').add({
+      ...brandData,
+      createdBy,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    console.log(`🏷️ Created brand "${input.name}" (${docRef.id}) by ${createdBy}`);
+    return this.convertBrand(await docRef.get());
+  }
+
+  async updateBrand(brandId: string, updates: Partial<BrandInput>): Promise<ModerationOutcome<Brand>> {
+    const brandRef = adminDb.collection('brands').doc(brandId);
+    const doc = await brandRef.get();
+    if (!doc.exists) {
+      return { success: false, error: 'Brand not found', status: 404 };
+    }
+
+    const sanitizedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    await brandRef.update({ ...sanitizedUpdates, updatedAt: FieldValue.serverTimestamp() });
+    return { success: true, data: this.convertBrand(await brandRef.get()) };
+  }
+
+  /**
+   * Attach a location to a brand as a branch, or detach it. The change is a
+   * location revision, so it shows in the history and can be rolled back.
+   * Attaching a branch of another brand moves it.
+   */
+  async setLocationBrand(
+    locationId: string,
+    brandId: string,
+    action: BranchAction,
+    moderatorId: string
+  ): Promise<ModerationOutcome<AmalaLocation>> {
+    const brand = await this.getBrand(brandId);
+    if (!brand) {
+      return { success: false, error: 'Brand not found', status: 404 };
+    }
+    const location = await this.resolveLocationRedirect(locationId);
+    if (!location) {
+      return { success: false, error: 'Location not found', status: 404 };
+    }
+    if (action === 'attach' && location.brandId === brandId) {
+      return { success: false, error: `${location.name} is already a branch of ${brand.name}`, status: 409 };
+    }
+    if (action === 'detach' && location.brandId !== brandId) {
+      return { success: false, error: `${location.name} is not a branch of ${brand.name}`, status: 409 };
+    }
+
+    await this.writeLocationRevision(
+      location.id,
+      {
+        brandId: action === 'attach' ? brandId : FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { type: 'moderator', id: moderatorId },
+      'update',
+      { note: action === 'attach' ? `Attached to ${brand.name}` : `Detached from ${brand.name}` }
+    );
+
+    const moderatorName = await this.getModeratorName(moderatorId);
+    await adminDb.collection('moderation_logs').add({
+      type: 'brand',
+      action,
+      brandId,
+      brandName: brand.name,
+      locationId: location.id,
+      locationName: location.name,
+      moderatorEmail: moderatorId,
+      moderatorName,
+      moderatorId,
+      timestamp: FieldValue.serverTimestamp(),
+      details: {
+        previousBrandId: location.brandId || null,
+      },
+    });
+
+    console.log(`🏷️ ${action === 'attach' ? 'Attached' : 'Detached'} ${location.name} ${action === 'attach' ? 'to' : 'from'} ${brand.name} by ${moderatorId}`);
+    return { success: true, data: { ...location, brandId: action === 'attach' ? brandId : undefined } };
+  }
+
+  // Ownership claims
+  private convertClaim(doc: FirebaseFirestore.DocumentSnapshot): OwnershipClaim {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+      callbackVerifiedAt: data.callbackVerifiedAt ? this.convertTimestamp(data.callbackVerifiedAt) : undefined,
+      decidedAt: data.decidedAt ? this.convertTimestamp(data.decidedAt) : undefined,
+    } as OwnershipClaim;
+  }
+
+  /**
+   * Claim a location on behalf of its owner or manager. A phone callback
+   * claim gets a code for a moderator to read out on a call to the listed
+   * number. Each person can have one pending claim per location.
+   */
+  async createOwnershipClaim(
+    claimant: { uid: string; email: string; name?: string },
+    locationId: string,
+    input: Pick<OwnershipClaim, 'relationship' | 'contactPhone' | 'message' | 'proofMethod' | 'documentUrl'>
+  ): Promise<ModerationOutcome<OwnershipClaim>> {
+    const location = await this.resolveLocationRedirect(locationId);
+    if (!location || location.status !== 'approved') {
+      return { success: false, error: 'Location not found', status: 404 };
+    }
+    if (location.ownerIds?.includes(claimant.uid)) {
+      return { success: false, error: 'You already manage this listing', status: 409 };
+    }
+    if (input.proofMethod === 'phone_callback' && !location.phone) {
+      return { success: false, error: 'This listing has no phone number to call. Claim it with a document instead', status: 400 };
+    }
+
+    const pending = await adminDb.collection('ownership_claims')
+      .where('locationId', '==', location.id)
+      .where('claimantId', '==', claimant.uid)
+      .where('status', '==', 'pending')
+      .limit(1)
+      .get();
+    if (!pending.empty) {
+      return { success: false, error: 'You already have a pending claim for this listing', status: 409 };
+    }
+
+    const claim = Object.fromEntries(
+      Object.entries({
+        locationId: location.id,
+        locationName: location.name,
+        claimantId: claimant.uid,
+        claimantEmail: claimant.email,
+        claimantName: claimant.name,
+        ...input,
+        ...(input.proofMethod === 'phone_callback'
+          ? { callbackCode: String(randomInt(0, 1_000_000)).padStart(6, '0'), callbackPhone: location.phone, callbackAttempts: 0 }
+          : {}),
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+      }).filter(([_, value]) => value !== undefined)
+    );
+
+    const docRef = await adminDb.collection('ownership_claims').add(claim);
+    console.log(`🏪 Ownership claim ${docRef.id} for ${location.name} by ${claimant.email}`);
+    return { success: true, data: this.convertClaim(await docRef.get()) };
+  }
+
+  async getOwnershipClaims(status: ClaimStatus = 'pending', limit: number = 50): Promise<OwnershipClaim[]> {
+    const snapshot = await adminDb.collection('ownership_claims')
+      .where('status', '==', status)
+      .orderBy('createdAt', status === 'pending' ? 'asc' : 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => this.convertClaim(doc));
+  }
+
+  async getUserOwnershipClaims(userId: string): Promise<OwnershipClaim[]> {
+    const snapshot = await adminDb.collection('ownership_claims')
+      .where('claimantId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snapshot.docs.map(doc => this.convertClaim(doc));
+  }
+
+  /**
+   * The claimant enters the code a moderator read out on the callback
+   */
+  async verifyClaimCallback(claimId: string, userId: string, code: string): Promise<ModerationOutcome<OwnershipClaim>> {
+    const claimRef = adminDb.collection('ownership_claims').doc(claimId);
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const doc = await transaction.get(claimRef);
+      if (!doc.exists || doc.data()?.claimantId !== userId) {
+        return { success: false as const, error: 'Claim not found', status: 404 };
+      }
+      const claim = this.convertClaim(doc);
+      if (claim.status !== 'pending') {
+        return { success: false as const, error: 'This claim has already been decided', status: 409 };
+      }
+      if (claim.proofMethod !== 'phone_callback') {
+        return { success: false as const, error: 'This claim is not verified by phone', status: 400 };
+      }
+      if (claim.callbackVerifiedAt) {
+        return { success: true as const, data: claim };
+      }
+      if ((claim.callbackAttempts || 0) >= MAX_CALLBACK_ATTEMPTS) {
+        return { success: false as const, error: 'Too many wrong codes. A moderator will review the claim', status: 429 };
+      }
+      if (code !== claim.callbackCode) {
+        transaction.update(claimRef, { callbackAttempts: FieldValue.increment(1) });
+        return { success: false as const, error: "That code doesn't match", status: 400 };
+      }
+
+      transaction.update(claimRef, { callbackVerifiedAt: FieldValue.serverTimestamp() });
+      return { success: true as const, data: { ...claim, callbackVerifiedAt: new Date() } };
+    });
+
+    if (result.success) {
+      console.log(`📞 Callback code confirmed for ownership claim ${claimId}`);
+    }
+    return result;
+  }
+
+  /**
+   * Approve or reject a claim. Approving adds the claimant to the location's
+   * ownerIds, as a location revision, and gives them the owner role. Phone
+   * callback claims can only be approved once the code is confirmed.
+   */
+  async decideOwnershipClaim(
+    claimId: string,
+    decision: ClaimDecision,
+    moderatorId: string,
+    note?: string
+  ): Promise<ModerationOutcome<OwnershipClaim>> {
+    const claimRef = adminDb.collection('ownership_claims').doc(claimId);
+
+    const claimed = await adminDb.runTransaction(async (transaction) => {
+      const doc = await transaction.get(claimRef);
+      if (!doc.exists) {
+        return { success: false as const, error: 'Claim not found', status: 404 };
+      }
+      const claim = this.convertClaim(doc);
+      if (claim.status !== 'pending') {
+        return { success: false as const, error: 'This claim has already been decided', status: 409 };
+      }
+      if (decision === 'approve' && claim.proofMethod === 'phone_callback' && !claim.callbackVerifiedAt) {
+        return { success: false as const, error: "The claimant hasn't confirmed the callback code yet", status: 409 };
+      }
+
+      transaction.update(claimRef, {
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        decidedBy: moderatorId,
+        decidedAt: FieldValue.serverTimestamp(),
+        ...(note ? { decisionNote: note } : {}),
+      });
+      return { success: true as const, data: claim };
+    });
+    if (!claimed.success) return claimed;
+
+    const claim = claimed.data;
+    const location = await this.resolveLocationRedirect(claim.locationId);
+    if (decision === 'approve' && location) {
+      await this.updateLocation(
+        location.id,
+        { ownerIds: [...new Set([...(location.ownerIds || []), claim.claimantId])] },
+        { type: 'moderator', id: moderatorId },
+        { note: `Ownership claim ${claimId} approved` }
+      );
+      await this.grantOwnerRole(claim.claimantEmail);
+    }
+
+    const moderatorName = await this.getModeratorName(moderatorId);
+    await adminDb.collection('moderation_logs').add({
+      type: 'ownership_claim',
+      claimId,
+      locationId: claim.locationId,
+      locationName: claim.locationName,
+      action: decision,
+      moderatorEmail: moderatorId,
+      moderatorName,
+      moderatorId,
+      ...(note ? { reason: note } : {}),
+      timestamp: FieldValue.serverTimestamp(),
+      details: {
+        claimantEmail: claim.claimantEmail,
+        relationship: claim.relationship,
+        proofMethod: claim.proofMethod,
+      },
+    });
+
+    await this.notifyUser(
+      { userId: claim.claimantId, email: claim.claimantEmail },
+      decision === 'approve' ? 'claim_approved' : 'claim_rejected',
+      { locationId: claim.locationId, locationName: claim.locationName, claimId, reason: note }
+    );
+
+    console.log(`🏪 Ownership claim ${claimId} ${decision === 'approve' ? 'approved' : 'rejected'} by ${moderatorId}`);
+    return {
+      success: true,
+      data: {
+        ...claim,
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        decidedBy: moderatorId,
+        decidedAt: new Date(),
+        decisionNote: note,
+      },
+    };
+  }
+
+  // Add the owner role, keeping any roles the account has from the environment
+  private async grantOwnerRole(email: string): Promise<void> {
+    const roles = new Set(await this.getUserRolesWithFallback(email));
+    roles.add('owner');
+    await adminDb.collection('users').doc(email.toLowerCase()).set(
+      { roles: [...roles], updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+    console.log(`🏪 Granted owner role to ${email}`);
+  }
+
+  // Reputation ledger
+  private convertReputationEvent(doc: FirebaseFirestore.DocumentSnapshot): ReputationEvent {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      occurredAt: this.convertTimestamp(data.occurredAt),
+      reversedAt: data.reversedAt ? this.convertTimestamp(data.reversedAt) : undefined,
+    } as ReputationEvent;
+  }
+
+  /**
+   * Add an event to a contributor's ledger. Recording the same event twice
+   * is a no-op, and recording a reversed event reinstates it. Never throws,
+   * so reputation can't block the action that earned it.
+   */
+  private async recordReputationEvent(
+    recipient: { email?: string; userId?: string },
+    type: ReputationEventType,
+    source: { sourceType: ReputationSourceType; sourceId: string; key?: string; locationId?: string },
+    occurredAt: Date = new Date()
+  ): Promise<void> {
+    try {
+      const email = recipient.email || (recipient.userId
+        ? (await adminAuth.getUser(recipient.userId).catch(() => null))?.email
+        : undefined);
+      if (!email?.includes('@')) return;
+
+      const ref = adminDb.collection('reputation_events').doc(`${type}__${source.key || source.sourceId}`);
+      try {
+        await ref.create(Object.fromEntries(
+          Object.entries({
+            userEmail: email,
+            type,
+            points: REPUTATION_POINTS[type],
+            sourceType: source.sourceType,
+            sourceId: source.sourceId,
+            locationId: source.locationId,
+            occurredAt,
+          }).filter(([_, value]) => value !== undefined)
+        ));
+      } catch (error) {
+        if ((error as { code?: number }).code !== 6) throw error;
+        const existing = await ref.get();
+        if (!existing.data()?.reversedAt) return;
+        await ref.update({ reversedAt: FieldValue.delete(), reversalReason: FieldValue.delete() });
+      }
+
+      console.log(`🏅 Reputation ${REPUTATION_POINTS[type] > 0 ? '+' : ''}${REPUTATION_POINTS[type]} (${type}) for ${email}`);
+      await this.refreshReputation(email);
+    } catch (error) {
+      console.error(`❌ Failed to record ${type} reputation event:`, error);
+    }
+  }
+
+  /**
+   * Stop counting an event, e.g. when an approval is undone. Never throws.
+   */
+  private async reverseReputationEvent(type: ReputationEventType, key: string, reason: string): Promise<void> {
+    try {
+      const ref = adminDb.collection('reputation_events').doc(`${type}__${key}`);
+      const doc = await ref.get();
+      if (!doc.exists || doc.data()?.reversedAt) return;
+
+      await ref.update({ reversedAt: FieldValue.serverTimestamp(), reversalReason: reason });
+      console.log(`🏅 Reversed ${type} for ${doc.data()!.userEmail}: ${reason}`);
+      await this.refreshReputation(doc.data()!.userEmail);
+    } catch (error) {
+      console.error(`❌ Failed to reverse ${type} reputation event:`, error);
+    }
+  }
+
+  private async getReputationEvents(email: string): Promise<ReputationEvent[]> {
+    const snapshot = await adminDb.collection('reputation_events').where('userEmail', '==', email).get();
+    return snapshot.docs
+      .map(doc => this.convertReputationEvent(doc))
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+  }
+
+  // Recompute a contributor's stored summary from their ledger
+  private async refreshReputation(email: string): Promise<ReputationSummary> {
+    const summary = ReputationService.summarize(email, await this.getReputationEvents(email));
+    await adminDb.collection('reputation').doc(email).set(summary);
+    return summary;
+  }
+
+  // A contributor's points, trust score and level, as of now
+  async getReputationSummary(email: string): Promise<ReputationSummary> {
+    return ReputationService.summarize(email, await this.getReputationEvents(email));
+  }
+
+  /**
+   * A contributor's summary, daily trust score history and latest events
+   */
+  async getReputation(email: string, days: number = 90): Promise<{
+    summary: ReputationSummary;
+    history: ReputationHistoryPoint[];
+    recentEvents: ReputationEvent[];
+  }> {
+    const events = await this.getReputationEvents(email);
+    return {
+      summary: ReputationService.summarize(email, events),
+      history: ReputationService.history(events, days),
+      recentEvents: events.slice(0, 20),
+    };
+  }
+
+  /**
+   * Current trust scores from the stored summaries. Contributors with no
+   * ledger are left out.
+   */
+  async getTrustScores(emails: string[]): Promise<Map<string, number>> {
+    const ids = Array.from(new Set(emails.filter(email => email?.includes('@'))));
+    const scores = new Map<string, number>();
+    if (ids.length === 0) return scores;
+
+    const collection = adminDb.collection('reputation');
+    const docs = await adminDb.getAll(...ids.map(id => collection.doc(id)));
+    const now = new Date();
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const data = doc.data()!;
+      scores.set(doc.id, ReputationService.currentScore(data.trustScore, this.convertTimestamp(data.updatedAt), now));
+    }
+    return scores;
+  }
+
+  /**
+   * Build ledgers from existing approvals, accepted edits, helpful votes,
+   * upheld flags and duplicate rejections, dated when each happened. Safe to
+   * re-run: events already in the ledger (including reversed ones) are kept.
+   */
+  async backfillReputation(options: { dryRun?: boolean } = {}): Promise<{
+    events: Partial<Record<ReputationEventType, number>>;
+    created: number;
+    users: number;
+  }> {
+    type Pending = Omit<ReputationEvent, 'id' | 'userEmail' | 'points'> & { id: string; userEmail?: string; userId?: string };
+    const pending: Pending[] = [];
+
+    const [locationsSnapshot, reviewsSnapshot, votesSnapshot, editsSnapshot, flagsSnapshot] = await Promise.all([
+      adminDb.collection('locations').where('status', 'in', ['approved', 'rejected', 'merged']).get(),
+      adminDb.collection('reviews').where('status', '==', 'approved').get(),
+      adminDb.collection('review_votes').where('value', '==', 'helpful').get(),
+      adminDb.collection('edit_suggestions').where('status', 'in', ['accepted', 'partially_accepted']).get(),
+      adminDb.collection('flagged_content').where('status', '==', 'upheld').get(),
+    ]);
+
+    const locations = new Map(locationsSnapshot.docs.map(doc => [doc.id, doc.data()]));
+    const survivorIds = Array.from(new Set(
+      locationsSnapshot.docs.map(doc => doc.data().mergedInto).filter((id): id is string => !!id && !locations.has(id))
+    ));
+    if (survivorIds.length > 0) {
+      const survivors = await adminDb.getAll(...survivorIds.map(id => adminDb.collection('locations').doc(id)));
+      for (const doc of survivors) {
+        if (doc.exists) locations.set(doc.id, doc.data()!);
+      }
+    }
+
+    for (const doc of locationsSnapshot.docs) {
+      const location = doc.data();
+      if (!location.submittedBy?.includes('@')) continue;
+      const base = { userEmail: location.submittedBy, sourceType: 'location' as const, sourceId: doc.id, locationId: doc.id };
+      const decidedAt = this.convertTimestamp(location.moderatedAt || location.submittedAt);
+
+      if (location.status === 'approved') {
+        pending.push({ ...base, id: `location_approved__${doc.id}`, type: 'location_approved', occurredAt: decidedAt });
+      } else if (location.status === 'rejected' && location.rejectionReason === 'duplicate') {
+        pending.push({ ...base, id: `duplicate_rejected__${doc.id}`, type: 'duplicate_rejected', occurredAt: decidedAt });
+      } else if (location.status === 'merged' && this.isLaterDuplicate(location, locations.get(location.mergedInto))) {
+        pending.push({
+          ...base,
+          id: `duplicate_rejected__${doc.id}`,
+          type: 'duplicate_rejected',
+          occurredAt: this.convertTimestamp(location.mergedAt || location.submittedAt),
+        });
+      }
+    }
+
+    const reviewAuthors = new Map<string, string>();
+    for (const doc of reviewsSnapshot.docs) {
+      const review = doc.data();
+      if (!review.user_id) continue;
+      reviewAuthors.set(doc.id, review.user_id);
+      pending.push({
+        id: `review_approved__${doc.id}`,
+        userId: review.user_id,
+        type: 'review_approved',
+        sourceType: 'review',
+        sourceId: doc.id,
+        locationId: review.location_id,
+        occurredAt: this.convertTimestamp(review.reviewedAt || review.date_posted),
+      });
+    }
+
+    for (const doc of votesSnapshot.docs) {
+      const vote = doc.data();
+      const authorId = reviewAuthors.get(vote.review_id);
+      if (!authorId) continue;
+      pending.push({
+        id: `review_helpful__${vote.review_id}__${vote.user_id}`,
+        userId: authorId,
+        type: 'review_helpful',
+        sourceType: 'review',
+        sourceId: vote.review_id,
+        locationId: vote.location_id,
+        occurredAt: this.convertTimestamp(vote.createdAt),
+      });
+    }
+
+    for (const doc of editsSnapshot.docs) {
+      const suggestion = doc.data();
+      const type = suggestion.status === 'accepted' ? 'edit_accepted' : 'edit_partially_accepted';
+      pending.push({
+        id: `${type}__${doc.id}`,
+        userEmail: suggestion.submittedBy,
+        type,
+        sourceType: 'edit_suggestion',
+        sourceId: doc.id,
+        locationId: suggestion.locationId,
+        occurredAt: this.convertTimestamp(suggestion.reviewedAt || suggestion.submittedAt),
+      });
+    }
+
+    for (const doc of flagsSnapshot.docs) {
+      const flag = doc.data();
+      const owner = await this.getContentOwner(flag.contentType, flag.contentId);
+      if (!owner) continue;
+      pending.push({
+        id: `flag_upheld__${doc.id}`,
+        ...owner,
+        type: 'flag_upheld',
+        sourceType: 'flag',
+        sourceId: doc.id,
+        locationId: owner.locationId,
+        occurredAt: this.convertTimestamp(flag.moderatedAt || flag.reportedAt),
+      });
+    }
+
+    const uids = Array.from(new Set(pending.filter(event => !event.userEmail && event.userId).map(event => event.userId!)));
+    const accounts = await this.getReviewerAccounts(uids);
+    const events = pending
+      .map(({ userId, ...event }) => ({ ...event, userEmail: event.userEmail || (userId ? accounts.get(userId)?.email : undefined) }))
+      .filter(event => event.userEmail?.includes('@'));
+
+    // Keep whatever is already in the ledger
+    const existing = new Set<string>();
+    const collection = adminDb.collection('reputation_events');
+    for (let i = 0; i < events.length; i += 300) {
+      const docs = await adminDb.getAll(...events.slice(i, i + 300).map(event => collection.doc(event.id)));
+      docs.filter(doc => doc.exists).forEach(doc => existing.add(doc.id));
+    }
+    const missing = events.filter(event => !existing.has(event.id));
+
+    const result = {
+      events: missing.reduce((counts, event) => {
+        counts[event.type] = (counts[event.type] || 0) + 1;
+        return counts;
+      }, {} as Partial<Record<ReputationEventType, number>>),
+      created: missing.length,
+      users: new Set(missing.map(event => event.userEmail)).size,
+    };
+    if (options.dryRun) {
+      console.log('🏅 Reputation backfill (dry run):', result);
+      return result;
+    }
+
+    let batch = adminDb.batch();
+    let pendingWrites = 0;
+    for (const { id, ...event } of missing) {
+      batch.set(collection.doc(id), Object.fromEntries(
+        Object.entries({ ...event, points: REPUTATION_POINTS[event.type] }).filter(([_, value]) => value !== undefined)
+      ));
+      pendingWrites++;
+
+      // Firestore batches are limited to 500 writes
+      if (pendingWrites === 400) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pendingWrites = 0;
+      }
+    }
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    for (const email of new Set(missing.map(event => event.userEmail!))) {
+      await this.refreshReputation(email);
+    }
+
+    console.log('🏅 Reputation backfill:', result);
+    return result;
+  }
+
+  // The account behind a flagged location or review
+  private async getContentOwner(
+    contentType: 'location' | 'review',
+    contentId: string
+  ): Promise<{ userEmail?: string; userId?: string; locationId: string } | null> {
+    if (contentType === 'location') {
+      const doc = await adminDb.collection('locations').doc(contentId).get();
+      const submittedBy = doc.data()?.submittedBy;
+      return submittedBy?.includes('@') ? { userEmail: submittedBy, locationId: contentId } : null;
+    }
+    const doc = await adminDb.collection('reviews').doc(contentId).get();
+    const review = doc.data();
+    return review?.user_id ? { userId: review.user_id, locationId: review.location_id } : null;
+  }
+
+  // A merged-away location counts as a duplicate when it was submitted after the location it was merged into
+  private isLaterDuplicate(merged: FirebaseFirestore.DocumentData, survivor?: FirebaseFirestore.DocumentData): boolean {
+    if (!survivor) return false;
+    return this.convertTimestamp(merged.submittedAt).getTime() > this.convertTimestamp(survivor.submittedAt).getTime();
+  }
+
+  // Moderation rules
+  private convertModerationRule(doc: FirebaseFirestore.DocumentSnapshot): ModerationRule {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: this.convertTimestamp(data.createdAt),
+      updatedAt: this.convertTimestamp(data.updatedAt),
+    } as ModerationRule;
+  }
+
+  async getModerationRules(): Promise<ModerationRule[]> {
+    const snapshot = await adminDb.collection('moderation_rules').orderBy('priority', 'asc').get();
+    return snapshot.docs.map(doc => this.convertModerationRule(doc));
+  }
+
+  async createModerationRule(input: ModerationRuleInput, createdBy: string): Promise<ModerationRule> {
+    const docRef = await adminDb.collection('moderation_rules').add({
+      ...input,
+      createdBy,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    console.log(`✅ Created moderation rule "${input.name}" (${docRef.id}) by ${createdBy}`);
+    return this.convertModerationRule(await docRef.get());
+  }
+
+  async updateModerationRule(
+    ruleId: string,
+    updates: Partial<ModerationRuleInput>
+  ): Promise<ModerationOutcome<ModerationRule>> {
+    const ruleRef = adminDb.collection('moderation_rules').doc(ruleId);
+    const doc = await ruleRef.get();
+    if (!doc.exists) {
+      return { success: false, error: 'Rule not found', status: 404 };
+    }
+
+    await ruleRef.update({ ...updates, updatedAt: FieldValue.serverTimestamp() });
+    return { success: true, data: this.convertModerationRule(await ruleRef.get()) };
+  }
+
+  async deleteModerationRule(ruleId: string): Promise<ModerationOutcome<null>> {
+    const ruleRef = adminDb.collection('moderation_rules').doc(ruleId);
+    const doc = await ruleRef.get();
+    if (!doc.exists) {
+      return { success: false, error: 'Rule not found', status: 404 };
+    }
+
+    await ruleRef.delete();
+    console.log(`🗑️ Deleted moderation rule "${doc.data()?.name}" (${ruleId})`);
+    return { success: true, data: null };
+  }
+
+  // Approved, rejected and pending locations submitted by an account
+  async getSubmitterStats(email: string): Promise<SubmitterStats> {
+    const snapshot = await adminDb
+      .collection('locations')
+      .where('submittedBy', '==', email)
+      .select('status')
+      .get();
+
+    const stats: SubmitterStats = { approved: 0, rejected: 0, pending: 0 };
+    snapshot.docs.forEach(doc => {
+      const status = doc.data().status;
+      if (status === 'approved' || status === 'rejected' || status === 'pending') {
+        stats[status as keyof SubmitterStats]++;
+      }
+    });
+    return stats;
+  }
+
+  /**
+   * Everything moderation rules look at for a submission. Discovery runs have
+   * no submitter, so role and trust conditions never match them.
+   */
+  async buildSubmissionFacts(
+    location: Partial<AmalaLocation>,
+    context: { source: SubmissionSource; duplicateConfidence?: number }
+  ): Promise<SubmissionFacts> {
+    const submitter = context.source === 'user' ? location.submittedBy : undefined;
+    const [submitterRoles, submitterStats, trustScores] = submitter
+      ? await Promise.all([
+          this.getUserRolesWithFallback(submitter),
+          this.getSubmitterStats(submitter),
+          this.getTrustScores([submitter]),
+        ])
+      : [[], { approved: 0, rejected: 0, pending: 0 }, null];
+
+    return {
+      source: context.source,
+      submitter,
+      submitterRoles,
+      submitterStats,
+      submitterTrustScore: trustScores ? trustScores.get(submitter!) ?? 0 : undefined,
+      duplicateConfidence: context.duplicateConfidence ?? 0,
+      discoveryConfidence: location.discoveryConfidence,
+      missingFields: ModerationRulesService.missingFields(location),
+      text: this.submissionText(location),
+    };
+  }
+
+  private submissionText(location: Partial<AmalaLocation>): SubmissionFacts['text'] {
+    return {
+      name: location.name || '',
+      address: location.address || '',
+      description: location.description || '',
+    };
+  }
+
+  /**
+   * Run the enabled rules against a new submission and apply the first
+   * match. The signals are stored on the location either way so dry runs
+   * can replay them later.
+   */
+  async autoModerateLocation(location: AmalaLocation, facts: SubmissionFacts): Promise<RuleDecision | null> {
+    const { text: _text, ...signals } = facts;
+    const locationRef = adminDb.collection('locations').doc(location.id);
+    await locationRef.update({
+      submissionSignals: Object.fromEntries(
+        Object.entries(signals).filter(([_, value]) => value !== undefined)
+      ),
+    });
+
+    const decision = ModerationRulesService.evaluate(await this.getModerationRules(), facts);
+    if (!decision) return null;
+
+    const { action } = decision;
+    const actorId = `rule:${decision.ruleId}`;
+    const newStatus = action.type === 'approve' ? 'approved' : action.type === 'reject' ? 'rejected' : 'pending';
+    const reason = `${decision.ruleName}: ${decision.reasons.join('; ')}`;
+
+    const updates: Record<string, unknown> = action.type === 'route'
+      ? { moderationQueue: action.queue }
+      : {
+          status: newStatus,
+          moderatedAt: FieldValue.serverTimestamp(),
+          moderatedBy: actorId,
+          ...(action.type === 'reject' ? { rejectionReason: action.reasonCode } : {}),
+        };
+    await this.writeLocationRevision(location.id, updates, { type: 'system', id: actorId }, 'status', { note: reason });
+
+    await adminDb.collection('moderation_logs').add({
+      type: 'auto_moderation',
+      locationId: location.id,
+      locationName: location.name || 'Unknown Location',
+      action: action.type,
+      ruleId: decision.ruleId,
+      ruleName: decision.ruleName,
+      moderatorEmail: actorId,
+      moderatorName: 'Auto-moderation',
+      moderatorId: actorId,
+      reason,
+      timestamp: FieldValue.serverTimestamp(),
+      details: {
+        previousStatus: 'pending',
+        newStatus,
+        submittedBy: location.submittedBy || 'Unknown User',
+        discoverySource: location.discoverySource || 'manual',
+        ...(action.type === 'reject' ? { reasonCode: action.reasonCode } : {}),
+        ...(action.type === 'route' ? { queue: action.queue } : {}),
+      },
+    });
+
+    console.log(`🤖 Rule "${decision.ruleName}" applied ${action.type} to location ${location.id}`);
+
+    if (action.type !== 'route' && location.submittedBy?.includes('@')) {
+      await this.notifyUser(
+        { email: location.submittedBy },
+        action.type === 'approve' ? 'location_approved' : 'location_rejected',
+        { locationId: location.id, locationName: location.name, reason }
+      );
+    }
+
+    const source = { sourceType: 'location' as const, sourceId: location.id, locationId: location.id };
+    if (action.type === 'approve') {
+      await this.recordReputationEvent({ email: location.submittedBy }, 'location_approved', source);
+    } else if (action.type === 'reject' && action.reasonCode === 'duplicate') {
+      await this.recordReputationEvent({ email: location.submittedBy }, 'duplicate_rejected', source);
+    }
+    return decision;
+  }
+
+  /**
+   * What the given rules would have done with the last `limit` locations a
+   * moderator approved or rejected. Locations submitted before signals were
+   * stored have them reconstructed from the current data, counting only
+   * locations that existed at the time as possible duplicates.
+   */
+  async dryRunModerationRules(
+    rules: ModerationRule[],
+    limit: number
+  ): Promise<{ results: DryRunResult[]; summary: DryRunSummary }> {
+    const summary: DryRunSummary = {
+      evaluated: 0,
+      outcomes: { agree: 0, disagree: 0, routed: 0, no_rule: 0 },
+      byRule: {},
+    };
+
+    const logsSnapshot = await adminDb
+      .collection('moderation_logs')
+      .where('type', '==', 'location_moderation')
+      .orderBy('timestamp', 'desc')
+      .limit(limit)
+      .get();
+    const logs = logsSnapshot.docs.filter(doc => ['approve', 'reject'].includes(doc.data().action));
+
+    const locationIds = [...new Set(logs.map(doc => doc.data().locationId).filter(Boolean) as string[])];
+    const locations = new Map<string, AmalaLocation>();
+    for (let i = 0; i < locationIds.length; i += 100) {
+      const docs = await adminDb.getAll(
+        ...locationIds.slice(i, i + 100).map(id => adminDb.collection('locations').doc(id))
+      );
+      docs.forEach(doc => {
+        if (doc.exists) locations.set(doc.id, this.convertFirestoreLocation(doc as FirebaseFirestore.QueryDocumentSnapshot));
+      });
+    }
+
+    const submitters = new Map<string, Promise<[string[], SubmitterStats, ReputationEvent[]]>>();
+    const results: DryRunResult[] = [];
+    for (const doc of logs) {
+      const log = doc.data();
+      const location = locations.get(log.locationId);
+      if (!location) continue; // deleted since
+
+      let facts: SubmissionFacts;
+      if (location.submissionSignals) {
+        facts = { ...location.submissionSignals, text: this.submissionText(location) };
+      } else {
+        facts = await this.reconstructSubmissionFacts(location, submitters);
+      }
+
+      const decision = ModerationRulesService.evaluate(rules, facts);
+      const moderatorAction = log.action as 'approve' | 'reject';
+      const outcome: DryRunOutcome = !decision
+        ? 'no_rule'
+        : decision.action.type === 'route'
+          ? 'routed'
+          : decision.action.type === moderatorAction ? 'agree' : 'disagree';
+
+      summary.evaluated++;
+      summary.outcomes[outcome]++;
+      if (decision) {
+        const ruleSummary = summary.byRule[decision.ruleId] ||= { name: decision.ruleName, matched: 0, agreed: 0, disagreed: 0 };
+        ruleSummary.matched++;
+        if (outcome === 'agree') ruleSummary.agreed++;
+        if (outcome === 'disagree') ruleSummary.disagreed++;
+      }
+
+      results.push({
+        logId: doc.id,
+        locationId: location.id,
+        locationName: location.name,
+        decidedAt: this.convertTimestamp(log.timestamp),
+        moderatorAction,
+        moderatorName: log.moderatorName || log.moderatorEmail || 'Unknown',
+        decision,
+        outcome,
+        signals: location.submissionSignals ? 'recorded' : 'reconstructed',
+      });
+    }
+
+    return { results, summary };
+  }
+
+  private async reconstructSubmissionFacts(
+    location: AmalaLocation,
+    submitters: Map<string, Promise<[string[], SubmitterStats, ReputationEvent[]]>>
+  ): Promise<SubmissionFacts> {
+    const isDiscovery = (location.discoverySource && location.discoverySource !== 'user-submitted')
+      || location.description?.includes('[Auto-discovered via');
+    const submitter = isDiscovery ? undefined : location.submittedBy;
+
+    let submitterRoles: string[] = [];
+    let submitterStats: SubmitterStats = { approved: 0, rejected: 0, pending: 0 };
+    let submitterTrustScore: number | undefined;
+    if (submitter) {
+      if (!submitters.has(submitter)) {
+        submitters.set(submitter, Promise.all([
+          this.getUserRolesWithFallback(submitter),
+          this.getSubmitterStats(submitter),
+          this.getReputationEvents(submitter),
+        ]));
+      }
+      const [roles, stats, events] = await submitters.get(submitter)!;
+      submitterRoles = roles;
+      // The ledger is dated, so the score at submission time is exact
+      submitterTrustScore = ReputationService.trustScore(events, new Date(location.submittedAt));
+      // The location's own outcome was not known when it was submitted
+      submitterStats = { ...stats };
+      if (location.status === 'approved' || location.status === 'rejected') {
+        submitterStats[location.status]--;
+        submitterStats.pending++;
+      }
+    }
+
+    const submittedAt = new Date(location.submittedAt).getTime();
+    const candidates = await this.findEntityCandidates(
+      EntityResolutionService.nameTokens(location.name),
+      EntityResolutionService.blockingRanges(location)
+    );
+    const earlier = candidates.filter(candidate =>
+      candidate.status !== 'merged' && new Date(candidate.submittedAt).getTime() < submittedAt
+    );
+    const resolution = EntityResolutionService.resolve(location, earlier, { limit: 1 });
+
+    return {
+      source: isDiscovery ? 'discovery' : 'user',
+      submitter,
+      submitterRoles,
+      submitterStats,
+      submitterTrustScore,
+      duplicateConfidence: resolution.confidence,
+      discoveryConfidence: location.discoveryConfidence,
+      missingFields: ModerationRulesService.missingFields(location),
+      text: this.submissionText(location),
+    };
+  }
+
+  // Price observations
+  private convertPriceObservation(doc: FirebaseFirestore.DocumentSnapshot): PriceObservation {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      observedAt: this.convertTimestamp(data.observedAt),
+    } as PriceObservation;
+  }
+
+  /**
+   * Store a plate price seen at a location. Recording the same observation
+   * twice overwrites it. Never throws, so a price can't block the review or
+   * edit it came with.
+   */
+  private async recordPriceObservation(
+    location: AmalaLocation,
+    source: PriceObservationSource,
+    key: string,
+    observation: Omit<PriceObservation, 'id' | 'locationId' | 'city' | 'country' | 'source'>
+  ): Promise<PriceObservation | null> {
+    try {
+      const id = `${source}__${key}`;
+      const data = Object.fromEntries(
+        Object.entries({
+          ...observation,
+          locationId: location.id,
+          city: location.city,
+          country: location.country,
+          source,
+        }).filter(([_, value]) => value !== undefined)
+      );
+      await adminDb.collection('price_observations').doc(id).set(data);
+      console.log(`💰 Recorded ${source} price ${observation.price} ${observation.currency} for ${location.name}`);
+      return { ...data, id } as PriceObservation;
+    } catch (error) {
+      console.error(`❌ Failed to record ${source} price observation:`, error);
+      return null;
+    }
+  }
+
+  // Drop an observation whose source no longer stands, e.g. a review that was unapproved
+  private async removePriceObservation(source: PriceObservationSource, key: string): Promise<void> {
+    try {
+      await adminDb.collection('price_observations').doc(`${source}__${key}`).delete();
+    } catch (error) {
+      console.error(`❌ Failed to remove ${source} price observation:`, error);
+    }
+  }
+
+  // Fresh plate prices on an accepted menu feed the price history
+  private async recordMenuPriceObservations(
+    location: AmalaLocation,
+    menu: MenuItem[],
+    suggestionId: string,
+    observedBy: string
+  ): Promise<void> {
+    for (const item of PriceIndexService.changedPlates(location.menu, menu)) {
+      await this.recordPriceObservation(location, 'menu_edit', `${suggestionId}__${item.id}`, {
+        price: item.price,
+        currency: item.currency,
+        dishes: item.dishes,
+        menuItemId: item.id,
+        sourceId: suggestionId,
+        observedBy,
+        observedAt: new Date(item.lastSeenAt),
+      });
+    }
+  }
+
+  // A scout logs the plate price they paid or saw on a visit
+  async logScoutPriceVisit(
+    locationId: string,
+    visit: Pick<PriceObservation, 'price' | 'currency' | 'dishes' | 'note' | 'observedAt'>,
+    scoutEmail: string
+  ): Promise<ModerationOutcome<PriceObservation>> {
+    const location = await this.getLocationById(locationId);
+    if (!location || location.status !== 'approved') {
+      return { success: false, error: 'Location not found', status: 404 };
+    }
+
+    const visitId = adminDb.collection('price_observations').doc().id;
+    const observation = await this.recordPriceObservation(location, 'scout_visit', visitId, {
+      ...visit,
+      sourceId: visitId,
+      observedBy: scoutEmail,
+    });
+    if (!observation) {
+      return { success: false, error: 'Failed to record price', status: 500 };
+    }
+    return { success: true, data: observation };
+  }
+
+  // A location's observations, newest first
+  async getLocationPriceObservations(locationId: string): Promise<PriceObservation[]> {
+    const snapshot = await adminDb.collection('price_observations').where('locationId', '==', locationId).get();
+    return snapshot.docs
+      .map(doc => this.convertPriceObservation(doc))
+      .sort((a, b) => b.observedAt.getTime() - a.observedAt.getTime());
+  }
+
+  async getPriceObservationsSince(since: Date): Promise<PriceObservation[]> {
+    const snapshot = await adminDb.collection('price_observations')
+      .where('observedAt', '>=', since)
+      .get();
+    return snapshot.docs.map(doc => this.convertPriceObservation(doc));
+  }
+
+  // Edit Suggestions
+  private convertEditSuggestion(doc: FirebaseFirestore.DocumentSnapshot): EditSuggestion {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      submittedAt: this.convertTimestamp(data.submittedAt),
+      reviewedAt: data.reviewedAt ? this.convertTimestamp(data.reviewedAt) : undefined,
+    } as EditSuggestion;
+  }
+
+  // Proposed values that actually differ from the location's current ones
+  private diffEditableFields(location: AmalaLocation, proposed: Partial<Record<EditableField, unknown>>): FieldChange[] {
+    const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+    return EDITABLE_FIELDS
+      .filter(field => proposed[field] !== undefined)
+      .map(field => ({
+        field,
+        currentValue: location[field] ?? null,
+        proposedValue: proposed[field],
+      }))
+      .filter(change =>
+        !(isEmpty(change.currentValue) && isEmpty(change.proposedValue)) &&
+        JSON.stringify(change.currentValue) !== JSON.stringify(change.proposedValue)
+      );
+  }
+
+  /**
+   * Record proposed changes to a location, snapshotting each field's current
+   * value for the moderator diff. Returns null when nothing actually differs.
+   */
+  async createEditSuggestion(
+    location: AmalaLocation,
+    proposed: Partial<Record<EditableField, unknown>>,
+    submitter: { id: string; email: string },
+    note?: string
+  ): Promise<EditSuggestion | null> {
+    const changes = this.diffEditableFields(location, proposed);
+
+    if (changes.length === 0) {
+      return null;
+    }
+
+    try {
+      const suggestionData = Object.fromEntries(
+        Object.entries({
+          locationId: location.id,
+          locationName: location.name,
+          changes,
+          note,
+          status: 'pending',
+          submittedBy: submitter.email,
+          submittedById: submitter.id,
+        }).filter(([_, value]) => value !== undefined)
+      );
+
+      const docRef = await adminDb.collection('edit_suggestions').add({
+        ...suggestionData,
+        submittedAt: FieldValue.serverTimestamp(),
+      });
+
+      console.log(`✏️ Edit suggestion ${docRef.id} for ${location.name}: ${changes.map(change => change.field).join(', ')}`);
+      return { ...suggestionData, id: docRef.id, submittedAt: new Date() } as EditSuggestion;
+    } catch (error) {
+      console.error(`Error creating edit suggestion for ${location.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a verified owner's edits to low-risk fields of their own listing
+   * straight away. They are kept as an accepted suggestion and a location
+   * revision, so they show in the history and can be rolled back.
+   */
+  async applyOwnerEdit(
+    location: AmalaLocation,
+    proposed: Partial<Record<EditableField, unknown>>,
+    owner: { id: string; email: string },
+    note?: string
+  ): Promise<EditSuggestion | null> {
+    const changes: FieldChange[] = this.diffEditableFields(location, proposed)
+      .map(change => ({ ...change, decision: 'accepted' }));
+    if (changes.length === 0) {
+      return null;
+    }
+
+    try {
+      await this.updateLocation(
+        location.id,
+        Object.fromEntries(changes.map(change => [change.field, change.proposedValue])) as Partial<AmalaLocation>,
+        { type: 'owner', id: owner.email },
+        { note: note ? `Owner edit: ${note}` : 'Owner edit' }
+      );
+
+      const suggestionData = Object.fromEntries(
+        Object.entries({
+          locationId: location.id,
+          locationName: location.name,
+          changes,
+          note,
+          status: 'accepted',
+          submittedBy: owner.email,
+          submittedById: owner.id,
+          reviewedBy: owner.email,
+          fastTracked: true,
+        }).filter(([_, value]) => value !== undefined)
+      );
+      const docRef = await adminDb.collection('edit_suggestions').add({
+        ...suggestionData,
+        submittedAt: FieldValue.serverTimestamp(),
+        reviewedAt: FieldValue.serverTimestamp(),
+      });
+
+      const menuChange = changes.find(change => change.field === 'menu');
+      if (menuChange) {
+        await this.recordMenuPriceObservations(location, menuChange.proposedValue as MenuItem[], docRef.id, owner.email);
+      }
+
+      console.log(`🏪 Owner edit ${docRef.id} applied to ${location.name}: ${changes.map(change => change.field).join(', ')}`);
+      return { ...suggestionData, id: docRef.id, submittedAt: new Date(), reviewedAt: new Date() } as EditSuggestion;
+    } catch (error) {
+      console.error(`Error applying owner edit to ${location.id}:`, error);
+      throw error;
+    }
+  }
+
+  async getEditSuggestions(status: EditSuggestionStatus = 'pending', limit: number = 50): Promise<EditSuggestion[]> {
+    try {
+      const snapshot = await adminDb.collection('edit_suggestions')
+        .where('status', '==', status)
+        .orderBy('submittedAt', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertEditSuggestion(doc));
+    } catch (error) {
+      console.error(`Error getting edit suggestions with status ${status}:`, error);
+      return [];
+    }
+  }
+
+  async getUserEditSuggestions(userEmail: string): Promise<EditSuggestion[]> {
+    try {
+      const snapshot = await adminDb.collection('edit_suggestions')
+        .where('submittedBy', '==', userEmail)
+        .orderBy('submittedAt', 'desc')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertEditSuggestion(doc));
+    } catch (error) {
+      console.error('Error fetching user edit suggestions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Apply the accepted fields of a suggestion to its location (following a
+   * merge redirect) and reject the rest. The decision is logged to
+   * moderation_logs with the replaced values.
+   */
+  async reviewEditSuggestion(
+    suggestionId: string,
+    acceptedFields: string[],
+    moderatorId: string,
+    notes?: string
+  ): Promise<ModerationOutcome<{ suggestion: EditSuggestion; location: AmalaLocation }>> {
+    try {
+      const suggestionRef = adminDb.collection('edit_suggestions').doc(suggestionId);
+      const suggestionDoc = await suggestionRef.get();
+      if (!suggestionDoc.exists) {
+        return { success: false, error: 'Edit suggestion not found', status: 404 };
+      }
+
+      const suggestion = this.convertEditSuggestion(suggestionDoc);
+      if (suggestion.status !== 'pending') {
+        return { success: false, error: 'This suggestion has already been reviewed', status: 409 };
+      }
+
+      const location = await this.resolveLocationRedirect(suggestion.locationId);
+      if (!location) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
+
+      const accepted = new Set(acceptedFields);
+      const changes: FieldChange[] = suggestion.changes.map(change => ({
+        ...change,
+        decision: accepted.has(change.field) ? 'accepted' : 'rejected',
+      }));
+      const acceptedChanges = changes.filter(change => change.decision === 'accepted');
+      const rejectedChanges = changes.filter(change => change.decision === 'rejected');
+
+      const previousValues: Record<string, unknown> = {};
+      if (acceptedChanges.length > 0) {
+        const updates: Record<string, unknown> = {};
+        for (const change of acceptedChanges) {
+          previousValues[change.field] = location[change.field] ?? null;
+          updates[change.field] = change.proposedValue;
+        }
+        await this.updateLocation(
+          location.id,
+          updates as Partial<AmalaLocation>,
+          { type: 'user', id: suggestion.submittedBy },
+          { note: `Edit suggestion ${suggestionId} accepted by ${moderatorId}` }
+        );
+      }
+
+      const status: EditSuggestionStatus =
+        rejectedChanges.length === 0 ? 'accepted'
+          : acceptedChanges.length === 0 ? 'rejected'
+            : 'partially_accepted';
+
+      await suggestionRef.update({
+        status,
+        changes,
+        reviewedAt: FieldValue.serverTimestamp(),
+        reviewedBy: moderatorId,
+        moderatorNotes: notes || '',
+      });
+
+      const moderatorName = await this.getModeratorName(moderatorId);
+      await adminDb.collection('moderation_logs').add({
+        type: 'edit_suggestion',
+        locationId: location.id,
+        locationName: location.name || 'Unknown Location',
+        action: status === 'accepted' ? 'accept' : status === 'rejected' ? 'reject' : 'partial_accept',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          suggestionId,
+          submittedBy: suggestion.submittedBy,
+          acceptedFields: acceptedChanges.map(change => change.field),
+          rejectedFields: rejectedChanges.map(change => change.field),
+          previousValues,
+          notes: notes || '',
+        },
+      });
+
+      console.log(`✅ Reviewed edit suggestion ${suggestionId}: ${acceptedChanges.length} accepted, ${rejectedChanges.length} rejected`);
+
+      const menuChange = acceptedChanges.find(change => change.field === 'menu');
+      if (menuChange) {
+        await this.recordMenuPriceObservations(location, menuChange.proposedValue as MenuItem[], suggestionId, suggestion.submittedBy);
+      }
+
+      if (status !== 'rejected') {
+        await this.recordReputationEvent(
+          { email: suggestion.submittedBy },
+          status === 'accepted' ? 'edit_accepted' : 'edit_partially_accepted',
+          { sourceType: 'edit_suggestion', sourceId: suggestionId, locationId: location.id }
+        );
+      }
+
+      const updatedLocation = await this.getLocationById(location.id);
       return {
-        id: docRef.id,
-        ...sanitizedData,
-        date_posted: new Date(), // Use current time since we can't get the server timestamp back
-      } as Review;
+        success: true,
+        data: {
+          suggestion: { ...suggestion, status, changes, reviewedAt: new Date(), reviewedBy: moderatorId, moderatorNotes: notes || '' },
+          location: updatedLocation ?? location,
+        },
+      };
     } catch (error) {
-      console.error("Error creating review:", error);
-      throw new Error(`Failed to create review: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to review edit suggestion ${suggestionId}:`, error);
+      throw error;
     }
   }
 
-  // Get all reviews by location
-  async getReviewsByLocation(locationId: string): Promise<Review[]> {
-    try {
-      const snapshot = await adminDb.collection('reviews')
-        .where('location_id', '==', locationId)
-        .orderBy('createdAt', 'desc')
-        .get();
-        
-      return snapshot.docs.map(doc => this.convertFirestoreReview(doc as FirebaseFirestore.QueryDocumentSnapshot));
-    } catch (error) {
-      console.error(`Error getting reviews for location ${locationId}:`, error);
-      throw error;
+  // Field provenance, enrichment conflicts and locks
+  private convertFieldConflict(doc: FirebaseFirestore.DocumentSnapshot): FieldConflict {
+    const data = doc.data()!;
+    return {
+      ...data,
+      id: doc.id,
+      currentProvenance: data.currentProvenance
+        ? { ...data.currentProvenance, updatedAt: this.convertTimestamp(data.currentProvenance.updatedAt) }
+        : undefined,
+      createdAt: this.convertTimestamp(data.createdAt),
+      resolvedAt: data.resolvedAt ? this.convertTimestamp(data.resolvedAt) : undefined,
+    } as FieldConflict;
+  }
+
+  /**
+   * Apply enrichment data field by field: empty and lower-trust fields are
+   * written, curated or locked fields that disagree become field conflicts.
+   * `passthrough` (ratings, place ids, enrichment timestamps) is always written.
+   */
+  async applyEnrichment(
+    locationId: string,
+    proposed: Partial<AmalaLocation>,
+    passthrough: Partial<AmalaLocation>,
+    source: { id: string; confidence?: number }
+  ): Promise<{ appliedFields: string[]; conflicts: number }> {
+    const location = await this.getLocationById(locationId);
+    if (!location) {
+      throw new Error(`Location ${locationId} not found`);
+    }
+
+    const stamp = { source: 'enrichment' as const, sourceId: source.id, confidence: source.confidence };
+    const plan = FieldProvenanceService.planEnrichment(location, proposed, stamp);
+
+    await this.updateLocation(
+      locationId,
+      { ...passthrough, ...plan.updates } as Partial<AmalaLocation>,
+      { type: 'enrichment', id: source.id },
+      { confidence: source.confidence }
+    );
+
+    let conflicts = 0;
+    for (const conflict of plan.conflicts) {
+      const docRef = adminDb.collection('field_conflicts').doc(`${locationId}__${conflict.field}`);
+      const existing = (await docRef.get()).data();
+
+      // Don't re-raise what is already waiting, or what a moderator already turned down
+      if (
+        existing &&
+        existing.status !== 'accepted' &&
+        valuesEqual(existing.proposedValue, conflict.proposedValue)
+      ) {
+        continue;
+      }
+
+      await docRef.set(Object.fromEntries(
+        Object.entries({
+          locationId,
+          locationName: location.name,
+          field: conflict.field,
+          currentValue: conflict.currentValue ?? null,
+          proposedValue: conflict.proposedValue,
+          currentProvenance: conflict.currentProvenance,
+          proposedSource: stamp.source,
+          proposedSourceId: stamp.sourceId,
+          locked: conflict.locked,
+          status: 'pending',
+          createdAt: FieldValue.serverTimestamp(),
+        }).filter(([_, value]) => value !== undefined)
+      ));
+      conflicts++;
     }
+
+    const appliedFields = Object.keys(plan.updates);
+    console.log(`🧩 Enrichment of ${locationId} from ${source.id}: applied [${appliedFields.join(', ')}], ${conflicts} new conflicts`);
+    return { appliedFields, conflicts };
   }
 
-  // Get reviews by location and user
-  async getReviewsByLocationAndUser(locationId: string, userId: string): Promise<Review[]> {
+  async getFieldConflicts(status: FieldConflictStatus = 'pending', limit: number = 50): Promise<FieldConflict[]> {
     try {
-      const snapshot = await adminDb.collection('reviews')
-        .where('location_id', '==', locationId)
-        .where('user_id', '==', userId)
+      const snapshot = await adminDb.collection('field_conflicts')
+        .where('status', '==', status)
         .orderBy('createdAt', 'desc')
+        .limit(limit)
         .get();
-        
-      return snapshot.docs.map(doc => this.convertFirestoreReview(doc as FirebaseFirestore.QueryDocumentSnapshot));
+
+      return snapshot.docs.map(doc => this.convertFieldConflict(doc));
     } catch (error) {
-      console.error(`Error getting reviews for location ${locationId} and user ${userId}:`, error);
-      throw error;
+      console.error(`Error getting field conflicts with status ${status}:`, error);
+      return [];
     }
   }
 
-  // Update location rating based on approved reviews
-  async updateLocationRating(locationId: string): Promise<void> {
+  /**
+   * Accept an enrichment value (written as a moderator edit) or keep the
+   * current one. Either way the field can be locked against future enrichment.
+   */
+  async resolveFieldConflict(
+    conflictId: string,
+    decision: 'accept' | 'dismiss',
+    moderatorId: string,
+    options: { lock?: boolean } = {}
+  ): Promise<ModerationOutcome<{ conflict: FieldConflict; location: AmalaLocation }>> {
     try {
-      // Get all approved reviews for this location
-      const reviewsSnapshot = await adminDb.collection('reviews')
-        .where('location_id', '==', locationId)
-        .where('status', '==', 'approved')
-        .get();
+      const conflictRef = adminDb.collection('field_conflicts').doc(conflictId);
+      const conflictDoc = await conflictRef.get();
+      if (!conflictDoc.exists) {
+        return { success: false, error: 'Conflict not found', status: 404 };
+      }
 
-      const reviews = reviewsSnapshot.docs.map(doc => doc.data() as Review);
-      
-      if (reviews.length === 0) {
-        // No reviews yet, set defaults
-        await adminDb.collection('locations').doc(locationId).update({
-          rating: 0,
-          reviewCount: 0,
-        });
-        return;
+      const conflict = this.convertFieldConflict(conflictDoc);
+      if (conflict.status !== 'pending') {
+        return { success: false, error: 'This conflict has already been resolved', status: 409 };
       }
 
-      // Calculate average rating
-      const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
-      const averageRating = totalRating / reviews.length;
+      const location = await this.resolveLocationRedirect(conflict.locationId);
+      if (!location) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
 
-      // Update location with new rating and count
-      await adminDb.collection('locations').doc(locationId).update({
-        rating: Math.round(averageRating * 10) / 10, // Round to 1 decimal place
-        reviewCount: reviews.length,
-      });
-    } catch (error) {
-      console.error(`Error updating location ${locationId} rating:`, error);
-      throw error;
-    }
-  }
+      const lockedFields = location.lockedFields || [];
+      const updates: Partial<AmalaLocation> = {};
+      if (decision === 'accept') {
+        (updates as Record<string, unknown>)[conflict.field] = conflict.proposedValue;
+      }
+      if (options.lock && !lockedFields.includes(conflict.field)) {
+        updates.lockedFields = [...lockedFields, conflict.field];
+      }
 
-  // Flagged Content Management
-  async getFlaggedContent(status: string = "pending"): Promise<any[]> {
-    try {
-      const snapshot = await adminDb.collection('flagged_content')
-        .where('status', '==', status)
-        .orderBy('reportedAt', 'desc')
-        .get();
-        
-      return snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        reportedAt: this.convertTimestamp(doc.data().reportedAt),
-      }));
-    } catch (error: any) {
-      console.error(`Error getting flagged content with status ${status}:`, error);
-      // Return empty array if collection doesn't exist yet
-      if (error?.code === 'not-found' || error?.message?.includes('collection')) {
-        return [];
+      if (Object.keys(updates).length > 0) {
+        await this.updateLocation(
+          location.id,
+          updates,
+          { type: 'moderator', id: moderatorId },
+          { note: `Field conflict on ${conflict.field} ${decision === 'accept' ? 'accepted' : 'dismissed'}` }
+        );
       }
-      throw error;
-    }
-  }
 
-  async createFlaggedContent(flagData: any): Promise<any> {
-    try {
-      const docRef = await adminDb.collection('flagged_content').add({
-        ...flagData,
-        reportedAt: FieldValue.serverTimestamp(),
-        status: 'pending',
+      const status: FieldConflictStatus = decision === 'accept' ? 'accepted' : 'dismissed';
+      await conflictRef.update({
+        status,
+        resolvedAt: FieldValue.serverTimestamp(),
+        resolvedBy: moderatorId,
       });
-      
+
+      const moderatorName = await this.getModeratorName(moderatorId);
+      await adminDb.collection('moderation_logs').add({
+        type: 'field_conflict',
+        locationId: location.id,
+        locationName: location.name || 'Unknown Location',
+        action: decision,
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          conflictId,
+          field: conflict.field,
+          previousValue: location[conflict.field] ?? null,
+          proposedValue: conflict.proposedValue,
+          proposedSource: conflict.proposedSourceId || conflict.proposedSource,
+          locked: Boolean(options.lock) || lockedFields.includes(conflict.field),
+        },
+      });
+
+      console.log(`🧩 ${decision === 'accept' ? 'Accepted' : 'Dismissed'} ${conflict.field} conflict on ${location.name}`);
+
+      const updatedLocation = await this.getLocationById(location.id);
       return {
-        id: docRef.id,
-        ...flagData,
-        reportedAt: new Date(),
+        success: true,
+        data: {
+          conflict: { ...conflict, status, resolvedAt: new Date(), resolvedBy: moderatorId },
+          location: updatedLocation ?? location,
+        },
       };
     } catch (error) {
-      console.error("Error creating flagged content:", error);
+      console.error(`❌ Failed to resolve field conflict ${conflictId}:`, error);
       throw error;
     }
   }
 
-  async moderateFlaggedContent(
-    flagId: string,
-    action: 'dismiss' | 'uphold' | 'escalate',
-    moderatorEmail: string,
-    notes?: string
-  ): Promise<any> {
+  /**
+   * Lock or unlock a field. Locked fields are never written by enrichment;
+   * disagreements are raised as conflicts instead.
+   */
+  async setFieldLock(
+    locationId: string,
+    field: ProvenanceField,
+    locked: boolean,
+    moderatorId: string
+  ): Promise<ModerationOutcome<{ lockedFields: ProvenanceField[] }>> {
     try {
-      const updateData = {
-        status: action === 'dismiss' ? 'dismissed' : action === 'uphold' ? 'upheld' : 'escalated',
-        moderatedAt: FieldValue.serverTimestamp(),
-        moderatedBy: moderatorEmail,
-        moderatorNotes: notes || '',
-      };
+      const location = await this.getLocationById(locationId);
+      if (!location) {
+        return { success: false, error: 'Location not found', status: 404 };
+      }
 
-      await adminDb.collection('flagged_content').doc(flagId).update(updateData);
-      
-      // Log the moderation action
+      const current = location.lockedFields || [];
+      if (current.includes(field) === locked) {
+        return { success: false, error: `${field} is already ${locked ? 'locked' : 'unlocked'}`, status: 409 };
+      }
+
+      const lockedFields = locked ? [...current, field] : current.filter(lockedField => lockedField !== field);
+      await this.writeLocationRevision(
+        locationId,
+        { lockedFields, updatedAt: FieldValue.serverTimestamp() },
+        { type: 'moderator', id: moderatorId },
+        'update',
+        { note: `${locked ? 'Locked' : 'Unlocked'} ${field}` }
+      );
+
+      const moderatorName = await this.getModeratorName(moderatorId);
       await adminDb.collection('moderation_logs').add({
-        type: 'flag_moderation',
-        flagId,
-        action,
-        moderatorEmail,
-        notes,
+        type: 'field_lock',
+        locationId,
+        locationName: location.name || 'Unknown Location',
+        action: locked ? 'lock' : 'unlock',
+        moderatorEmail: moderatorId,
+        moderatorName,
+        moderatorId,
         timestamp: FieldValue.serverTimestamp(),
+        details: { field, lockedFields },
       });
 
-      const doc = await adminDb.collection('flagged_content').doc(flagId).get();
-      return {
-        id: doc.id,
-        ...doc.data(),
-        moderatedAt: new Date(),
-      };
+      console.log(`🔒 ${locked ? 'Locked' : 'Unlocked'} ${field} on ${location.name}`);
+      return { success: true, data: { lockedFields } };
     } catch (error) {
-      console.error(`Error moderating flagged content ${flagId}:`, error);
+      console.error(`❌ Failed to ${locked ? 'lock' : 'unlock'} ${field} on ${locationId}:`, error);
       throw error;
     }
   }
@@ -1368,17 +4852,26 @@ class AdminDatabase {
   async createAnalyticsEvent(eventData: {
     event_type: string;
     location_id?: string;
+    location_ids?: string[];
     metadata?: any;
   }): Promise<string> {
     try {
       const docRef = await adminDb.collection('analytics_events').add({
         ...eventData,
         location_id: eventData.location_id || null,
+        location_ids: eventData.location_ids || [],
         metadata: eventData.metadata || {},
         created_at: FieldValue.serverTimestamp(),
         createdAt: FieldValue.serverTimestamp(),
         timestamp: FieldValue.serverTimestamp(),
       });
+
+      if ((OWNER_INSIGHT_METRICS as string[]).includes(eventData.event_type)) {
+        const locationIds = eventData.location_ids?.length
+          ? eventData.location_ids
+          : eventData.location_id ? [eventData.location_id] : [];
+        await this.recordInsightRollup(eventData.event_type as OwnerInsightMetric, locationIds, new Date());
+      }
       
       console.log('Analytics event created:', docRef.id);
       return docRef.id;
@@ -1413,6 +4906,165 @@ class AdminDatabase {
     }
   }
 
+  /**
+   * Visitor interaction events with the given listings since a date, oldest
+   * first. Single-listing events carry `location_id`; search impressions list
+   * every listing shown in `location_ids`, so both are queried.
+   */
+  async getInsightEventsForLocations(locationIds: string[], since: Date): Promise<InsightEvent[]> {
+    const events = new Map<string, InsightEvent>();
+    const collection = adminDb.collection('analytics_events');
+
+    for (let i = 0; i < locationIds.length; i += 30) {
+      const chunk = locationIds.slice(i, i + 30);
+      const snapshots = await Promise.all([
+        collection.where('location_id', 'in', chunk),
+        collection.where('location_ids', 'array-contains-any', chunk),
+      ].map(query => query
+        .where('created_at', '>=', since)
+        .orderBy('created_at', 'asc')
+        .select('event_type', 'location_id', 'location_ids', 'created_at')
+        .get()
+      ));
+
+      for (const doc of snapshots.flatMap(snapshot => snapshot.docs)) {
+        const data = doc.data();
+        if (!(OWNER_INSIGHT_METRICS as string[]).includes(data.event_type)) continue;
+        events.set(doc.id, {
+          event_type: data.event_type,
+          location_id: data.location_id,
+          location_ids: data.location_ids,
+          created_at: this.convertTimestamp(data.created_at),
+        });
+      }
+    }
+
+    return [...events.values()].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+
+  // Count an insight event in each listing's daily rollup (`insight_rollups/{locationId}__{YYYY-MM-DD}`)
+  private async recordInsightRollup(metric: OwnerInsightMetric, locationIds: string[], at: Date): Promise<void> {
+    if (locationIds.length === 0) return;
+    const date = OwnerInsightsService.dayOf(at);
+    const batch = adminDb.batch();
+    for (const locationId of new Set(locationIds)) {
+      batch.set(adminDb.collection('insight_rollups').doc(`${locationId}__${date}`), {
+        locationId,
+        date,
+        counts: { [metric]: FieldValue.increment(1) },
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+    }
+    await batch.commit();
+  }
+
+  // Each listing's interaction totals since a date, summed from the daily rollups
+  async getInsightRollupTotals(locationIds: string[], since: Date): Promise<Map<string, InsightTotals>> {
+    const totals = new Map<string, InsightTotals>();
+    const sinceDate = OwnerInsightsService.dayOf(since);
+
+    for (let i = 0; i < locationIds.length; i += 30) {
+      const snapshot = await adminDb.collection('insight_rollups')
+        .where('locationId', 'in', locationIds.slice(i, i + 30))
+        .where('date', '>=', sinceDate)
+        .get();
+
+      for (const doc of snapshot.docs) {
+        const { locationId, counts = {} } = doc.data();
+        const locationTotals = totals.get(locationId) || OwnerInsightsService.emptyTotals();
+        for (const metric of OWNER_INSIGHT_METRICS) {
+          locationTotals[metric] += counts[metric] || 0;
+        }
+        totals.set(locationId, locationTotals);
+      }
+    }
+    return totals;
+  }
+
+  // Locations a verified owner manages
+  async getOwnedLocations(userId: string): Promise<AmalaLocation[]> {
+    const snapshot = await adminDb.collection('locations')
+      .where('ownerIds', 'array-contains', userId)
+      .get();
+    return snapshot.docs
+      .map(doc => this.convertFirestoreLocation(doc))
+      .filter(location => location.status === 'approved');
+  }
+
+  async getApprovedLocationsInCity(city: string): Promise<AmalaLocation[]> {
+    const snapshot = await adminDb.collection('locations')
+      .where('status', '==', 'approved')
+      .where('city', '==', city)
+      .get();
+    return snapshot.docs.map(doc => this.convertFirestoreLocation(doc));
+  }
+
+  // Get discovery cursors (one per searched country/state target)
+  async getDiscoveryCursors(): Promise<DiscoveryCursor[]> {
+    try {
+      const snapshot = await adminDb.collection('discovery_cursors').get();
+
+      return snapshot.docs.map(doc => ({
+        ...doc.data(),
+        key: doc.id,
+        lastSearchedAt: this.convertTimestamp(doc.data().lastSearchedAt),
+      } as DiscoveryCursor));
+    } catch (error) {
+      console.error('Error fetching discovery cursors:', error);
+      return [];
+    }
+  }
+
+  // Record that a discovery target was searched
+  async saveDiscoveryCursor(cursor: DiscoveryCursor): Promise<void> {
+    const sanitizedCursor = Object.fromEntries(
+      Object.entries(cursor).filter(([_, value]) => value !== undefined)
+    );
+    await adminDb.collection('discovery_cursors').doc(cursor.key).set(sanitizedCursor);
+  }
+
+  // Create a scheduled discovery run report
+  async createDiscoveryRun(run: Omit<DiscoveryRun, 'id'>): Promise<string> {
+    const sanitizedRun = Object.fromEntries(
+      Object.entries(run).filter(([_, value]) => value !== undefined)
+    );
+    const docRef = await adminDb.collection('discovery_runs').add(sanitizedRun);
+    console.log('Discovery run created:', docRef.id);
+    return docRef.id;
+  }
+
+  // Update a discovery run report as targets complete
+  async updateDiscoveryRun(runId: string, updates: Partial<Omit<DiscoveryRun, 'id'>>): Promise<void> {
+    const sanitizedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    );
+    await adminDb.collection('discovery_runs').doc(runId).update(sanitizedUpdates);
+  }
+
+  // Get most recent discovery runs
+  async getDiscoveryRuns(limit: number = 20): Promise<DiscoveryRun[]> {
+    try {
+      const snapshot = await adminDb
+        .collection('discovery_runs')
+        .orderBy('startedAt', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          startedAt: this.convertTimestamp(data.startedAt),
+          completedAt: data.completedAt ? this.convertTimestamp(data.completedAt) : undefined,
+        } as DiscoveryRun;
+      });
+    } catch (error) {
+      console.error('Error fetching discovery runs:', error);
+      return [];
+    }
+  }
+
   // Create photo record
   async createPhoto(photoData: {
     location_id: string;
@@ -1422,6 +5074,7 @@ class AdminDatabase {
     cloudinary_public_id: string;
     description?: string;
     status?: string;
+    owner_upload?: boolean;
   }): Promise<string> {
     try {
       // Sanitize data to remove undefined values
@@ -1446,6 +5099,54 @@ class AdminDatabase {
     }
   }
 
+  // Approve or reject a pending photo and log the decision
+  async moderatePhoto(
+    photoId: string,
+    action: 'approve' | 'reject',
+    moderatorId: string
+  ): Promise<ModerationOutcome<{ id: string; status: 'approved' | 'rejected' }>> {
+    try {
+      const photoRef = adminDb.collection('restaurant_photos').doc(photoId);
+      const photoDoc = await photoRef.get();
+      if (!photoDoc.exists) {
+        return { success: false, error: 'Photo not found', status: 404 };
+      }
+
+      const photo = photoDoc.data()!;
+      const status = action === 'approve' ? 'approved' : 'rejected';
+      await photoRef.update({
+        status,
+        moderatedAt: FieldValue.serverTimestamp(),
+        moderatedBy: moderatorId,
+      });
+
+      const location = photo.location_id ? await this.getLocationById(photo.location_id) : null;
+      await adminDb.collection('moderation_logs').add({
+        type: 'photo_moderation',
+        photoId,
+        locationId: photo.location_id || '',
+        locationName: location?.name || 'Unknown Location',
+        action,
+        moderatorEmail: moderatorId,
+        moderatorName: await this.getModeratorName(moderatorId),
+        moderatorId,
+        timestamp: FieldValue.serverTimestamp(),
+        details: {
+          previousStatus: photo.status || 'pending',
+          newStatus: status,
+          submittedBy: photo.user_name || 'Unknown User',
+        },
+      });
+      await this.clearQueueState('photo', photoId);
+
+      console.log(`📸 Photo ${photoId} ${status} by ${moderatorId}`);
+      return { success: true, data: { id: photoId, status } };
+    } catch (error) {
+      console.error(`Error moderating photo ${photoId}:`, error);
+      throw error;
+    }
+  }
+
   // Get photos by location
   async getPhotosByLocation(locationId: string, limit: number = 20): Promise<any[]> {
     try {
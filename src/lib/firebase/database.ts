@@ -11,12 +11,16 @@ import {
   limit,
   Timestamp,
   writeBatch,
+  deleteField,
   DocumentData,
   QueryConstraint,
 } from "firebase/firestore";
 import { db } from "./config";
 import { AmalaLocation, LocationFilter, Review } from "@/types/location";
 import { withRetry, logFirestoreError, diagnoseFirestoreIssues } from "./firestore-utils";
+import { withComputedOpenStatus } from "@/lib/utils/hours";
+import { geohashForCoordinates } from "@/lib/utils/geohash";
+import { EntityResolutionService } from "@/lib/services/entity-resolution";
 
 // Convert Firestore timestamp to Date
 const convertTimestamp = (timestamp: any): Date => {
@@ -32,14 +36,15 @@ const convertTimestamp = (timestamp: any): Date => {
 // Convert location data from Firestore
 const convertFirestoreLocation = (doc: DocumentData): AmalaLocation => {
   const data = doc.data();
-  return {
+  // Recompute open status from hours instead of trusting the stored snapshot
+  return withComputedOpenStatus({
     ...data,
     id: doc.id,
     submittedAt: convertTimestamp(data.submittedAt),
     moderatedAt: data.moderatedAt
       ? convertTimestamp(data.moderatedAt)
       : undefined,
-  } as AmalaLocation;
+  } as AmalaLocation);
 };
 
 // Convert review data from Firestore
@@ -65,10 +70,6 @@ export const firebaseOperations = {
           where("status", "==", "approved"),
         ];
 
-        if (filters?.isOpenNow) {
-          constraints.push(where("isOpenNow", "==", true));
-        }
-
         if (filters?.serviceType && filters.serviceType !== "all") {
           constraints.push(where("serviceType", "==", filters.serviceType));
         }
@@ -92,7 +93,11 @@ export const firebaseOperations = {
         const q = query(locationsRef, ...constraints);
         const snapshot = await getDocs(q);
 
-        const locations = snapshot.docs.map(convertFirestoreLocation);
+        let locations = snapshot.docs.map(convertFirestoreLocation);
+        // Open status is derived from hours now; the stored flag goes stale
+        if (filters?.isOpenNow) {
+          locations = locations.filter((location) => location.isOpenNow);
+        }
         console.log(`📥 Firebase returned ${locations.length} locations (limit: ${filters?.limit || 'none'})`);
 
         return locations;
@@ -111,10 +116,6 @@ export const firebaseOperations = {
         const locationsRef = collection(db, "locations");
         const constraints: QueryConstraint[] = [];
 
-        if (filters?.isOpenNow) {
-          constraints.push(where("isOpenNow", "==", true));
-        }
-
         if (filters?.serviceType && filters.serviceType !== "all") {
           constraints.push(where("serviceType", "==", filters.serviceType));
         }
@@ -128,7 +129,10 @@ export const firebaseOperations = {
         const q = query(locationsRef, ...constraints);
         const snapshot = await getDocs(q);
 
-        const locations = snapshot.docs.map(convertFirestoreLocation);
+        let locations = snapshot.docs.map(convertFirestoreLocation);
+        if (filters?.isOpenNow) {
+          locations = locations.filter((location) => location.isOpenNow);
+        }
         console.log(`📥 Firebase returned ${locations.length} locations`);
 
         return locations;
@@ -152,9 +156,14 @@ export const firebaseOperations = {
           Object.entries(locationDataClean).filter(([_, value]) => value !== undefined)
         );
 
+        // Index coordinates for radius/bounds queries
+        const geohash = geohashForCoordinates(locationData.coordinates);
+
         // Ensure required fields have default values
         const finalData = {
           ...sanitizedData,
+          ...(geohash ? { geohash } : {}),
+          nameTokens: EntityResolutionService.nameTokens(locationData.name),
           submittedAt: Timestamp.now(),
           status: "pending",
           reviewCount: reviews ? reviews.length : 0,
@@ -588,6 +597,13 @@ export const firebaseOperations = {
         if (updatePayload.moderatedAt instanceof Date) {
           updatePayload.moderatedAt = Timestamp.fromDate(updatePayload.moderatedAt);
         }
+        // Keep the geohash in step with coordinates
+        if (updateData.coordinates) {
+          updatePayload.geohash = geohashForCoordinates(updateData.coordinates) ?? deleteField();
+        }
+        if (updateData.name) {
+          updatePayload.nameTokens = EntityResolutionService.nameTokens(updateData.name);
+        }
 
         await updateDoc(locationRef, updatePayload);
 
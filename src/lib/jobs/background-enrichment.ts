@@ -4,195 +4,214 @@
  */
 
 import { adminFirebaseOperations } from '@/lib/firebase/admin-database';
+import { adminDb, isFirebaseAdminInitialized } from '@/lib/firebase/admin';
 import { BatchedPlacesApiService } from '@/lib/services/places-api-batch';
 import { AmalaLocation } from '@/types/location';
+import {
+  FirestoreJobStore,
+  InMemoryJobStore,
+  JobQueue,
+  type JobPriority,
+  type JobQueueStats,
+  type JobStore,
+  type QueuedJob,
+} from './job-queue';
 
-interface EnrichmentJob {
+interface EnrichmentJobPayload {
   locationId: string;
   address: string;
-  priority: 'high' | 'medium' | 'low';
-  attempts: number;
-  maxAttempts: number;
-  createdAt: Date;
-  scheduledFor: Date;
+}
+
+type EnrichmentJob = QueuedJob<EnrichmentJobPayload>;
+
+export interface EnrichmentQueueStats extends JobQueueStats {
+  queueLength: number;
+  isProcessing: boolean;
+}
+
+export interface EnrichmentRunResult {
+  processed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
 }
 
 export class BackgroundEnrichmentService {
-  private static jobQueue: EnrichmentJob[] = [];
+  private static queue: JobQueue<EnrichmentJobPayload> | null = null;
   private static isProcessing = false;
   private static readonly MAX_CONCURRENT_JOBS = 3;
-  private static readonly JOB_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+  private static readonly JOB_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes, doubled per attempt
+  private static readonly VISIBILITY_TIMEOUT = 2 * 60 * 1000; // Lease length before a job is retried elsewhere
   private static readonly MAX_ATTEMPTS = 3;
-
-  // Job completion tracking
-  private static completedJobsToday: number = 0;
-  private static lastResetDate: string = new Date().toISOString().slice(0, 10);
+  private static readonly COLLECTION = 'enrichment_jobs';
 
   /**
-   * Reset daily completion counter if needed
+   * Lazily create the queue, backed by Firestore when Admin SDK is configured
    */
-  private static resetDailyCounterIfNeeded(): void {
-    const today = new Date().toISOString().slice(0, 10);
-    if (today !== this.lastResetDate) {
-      this.completedJobsToday = 0;
-      this.lastResetDate = today;
-      console.log(`📅 Reset daily job completion counter for ${today}`);
+  private static getQueue(): JobQueue<EnrichmentJobPayload> {
+    if (!this.queue) {
+      const store: JobStore<EnrichmentJobPayload> = isFirebaseAdminInitialized()
+        ? new FirestoreJobStore<EnrichmentJobPayload>(adminDb, this.COLLECTION)
+        : new InMemoryJobStore<EnrichmentJobPayload>();
+      this.useStore(store);
     }
+    return this.queue!;
   }
 
   /**
-   * Record a completed job
+   * Swap the backing store (e.g. InMemoryJobStore in tests)
    */
-  private static recordJobCompletion(): void {
-    this.resetDailyCounterIfNeeded();
-    this.completedJobsToday++;
-    console.log(`✅ Job completed. Today's total: ${this.completedJobsToday}`);
+  static useStore(store: JobStore<EnrichmentJobPayload>): void {
+    this.queue = new JobQueue(store, {
+      visibilityTimeoutMs: this.VISIBILITY_TIMEOUT,
+      retryBaseDelayMs: this.JOB_RETRY_DELAY,
+      defaultMaxAttempts: this.MAX_ATTEMPTS,
+    });
   }
 
   /**
-   * Add location to enrichment queue
+   * Add location to enrichment queue. One job per location: re-queueing a
+   * pending location only raises its priority.
    */
   static async queueLocationForEnrichment(
     locationId: string,
     address: string,
-    priority: 'high' | 'medium' | 'low' = 'medium'
+    priority: JobPriority = 'medium',
+    options: { processNow?: boolean } = { processNow: true }
   ): Promise<void> {
-    const job: EnrichmentJob = {
-      locationId,
-      address,
-      priority,
-      attempts: 0,
-      maxAttempts: this.MAX_ATTEMPTS,
-      createdAt: new Date(),
-      scheduledFor: new Date()
-    };
-
-    // Insert job based on priority
-    if (priority === 'high') {
-      this.jobQueue.unshift(job);
-    } else {
-      this.jobQueue.push(job);
-    }
+    await this.getQueue().enqueue(locationId, { locationId, address }, { priority });
 
     console.log(`📋 Queued location ${locationId} for enrichment (priority: ${priority})`);
-    
-    // Start processing if not already running
-    if (!this.isProcessing) {
-      this.startProcessing();
+
+    // Opportunistically start processing; the durable queue picks up anything left over
+    if (options.processNow && !this.isProcessing) {
+      this.processQueue().catch((error) =>
+        console.error('❌ Background enrichment processing failed:', error)
+      );
     }
   }
 
   /**
-   * Start background processing
+   * Lease and process due jobs until the queue is drained or maxJobs is hit.
+   * Safe to call from a cron route: concurrent workers never share a lease.
    */
-  private static async startProcessing(): Promise<void> {
-    if (this.isProcessing) return;
-    
+  static async processQueue(maxJobs: number = 50): Promise<EnrichmentRunResult> {
+    const result: EnrichmentRunResult = { processed: 0, completed: 0, retried: 0, deadLettered: 0 };
+    if (this.isProcessing) return result;
+
     this.isProcessing = true;
     console.log('🚀 Starting background enrichment processing...');
 
-    while (this.jobQueue.length > 0) {
-      const currentJobs = this.jobQueue.splice(0, this.MAX_CONCURRENT_JOBS);
-      
-      // Process jobs in parallel
-      await Promise.allSettled(
-        currentJobs.map(job => this.processJob(job))
-      );
+    try {
+      const queue = this.getQueue();
+
+      while (result.processed < maxJobs) {
+        const batchSize = Math.min(this.MAX_CONCURRENT_JOBS, maxJobs - result.processed);
+        const jobs = await queue.lease(batchSize);
+        if (jobs.length === 0) break;
+
+        // Process jobs in parallel
+        const outcomes = await Promise.allSettled(jobs.map(job => this.processJob(job)));
+
+        for (let i = 0; i < jobs.length; i++) {
+          const job = jobs[i];
+          const outcome = outcomes[i];
+          result.processed++;
 
-      // Small delay between batches to prevent overwhelming the API
-      if (this.jobQueue.length > 0) {
+          if (outcome.status === 'fulfilled') {
+            await queue.complete(job);
+            result.completed++;
+            continue;
+          }
+
+          console.error(`❌ Error processing enrichment job for ${job.payload.locationId}:`, outcome.reason);
+          const failure = await queue.fail(job, outcome.reason);
+          if (failure === 'retried') {
+            result.retried++;
+            console.log(`🔄 Retrying job for location ${job.payload.locationId} (attempt ${job.attempts}/${job.maxAttempts} failed)`);
+          } else if (failure === 'dead-lettered') {
+            result.deadLettered++;
+            console.error(`❌ Max attempts reached for location ${job.payload.locationId}, moved to dead letters`);
+          }
+        }
+
+        // Small delay between batches to prevent overwhelming the API
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
+    } finally {
+      this.isProcessing = false;
     }
 
-    this.isProcessing = false;
-    console.log('✅ Background enrichment processing completed');
+    console.log('✅ Background enrichment processing completed', result);
+    return result;
   }
 
   /**
-   * Process individual enrichment job
+   * Process individual enrichment job. Throws to signal a retryable failure;
+   * returning normally (including "nothing to do") completes the job.
    */
   private static async processJob(job: EnrichmentJob): Promise<void> {
-    try {
-      console.log(`🔄 Processing enrichment job for location ${job.locationId}`);
-      
-      // Check if job should be processed now
-      if (new Date() < job.scheduledFor) {
-        // Re-queue for later
-        this.jobQueue.push(job);
-        return;
-      }
-
-      const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
-      if (!googleApiKey) {
-        console.warn('⚠️ Google API key not available for background enrichment');
-        return;
-      }
+    const { locationId, address } = job.payload;
+    console.log(`🔄 Processing enrichment job for location ${locationId}`);
 
-      // Get current location data
-      const location = await adminFirebaseOperations.getLocationById(job.locationId);
-      if (!location) {
-        console.warn(`⚠️ Location ${job.locationId} not found, skipping enrichment`);
-        return;
-      }
+    const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+    if (!googleApiKey) {
+      console.warn('⚠️ Google API key not available for background enrichment');
+      return;
+    }
 
-      // Check if already enriched recently
-      const ENRICHMENT_CACHE_DAYS = 7;
-      const enrichmentCacheMs = ENRICHMENT_CACHE_DAYS * 24 * 60 * 60 * 1000;
-      
-      if (
-        location.lastEnriched && 
-        (Date.now() - new Date(location.lastEnriched).getTime()) < enrichmentCacheMs
-      ) {
-        console.log(`⚡ Location ${job.locationId} recently enriched, skipping`);
-        return;
-      }
+    // Get current location data
+    const location = await adminFirebaseOperations.getLocationById(locationId);
+    if (!location) {
+      console.warn(`⚠️ Location ${locationId} not found, skipping enrichment`);
+      return;
+    }
 
-      // Perform enrichment
-      const placeId = await BatchedPlacesApiService.findPlaceId(job.address, googleApiKey);
-      if (!placeId) {
-        console.log(`❌ No place ID found for location ${job.locationId}`);
-        return;
-      }
+    // Check if already enriched recently
+    const ENRICHMENT_CACHE_DAYS = 7;
+    const enrichmentCacheMs = ENRICHMENT_CACHE_DAYS * 24 * 60 * 60 * 1000;
+    
+    if (
+      location.lastEnriched && 
+      (Date.now() - new Date(location.lastEnriched).getTime()) < enrichmentCacheMs
+    ) {
+      console.log(`⚡ Location ${locationId} recently enriched, skipping`);
+      return;
+    }
 
-      const details = await BatchedPlacesApiService.getPlaceDetails(placeId, googleApiKey);
-      if (!details) {
-        console.log(`❌ No place details found for location ${job.locationId}`);
-        return;
-      }
+    // Perform enrichment
+    const placeId = await BatchedPlacesApiService.findPlaceId(address, googleApiKey);
+    if (!placeId) {
+      console.log(`❌ No place ID found for location ${locationId}`);
+      return;
+    }
 
-      // Update location with enriched data
-      const enrichedData = {
-        rating: details.rating || location.rating,
-        reviewCount: details.userRatingCount || location.reviewCount,
-        phone: details.nationalPhoneNumber || location.phone,
-        website: details.websiteUri || location.website,
-        images: details.photos ? details.photos.map((photo: any) =>
-          `/api/proxy/google-photo?photoreference=${photo.name}&maxwidth=400`
-        ) : location.images,
-        lastEnriched: new Date(),
-        enrichmentSource: 'background-job'
-      };
-
-      await adminFirebaseOperations.updateLocation(job.locationId, enrichedData);
-      console.log(`✅ Successfully enriched location ${job.locationId}`);
-
-      // Record job completion
-      this.recordJobCompletion();
-
-    } catch (error) {
-      console.error(`❌ Error processing enrichment job for ${job.locationId}:`, error);
-      
-      // Retry logic
-      job.attempts++;
-      if (job.attempts < job.maxAttempts) {
-        job.scheduledFor = new Date(Date.now() + this.JOB_RETRY_DELAY);
-        this.jobQueue.push(job);
-        console.log(`🔄 Retrying job for location ${job.locationId} (attempt ${job.attempts}/${job.maxAttempts})`);
-      } else {
-        console.error(`❌ Max attempts reached for location ${job.locationId}, giving up`);
-      }
+    const details = await BatchedPlacesApiService.getPlaceDetails(placeId, googleApiKey);
+    if (!details) {
+      console.log(`❌ No place details found for location ${locationId}`);
+      return;
     }
+
+    // Curated fields only change where provenance allows; the rest is ours to overwrite
+    const proposedData = {
+      phone: details.nationalPhoneNumber,
+      website: details.websiteUri,
+      images: details.photos ? details.photos.map((photo: any) =>
+        `/api/proxy/google-photo?photoreference=${photo.name}&maxwidth=400`
+      ) : undefined,
+    };
+    // Google's rating is stored alongside ours; rating and reviewCount come from our reviews
+    const enrichmentData = {
+      googleRating: details.rating ?? location.googleRating,
+      googleReviewCount: details.userRatingCount ?? location.googleReviewCount,
+      lastEnriched: new Date(),
+      enrichmentSource: 'background-job'
+    };
+
+    await adminFirebaseOperations.applyEnrichment(locationId, proposedData, enrichmentData, {
+      id: 'background-job',
+    });
+    console.log(`✅ Successfully enriched location ${locationId}`);
   }
 
   /**
@@ -213,34 +232,43 @@ export class BackgroundEnrichmentService {
       await this.queueLocationForEnrichment(
         location.id,
         location.address,
-        location.status === 'approved' ? 'high' : 'medium'
+        location.status === 'approved' ? 'high' : 'medium',
+        { processNow: false }
+      );
+    }
+
+    if (unenrichedLocations.length > 0 && !this.isProcessing) {
+      this.processQueue().catch((error) =>
+        console.error('❌ Background enrichment processing failed:', error)
       );
     }
   }
 
   /**
-   * Get queue statistics
+   * Get queue statistics from the backing store
    */
-  static getQueueStats() {
-    this.resetDailyCounterIfNeeded();
+  static async getQueueStats(): Promise<EnrichmentQueueStats> {
+    const stats = await this.getQueue().getStats();
 
     return {
-      queueLength: this.jobQueue.length,
+      ...stats,
+      queueLength: stats.queued,
       isProcessing: this.isProcessing,
-      completedToday: this.completedJobsToday,
-      priorityBreakdown: {
-        high: this.jobQueue.filter(job => job.priority === 'high').length,
-        medium: this.jobQueue.filter(job => job.priority === 'medium').length,
-        low: this.jobQueue.filter(job => job.priority === 'low').length
-      }
     };
   }
 
   /**
-   * Clear the job queue (for testing)
+   * Most recent dead-lettered jobs, for inspection and manual requeue
+   */
+  static async getDeadLetters(limit: number = 20) {
+    return this.getQueue().listDeadLetters(limit);
+  }
+
+  /**
+   * Clear pending jobs from the queue
    */
-  static clearQueue(): void {
-    this.jobQueue = [];
+  static async clearQueue(): Promise<void> {
+    await this.getQueue().clear();
     console.log('🧹 Background enrichment queue cleared');
   }
 }
@@ -0,0 +1,260 @@
+/**
+ * Scheduled autonomous discovery
+ * Walks the regional batches one country/state target at a time, persisting
+ * a cursor per target so each run picks up the least recently searched ones.
+ */
+
+import { adminFirebaseOperations } from '@/lib/firebase/admin-database';
+import { AutonomousDiscoveryService } from '@/lib/services/autonomous-discovery';
+import { DiscoveryPersistenceService } from '@/lib/services/discovery-persistence';
+import {
+  DiscoveryCursor,
+  DiscoveryRun,
+  DiscoveryRunTotals,
+  DiscoveryTarget,
+  DiscoveryTargetReport,
+} from '@/types/discovery';
+
+export interface ScheduledDiscoveryOptions {
+  trigger: DiscoveryRun['trigger'];
+  triggeredBy?: string;
+  maxTargets?: number;
+}
+
+export interface DiscoveryCoverageEntry extends DiscoveryTarget {
+  lastSearchedAt?: Date;
+  lastFound?: number;
+  lastSaved?: number;
+  timesSearched: number;
+}
+
+export class DiscoverySchedulerService {
+  private static readonly DEFAULT_TARGETS_PER_RUN = 3;
+  private static readonly MAX_TARGETS_PER_RUN = 20;
+  private static readonly STALE_RUN_MS = 30 * 60 * 1000; // A "running" run older than this is treated as crashed
+
+  /**
+   * Pick the next targets to search: never-searched targets first (in walk
+   * order), then the ones searched longest ago
+   */
+  static async getNextTargets(limit: number): Promise<DiscoveryTarget[]> {
+    const targets = AutonomousDiscoveryService.getDiscoveryTargets();
+    const cursors = await adminFirebaseOperations.getDiscoveryCursors();
+    const cursorByKey = new Map(cursors.map(cursor => [cursor.key, cursor]));
+
+    return targets
+      .map((target, index) => ({
+        target,
+        index,
+        lastSearched: cursorByKey.get(target.key)?.lastSearchedAt.getTime() ?? -1,
+      }))
+      .sort((a, b) => a.lastSearched - b.lastSearched || a.index - b.index)
+      .slice(0, limit)
+      .map(entry => entry.target);
+  }
+
+  /**
+   * Run one scheduled discovery pass. Returns null when another run is
+   * still in progress.
+   */
+  static async runScheduledDiscovery(options: ScheduledDiscoveryOptions): Promise<DiscoveryRun | null> {
+    if (await this.hasActiveRun()) {
+      console.log('⏳ Scheduled discovery already running, skipping');
+      return null;
+    }
+
+    const maxTargets = Math.min(
+      Math.max(options.maxTargets || this.DEFAULT_TARGETS_PER_RUN, 1),
+      this.MAX_TARGETS_PER_RUN
+    );
+    const targets = await this.getNextTargets(maxTargets);
+
+    const run: Omit<DiscoveryRun, 'id'> = {
+      trigger: options.trigger,
+      triggeredBy: options.triggeredBy,
+      status: 'running',
+      startedAt: new Date(),
+      targets: [],
+      totals: { queriesIssued: 0, found: 0, saved: 0, duplicatesSkipped: 0, errors: 0 },
+    };
+    const runId = await adminFirebaseOperations.createDiscoveryRun(run);
+    console.log(`🚀 Scheduled discovery run ${runId} started for ${targets.length} targets`);
+    await this.logRunEvent('discovery_started', runId, run, targets);
+
+    try {
+      const cursors = await adminFirebaseOperations.getDiscoveryCursors();
+      const cursorByKey = new Map(cursors.map(cursor => [cursor.key, cursor]));
+
+      for (const target of targets) {
+        const report = await this.searchTarget(target);
+        run.targets.push(report);
+        run.totals = this.sumTotals(run.targets);
+
+        // Advance the cursor even when the target failed so one bad target can't stall the walk
+        const previous = cursorByKey.get(target.key);
+        await adminFirebaseOperations.saveDiscoveryCursor({
+          ...target,
+          lastSearchedAt: new Date(),
+          lastRunId: runId,
+          lastFound: report.found,
+          lastSaved: report.saved,
+          timesSearched: (previous?.timesSearched || 0) + 1,
+        });
+        await adminFirebaseOperations.updateDiscoveryRun(runId, {
+          targets: run.targets.map(t => this.sanitizeReport(t)),
+          totals: run.totals,
+        });
+      }
+
+      run.status = run.totals.errors > 0 ? 'completed_with_errors' : 'completed';
+      run.completedAt = new Date();
+      await adminFirebaseOperations.updateDiscoveryRun(runId, {
+        status: run.status,
+        completedAt: run.completedAt,
+      });
+
+      await this.logRunEvent(run.status === 'completed' ? 'discovery_completed' : 'discovery_completed_with_errors', runId, run, targets);
+      console.log(`✅ Scheduled discovery run ${runId} finished`, run.totals);
+    } catch (error) {
+      run.status = 'failed';
+      run.completedAt = new Date();
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      await adminFirebaseOperations.updateDiscoveryRun(runId, {
+        status: run.status,
+        completedAt: run.completedAt,
+        error: run.error,
+      });
+
+      await this.logRunEvent('discovery_failed', runId, run, targets);
+      console.error(`❌ Scheduled discovery run ${runId} failed:`, error);
+    }
+
+    return { ...run, id: runId };
+  }
+
+  /**
+   * Recent run reports, newest first
+   */
+  static async getRunHistory(limit: number = 20): Promise<DiscoveryRun[]> {
+    return adminFirebaseOperations.getDiscoveryRuns(limit);
+  }
+
+  /**
+   * Every target with when it was last searched, in walk order
+   */
+  static async getCoverage(): Promise<DiscoveryCoverageEntry[]> {
+    const cursors = await adminFirebaseOperations.getDiscoveryCursors();
+    const cursorByKey = new Map<string, DiscoveryCursor>(cursors.map(cursor => [cursor.key, cursor]));
+
+    return AutonomousDiscoveryService.getDiscoveryTargets().map(target => {
+      const cursor = cursorByKey.get(target.key);
+      return {
+        ...target,
+        lastSearchedAt: cursor?.lastSearchedAt,
+        lastFound: cursor?.lastFound,
+        lastSaved: cursor?.lastSaved,
+        timesSearched: cursor?.timesSearched || 0,
+      };
+    });
+  }
+
+  /**
+   * Search and save a single target, capturing failures in its report
+   */
+  private static async searchTarget(target: DiscoveryTarget): Promise<DiscoveryTargetReport> {
+    const report: DiscoveryTargetReport = {
+      ...target,
+      queriesIssued: 0,
+      found: 0,
+      saved: 0,
+      duplicatesSkipped: 0,
+      errors: [],
+    };
+
+    try {
+      const discovered = await AutonomousDiscoveryService.discoverForTarget(target, report);
+      report.found = discovered.length;
+
+      const { savedLocations, skippedDuplicates, saveErrors } =
+        await DiscoveryPersistenceService.savePendingLocations(discovered);
+      report.saved = savedLocations.length;
+      report.duplicatesSkipped = skippedDuplicates.length;
+      report.errors.push(...saveErrors.map(e => `${e.locationName}: ${e.error}`));
+    } catch (error) {
+      report.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      console.error(`❌ Scheduled discovery failed for ${target.key}:`, error);
+    }
+
+    return report;
+  }
+
+  /**
+   * Whether a non-stale run is in progress. Stale runs are marked failed.
+   */
+  private static async hasActiveRun(): Promise<boolean> {
+    const recentRuns = await adminFirebaseOperations.getDiscoveryRuns(5);
+    let active = false;
+
+    for (const run of recentRuns) {
+      if (run.status !== 'running') continue;
+      if (Date.now() - run.startedAt.getTime() < this.STALE_RUN_MS) {
+        active = true;
+      } else {
+        await adminFirebaseOperations.updateDiscoveryRun(run.id, {
+          status: 'failed',
+          completedAt: new Date(),
+          error: 'Run did not finish before timeout',
+        });
+      }
+    }
+
+    return active;
+  }
+
+  private static sumTotals(reports: DiscoveryTargetReport[]): DiscoveryRunTotals {
+    return reports.reduce(
+      (totals, report) => ({
+        queriesIssued: totals.queriesIssued + report.queriesIssued,
+        found: totals.found + report.found,
+        saved: totals.saved + report.saved,
+        duplicatesSkipped: totals.duplicatesSkipped + report.duplicatesSkipped,
+        errors: totals.errors + report.errors.length,
+      }),
+      { queriesIssued: 0, found: 0, saved: 0, duplicatesSkipped: 0, errors: 0 }
+    );
+  }
+
+  // Firestore rejects undefined fields, and country-wide targets have no state
+  private static sanitizeReport(report: DiscoveryTargetReport): DiscoveryTargetReport {
+    return Object.fromEntries(
+      Object.entries(report).filter(([_, value]) => value !== undefined)
+    ) as DiscoveryTargetReport;
+  }
+
+  // Mirror manual sessions so /api/discovery/stats counts scheduled runs too
+  private static async logRunEvent(
+    eventType: string,
+    runId: string,
+    run: Omit<DiscoveryRun, 'id'>,
+    targets: DiscoveryTarget[]
+  ): Promise<void> {
+    try {
+      await adminFirebaseOperations.createAnalyticsEvent({
+        event_type: eventType,
+        metadata: {
+          runId,
+          trigger: run.trigger,
+          region: targets.map(t => t.key).join(', '),
+          locationsFound: run.totals.found,
+          locationsSaved: run.totals.saved,
+          duplicatesSkipped: run.totals.duplicatesSkipped,
+          errors: run.totals.errors,
+          ...(run.error ? { error: run.error } : {}),
+          timestamp: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to log analytics event:', error);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryJobStore, JobQueue } from "./job-queue";
+
+const start = new Date("2025-01-01T00:00:00Z");
+const at = (ms: number) => new Date(start.getTime() + ms);
+
+// Zero backoff so a retried job is claimable again right away
+const createQueue = () =>
+  new JobQueue(new InMemoryJobStore(), {
+    visibilityTimeoutMs: 1000,
+    retryBaseDelayMs: 0,
+    retryMaxDelayMs: 0,
+  });
+
+describe("JobQueue", () => {
+  beforeEach(() => {
+    // enqueue stamps jobs with the real clock
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(start);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("leases", () => {
+    it("hides a leased job until its visibility timeout passes", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {});
+
+      expect(await queue.lease(5, at(0))).toHaveLength(1);
+      expect(await queue.lease(5, at(999))).toHaveLength(0);
+      expect(await queue.lease(5, at(1000))).toHaveLength(1);
+    });
+
+    it("rejects completion from a worker whose lease expired", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {});
+
+      const [stale] = await queue.lease(5, at(0));
+      const [fresh] = await queue.lease(5, at(1000));
+
+      expect(await queue.complete(stale, at(1001))).toBe(false);
+      expect(await queue.complete(fresh, at(1001))).toBe(true);
+    });
+  });
+
+  describe("attempts", () => {
+    it("counts an attempt each time a job is leased", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {}, { maxAttempts: 3 });
+
+      const [first] = await queue.lease(5, at(0));
+      const [second] = await queue.lease(5, at(1000));
+
+      expect(first.attempts).toBe(1);
+      expect(second.attempts).toBe(2);
+    });
+
+    it("does not count a failure on top of the lease", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {}, { maxAttempts: 3 });
+
+      const [first] = await queue.lease(5, at(0));
+      expect(await queue.fail(first, new Error("boom"), at(10))).toBe("retried");
+
+      const [second] = await queue.lease(5, at(20));
+      expect(second.attempts).toBe(2);
+      expect(second.lastError).toBe("boom");
+    });
+  });
+
+  describe("dead-lettering", () => {
+    it("dead-letters a job that fails on its last attempt", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {}, { maxAttempts: 2 });
+
+      const [first] = await queue.lease(5, at(0));
+      expect(await queue.fail(first, "boom", at(10))).toBe("retried");
+      const [second] = await queue.lease(5, at(20));
+      expect(await queue.fail(second, "boom", at(30))).toBe("dead-lettered");
+
+      expect(await queue.lease(5, at(5000))).toHaveLength(0);
+      const [dead] = await queue.listDeadLetters();
+      expect(dead).toMatchObject({ id: "a", attempts: 2, lastError: "boom" });
+      expect((await queue.getStats(at(5000))).deadLettered).toBe(1);
+    });
+
+    it("dead-letters a job whose lease expires on its last attempt", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {}, { maxAttempts: 2 });
+
+      // Workers that never report back
+      expect(await queue.lease(5, at(0))).toHaveLength(1);
+      expect(await queue.lease(5, at(1000))).toHaveLength(1);
+      expect(await queue.lease(5, at(2000))).toHaveLength(0);
+
+      const [dead] = await queue.listDeadLetters();
+      expect(dead).toMatchObject({ id: "a", attempts: 2, status: "dead" });
+      expect((await queue.getStats(at(2000))).queued).toBe(0);
+    });
+
+    it("reports a lost lease instead of dead-lettering for a stale worker", async () => {
+      const queue = createQueue();
+      await queue.enqueue("a", {}, { maxAttempts: 2 });
+
+      const [stale] = await queue.lease(5, at(0));
+      await queue.lease(5, at(1000));
+
+      expect(await queue.fail({ ...stale, attempts: 2 }, "boom", at(1001))).toBe("lease-lost");
+      expect(await queue.listDeadLetters()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Durable job queue with leases, visibility timeouts, priorities,
+ * exponential backoff and dead-lettering.
+ *
+ * Jobs are keyed idempotently (e.g. one enrichment job per locationId), so
+ * re-queueing an already pending key only raises its priority. A leased job
+ * that is not completed before its visibility timeout becomes claimable again,
+ * which is what makes work survive serverless cold starts and redeploys.
+ *
+ * An attempt is counted when a job is leased, so a worker that dies or times
+ * out still uses one up. A job whose lease expires on its last attempt is
+ * dead-lettered instead of being leased again.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Firestore } from "firebase-admin/firestore";
+
+export type JobPriority = "high" | "medium" | "low";
+export type JobStatus = "queued" | "leased" | "completed" | "dead";
+
+export interface QueuedJob<TPayload = Record<string, any>> {
+  id: string; // Idempotent job key
+  payload: TPayload;
+  priority: JobPriority;
+  status: JobStatus;
+  attempts: number; // Leases handed out, including the current one
+  maxAttempts: number;
+  availableAt: Date; // When queued: scheduled time. When leased: lease expiry
+  leaseId?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface DeadLetterJob<TPayload = Record<string, any>> extends QueuedJob<TPayload> {
+  deadLetteredAt: Date;
+}
+
+export interface JobQueueStats {
+  queued: number;
+  inFlight: number;
+  failed: number; // Queued again after at least one failed attempt
+  deadLettered: number;
+  completedToday: number;
+  priorityBreakdown: Record<JobPriority, number>;
+}
+
+export interface EnqueueOptions {
+  priority?: JobPriority;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Storage backend for the queue. Implementations must make `lease` atomic so
+ * that two workers never hold the same job.
+ */
+export interface JobStore<TPayload = Record<string, any>> {
+  enqueue(key: string, payload: TPayload, options: Required<EnqueueOptions>): Promise<QueuedJob<TPayload>>;
+  lease(limit: number, visibilityTimeoutMs: number, now: Date): Promise<QueuedJob<TPayload>[]>;
+  complete(job: QueuedJob<TPayload>, now: Date): Promise<boolean>;
+  retry(job: QueuedJob<TPayload>, error: string, availableAt: Date, now: Date): Promise<boolean>;
+  deadLetter(job: QueuedJob<TPayload>, error: string, now: Date): Promise<boolean>;
+  getStats(now: Date): Promise<JobQueueStats>;
+  listDeadLetters(limit: number): Promise<DeadLetterJob<TPayload>[]>;
+  clear(): Promise<void>;
+}
+
+export const PRIORITY_ORDER: Record<JobPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+const startOfUtcDay = (now: Date) => new Date(now.toISOString().slice(0, 10) + "T00:00:00Z");
+
+const LEASE_EXPIRED_ERROR = "Lease expired before the job completed";
+
+// A leased job past its visibility timeout whose worker used the last attempt
+const isExhaustedLease = (job: QueuedJob<any>) => job.status === "leased" && job.attempts >= job.maxAttempts;
+
+/**
+ * Exponential backoff with full jitter: base * 2^(attempt-1), capped
+ */
+export function computeBackoffMs(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt - 1)));
+  // Keep at least half the delay so retries never fire immediately
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * In-memory store, used in tests and when Firebase Admin isn't configured
+ */
+export class InMemoryJobStore<TPayload = Record<string, any>> implements JobStore<TPayload> {
+  private jobs = new Map<string, QueuedJob<TPayload>>();
+  private deadLetters = new Map<string, DeadLetterJob<TPayload>>();
+
+  async enqueue(key: string, payload: TPayload, options: Required<EnqueueOptions>): Promise<QueuedJob<TPayload>> {
+    const now = new Date();
+    const existing = this.jobs.get(key);
+
+    if (existing && (existing.status === "queued" || existing.status === "leased")) {
+      if (PRIORITY_ORDER[options.priority] < PRIORITY_ORDER[existing.priority]) {
+        existing.priority = options.priority;
+        existing.updatedAt = now;
+      }
+      return { ...existing };
+    }
+
+    const job: QueuedJob<TPayload> = {
+      id: key,
+      payload,
+      priority: options.priority,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: options.maxAttempts,
+      availableAt: new Date(now.getTime() + options.delayMs),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(key, job);
+    return { ...job };
+  }
+
+  async lease(limit: number, visibilityTimeoutMs: number, now: Date): Promise<QueuedJob<TPayload>[]> {
+    const claimable = Array.from(this.jobs.values())
+      .filter((job) => (job.status === "queued" || job.status === "leased") && job.availableAt <= now)
+      .sort(
+        (a, b) =>
+          PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+          a.availableAt.getTime() - b.availableAt.getTime()
+      );
+
+    const leased: QueuedJob<TPayload>[] = [];
+
+    for (const job of claimable) {
+      if (leased.length >= limit) break;
+      if (isExhaustedLease(job)) {
+        job.status = "dead";
+        job.leaseId = undefined;
+        job.lastError = LEASE_EXPIRED_ERROR;
+        job.updatedAt = now;
+        this.deadLetters.set(`${job.id}_${now.getTime()}`, { ...job, deadLetteredAt: now });
+        continue;
+      }
+      job.status = "leased";
+      job.leaseId = randomUUID();
+      job.attempts += 1;
+      job.availableAt = new Date(now.getTime() + visibilityTimeoutMs);
+      job.updatedAt = now;
+      leased.push({ ...job });
+    }
+    return leased;
+  }
+
+  private ownsLease(job: QueuedJob<TPayload>): QueuedJob<TPayload> | null {
+    const current = this.jobs.get(job.id);
+    return current && current.status === "leased" && current.leaseId === job.leaseId ? current : null;
+  }
+
+  async complete(job: QueuedJob<TPayload>, now: Date): Promise<boolean> {
+    const current = this.ownsLease(job);
+    if (!current) return false;
+    current.status = "completed";
+    current.leaseId = undefined;
+    current.completedAt = now;
+    current.updatedAt = now;
+    return true;
+  }
+
+  async retry(job: QueuedJob<TPayload>, error: string, availableAt: Date, now: Date): Promise<boolean> {
+    const current = this.ownsLease(job);
+    if (!current) return false;
+    current.status = "queued";
+    current.leaseId = undefined;
+    current.attempts = job.attempts;
+    current.lastError = error;
+    current.availableAt = availableAt;
+    current.updatedAt = now;
+    return true;
+  }
+
+  async deadLetter(job: QueuedJob<TPayload>, error: string, now: Date): Promise<boolean> {
+    const current = this.ownsLease(job);
+    if (!current) return false;
+    current.status = "dead";
+    current.leaseId = undefined;
+    current.attempts = job.attempts;
+    current.lastError = error;
+    current.updatedAt = now;
+    this.deadLetters.set(`${job.id}_${now.getTime()}`, { ...current, deadLetteredAt: now });
+    return true;
+  }
+
+  async getStats(now: Date): Promise<JobQueueStats> {
+    const jobs = Array.from(this.jobs.values());
+    const pending = jobs.filter((j) => j.status === "queued" || (j.status === "leased" && j.availableAt <= now));
+    const dayStart = startOfUtcDay(now);
+
+    return {
+      queued: pending.length,
+      inFlight: jobs.filter((j) => j.status === "leased" && j.availableAt > now).length,
+      failed: pending.filter((j) => j.attempts > 0).length,
+      deadLettered: this.deadLetters.size,
+      completedToday: jobs.filter((j) => j.status === "completed" && j.completedAt && j.completedAt >= dayStart).length,
+      priorityBreakdown: {
+        high: pending.filter((j) => j.priority === "high").length,
+        medium: pending.filter((j) => j.priority === "medium").length,
+        low: pending.filter((j) => j.priority === "low").length,
+      },
+    };
+  }
+
+  async listDeadLetters(limit: number): Promise<DeadLetterJob<TPayload>[]> {
+    return Array.from(this.deadLetters.values())
+      .sort((a, b) => b.deadLetteredAt.getTime() - a.deadLetteredAt.getTime())
+      .slice(0, limit);
+  }
+
+  async clear(): Promise<void> {
+    this.jobs.clear();
+    this.deadLetters.clear();
+  }
+}
+
+/**
+ * Firestore-backed store. Jobs live in `collection`, dead letters in
+ * `${collection}_dead_letters`. Leasing runs in a transaction.
+ */
+export class FirestoreJobStore<TPayload = Record<string, any>> implements JobStore<TPayload> {
+  constructor(
+    private db: Firestore,
+    private collection: string
+  ) {}
+
+  private get jobs() {
+    return this.db.collection(this.collection);
+  }
+
+  private get deadLetters() {
+    return this.db.collection(`${this.collection}_dead_letters`);
+  }
+
+  private toDate(value: any): Date {
+    if (value?.toDate) return value.toDate();
+    if (value?.seconds) return new Date(value.seconds * 1000);
+    return new Date(value);
+  }
+
+  private fromDoc(id: string, data: FirebaseFirestore.DocumentData): QueuedJob<TPayload> {
+    return {
+      ...(data as QueuedJob<TPayload>),
+      id,
+      availableAt: this.toDate(data.availableAt),
+      createdAt: this.toDate(data.createdAt),
+      updatedAt: this.toDate(data.updatedAt),
+      completedAt: data.completedAt ? this.toDate(data.completedAt) : undefined,
+    };
+  }
+
+  async enqueue(key: string, payload: TPayload, options: Required<EnqueueOptions>): Promise<QueuedJob<TPayload>> {
+    const ref = this.jobs.doc(key);
+
+    return this.db.runTransaction(async (tx) => {
+      const now = new Date();
+      const snapshot = await tx.get(ref);
+      const existing = snapshot.exists ? this.fromDoc(snapshot.id, snapshot.data()!) : null;
+
+      if (existing && (existing.status === "queued" || existing.status === "leased")) {
+        if (PRIORITY_ORDER[options.priority] < PRIORITY_ORDER[existing.priority]) {
+          tx.update(ref, { priority: options.priority, updatedAt: now });
+          existing.priority = options.priority;
+        }
+        return existing;
+      }
+
+      const job: QueuedJob<TPayload> = {
+        id: key,
+        payload,
+        priority: options.priority,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: options.maxAttempts,
+        availableAt: new Date(now.getTime() + options.delayMs),
+        createdAt: now,
+        updatedAt: now,
+      };
+      const { id: _id, ...data } = job;
+      tx.set(ref, data);
+      return job;
+    });
+  }
+
+  async lease(limit: number, visibilityTimeoutMs: number, now: Date): Promise<QueuedJob<TPayload>[]> {
+    // Over-fetch so priority ordering has something to choose from
+    const query = this.jobs
+      .where("status", "in", ["queued", "leased"])
+      .where("availableAt", "<=", now)
+      .orderBy("availableAt", "asc")
+      .limit(limit * 5);
+
+    return this.db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(query);
+      const claimable = snapshot.docs
+        .map((doc) => this.fromDoc(doc.id, doc.data()))
+        .sort(
+          (a, b) =>
+            PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+            a.availableAt.getTime() - b.availableAt.getTime()
+        );
+
+      const leaseExpiry = new Date(now.getTime() + visibilityTimeoutMs);
+      const leased: QueuedJob<TPayload>[] = [];
+
+      for (const job of claimable) {
+        if (leased.length >= limit) break;
+        if (isExhaustedLease(job)) {
+          const { id, ...data } = job;
+          tx.update(this.jobs.doc(id), {
+            status: "dead",
+            leaseId: null,
+            lastError: LEASE_EXPIRED_ERROR,
+            updatedAt: now,
+          });
+          tx.set(this.deadLetters.doc(), {
+            ...data,
+            jobId: id,
+            status: "dead",
+            leaseId: null,
+            lastError: LEASE_EXPIRED_ERROR,
+            deadLetteredAt: now,
+          });
+          continue;
+        }
+        const leaseId = randomUUID();
+        const attempts = job.attempts + 1;
+        tx.update(this.jobs.doc(job.id), {
+          status: "leased",
+          leaseId,
+          attempts,
+          availableAt: leaseExpiry,
+          updatedAt: now,
+        });
+        leased.push({ ...job, status: "leased", leaseId, attempts, availableAt: leaseExpiry });
+      }
+      return leased;
+    });
+  }
+
+  // Apply an update only if the caller still holds the lease
+  private async updateIfLeased(
+    job: QueuedJob<TPayload>,
+    update: Record<string, any>,
+    afterUpdate?: (tx: FirebaseFirestore.Transaction, current: QueuedJob<TPayload>) => void
+  ): Promise<boolean> {
+    const ref = this.jobs.doc(job.id);
+    return this.db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      if (!snapshot.exists) return false;
+      const current = this.fromDoc(snapshot.id, snapshot.data()!);
+      if (current.status !== "leased" || current.leaseId !== job.leaseId) return false;
+      tx.update(ref, update);
+      afterUpdate?.(tx, current);
+      return true;
+    });
+  }
+
+  async complete(job: QueuedJob<TPayload>, now: Date): Promise<boolean> {
+    return this.updateIfLeased(job, {
+      status: "completed",
+      leaseId: null,
+      completedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async retry(job: QueuedJob<TPayload>, error: string, availableAt: Date, now: Date): Promise<boolean> {
+    return this.updateIfLeased(job, {
+      status: "queued",
+      leaseId: null,
+      attempts: job.attempts,
+      lastError: error,
+      availableAt,
+      updatedAt: now,
+    });
+  }
+
+  async deadLetter(job: QueuedJob<TPayload>, error: string, now: Date): Promise<boolean> {
+    return this.updateIfLeased(
+      job,
+      {
+        status: "dead",
+        leaseId: null,
+        attempts: job.attempts,
+        lastError: error,
+        updatedAt: now,
+      },
+      (tx, current) => {
+        const { id, ...data } = current;
+        tx.set(this.deadLetters.doc(), {
+          ...data,
+          jobId: id,
+          status: "dead",
+          attempts: job.attempts,
+          lastError: error,
+          leaseId: null,
+          deadLetteredAt: now,
+        });
+      }
+    );
+  }
+
+  async getStats(now: Date): Promise<JobQueueStats> {
+    const count = async (query: FirebaseFirestore.Query) => (await query.count().get()).data().count;
+    const pendingQuery = this.jobs.where("status", "in", ["queued", "leased"]).where("availableAt", "<=", now);
+
+    const [queued, inFlight, failed, deadLettered, completedToday, high, medium, low] = await Promise.all([
+      count(pendingQuery),
+      count(this.jobs.where("status", "==", "leased").where("availableAt", ">", now)),
+      count(pendingQuery.where("attempts", ">", 0)),
+      count(this.deadLetters),
+      count(this.jobs.where("status", "==", "completed").where("completedAt", ">=", startOfUtcDay(now))),
+      count(pendingQuery.where("priority", "==", "high")),
+      count(pendingQuery.where("priority", "==", "medium")),
+      count(pendingQuery.where("priority", "==", "low")),
+    ]);
+
+    return {
+      queued,
+      inFlight,
+      failed,
+      deadLettered,
+      completedToday,
+      priorityBreakdown: { high, medium, low },
+    };
+  }
+
+  async listDeadLetters(limit: number): Promise<DeadLetterJob<TPayload>[]> {
+    const snapshot = await this.deadLetters.orderBy("deadLetteredAt", "desc").limit(limit).get();
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        ...this.fromDoc(data.jobId ?? doc.id, data),
+        deadLetteredAt: this.toDate(data.deadLetteredAt),
+      };
+    });
+  }
+
+  async clear(): Promise<void> {
+    // Only drops pending work; dead letters are kept for inspection
+    const snapshot = await this.jobs.where("status", "in", ["queued", "leased"]).get();
+    const batch = this.db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+export interface JobQueueOptions {
+  visibilityTimeoutMs?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  defaultMaxAttempts?: number;
+}
+
+/**
+ * Queue façade over a JobStore that owns the retry/backoff policy
+ */
+export class JobQueue<TPayload = Record<string, any>> {
+  readonly options: Required<JobQueueOptions>;
+
+  constructor(
+    private store: JobStore<TPayload>,
+    options: JobQueueOptions = {}
+  ) {
+    this.options = {
+      visibilityTimeoutMs: 2 * 60 * 1000,
+      retryBaseDelayMs: 5 * 60 * 1000,
+      retryMaxDelayMs: 6 * 60 * 60 * 1000,
+      defaultMaxAttempts: 3,
+      ...options,
+    };
+  }
+
+  enqueue(key: string, payload: TPayload, options: EnqueueOptions = {}) {
+    return this.store.enqueue(key, payload, {
+      priority: options.priority ?? "medium",
+      maxAttempts: options.maxAttempts ?? this.options.defaultMaxAttempts,
+      delayMs: options.delayMs ?? 0,
+    });
+  }
+
+  lease(limit: number, now: Date = new Date()) {
+    return this.store.lease(limit, this.options.visibilityTimeoutMs, now);
+  }
+
+  complete(job: QueuedJob<TPayload>, now: Date = new Date()) {
+    return this.store.complete(job, now);
+  }
+
+  /**
+   * Record a failed attempt: reschedule with backoff, or dead-letter once
+   * attempts are exhausted. The attempt was already counted at lease time.
+   * Returns what happened to the job.
+   */
+  async fail(
+    job: QueuedJob<TPayload>,
+    error: unknown,
+    now: Date = new Date()
+  ): Promise<"retried" | "dead-lettered" | "lease-lost"> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      return (await this.store.deadLetter(job, message, now)) ? "dead-lettered" : "lease-lost";
+    }
+
+    const delay = computeBackoffMs(
+      job.attempts,
+      this.options.retryBaseDelayMs,
+      this.options.retryMaxDelayMs
+    );
+    const retried = await this.store.retry(job, message, new Date(now.getTime() + delay), now);
+    return retried ? "retried" : "lease-lost";
+  }
+
+  getStats(now: Date = new Date()) {
+    return this.store.getStats(now);
+  }
+
+  listDeadLetters(limit = 20) {
+    return this.store.listDeadLetters(limit);
+  }
+
+  clear() {
+    return this.store.clear();
+  }
+}
@@ -1,33 +1,49 @@
 // Google Maps MarkerClusterer utility
 // Handles clustering of nearby markers when zoomed out
 
+import {
+  computeClusters,
+  getClusterBadgeStyle,
+  getClusterExpansionZoom,
+  padBounds,
+  type Cluster,
+  type ClusterPoint,
+  type LatLngBoundsLiteral,
+} from "@/lib/utils/clustering";
+
 export interface ClusterOptions {
   gridSize?: number;
   maxZoom?: number;
   imagePath?: string;
+  minClusterSize?: number;
 }
 
 export class MapClusterer {
-  private clusterer: google.maps.marker.AdvancedMarkerElement[] | null = null;
+  private clusterMarkers: google.maps.Marker[] = [];
   private map: google.maps.Map;
   private markers: google.maps.Marker[] = [];
+  private options: Required<Omit<ClusterOptions, "imagePath">> & { imagePath?: string } = {
+    gridSize: 60,
+    maxZoom: 15,
+    minClusterSize: 2,
+  };
+  private idleListener: google.maps.MapsEventListener | null = null;
 
   constructor(map: google.maps.Map) {
     this.map = map;
   }
 
-  async initialize(_options: ClusterOptions = {}) {
-    // For now, we'll implement basic clustering without external library
-    // This is a simplified approach that groups nearby markers
+  async initialize(options: ClusterOptions = {}) {
+    this.options = { ...this.options, ...options };
+
+    // Recompute clusters whenever the map settles after a zoom or pan
+    this.idleListener?.remove();
+    this.idleListener = this.map.addListener("idle", () => this.render());
   }
 
   addMarkers(markers: google.maps.Marker[]) {
-    this.markers = markers;
-
-    // Simple clustering: just add all markers to map
-    markers.forEach((marker) => {
-      marker.setMap(this.map);
-    });
+    this.markers = [...this.markers, ...markers];
+    this.render();
   }
 
   clearMarkers() {
@@ -35,6 +51,7 @@ export class MapClusterer {
       marker.setMap(null);
     });
     this.markers = [];
+    this.clearClusterMarkers();
   }
 
   updateMarkers(markers: google.maps.Marker[]) {
@@ -44,6 +61,107 @@ export class MapClusterer {
 
   destroy() {
     this.clearMarkers();
-    this.clusterer = null;
+    this.idleListener?.remove();
+    this.idleListener = null;
+  }
+
+  private render() {
+    const zoom = this.map.getZoom() ?? 0;
+    const mapBounds = this.map.getBounds();
+    // Cluster slightly beyond the viewport so panning doesn't pop markers in
+    const bounds: LatLngBoundsLiteral | undefined = mapBounds
+      ? padBounds(mapBounds.toJSON(), 0.2)
+      : undefined;
+
+    const points: ClusterPoint<google.maps.Marker>[] = [];
+    this.markers.forEach((marker) => {
+      const position = marker.getPosition();
+      if (position) {
+        points.push({ lat: position.lat(), lng: position.lng(), data: marker });
+      }
+    });
+
+    const clusters = computeClusters(points, {
+      zoom,
+      bounds,
+      gridSize: this.options.gridSize,
+      maxZoom: this.options.maxZoom,
+      minClusterSize: this.options.minClusterSize,
+    });
+
+    this.clearClusterMarkers();
+    const visible = new Set<google.maps.Marker>();
+
+    clusters.forEach((cluster) => {
+      if (cluster.points.length === 1) {
+        visible.add(cluster.points[0].data);
+        return;
+      }
+      this.clusterMarkers.push(this.createClusterMarker(cluster, zoom));
+    });
+
+    this.markers.forEach((marker) => {
+      const shouldShow = visible.has(marker);
+      if (shouldShow && marker.getMap() !== this.map) {
+        marker.setMap(this.map);
+      } else if (!shouldShow && marker.getMap()) {
+        marker.setMap(null);
+      }
+    });
+  }
+
+  private createClusterMarker(
+    cluster: Cluster<google.maps.Marker>,
+    zoom: number
+  ): google.maps.Marker {
+    const count = cluster.points.length;
+    const { size, color } = getClusterBadgeStyle(count);
+
+    const marker = new google.maps.Marker({
+      position: cluster.center,
+      map: this.map,
+      title: `${count} locations`,
+      icon: {
+        url: this.options.imagePath
+          ? `${this.options.imagePath}${Math.min(5, Math.ceil(Math.log10(count + 1)))}.png`
+          : createClusterIcon(count, size, color),
+        scaledSize: new google.maps.Size(size, size),
+        anchor: new google.maps.Point(size / 2, size / 2),
+      },
+      zIndex: google.maps.Marker.MAX_ZINDEX + count,
+    });
+
+    marker.addListener("click", () => {
+      const expansionZoom = getClusterExpansionZoom(cluster, zoom, {
+        gridSize: this.options.gridSize,
+        maxZoom: this.options.maxZoom,
+      });
+      this.map.panTo(cluster.center);
+      this.map.setZoom(Math.max(expansionZoom, zoom + 1));
+    });
+
+    return marker;
+  }
+
+  private clearClusterMarkers() {
+    this.clusterMarkers.forEach((marker) => {
+      google.maps.event.clearInstanceListeners(marker);
+      marker.setMap(null);
+    });
+    this.clusterMarkers = [];
   }
 }
+
+// Create a circular count badge for a cluster
+const createClusterIcon = (count: number, size: number, color: string): string => {
+  const radius = size / 2;
+  const label = count > 999 ? `${Math.floor(count / 1000)}k+` : String(count);
+
+  return `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(`
+    <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="${radius}" cy="${radius}" r="${radius}" fill="${color}" fill-opacity="0.25"/>
+      <circle cx="${radius}" cy="${radius}" r="${radius - 6}" fill="${color}"/>
+      <text x="${radius}" y="${radius + 5}" text-anchor="middle" fill="white" font-size="14" font-weight="600" font-family="Arial">${label}</text>
+    </svg>
+  `)}`;
+};
@@ -1,5 +1,7 @@
 // Google Maps utilities for Amala Discovery Platform
 
+import type { MapClusterer } from "@/lib/map-clustering";
+
 export interface MapMarkerData {
   id: string;
   coordinates: [number, number]; // [lng, lat]
@@ -41,11 +43,12 @@ export const initializeGoogleMap = (
   });
 };
 
-// Add markers to Google Maps
+// Add markers to Google Maps, grouping them through the clusterer when provided
 export const addMarkersToGoogleMap = (
   map: google.maps.Map,
   markers: MapMarkerData[],
-  onMarkerClick?: (data: MapMarkerData) => void
+  onMarkerClick?: (data: MapMarkerData) => void,
+  clusterer?: MapClusterer
 ): google.maps.Marker[] => {
   const googleMarkers: google.maps.Marker[] = [];
 
@@ -55,7 +58,8 @@ export const addMarkersToGoogleMap = (
         lat: markerData.coordinates[1],
         lng: markerData.coordinates[0],
       },
-      map: map,
+      // Let the clusterer decide visibility when clustering is enabled
+      map: clusterer ? null : map,
       title: markerData.name,
       icon: createGoogleMapsMarkerIcon(markerData),
     });
@@ -76,6 +80,10 @@ export const addMarkersToGoogleMap = (
     googleMarkers.push(marker);
   });
 
+  if (clusterer) {
+    clusterer.addMarkers(googleMarkers);
+  }
+
   return googleMarkers;
 };
 
@@ -495,82 +495,6 @@ Return only the question text, no JSON.`;
     return "Perfect! Any other details you'd like to add, like phone number, website, or what makes this place special?";
   }
 
-  static async detectDuplicate(
-    newLocation: Partial<LocationSubmission>,
-    existingLocations: AmalaLocation[]
-  ): Promise<{
-    isDuplicate: boolean;
-    similarLocations: AmalaLocation[];
-    confidence: number;
-  }> {
-    if (!newLocation.name && !newLocation.address) {
-      return {
-        isDuplicate: false,
-        similarLocations: [],
-        confidence: 0,
-      };
-    }
-
-    const similar = existingLocations.filter((location) => {
-      const nameSimilarity = this.calculateSimilarity(
-        newLocation.name?.toLowerCase() || "",
-        location.name.toLowerCase()
-      );
-
-      const addressSimilarity = this.calculateSimilarity(
-        newLocation.address?.toLowerCase() || "",
-        location.address.toLowerCase()
-      );
-
-      // More stringent duplicate detection for global platform
-      return (
-        nameSimilarity > 0.8 ||
-        (nameSimilarity > 0.6 && addressSimilarity > 0.7)
-      );
-    });
-
-    return {
-      isDuplicate: similar.length > 0,
-      similarLocations: similar.slice(0, 3), // Limit to top 3 matches
-      confidence:
-        similar.length > 0 ? Math.max(0.7, similar.length * 0.3) : 0.1,
-    };
-  }
-
-  private static calculateSimilarity(str1: string, str2: string): number {
-    if (!str1 || !str2) return 0;
-
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-
-    if (longer.length === 0) return 1.0;
-
-    const editDistance = this.levenshteinDistance(longer, shorter);
-    return (longer.length - editDistance) / longer.length;
-  }
-
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1)
-      .fill(null)
-      .map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // insertion
-          matrix[j - 1][i] + 1, // deletion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
   static fallbackExtraction(message: string): AIExtractionResult {
     const extracted: Partial<LocationSubmission> = {
       cuisine: ["Nigerian"],
@@ -1,9 +1,12 @@
 import { AmalaLocation, Review } from "@/types/location";
+import { DiscoveryTarget } from "@/types/discovery";
 import axios from "axios";
 import crypto from "crypto";
 import { PlacesApiNewService } from "./places-api";
 import { WebScrapingService } from "./scraping-service";
 import { EnhancedScrapingService, ScrapingTarget } from "./enhanced-scraping-service";
+import { computeIsOpenNow } from "@/lib/utils/hours";
+import { EntityResolutionService } from "./entity-resolution";
 
 export interface DiscoverySource {
   name: string;
@@ -20,6 +23,12 @@ export interface RegionalBatch {
   searchQueries: string[];
 }
 
+// Counters collected while searching, used by scheduled run reports
+export interface DiscoveryQueryReport {
+  queriesIssued: number;
+  errors: string[];
+}
+
 export class AutonomousDiscoveryService {
   private static readonly REGIONAL_BATCHES: RegionalBatch[] = [
     {
@@ -278,6 +287,48 @@ export class AutonomousDiscoveryService {
     }
   }
 
+  /**
+   * Flatten REGIONAL_BATCHES into the country-by-country, state-by-state
+   * walk order used by scheduled discovery. Countries with configured
+   * states are searched per state; the rest are searched country-wide.
+   */
+  static getDiscoveryTargets(): DiscoveryTarget[] {
+    const targets: DiscoveryTarget[] = [];
+
+    for (const batch of this.REGIONAL_BATCHES) {
+      for (const country of batch.countries) {
+        const states = batch.states?.[country];
+        if (states && states.length > 0) {
+          for (const state of states) {
+            targets.push({ key: `${batch.name}:${country}:${state}`, region: batch.name, country, state });
+          }
+        } else {
+          targets.push({ key: `${batch.name}:${country}`, region: batch.name, country });
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Search a single scheduled discovery target using the regional
+   * search queries, returning validated results
+   */
+  static async discoverForTarget(
+    target: DiscoveryTarget,
+    report?: DiscoveryQueryReport
+  ): Promise<AmalaLocation[]> {
+    const batch = this.REGIONAL_BATCHES.find(b => b.name === target.region);
+    if (!batch) {
+      throw new Error(`Unknown discovery region: ${target.region}`);
+    }
+
+    console.log(`🔍 Scheduled discovery for ${target.state ? `${target.state}, ` : ''}${target.country} (${target.region})...`);
+    const discovered = await this.discoverFromAPIsRegional(batch, target.country, target.state, report);
+    return this.processDiscoveries(discovered);
+  }
+
   /**
    * Discover locations using Google Places API (New) and other APIs
    */
@@ -342,7 +393,12 @@ export class AutonomousDiscoveryService {
   /**
    * Regional API discovery using specific search queries for each region
    */
-  static async discoverFromAPIsRegional(regionalBatch: RegionalBatch, country?: string, state?: string): Promise<AmalaLocation[]> {
+  static async discoverFromAPIsRegional(
+    regionalBatch: RegionalBatch,
+    country?: string,
+    state?: string,
+    report?: DiscoveryQueryReport
+  ): Promise<AmalaLocation[]> {
     const locations: AmalaLocation[] = [];
 
     try {
@@ -367,6 +423,7 @@ export class AutonomousDiscoveryService {
               `${query} in ${targetCountry}`;
             
             // Perform Google Places API search for this query
+            if (report) report.queriesIssued++;
             const foundLocations = await this.searchGooglePlaces(
               query,
               targetCountry,
@@ -378,6 +435,7 @@ export class AutonomousDiscoveryService {
             console.log(`    ✅ Found ${foundLocations.length} locations for "${locationContext}"`, foundLocations.length > 0 ? foundLocations.slice(0, 2).map(l => l.name) : '');
           } catch (error) {
             console.error(`    ❌ Error searching "${query}" in ${targetCountry}:`, error);
+            report?.errors.push(`"${query}" in ${targetCountry}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
         }
       }
@@ -717,7 +775,8 @@ export class AutonomousDiscoveryService {
 
       if (validation.isValid && validation.confidence > 0.6) {
         const normalizedLocation = this.normalizeLocation(location);
-        processedLocations.push(normalizedLocation);
+        // Kept for moderation rules that act on discovery confidence
+        processedLocations.push({ ...normalizedLocation, discoveryConfidence: validation.confidence });
       } else {
       }
     }
@@ -787,32 +846,12 @@ export class AutonomousDiscoveryService {
   }
 
   /**
-   * Remove duplicate locations based on name and address similarity
+   * Remove locations that duplicate an earlier one in the same batch
    */
   static removeDuplicates(
     locations: Partial<AmalaLocation>[]
   ): Partial<AmalaLocation>[] {
-    const unique: Partial<AmalaLocation>[] = [];
-
-    for (const location of locations) {
-      const isDuplicate = unique.some(
-        (existing) =>
-          this.calculateSimilarity(
-            location.name?.toLowerCase() || "",
-            existing.name?.toLowerCase() || ""
-          ) > 0.8 ||
-          this.calculateSimilarity(
-            location.address?.toLowerCase() || "",
-            existing.address?.toLowerCase() || ""
-          ) > 0.9
-      );
-
-      if (!isDuplicate) {
-        unique.push(location);
-      }
-    }
-
-    return unique;
+    return EntityResolutionService.dedupe(locations);
   }
 
   /**
@@ -829,7 +868,7 @@ export class AutonomousDiscoveryService {
       description:
         location.description ||
         `Amala restaurant discovered through ${location.discoverySource}`,
-      isOpenNow: location.isOpenNow ?? true,
+      isOpenNow: location.hours ? computeIsOpenNow(location) : false,
       serviceType: location.serviceType || "both",
       priceRange: location.priceRange || "$",
       cuisine: location.cuisine || ["Nigerian"],
@@ -883,44 +922,6 @@ export class AutonomousDiscoveryService {
     }
   }
 
-  public static calculateSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-
-    if (longer.length === 0) return 1.0;
-
-    const editDistance = AutonomousDiscoveryService.levenshteinDistance(longer, shorter);
-    return (longer.length - editDistance) / longer.length;
-  }
-
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = [];
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
   private static generateDefaultHours() {
     return {
       monday: { open: "08:00", close: "20:00", isOpen: true },
@@ -938,10 +939,11 @@ export class AutonomousDiscoveryService {
    */
   static async scheduleDiscovery(): Promise<void> {
     try {
-      const discovered = await this.discoverLocations();
-
-      // In production, save to database and notify moderators
-      return;
-    } catch (error) {}
+      // Loaded lazily: the scheduler depends on this service
+      const { DiscoverySchedulerService } = await import("@/lib/jobs/discovery-scheduler");
+      await DiscoverySchedulerService.runScheduledDiscovery({ trigger: "cron" });
+    } catch (error) {
+      console.error('❌ Scheduled discovery error:', error);
+    }
   }
 }
@@ -0,0 +1,165 @@
+import crypto from "crypto";
+import { adminFirebaseOperations } from "@/lib/firebase/admin-database";
+import { findDuplicateMatches } from "@/lib/database/dedup-helper";
+import { AmalaLocation } from "@/types/location";
+import { PlacesApiNewService } from "./places-api";
+import { BatchedPlacesApiService } from "./places-api-batch";
+
+export interface DiscoverySaveResult {
+  savedLocations: AmalaLocation[];
+  skippedDuplicates: string[];
+  saveErrors: { locationName: string; error: string }[];
+}
+
+/**
+ * Shared save path for discovered locations, used by manual discovery
+ * (POST /api/discovery) and scheduled discovery runs
+ */
+export class DiscoveryPersistenceService {
+  /**
+   * Skip duplicates, enrich with Google Places where possible and save
+   * each discovered location with 'pending' status, then apply any
+   * auto-moderation rules
+   */
+  static async savePendingLocations(
+    discoveredLocations: Partial<AmalaLocation>[]
+  ): Promise<DiscoverySaveResult> {
+    const savedLocations: AmalaLocation[] = [];
+    const skippedDuplicates: string[] = [];
+    const saveErrors: { locationName: string; error: string }[] = [];
+
+    for (const location of discoveredLocations) {
+      try {
+        // Only candidates in the same geohash/name block are loaded
+        const resolution = await findDuplicateMatches(location, { limit: 1 });
+
+        if (resolution.isDuplicate) {
+          skippedDuplicates.push(location.name || "Unknown");
+          console.log(
+            `Skipped duplicate: ${location.name} (matches ${resolution.matches[0].location.name}: ${resolution.matches[0].reasons.join(", ")})`
+          );
+          continue;
+        }
+
+        const enrichedLocation = await this.enrichWithPlaces(location);
+
+        // Create location for database
+        const locationToSave = {
+          ...enrichedLocation,
+          status: "pending" as const,
+          submittedAt: new Date(),
+          description: `${enrichedLocation.description || ""} [Auto-discovered via ${
+            enrichedLocation.discoverySource
+          }]`.trim(),
+        };
+
+        const savedLocation = await adminFirebaseOperations.createLocation(locationToSave, {
+          type: "discovery",
+          id: enrichedLocation.discoverySource,
+        });
+        const status = await this.applyModerationRules(savedLocation, resolution.confidence);
+        savedLocations.push({ ...savedLocation, status });
+        console.log(`✅ Saved location: ${savedLocation.name} (ID: ${savedLocation.id}, ${status})`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        if (errorMsg.includes('duplicate') || errorMsg.includes('similarity')) {
+          skippedDuplicates.push(location.name || "Unknown");
+        } else {
+          saveErrors.push({
+            locationName: location.name || 'Unknown',
+            error: errorMsg,
+          });
+          console.error(`❌ Failed to save location "${location.name}":`, error);
+        }
+      }
+    }
+
+    return { savedLocations, skippedDuplicates, saveErrors };
+  }
+
+  /**
+   * Let auto-moderation rules decide the new location. Rule failures leave
+   * it pending for a moderator.
+   */
+  private static async applyModerationRules(
+    location: AmalaLocation,
+    duplicateConfidence: number
+  ): Promise<AmalaLocation["status"]> {
+    try {
+      const facts = await adminFirebaseOperations.buildSubmissionFacts(location, {
+        source: "discovery",
+        duplicateConfidence,
+      });
+      const decision = await adminFirebaseOperations.autoModerateLocation(location, facts);
+      if (decision?.action.type === "approve") return "approved";
+      if (decision?.action.type === "reject") return "rejected";
+    } catch (error) {
+      console.error(`❌ Auto-moderation failed for "${location.name}":`, error);
+    }
+    return location.status;
+  }
+
+  /**
+   * Enrich with Google Places API (New) details when an API key is configured
+   */
+  private static async enrichWithPlaces(
+    location: Partial<AmalaLocation>
+  ): Promise<Partial<AmalaLocation>> {
+    const googleApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+    if (!googleApiKey || !location.address) {
+      return { ...location };
+    }
+
+    // PERFORMANCE: Use batched API service for better caching and rate limiting
+    const placeId = await BatchedPlacesApiService.findPlaceId(location.address, googleApiKey);
+    if (!placeId) return { ...location };
+
+    const details = await BatchedPlacesApiService.getPlaceDetails(placeId, googleApiKey);
+    if (!details) return { ...location };
+
+    // Convert to AmalaLocation format using the new service
+    const convertedLocation = PlacesApiNewService.convertToAmalaLocation(details);
+
+    // Generate images with proper photo names
+    const images = details.photos ? details.photos.map((photo: any) =>
+      `/api/proxy/google-photo?photoreference=${photo.name}&maxwidth=400&locationName=${encodeURIComponent(details.displayName.text)}&cuisine=${encodeURIComponent((details.types || []).join(','))}`
+    ) : [];
+
+    // Reviews
+    const reviews = details.reviews ? details.reviews.slice(0, 5).map((r: any) => ({
+      id: crypto.randomUUID(),
+      location_id: '', // Set after insert
+      author: r.authorAttribution?.displayName || 'Anonymous',
+      rating: r.rating || 0,
+      text: r.text?.text || r.originalText?.text || '',
+      date_posted: new Date(),
+      status: 'approved' as const,
+    })) : [];
+
+    // Hours
+    let hours = location.hours;
+    const isOpenNow = details.regularOpeningHours?.openNow ?? location.isOpenNow ?? false;
+    if (details.regularOpeningHours?.periods) {
+      hours = convertedLocation.hours || location.hours;
+    }
+
+    return {
+      ...location,
+      images,
+      reviews,
+      hours,
+      isOpenNow,
+      serviceType: convertedLocation.serviceType || location.serviceType || "both",
+      priceRange: convertedLocation.priceRange || location.priceRange || "$$",
+      phone: details.nationalPhoneNumber || location.phone,
+      website: details.websiteUri || location.website,
+      description: location.description, // Places API (New) doesn't have editorial summary in basic fields
+      coordinates: details.location ? {
+        lat: details.location.latitude,
+        lng: details.location.longitude
+      } : location.coordinates,
+      rating: details.rating || location.rating,
+      reviewCount: details.userRatingCount || location.reviewCount || reviews.length,
+    };
+  }
+}
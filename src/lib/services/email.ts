@@ -0,0 +1,221 @@
+/**
+ * Outgoing email behind a swappable channel. The channel is picked from
+ * EMAIL_CHANNEL:
+ *
+ * - "smtp": plain SMTP to SMTP_HOST:SMTP_PORT (default localhost:1025), so
+ *   development can point at a local sink such as Mailpit or MailHog.
+ *   SMTP_SECURE=true connects over TLS and SMTP_USER/SMTP_PASS enable AUTH PLAIN.
+ * - "console": log messages instead of sending them.
+ * - "none": drop messages. The default outside development.
+ *
+ * Other providers can be plugged in with EmailService.setChannel.
+ */
+
+import net from "net";
+import tls from "tls";
+import crypto from "crypto";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailChannel {
+  name: string;
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+const DEFAULT_FROM = "Amala Discovery <no-reply@localhost>";
+
+// "Name <address>" -> "address"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+// RFC 2047 encoded-word for non-ASCII headers
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+export class ConsoleEmailChannel implements EmailChannel {
+  name = "console";
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    console.log(`📧 [email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Minimal SMTP client: one connection per message, no STARTTLS
+ */
+export class SmtpEmailChannel implements EmailChannel {
+  name = "smtp";
+
+  constructor(
+    private options: { host: string; port: number; secure?: boolean; user?: string; pass?: string }
+  ) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP timeout talking to ${host}:${port}`)));
+
+    const replies = this.replyReader(socket);
+    const command = async (line: string | null, expected: number[]) => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await replies();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${line?.split(" ")[0] || "greeting"} failed: ${reply.code} ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      await command(`EHLO ${this.heloName()}`, [250]);
+      if (this.options.user && this.options.pass) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+      await command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await command("DATA", [354]);
+      await command(`${this.formatMessage(message)}\r\n.`, [250]);
+      await command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      socket.end();
+    }
+  }
+
+  private formatMessage(message: EmailMessage & { from: string }): string {
+    // Base64 bodies never start a line with ".", so no dot-stuffing is needed
+    const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+      .toString("base64")
+      .replace(/.{76}/g, "$&\r\n");
+
+    return [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${addressOf(message.from).split("@")[1] || "localhost"}>`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      body,
+    ].join("\r\n");
+  }
+
+  private heloName(): string {
+    return addressOf(process.env.EMAIL_FROM || DEFAULT_FROM).split("@")[1] || "localhost";
+  }
+
+  /**
+   * Resolves the next complete (possibly multi-line) reply from the server
+   */
+  private replyReader(socket: net.Socket): () => Promise<SmtpReply> {
+    let buffer = "";
+    let lines: string[] = [];
+    const ready: SmtpReply[] = [];
+    let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    let failure: Error | null = null;
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        lines.push(line.slice(4));
+        // "250-..." continues a reply, "250 ..." ends it
+        if (/^\d{3}(?: |$)/.test(line)) {
+          const reply = { code: Number(line.slice(0, 3)), text: lines.join(" ") };
+          lines = [];
+          if (waiting) {
+            waiting.resolve(reply);
+            waiting = null;
+          } else {
+            ready.push(reply);
+          }
+        }
+      }
+    });
+
+    const fail = (error: Error) => {
+      failure = error;
+      waiting?.reject(error);
+      waiting = null;
+    };
+    socket.on("error", fail);
+    socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+    return () => new Promise<SmtpReply>((resolve, reject) => {
+      const reply = ready.shift();
+      if (reply) resolve(reply);
+      else if (failure) reject(failure);
+      else waiting = { resolve, reject };
+    });
+  }
+}
+
+export class EmailService {
+  private static channel: EmailChannel | null | undefined;
+
+  /**
+   * Replace the configured channel, e.g. with a transactional email provider
+   */
+  static setChannel(channel: EmailChannel | null): void {
+    this.channel = channel;
+  }
+
+  static getChannel(): EmailChannel | null {
+    if (this.channel === undefined) {
+      this.channel = this.channelFromEnv();
+    }
+    return this.channel;
+  }
+
+  static isEnabled(): boolean {
+    return this.getChannel() !== null;
+  }
+
+  /**
+   * Send through the configured channel. Returns false when email is disabled.
+   */
+  static async send(message: EmailMessage): Promise<boolean> {
+    const channel = this.getChannel();
+    if (!channel) return false;
+
+    await channel.send({ ...message, from: process.env.EMAIL_FROM || DEFAULT_FROM });
+    console.log(`✅ Sent email "${message.subject}" to ${message.to} via ${channel.name}`);
+    return true;
+  }
+
+  private static channelFromEnv(): EmailChannel | null {
+    const name = process.env.EMAIL_CHANNEL || (process.env.NODE_ENV === "development" ? "console" : "none");
+    switch (name) {
+      case "smtp":
+        return new SmtpEmailChannel({
+          host: process.env.SMTP_HOST || "localhost",
+          port: parseInt(process.env.SMTP_PORT || "1025"),
+          secure: process.env.SMTP_SECURE === "true",
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        });
+      case "console":
+        return new ConsoleEmailChannel();
+      case "none":
+        return null;
+      default:
+        console.warn(`⚠️ Unknown EMAIL_CHANNEL "${name}", email disabled`);
+        return null;
+    }
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Entity resolution for locations: decides whether a new or discovered
+ * location is the same place as an existing one.
+ *
+ * Candidates are blocked by geohash proximity and shared name tokens, then
+ * scored on name, address, phone, website and distance. Every match carries
+ * its per-feature scores and human-readable reasons so moderators can see
+ * why two locations were linked.
+ */
+
+import { AmalaLocation } from "@/types/location";
+import { LocationService } from "@/lib/services/location-service";
+import { editDistance, tokenize } from "@/lib/utils/text-normalization";
+import {
+  geohashRangesForRadius,
+  isIndexableCoordinate,
+  type GeohashRange,
+} from "@/lib/utils/geohash";
+
+export type EntityFeature = "name" | "address" | "phone" | "website" | "distance";
+
+export type MatchVerdict = "duplicate" | "possible";
+
+export type ResolvableEntity = Pick<
+  Partial<AmalaLocation>,
+  "id" | "name" | "address" | "phone" | "website" | "coordinates"
+>;
+
+export interface FeatureScore {
+  feature: EntityFeature;
+  similarity: number; // 0-1
+  weight: number;
+  detail: string;
+}
+
+export interface EntityComparison {
+  score: number;
+  features: FeatureScore[];
+  reasons: string[];
+}
+
+export interface EntityMatch<T extends ResolvableEntity = AmalaLocation> extends EntityComparison {
+  location: T;
+  verdict: MatchVerdict;
+}
+
+export interface EntityResolutionResult<T extends ResolvableEntity = AmalaLocation> {
+  isDuplicate: boolean;
+  confidence: number;
+  matches: EntityMatch<T>[];
+}
+
+const FEATURE_WEIGHTS: Record<EntityFeature, number> = {
+  name: 0.4,
+  address: 0.2,
+  phone: 0.15,
+  website: 0.1,
+  distance: 0.15,
+};
+
+export const DUPLICATE_THRESHOLD = 0.8;
+export const POSSIBLE_DUPLICATE_THRESHOLD = 0.6;
+
+// Candidates within this radius are compared even if their names share no token
+export const BLOCKING_RADIUS_KM = 0.5;
+
+const SAME_PLACE_METERS = 50;
+const FAR_APART_METERS = 2000;
+const MIN_NAME_SIMILARITY = 0.6;
+const MAX_NAME_TOKENS = 10; // Firestore array-contains-any limit
+
+// Words too common in restaurant names to identify one
+const GENERIC_NAME_TOKENS = new Set([
+  "amala", "buka", "bukka", "bukas", "bukateria", "restaurant", "restaurants",
+  "kitchen", "kitchens", "eatery", "eateries", "joint", "spot", "place", "food",
+  "foods", "canteen", "cafe", "bar", "grill", "lounge", "mama", "iya", "mummy",
+  "nigerian", "yoruba", "african", "cuisine", "cuisines", "ltd", "limited",
+]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  road: "rd",
+  avenue: "ave",
+  close: "cl",
+  crescent: "cres",
+  drive: "dr",
+  lane: "ln",
+  estate: "est",
+  junction: "jct",
+  opposite: "opp",
+  beside: "by",
+  nigeria: "",
+  off: "",
+};
+
+// Shared hosts where the path, not the domain, identifies the business
+const SOCIAL_HOSTS = new Set([
+  "facebook.com", "instagram.com", "twitter.com", "x.com", "tiktok.com",
+  "linktr.ee", "wa.me", "google.com", "maps.google.com", "goo.gl",
+]);
+
+export class EntityResolutionService {
+  /**
+   * Distinctive normalized name tokens, stored on locations as `nameTokens`
+   * for blocking. Falls back to all tokens when every word is generic.
+   */
+  static nameTokens(name: string | undefined): string[] {
+    const tokens = Array.from(new Set(tokenize(name || "")));
+    const distinctive = tokens.filter(token => !GENERIC_NAME_TOKENS.has(token));
+    return (distinctive.length > 0 ? distinctive : tokens).slice(0, MAX_NAME_TOKENS);
+  }
+
+  /**
+   * Geohash ranges covering the blocking radius around a location
+   */
+  static blockingRanges(entity: ResolvableEntity): GeohashRange[] {
+    return isIndexableCoordinate(entity.coordinates)
+      ? geohashRangesForRadius(entity.coordinates, BLOCKING_RADIUS_KM)
+      : [];
+  }
+
+  /**
+   * Score how likely two entities are the same place. Features that cannot
+   * be compared (e.g. one side has no phone) are left out of the average.
+   */
+  static compare(entity: ResolvableEntity, candidate: ResolvableEntity): EntityComparison {
+    const features: FeatureScore[] = [];
+
+    const nameSimilarity = this.nameSimilarity(entity.name, candidate.name);
+    if (nameSimilarity !== null) {
+      features.push({
+        feature: "name",
+        similarity: nameSimilarity,
+        weight: FEATURE_WEIGHTS.name,
+        detail: `${Math.round(nameSimilarity * 100)}% similar to "${candidate.name}"`,
+      });
+    }
+
+    const addressSimilarity = this.addressSimilarity(entity.address, candidate.address);
+    if (addressSimilarity !== null) {
+      features.push({
+        feature: "address",
+        similarity: addressSimilarity,
+        weight: FEATURE_WEIGHTS.address,
+        detail: `${Math.round(addressSimilarity * 100)}% similar to "${candidate.address}"`,
+      });
+    }
+
+    const phoneA = this.normalizePhone(entity.phone);
+    const phoneB = this.normalizePhone(candidate.phone);
+    const samePhone = !!phoneA && phoneA === phoneB;
+    if (phoneA && phoneB) {
+      features.push({
+        feature: "phone",
+        similarity: samePhone ? 1 : 0,
+        weight: FEATURE_WEIGHTS.phone,
+        detail: samePhone ? `Same phone number: ${candidate.phone}` : "Different phone numbers",
+      });
+    }
+
+    const websiteA = this.normalizeWebsite(entity.website);
+    const websiteB = this.normalizeWebsite(candidate.website);
+    const sameWebsite = !!websiteA && websiteA === websiteB;
+    if (websiteA && websiteB) {
+      features.push({
+        feature: "website",
+        similarity: sameWebsite ? 1 : 0,
+        weight: FEATURE_WEIGHTS.website,
+        detail: sameWebsite ? `Same website: ${websiteB}` : "Different websites",
+      });
+    }
+
+    let distanceMeters: number | null = null;
+    if (isIndexableCoordinate(entity.coordinates) && isIndexableCoordinate(candidate.coordinates)) {
+      distanceMeters = LocationService.calculateDistance(entity.coordinates, candidate.coordinates);
+      features.push({
+        feature: "distance",
+        similarity: this.distanceSimilarity(distanceMeters),
+        weight: FEATURE_WEIGHTS.distance,
+        detail: `${this.formatDistance(distanceMeters)} apart`,
+      });
+    }
+
+    const totalWeight = features.reduce((sum, f) => sum + f.weight, 0);
+    let score = totalWeight > 0
+      ? features.reduce((sum, f) => sum + f.weight * f.similarity, 0) / totalWeight
+      : 0;
+
+    const reasons = features
+      .filter(feature => feature.similarity >= 0.8)
+      .map(feature => feature.detail);
+
+    // Shared phone or website is near-conclusive when the names agree at all
+    const sharesIdentifier = samePhone || sameWebsite;
+    const namesAgree = (nameSimilarity ?? 0) >= MIN_NAME_SIMILARITY;
+    if (sharesIdentifier && namesAgree) {
+      score = Math.max(score, 0.9);
+    }
+
+    // Neighbours in the same plaza are not duplicates unless the names match
+    if (!namesAgree && !sharesIdentifier) {
+      score = Math.min(score, POSSIBLE_DUPLICATE_THRESHOLD - 0.01);
+    }
+
+    // Same name far apart is usually another branch, not the same place
+    if (distanceMeters !== null && distanceMeters > FAR_APART_METERS && !sharesIdentifier) {
+      score = Math.min(score, POSSIBLE_DUPLICATE_THRESHOLD);
+      reasons.push(`Locations are ${this.formatDistance(distanceMeters)} apart (possibly another branch)`);
+    }
+
+    return { score: Math.round(score * 1000) / 1000, features, reasons };
+  }
+
+  /**
+   * Compare an entity against candidate locations, keeping only those in
+   * the same block (nearby or sharing a name token) that score as at least
+   * a possible duplicate. Matches are sorted by score.
+   */
+  static resolve<T extends ResolvableEntity>(
+    entity: ResolvableEntity,
+    candidates: T[],
+    options: { limit?: number } = {}
+  ): EntityResolutionResult<T> {
+    const entityTokens = new Set(this.nameTokens(entity.name));
+    const matches: EntityMatch<T>[] = [];
+
+    for (const candidate of candidates) {
+      if (entity.id && candidate.id === entity.id) continue;
+      if (!this.inSameBlock(entity, entityTokens, candidate)) continue;
+
+      const comparison = this.compare(entity, candidate);
+      if (comparison.score < POSSIBLE_DUPLICATE_THRESHOLD) continue;
+
+      matches.push({
+        ...comparison,
+        location: candidate,
+        verdict: comparison.score >= DUPLICATE_THRESHOLD ? "duplicate" : "possible",
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    const limited = options.limit ? matches.slice(0, options.limit) : matches;
+
+    return {
+      isDuplicate: limited.some(match => match.verdict === "duplicate"),
+      confidence: limited[0]?.score ?? 0,
+      matches: limited,
+    };
+  }
+
+  /**
+   * Drop entities that duplicate an earlier one in the same batch
+   */
+  static dedupe<T extends ResolvableEntity>(entities: T[]): T[] {
+    const unique: T[] = [];
+    for (const entity of entities) {
+      if (!this.resolve(entity, unique).isDuplicate) {
+        unique.push(entity);
+      }
+    }
+    return unique;
+  }
+
+  private static inSameBlock(
+    entity: ResolvableEntity,
+    entityTokens: Set<string>,
+    candidate: ResolvableEntity
+  ): boolean {
+    if (this.nameTokens(candidate.name).some(token => entityTokens.has(token))) {
+      return true;
+    }
+    if (isIndexableCoordinate(entity.coordinates) && isIndexableCoordinate(candidate.coordinates)) {
+      const distance = LocationService.calculateDistance(entity.coordinates, candidate.coordinates);
+      return distance <= BLOCKING_RADIUS_KM * 1000;
+    }
+    return false;
+  }
+
+  /**
+   * Best of token overlap (word order, extra words) and character similarity
+   * of the distinctive words. Names written without spaces ("AmalaSky" vs
+   * "Amala Sky") are also compared in full.
+   */
+  private static nameSimilarity(a: string | undefined, b: string | undefined): number | null {
+    const tokensA = this.nameTokens(a);
+    const tokensB = this.nameTokens(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+    let similarity = Math.max(
+      this.tokenSetSimilarity(tokensA, tokensB),
+      this.characterSimilarity(tokensA.join(""), tokensB.join(""))
+    );
+
+    const allA = tokenize(a || "");
+    const allB = tokenize(b || "");
+    if (allA.length !== allB.length) {
+      similarity = Math.max(similarity, this.characterSimilarity(allA.join(""), allB.join("")));
+    }
+    return similarity;
+  }
+
+  private static addressSimilarity(a: string | undefined, b: string | undefined): number | null {
+    const tokensA = this.addressTokens(a);
+    const tokensB = this.addressTokens(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+    return this.tokenSetSimilarity(tokensA, tokensB);
+  }
+
+  private static addressTokens(address: string | undefined): string[] {
+    return tokenize(address || "")
+      .map(token => ADDRESS_ABBREVIATIONS[token] ?? token)
+      .filter(Boolean);
+  }
+
+  /**
+   * Soft Dice coefficient: tokens one typo apart count as 0.8 of a match
+   */
+  private static tokenSetSimilarity(tokensA: string[], tokensB: string[]): number {
+    const remaining = [...tokensB];
+    let matched = 0;
+
+    for (const token of tokensA) {
+      let bestIndex = -1;
+      let best = 0;
+      remaining.forEach((other, index) => {
+        let similarity = 0;
+        if (token === other) {
+          similarity = 1;
+        } else if (Math.min(token.length, other.length) >= 3 && editDistance(token, other, 1) <= 1) {
+          similarity = 0.8;
+        }
+        if (similarity > best) {
+          best = similarity;
+          bestIndex = index;
+        }
+      });
+      if (bestIndex >= 0) {
+        matched += best;
+        remaining.splice(bestIndex, 1);
+      }
+    }
+
+    return (2 * matched) / (tokensA.length + tokensB.length);
+  }
+
+  private static characterSimilarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 0;
+    return 1 - editDistance(a, b) / longest;
+  }
+
+  /**
+   * 1 within 50 m, falling linearly to 0 at the blocking radius
+   */
+  private static distanceSimilarity(meters: number): number {
+    const radiusMeters = BLOCKING_RADIUS_KM * 1000;
+    if (meters <= SAME_PLACE_METERS) return 1;
+    if (meters >= radiusMeters) return 0;
+    return 1 - (meters - SAME_PLACE_METERS) / (radiusMeters - SAME_PLACE_METERS);
+  }
+
+  /**
+   * Last ten digits, so "+234 803 123 4567" and "0803 123 4567" compare equal
+   */
+  static normalizePhone(phone: string | undefined): string | null {
+    const digits = (phone || "").replace(/\D/g, "");
+    if (digits.length < 7) return null;
+    return digits.slice(-10);
+  }
+
+  static normalizeWebsite(website: string | undefined): string | null {
+    if (!website?.trim()) return null;
+    try {
+      const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+      const host = url.hostname.toLowerCase().replace(/^(www|m)\./, "");
+      if (SOCIAL_HOSTS.has(host)) {
+        const handle = url.pathname.split("/").filter(Boolean)[0];
+        return handle ? `${host}/${handle.toLowerCase()}` : null;
+      }
+      return host;
+    } catch {
+      return null;
+    }
+  }
+
+  private static formatDistance(meters: number): string {
+    return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+  }
+}
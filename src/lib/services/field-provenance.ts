@@ -0,0 +1,185 @@
+/**
+ * Field provenance: which source each curated field of a location came from,
+ * and how far to trust it. Enrichment uses this to decide, per field, whether
+ * to fill, overwrite, leave alone or raise a conflict for moderator review.
+ */
+
+import { AmalaLocation } from "@/types/location";
+import {
+  PROVENANCE_FIELDS,
+  type FieldProvenance,
+  type ProvenanceField,
+  type ProvenanceSource,
+} from "@/types/provenance";
+import { EntityResolutionService } from "@/lib/services/entity-resolution";
+import { valuesEqual } from "@/lib/utils/location-revisions";
+
+// Higher tiers are never overwritten by lower ones
+const SOURCE_TRUST: Record<ProvenanceSource, number> = {
+  moderator: 5,
+  owner: 4, // a verified owner editing their own listing
+  user: 3,
+  enrichment: 2,
+  discovery: 1,
+  system: 0,
+};
+
+export const DEFAULT_CONFIDENCE: Record<ProvenanceSource, number> = {
+  moderator: 1,
+  owner: 0.9,
+  user: 0.7,
+  enrichment: 0.8,
+  discovery: 0.5,
+  system: 0.5,
+};
+
+// Fields where a disagreement is worth a moderator's time; others are only filled when empty
+const CONFLICT_FIELDS = new Set<ProvenanceField>(["name", "address", "phone", "website", "email", "hours"]);
+
+export interface ProvenanceStamp {
+  source: ProvenanceSource;
+  sourceId?: string;
+  confidence?: number;
+}
+
+export interface ProposedFieldConflict {
+  field: ProvenanceField;
+  currentValue: unknown;
+  proposedValue: unknown;
+  currentProvenance?: FieldProvenance;
+  locked: boolean;
+}
+
+export interface EnrichmentPlan {
+  updates: Partial<Record<ProvenanceField, unknown>>;
+  conflicts: ProposedFieldConflict[];
+  skipped: ProvenanceField[];
+}
+
+const PROVENANCE_FIELD_SET = new Set<string>(PROVENANCE_FIELDS);
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === "object" && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+export class FieldProvenanceService {
+  static isProvenanceField(field: string): field is ProvenanceField {
+    return PROVENANCE_FIELD_SET.has(field);
+  }
+
+  // Curated fields that hold a value in a write or document
+  static filledFields(data: Record<string, unknown>): ProvenanceField[] {
+    return PROVENANCE_FIELDS.filter((field) => !isEmpty(data[field]));
+  }
+
+  /**
+   * Provenance of a field, inferring it for records written before provenance
+   * was tracked from how the location was submitted
+   */
+  static provenanceOf(location: Partial<AmalaLocation>, field: ProvenanceField): FieldProvenance | undefined {
+    const recorded = location.provenance?.[field];
+    if (recorded) return recorded;
+    if (isEmpty(location[field])) return undefined;
+
+    const source: ProvenanceSource =
+      !location.discoverySource || location.discoverySource === "user-submitted" ? "user" : "discovery";
+    return {
+      source,
+      updatedAt: location.submittedAt || new Date(0),
+      confidence: DEFAULT_CONFIDENCE[source],
+    };
+  }
+
+  /**
+   * Provenance entries for the curated fields in a write
+   */
+  static stamp(
+    fields: string[],
+    stamp: ProvenanceStamp,
+    now: Date = new Date()
+  ): Partial<Record<ProvenanceField, FieldProvenance>> {
+    const provenance: FieldProvenance = {
+      source: stamp.source,
+      updatedAt: now,
+      confidence: stamp.confidence ?? DEFAULT_CONFIDENCE[stamp.source],
+      ...(stamp.sourceId ? { sourceId: stamp.sourceId } : {}),
+    };
+    return Object.fromEntries(
+      fields.filter((field) => this.isProvenanceField(field)).map((field) => [field, provenance])
+    );
+  }
+
+  /**
+   * Whether two values of a field are the same, ignoring formatting for
+   * phone numbers and websites
+   */
+  static sameValue(field: ProvenanceField, a: unknown, b: unknown): boolean {
+    if (field === "phone") {
+      const phoneA = EntityResolutionService.normalizePhone(a as string | undefined);
+      if (phoneA) return phoneA === EntityResolutionService.normalizePhone(b as string | undefined);
+    }
+    if (field === "website") {
+      const websiteA = EntityResolutionService.normalizeWebsite(a as string | undefined);
+      if (websiteA) return websiteA === EntityResolutionService.normalizeWebsite(b as string | undefined);
+    }
+    return valuesEqual(a, b);
+  }
+
+  /**
+   * Decide what an enrichment source may change. A field is written when it
+   * is empty or holds lower-trust data and is not locked. When it is locked
+   * or curated (user or moderator) and the source disagrees, a conflict is
+   * proposed instead.
+   */
+  static planEnrichment(
+    location: AmalaLocation,
+    proposed: Partial<Record<ProvenanceField, unknown>>,
+    stamp: ProvenanceStamp
+  ): EnrichmentPlan {
+    const locked = new Set(location.lockedFields || []);
+    const incomingTrust = SOURCE_TRUST[stamp.source];
+    const incomingConfidence = stamp.confidence ?? DEFAULT_CONFIDENCE[stamp.source];
+    const plan: EnrichmentPlan = { updates: {}, conflicts: [], skipped: [] };
+
+    for (const field of PROVENANCE_FIELDS) {
+      const proposedValue = proposed[field];
+      if (isEmpty(proposedValue)) continue;
+
+      const currentValue = location[field];
+      const isLocked = locked.has(field);
+
+      if (isEmpty(currentValue) && !isLocked) {
+        plan.updates[field] = proposedValue;
+        continue;
+      }
+      if (this.sameValue(field, currentValue, proposedValue)) {
+        continue;
+      }
+
+      const provenance = this.provenanceOf(location, field);
+      const currentTrust = provenance ? SOURCE_TRUST[provenance.source] : -1;
+      const outranks =
+        currentTrust < incomingTrust ||
+        (currentTrust === incomingTrust && (provenance?.confidence ?? 0) <= incomingConfidence);
+
+      if (!isLocked && outranks) {
+        plan.updates[field] = proposedValue;
+      } else if (CONFLICT_FIELDS.has(field)) {
+        plan.conflicts.push({
+          field,
+          currentValue,
+          proposedValue,
+          currentProvenance: provenance,
+          locked: isLocked,
+        });
+      } else {
+        plan.skipped.push(field);
+      }
+    }
+
+    return plan;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Auto-moderation rules evaluated when a location is submitted. Enabled
+ * rules run in priority order and the first rule whose conditions all hold
+ * decides: approve, reject with a reason code, or route to a queue lane.
+ * Submissions no rule matches stay pending in the general queue.
+ */
+
+import type { AmalaLocation } from "@/types/location";
+import type {
+  CheckableField,
+  ModerationRule,
+  RuleAction,
+  RuleCondition,
+  RuleDecision,
+  SubmissionFacts,
+} from "@/types/moderation-rules";
+import { CHECKABLE_FIELDS } from "@/types/moderation-rules";
+import { normalizeText } from "@/lib/utils/text-normalization";
+
+const formatConfidence = (value: number) => value.toFixed(2);
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+export class ModerationRulesService {
+  /**
+   * The decision of the first enabled rule that matches, or null
+   */
+  static evaluate(rules: ModerationRule[], facts: SubmissionFacts): RuleDecision | null {
+    const ordered = rules
+      .filter((rule) => rule.enabled)
+      .sort((a, b) => a.priority - b.priority || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    for (const rule of ordered) {
+      const reasons: string[] = [];
+      const matched = rule.conditions.every((condition) => {
+        const reason = this.check(condition, facts);
+        if (reason) reasons.push(reason);
+        return reason !== null;
+      });
+      if (matched) {
+        return { ruleId: rule.id, ruleName: rule.name, action: rule.action, reasons };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Why the condition holds, or null when it does not
+   */
+  static check(condition: RuleCondition, facts: SubmissionFacts): string | null {
+    switch (condition.type) {
+      case "source":
+        return condition.sources.includes(facts.source) ? `${facts.source} submission` : null;
+
+      case "submitter_role": {
+        const role = condition.roles.find((candidate) => facts.submitterRoles.includes(candidate));
+        return role ? `submitter has role ${role}` : null;
+      }
+
+      case "submitter_trust": {
+        if (facts.source !== "user") return null;
+        const { approved, rejected } = facts.submitterStats;
+        const decided = approved + rejected;
+        const rate = decided > 0 ? approved / decided : 0;
+        if (condition.minApproved !== undefined && approved < condition.minApproved) return null;
+        if (condition.maxRejected !== undefined && rejected > condition.maxRejected) return null;
+        if (condition.minApprovalRate !== undefined && (decided === 0 || rate < condition.minApprovalRate)) return null;
+        return `submitter has ${approved} approved and ${rejected} rejected submissions (${Math.round(rate * 100)}% approved)`;
+      }
+
+      case "trust_score":
+        if (facts.source !== "user" || facts.submitterTrustScore === undefined) return null;
+        return inRange(facts.submitterTrustScore, condition.min, condition.max)
+          ? `submitter trust score ${facts.submitterTrustScore} (${this.describeScoreBounds(condition.min, condition.max)})`
+          : null;
+
+      case "duplicate_confidence":
+        return inRange(facts.duplicateConfidence, condition.min, condition.max)
+          ? `duplicate confidence ${formatConfidence(facts.duplicateConfidence)} (${this.describeBounds(condition.min, condition.max)})`
+          : null;
+
+      case "discovery_confidence":
+        if (facts.discoveryConfidence === undefined) return null;
+        return inRange(facts.discoveryConfidence, condition.min, condition.max)
+          ? `discovery confidence ${formatConfidence(facts.discoveryConfidence)} (${this.describeBounds(condition.min, condition.max)})`
+          : null;
+
+      case "missing_fields": {
+        const missing = condition.fields.filter((field) => facts.missingFields.includes(field));
+        const holds = condition.match === "all" ? missing.length === condition.fields.length : missing.length > 0;
+        return holds ? `missing ${missing.join(", ")}` : null;
+      }
+
+      case "keywords": {
+        const haystack = ` ${condition.fields.map((field) => normalizeText(facts.text[field] || "")).join(" ")} `;
+        const found = condition.keywords.filter((keyword) => {
+          const needle = normalizeText(keyword);
+          return needle && haystack.includes(` ${needle} `);
+        });
+        if (condition.match === "none") {
+          return found.length === 0 ? `none of ${condition.keywords.join(", ")} in ${condition.fields.join("/")}` : null;
+        }
+        return found.length > 0 ? `${condition.fields.join("/")} mentions ${found.join(", ")}` : null;
+      }
+    }
+  }
+
+  /**
+   * Checkable fields the submission left empty
+   */
+  static missingFields(location: Partial<AmalaLocation>): CheckableField[] {
+    return CHECKABLE_FIELDS.filter((field) => {
+      const value = location[field];
+      if (Array.isArray(value)) return value.length === 0;
+      if (field === "hours") {
+        // Submission defaults mark every day closed
+        return !value || Object.values(value as AmalaLocation["hours"]).every((day) => !day?.isOpen);
+      }
+      return typeof value === "string" ? value.trim() === "" : value === undefined || value === null;
+    });
+  }
+
+  static describeCondition(condition: RuleCondition): string {
+    switch (condition.type) {
+      case "source":
+        return `Submitted by ${condition.sources.join(" or ")}`;
+      case "submitter_role":
+        return `Submitter is ${condition.roles.join(" or ")}`;
+      case "submitter_trust": {
+        const requirements = [
+          condition.minApproved !== undefined ? `at least ${condition.minApproved} approved` : null,
+          condition.minApprovalRate !== undefined ? `${Math.round(condition.minApprovalRate * 100)}%+ approval rate` : null,
+          condition.maxRejected !== undefined ? `at most ${condition.maxRejected} rejected` : null,
+        ].filter(Boolean);
+        return requirements.length > 0 ? `Submitter has ${requirements.join(", ")}` : "Any user submitter";
+      }
+      case "trust_score":
+        return `Submitter trust score ${this.describeScoreBounds(condition.min, condition.max)}`;
+      case "duplicate_confidence":
+        return `Duplicate confidence ${this.describeBounds(condition.min, condition.max)}`;
+      case "discovery_confidence":
+        return `Discovery confidence ${this.describeBounds(condition.min, condition.max)}`;
+      case "missing_fields":
+        return `Missing ${condition.match === "all" ? "all of" : "any of"} ${condition.fields.join(", ")}`;
+      case "keywords":
+        return `${condition.fields.join("/")} ${condition.match === "none" ? "mentions none of" : "mentions any of"} "${condition.keywords.join('", "')}"`;
+    }
+  }
+
+  static describeAction(action: RuleAction): string {
+    switch (action.type) {
+      case "approve":
+        return "Auto-approve";
+      case "reject":
+        return `Auto-reject (${action.reasonCode.replace(/_/g, " ")})`;
+      case "route":
+        return `Route to ${action.queue} queue`;
+    }
+  }
+
+  private static describeBounds(min?: number, max?: number): string {
+    const bounds = [
+      min !== undefined ? `≥ ${formatConfidence(min)}` : null,
+      max !== undefined ? `≤ ${formatConfidence(max)}` : null,
+    ].filter(Boolean);
+    return bounds.length > 0 ? bounds.join(" and ") : "any";
+  }
+
+  private static describeScoreBounds(min?: number, max?: number): string {
+    const bounds = [min !== undefined ? `≥ ${min}` : null, max !== undefined ? `≤ ${max}` : null].filter(Boolean);
+    return bounds.length > 0 ? bounds.join(" and ") : "any";
+  }
+}
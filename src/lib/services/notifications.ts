@@ -0,0 +1,74 @@
+/**
+ * Message templates for user notifications. The same title and body are
+ * shown in the in-app inbox and sent by email.
+ */
+
+import type { NotificationData, NotificationType, UserNotification } from "@/types/notification";
+import type { EmailMessage } from "./email";
+
+type Template = (data: NotificationData) => { title: string; body: string };
+
+const quoted = (name?: string) => (name ? `"${name}"` : "your location");
+
+const withReason = (text: string, reason?: string) => (reason?.trim() ? `${text} Reason: ${reason.trim()}` : text);
+
+const TEMPLATES: Record<NotificationType, Template> = {
+  location_approved: (data) => ({
+    title: "Your location was approved",
+    body: `${quoted(data.locationName)} is now live on the map. Thanks for adding it!`,
+  }),
+  location_rejected: (data) => ({
+    title: "Your location wasn't approved",
+    body: `${withReason(`${quoted(data.locationName)} was not added to the map.`, data.reason)} You're welcome to submit it again with more details.`,
+  }),
+  review_approved: (data) => ({
+    title: "Your review was published",
+    body: `Your ${data.rating ? `${data.rating}★ ` : ""}review of ${quoted(data.locationName)} is now visible to everyone.`,
+  }),
+  review_rejected: (data) => ({
+    title: "Your review wasn't published",
+    body: withReason(`Your review of ${quoted(data.locationName)} was not published.`, data.reason),
+  }),
+  appeal_overturned: (data) => ({
+    title: "Your appeal was accepted",
+    body: data.contentType === "review"
+      ? `A second moderator looked again and your review of ${quoted(data.locationName)} is now published.`
+      : `A second moderator looked again and ${quoted(data.locationName)} is now live on the map.`,
+  }),
+  appeal_upheld: (data) => ({
+    title: "Your appeal wasn't accepted",
+    body: withReason(
+      `A second moderator looked again at your ${data.contentType === "review" ? `review of ${quoted(data.locationName)}` : quoted(data.locationName)} and kept the original decision.`,
+      data.reason
+    ),
+  }),
+  claim_approved: (data) => ({
+    title: "Your ownership claim was approved",
+    body: `You can now manage ${quoted(data.locationName)}: update its hours and menu, add photos and respond to reviews.`,
+  }),
+  claim_rejected: (data) => ({
+    title: "Your ownership claim wasn't approved",
+    body: `${withReason(`We couldn't confirm that you run ${quoted(data.locationName)}.`, data.reason)} You're welcome to claim it again with other proof.`,
+  }),
+};
+
+export class NotificationService {
+  static render(type: NotificationType, data: NotificationData): { title: string; body: string } {
+    return TEMPLATES[type](data);
+  }
+
+  static renderEmail(notification: Pick<UserNotification, "title" | "body">, to: string): EmailMessage {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return {
+      to,
+      subject: notification.title,
+      text: [
+        notification.body,
+        "",
+        `See all your notifications at ${appUrl}`,
+        "",
+        "You're receiving this because you contributed to Amala Discovery.",
+      ].join("\n"),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Owner insights: how often visitors view, share and get directions to a
+ * listing, its rating over time, and how it compares with the median
+ * listing in the same city.
+ */
+
+import type { AmalaLocation, Review } from "@/types/location";
+import {
+  OWNER_INSIGHT_METRICS,
+  type CityInsightMedian,
+  type InsightSeriesPoint,
+  type InsightTotals,
+  type LocationInsights,
+  type OwnerInsightMetric,
+  type RatingTrendPoint,
+} from "@/types/insights";
+import { PriceIndexService } from "@/lib/services/price-index";
+
+// The parts of an analytics event the insights are built from
+export interface InsightEvent {
+  event_type: string;
+  location_id?: string | null;
+  location_ids?: string[]; // search impressions cover several listings
+  created_at: Date;
+}
+
+export class OwnerInsightsService {
+  static emptyTotals(): InsightTotals {
+    return Object.fromEntries(OWNER_INSIGHT_METRICS.map((metric) => [metric, 0])) as InsightTotals;
+  }
+
+  static dayOf(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static isMetric(eventType: string): eventType is OwnerInsightMetric {
+    return (OWNER_INSIGHT_METRICS as string[]).includes(eventType);
+  }
+
+  private static locationIdsOf(event: InsightEvent): string[] {
+    return event.location_ids?.length ? event.location_ids : event.location_id ? [event.location_id] : [];
+  }
+
+  /**
+   * Interaction counts for every listing that appears in the events
+   */
+  static countsByLocation(events: InsightEvent[]): Map<string, InsightTotals> {
+    const counts = new Map<string, InsightTotals>();
+    for (const event of events) {
+      if (!this.isMetric(event.event_type)) continue;
+      for (const locationId of this.locationIdsOf(event)) {
+        const totals = counts.get(locationId) || this.emptyTotals();
+        totals[event.event_type]++;
+        counts.set(locationId, totals);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * A listing's daily interactions from `since` to today, with empty days filled in
+   */
+  static series(events: InsightEvent[], locationId: string, since: Date, until: Date = new Date()): InsightSeriesPoint[] {
+    const days = new Map<string, InsightSeriesPoint>();
+    for (const day = new Date(since); this.dayOf(day) <= this.dayOf(until); day.setUTCDate(day.getUTCDate() + 1)) {
+      days.set(this.dayOf(day), { date: this.dayOf(day), ...this.emptyTotals() });
+    }
+
+    for (const event of events) {
+      if (!this.isMetric(event.event_type) || !this.locationIdsOf(event).includes(locationId)) continue;
+      const point = days.get(this.dayOf(event.created_at));
+      if (point) point[event.event_type]++;
+    }
+    return [...days.values()];
+  }
+
+  /**
+   * Average rating of approved reviews by month, oldest month first
+   */
+  static ratingTrend(reviews: Review[]): RatingTrendPoint[] {
+    const months = new Map<string, number[]>();
+    for (const review of reviews) {
+      if (review.status !== "approved" || !review.rating) continue;
+      const month = PriceIndexService.monthOf(new Date(review.date_posted));
+      months.set(month, [...(months.get(month) || []), review.rating]);
+    }
+
+    return [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, ratings]) => ({
+        month,
+        average: Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10,
+        count: ratings.length,
+      }));
+  }
+
+  /**
+   * The median of each interaction count and of the rating across approved
+   * listings in the location's city, counting listings with no events as zero.
+   * `counts` are the listings' totals from the daily rollups.
+   */
+  static cityMedian(
+    location: AmalaLocation,
+    cityLocations: AmalaLocation[],
+    counts: Map<string, InsightTotals>
+  ): CityInsightMedian | null {
+    const city = location.city?.trim().toLowerCase();
+    if (!city) return null;
+
+    const peers = cityLocations.filter((peer) => peer.status === "approved" && peer.city?.trim().toLowerCase() === city);
+    if (peers.length < 2) return null;
+
+    const totals = this.emptyTotals();
+    for (const metric of OWNER_INSIGHT_METRICS) {
+      totals[metric] = PriceIndexService.median(peers.map((peer) => counts.get(peer.id)?.[metric] || 0));
+    }
+
+    // Ratings are on a 1-5 scale, so the median is taken in tenths
+    const ratings = peers.map((peer) => peer.rating).filter((rating): rating is number => typeof rating === "number" && rating > 0);
+    const rating = ratings.length > 0 ? PriceIndexService.median(ratings.map((r) => Math.round(r * 10))) / 10 : null;
+
+    return { city: location.city!.trim(), locations: peers.length, totals, rating };
+  }
+
+  static build(
+    location: AmalaLocation,
+    events: InsightEvent[],
+    reviews: Review[],
+    cityLocations: AmalaLocation[],
+    cityCounts: Map<string, InsightTotals>,
+    since: Date
+  ): LocationInsights {
+    const counts = this.countsByLocation(events);
+    return {
+      locationId: location.id,
+      locationName: location.name,
+      rating: location.rating ?? null,
+      reviewCount: location.reviewCount ?? reviews.filter((review) => review.status === "approved").length,
+      totals: counts.get(location.id) || this.emptyTotals(),
+      series: this.series(events, location.id, since),
+      ratingTrend: this.ratingTrend(reviews),
+      cityMedian: this.cityMedian(location, cityLocations, cityCounts),
+    };
+  }
+}
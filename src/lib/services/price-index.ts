@@ -0,0 +1,112 @@
+/**
+ * Price trends and the city Amala Price Index, from crowd-sourced plate
+ * price observations. Medians keep a single odd price from moving the index,
+ * and taking each spot's median first stops busy spots from dominating it.
+ */
+
+import type { MenuItem } from "@/types/menu";
+import type { CityPriceIndex, PriceIndexPoint, PriceObservation, PriceTrendPoint } from "@/types/price";
+import { convertToUsd } from "@/lib/currency-utils";
+import { isPlate } from "@/lib/utils/menu";
+
+export class PriceIndexService {
+  static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+  }
+
+  static monthOf(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  /**
+   * The currency most observations are in; prices in other currencies can't
+   * be compared directly, so they are left out of trends and the index
+   */
+  static dominantCurrency(observations: PriceObservation[]): string | null {
+    const counts = new Map<string, number>();
+    for (const observation of observations) {
+      counts.set(observation.currency, (counts.get(observation.currency) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  }
+
+  private static byMonth(observations: PriceObservation[]): Map<string, PriceObservation[]> {
+    const months = new Map<string, PriceObservation[]>();
+    for (const observation of observations) {
+      const month = this.monthOf(observation.observedAt);
+      months.set(month, [...(months.get(month) || []), observation]);
+    }
+    return new Map([...months.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  /**
+   * A location's monthly median plate price, oldest month first
+   */
+  static trend(observations: PriceObservation[]): { currency: string | null; points: PriceTrendPoint[] } {
+    const currency = this.dominantCurrency(observations);
+    const points = [...this.byMonth(observations.filter((o) => o.currency === currency)).entries()].map(
+      ([month, inMonth]) => {
+        const prices = inMonth.map((o) => o.price);
+        return {
+          month,
+          median: this.median(prices),
+          low: Math.min(...prices),
+          high: Math.max(...prices),
+          count: prices.length,
+        };
+      }
+    );
+    return { currency, points };
+  }
+
+  /**
+   * The Amala Price Index for every city with observations, busiest city first
+   */
+  static cityIndex(observations: PriceObservation[]): CityPriceIndex[] {
+    const cities = new Map<string, PriceObservation[]>();
+    for (const observation of observations) {
+      const city = observation.city?.trim();
+      if (!city) continue;
+      const key = city.toLowerCase();
+      cities.set(key, [...(cities.get(key) || []), observation]);
+    }
+
+    return [...cities.values()]
+      .map((inCity) => {
+        const currency = this.dominantCurrency(inCity)!;
+        const comparable = inCity.filter((o) => o.currency === currency);
+        const points: PriceIndexPoint[] = [...this.byMonth(comparable).entries()].map(([month, inMonth]) => {
+          const spots = new Map<string, number[]>();
+          for (const o of inMonth) spots.set(o.locationId, [...(spots.get(o.locationId) || []), o.price]);
+          const median = this.median([...spots.values()].map((prices) => this.median(prices)));
+          return {
+            month,
+            median,
+            medianUsd: convertToUsd(median, currency),
+            locations: spots.size,
+            observations: inMonth.length,
+          };
+        });
+        const index: CityPriceIndex = { city: inCity[0].city!.trim(), country: inCity[0].country, currency, points };
+        return { index, observations: comparable.length };
+      })
+      .sort((a, b) => b.observations - a.observations)
+      .map(({ index }) => index);
+  }
+
+  /**
+   * Plates on an accepted menu that are new, or whose price or last-seen
+   * date changed, and so count as fresh observations
+   */
+  static changedPlates(previous: MenuItem[] = [], next: MenuItem[] = []): MenuItem[] {
+    const before = new Map(previous.map((item) => [item.id, item]));
+    return next.filter((item) => {
+      if (!item.available || !isPlate(item)) return false;
+      const old = before.get(item.id);
+      return !old || old.price !== item.price || old.currency !== item.currency || old.lastSeenAt !== item.lastSeenAt;
+    });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Trust scores from the reputation ledger. Each event's points decay with a
+ * half-life, so recent contributions (and penalties) weigh most. Because every
+ * event decays at the same rate, a stored score stays exact when scaled by
+ * the decay since it was computed.
+ */
+
+import type {
+  ReputationEvent,
+  ReputationHistoryPoint,
+  ReputationSummary,
+} from "@/types/reputation";
+import { REPUTATION_HALF_LIFE_DAYS, SCOUT_LEVELS } from "@/types/reputation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export class ReputationService {
+  /**
+   * Weight of a point `ageMs` old
+   */
+  static decay(ageMs: number): number {
+    return Math.pow(0.5, Math.max(0, ageMs) / (REPUTATION_HALF_LIFE_DAYS * DAY_MS));
+  }
+
+  static trustScore(events: ReputationEvent[], asOf: Date = new Date()): number {
+    const score = events
+      .filter((event) => !event.reversedAt && event.occurredAt <= asOf)
+      .reduce((sum, event) => sum + event.points * this.decay(asOf.getTime() - event.occurredAt.getTime()), 0);
+    return round(score);
+  }
+
+  /**
+   * A stored score brought up to date
+   */
+  static currentScore(trustScore: number, computedAt: Date, now: Date = new Date()): number {
+    return round(trustScore * this.decay(now.getTime() - computedAt.getTime()));
+  }
+
+  static levelFor(trustScore: number): { level: string; nextLevel: ReputationSummary["nextLevel"] } {
+    const index = SCOUT_LEVELS.reduce((found, level, i) => (trustScore >= level.minScore ? i : found), 0);
+    const next = SCOUT_LEVELS[index + 1];
+    return {
+      level: SCOUT_LEVELS[index].name,
+      nextLevel: next ? { name: next.name, minScore: next.minScore } : null,
+    };
+  }
+
+  static summarize(userEmail: string, events: ReputationEvent[], asOf: Date = new Date()): ReputationSummary {
+    const standing = events.filter((event) => !event.reversedAt);
+    const breakdown: ReputationSummary["breakdown"] = {};
+    for (const event of standing) {
+      const entry = breakdown[event.type] || { count: 0, points: 0 };
+      entry.count++;
+      entry.points += event.points;
+      breakdown[event.type] = entry;
+    }
+
+    const trustScore = this.trustScore(standing, asOf);
+    return {
+      userEmail,
+      points: standing.reduce((sum, event) => sum + event.points, 0),
+      trustScore,
+      ...this.levelFor(trustScore),
+      breakdown,
+      eventCount: standing.length,
+      updatedAt: asOf,
+    };
+  }
+
+  /**
+   * The trust score at the end of each of the last `days` days
+   */
+  static history(events: ReputationEvent[], days: number, asOf: Date = new Date()): ReputationHistoryPoint[] {
+    const points: ReputationHistoryPoint[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const end = new Date(asOf.getTime() - i * DAY_MS);
+      points.push({ date: end.toISOString().slice(0, 10), trustScore: this.trustScore(events, end) });
+    }
+    return points;
+  }
+}
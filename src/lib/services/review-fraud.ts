@@ -0,0 +1,236 @@
+/**
+ * Review fraud and spam scoring. Each signal adds points towards a 0-100
+ * risk score, and reviews at HIGH_RISK_SCORE or above are held for
+ * moderation with their reasons shown on the moderator dashboard.
+ *
+ * Only reviews posted before the one being scored count, so a historical
+ * backfill sees the same picture a live submission would have.
+ */
+
+import type { AmalaLocation, Review } from "@/types/location";
+import type { ReviewRisk, ReviewRiskLevel, ReviewRiskReason } from "@/types/review-risk";
+import { tokenize } from "@/lib/utils/text-normalization";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const MEDIUM_RISK_SCORE = 30;
+export const HIGH_RISK_SCORE = 60;
+
+// Texts are compared as overlapping 3-word shingles; very short texts are skipped
+const SHINGLE_SIZE = 3;
+const DUPLICATE_SIMILARITY = 0.8;
+const DUPLICATE_WINDOW = 30 * DAY;
+
+export interface ReviewRiskContext {
+  userReviews: Review[]; // other reviews by the same account
+  locationReviews: Review[]; // other reviews of the same location
+  comparisonReviews: Review[]; // recent reviews anywhere, checked for copied text
+  location: Pick<AmalaLocation, "submittedBy"> | null;
+  reviewer: { email?: string; createdAt?: Date } | null;
+  locationSubmitters: Record<string, string | undefined>; // submittedBy of each location the account reviewed
+}
+
+const timeOf = (review: Pick<Review, "date_posted">) => new Date(review.date_posted).getTime();
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export class ReviewFraudService {
+  // Shingles are reused heavily during backfills
+  private static shingleCache = new WeakMap<Review, Set<string>>();
+
+  /**
+   * Overlapping word n-grams of normalized text
+   */
+  static shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+    const tokens = tokenize(text, { keepStopwords: true });
+    const shingles = new Set<string>();
+    for (let i = 0; i + size <= tokens.length; i++) {
+      shingles.add(tokens.slice(i, i + size).join(" "));
+    }
+    return shingles;
+  }
+
+  /**
+   * Jaccard similarity of two shingle sets
+   */
+  static similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const shingle of a) {
+      if (b.has(shingle)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  static levelFor(score: number): ReviewRiskLevel {
+    if (score >= HIGH_RISK_SCORE) return "high";
+    if (score >= MEDIUM_RISK_SCORE) return "medium";
+    return "low";
+  }
+
+  static assess(review: Review, context: ReviewRiskContext): ReviewRisk {
+    const postedAt = timeOf(review);
+    const earlier = (reviews: Review[], window: number) =>
+      reviews.filter((other) => {
+        if (other.id === review.id) return false;
+        const time = timeOf(other);
+        return time <= postedAt && postedAt - time <= window;
+      });
+
+    const reasons = [
+      this.userVelocity(earlier(context.userReviews, DAY)),
+      this.repeatLocation(review, earlier(context.userReviews, 30 * DAY)),
+      this.locationVelocity(earlier(context.locationReviews, HOUR)),
+      this.ratingBurst(review, context.locationReviews),
+      this.duplicateText(review, earlier(
+        [...context.comparisonReviews, ...context.userReviews, ...context.locationReviews],
+        DUPLICATE_WINDOW
+      )),
+      this.newAccount(postedAt, context.reviewer),
+      this.collusion(review, earlier(context.userReviews, Infinity), context),
+    ].filter((reason): reason is ReviewRiskReason => reason !== null);
+
+    const score = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+    return { score, level: this.levelFor(score), reasons, scoredAt: new Date() };
+  }
+
+  private static userVelocity(lastDay: Review[]): ReviewRiskReason | null {
+    const count = lastDay.length + 1;
+    if (count < 5) return null;
+    return {
+      signal: "user_velocity",
+      detail: `${count} reviews from this account in 24h`,
+      points: count >= 10 ? 40 : 25,
+    };
+  }
+
+  private static repeatLocation(review: Review, lastMonth: Review[]): ReviewRiskReason | null {
+    const previous = lastMonth.filter((other) => other.location_id === review.location_id).length;
+    if (previous === 0) return null;
+    return {
+      signal: "repeat_location",
+      detail: `Already reviewed this location ${previous === 1 ? "once" : `${previous} times`} in the past 30 days`,
+      points: 25,
+    };
+  }
+
+  private static locationVelocity(lastHour: Review[]): ReviewRiskReason | null {
+    const count = lastHour.length + 1;
+    if (count < 5) return null;
+    return {
+      signal: "location_velocity",
+      detail: `${count} reviews of this location in the past hour`,
+      points: 20,
+    };
+  }
+
+  /**
+   * Several extreme ratings in a day that disagree with the location's
+   * established average (or arrive before it has one)
+   */
+  private static ratingBurst(review: Review, locationReviews: Review[]): ReviewRiskReason | null {
+    if (review.rating !== 1 && review.rating !== 5) return null;
+
+    const postedAt = timeOf(review);
+    const windowStart = postedAt - DAY;
+    const burst = locationReviews.filter((other) => {
+      const time = timeOf(other);
+      return other.id !== review.id && other.rating === review.rating && time >= windowStart && time <= postedAt;
+    }).length + 1;
+    if (burst < 4) return null;
+
+    const baseline = locationReviews.filter(
+      (other) => other.status === "approved" && timeOf(other) < windowStart
+    );
+    if (baseline.length < 3) {
+      return {
+        signal: "rating_burst",
+        detail: `${burst} ${review.rating}-star reviews in 24h on a location with little review history`,
+        points: 15,
+      };
+    }
+
+    const average = baseline.reduce((sum, other) => sum + other.rating, 0) / baseline.length;
+    if (Math.abs(average - review.rating) < 1.5) return null;
+    return {
+      signal: "rating_burst",
+      detail: `${burst} ${review.rating}-star reviews in 24h against a prior average of ${average.toFixed(1)}`,
+      points: 30,
+    };
+  }
+
+  private static duplicateText(review: Review, candidates: Review[]): ReviewRiskReason | null {
+    const shingles = this.shinglesOf(review);
+    if (shingles.size < SHINGLE_SIZE) return null;
+
+    let best: { similarity: number; sameAuthor: boolean } | null = null;
+    const seen = new Set<string>();
+    for (const other of candidates) {
+      if (seen.has(other.id)) continue;
+      seen.add(other.id);
+
+      const similarity = this.similarity(shingles, this.shinglesOf(other));
+      if (similarity < DUPLICATE_SIMILARITY) continue;
+
+      const sameAuthor = !!review.user_id && other.user_id === review.user_id;
+      // Copying another account's text is the stronger signal
+      if (!best || (best.sameAuthor && !sameAuthor) || (best.sameAuthor === sameAuthor && similarity > best.similarity)) {
+        best = { similarity, sameAuthor };
+      }
+    }
+
+    if (!best) return null;
+    const percent = Math.round(best.similarity * 100);
+    return best.sameAuthor
+      ? { signal: "duplicate_text", detail: `Text repeats an earlier review by this account (${percent}% similar)`, points: 25 }
+      : { signal: "duplicate_text", detail: `Text matches a review by another account (${percent}% similar)`, points: 35 };
+  }
+
+  private static newAccount(postedAt: number, reviewer: ReviewRiskContext["reviewer"]): ReviewRiskReason | null {
+    if (!reviewer?.createdAt) return null;
+    const age = postedAt - reviewer.createdAt.getTime();
+    if (age >= 7 * DAY) return null;
+
+    return age < DAY
+      ? { signal: "new_account", detail: `Account created ${plural(Math.max(1, Math.round(age / HOUR)), "hour")} before reviewing`, points: 15 }
+      : { signal: "new_account", detail: `Account created ${plural(Math.round(age / DAY), "day")} before reviewing`, points: 8 };
+  }
+
+  /**
+   * The reviewer submitted the location, or their positive reviews cluster on
+   * locations submitted by one other account
+   */
+  private static collusion(review: Review, history: Review[], context: ReviewRiskContext): ReviewRiskReason | null {
+    const reviewerEmail = context.reviewer?.email?.toLowerCase();
+    const submitter = context.location?.submittedBy?.toLowerCase();
+    if (!submitter || submitter === "unknown user") return null;
+
+    if (reviewerEmail && submitter === reviewerEmail) {
+      return { signal: "collusion", detail: "Reviewer submitted this location", points: 35 };
+    }
+    if (review.rating < 4) return null;
+
+    const reviews = [...history, review];
+    const praised = reviews.filter(
+      (other) => other.rating >= 4 && context.locationSubmitters[other.location_id]?.toLowerCase() === submitter
+    );
+    const locations = new Set(praised.map((other) => other.location_id));
+    if (locations.size < 3 || praised.length / reviews.length < 0.6) return null;
+
+    return {
+      signal: "collusion",
+      detail: `${praised.length} of ${plural(reviews.length, "review")} from this account praise locations submitted by ${context.location!.submittedBy}`,
+      points: 30,
+    };
+  }
+
+  private static shinglesOf(review: Review): Set<string> {
+    let shingles = this.shingleCache.get(review);
+    if (!shingles) {
+      shingles = this.shingles(review.text || "");
+      this.shingleCache.set(review, shingles);
+    }
+    return shingles;
+  }
+}
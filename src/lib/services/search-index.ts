@@ -0,0 +1,346 @@
+/**
+ * In-memory inverted index for location search.
+ * Indexes name, cuisine, address, description and dish mentions from reviews,
+ * folds Yoruba diacritics, canonicalizes synonyms, expands query terms by
+ * prefix and edit distance, and ranks with BM25 plus rating/open-now boosts.
+ */
+
+import { AmalaLocation, Review } from "@/types/location";
+import { computeIsOpenNow } from "@/lib/utils/hours";
+import { editDistance, normalizeText, tokenize } from "@/lib/utils/text-normalization";
+
+export type SearchField = "name" | "cuisine" | "address" | "dishes" | "description";
+
+export interface SearchHit {
+  location: AmalaLocation;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface SearchIndexOptions {
+  // Approved reviews per location id; falls back to location.reviews
+  reviewsByLocation?: Map<string, Pick<Review, "text" | "status">[]>;
+}
+
+export interface IndexSearchOptions {
+  limit?: number;
+  at?: Date; // Evaluation time for the open-now boost
+}
+
+// BM25F-style field weights: a term in the name counts three times as much as in the description
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  cuisine: 2,
+  dishes: 1.5,
+  address: 1.2,
+  description: 1,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_FACTOR = 0.75;
+const MAX_EXPANSIONS_PER_TERM = 20;
+
+// Multi-word synonyms, rewritten on normalized text before tokenizing
+const PHRASE_SYNONYMS: [RegExp, string][] = [
+  [/\bjute (leaf|leaves)\b/g, "ewedu"],
+  [/\bbean soup\b/g, "gbegiri"],
+  [/\bokr[ao] soup\b/g, "ila"],
+  [/\bcow skin\b/g, "ponmo"],
+  [/\bmama put\b/g, "mamaput"],
+  [/\bmoin moin\b/g, "moinmoin"],
+];
+
+// Spelling variants mapped to one canonical term
+const TOKEN_SYNONYMS: Record<string, string> = {
+  bukka: "buka",
+  bukkas: "buka",
+  bukas: "buka",
+  bukateria: "buka",
+  jute: "ewedu",
+  okra: "ila",
+  okro: "ila",
+  pomo: "ponmo",
+  kpomo: "ponmo",
+  saki: "shaki",
+  tripe: "shaki",
+  amaala: "amala",
+  gbegbiri: "gbegiri",
+  moimoi: "moinmoin",
+  plantain: "dodo",
+};
+
+// Dishes worth indexing when reviewers mention them or a menu lists them
+const DISH_TERMS = new Set([
+  "amala", "ewedu", "gbegiri", "abula", "ila", "efo", "ogunfe", "ponmo", "shaki",
+  "eba", "iyan", "fufu", "semo", "ogbono", "egusi", "assorted", "gizzard",
+  "orisirisi", "ewa", "dodo", "moinmoin", "eko", "lafun", "isu", "snail", "obe",
+]);
+
+/**
+ * Normalize, apply synonyms and drop stopwords
+ */
+export function analyzeText(text: string): string[] {
+  let normalized = normalizeText(text);
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return tokenize(normalized).map(token => TOKEN_SYNONYMS[token] || token);
+}
+
+interface IndexedDocument {
+  location: AmalaLocation;
+  length: number;
+  normalizedName: string;
+}
+
+interface SuggestionEntry {
+  label: string;
+  normalized: string;
+  tokens: string[];
+  count: number;
+}
+
+export class SearchIndex {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, Map<number, number>>();
+  private vocabulary: string[] = [];
+  private averageLength = 0;
+  private suggestions = new Map<string, SuggestionEntry>();
+
+  constructor(locations: AmalaLocation[], options: SearchIndexOptions = {}) {
+    locations.forEach(location => this.addDocument(location, options));
+
+    const totalLength = this.documents.reduce((sum, doc) => sum + doc.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Ranked matches for a free-text query. Every query term must match
+   * something (exactly, by prefix or fuzzily) for full credit; documents
+   * matching only some terms are kept but scaled down.
+   */
+  search(query: string, options: IndexSearchOptions = {}): SearchHit[] {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matched: Set<string> }>();
+
+    queryTerms.forEach((queryTerm, index) => {
+      const isLastTerm = index === queryTerms.length - 1;
+      const termScores = new Map<number, number>();
+
+      for (const [term, factor] of this.expandTerm(queryTerm, isLastTerm)) {
+        const postings = this.postings.get(term)!;
+        const idf = this.inverseDocumentFrequency(postings.size);
+
+        for (const [docIndex, frequency] of postings) {
+          const score = this.bm25(frequency, this.documents[docIndex].length, idf) * factor;
+          if (score > (termScores.get(docIndex) || 0)) {
+            termScores.set(docIndex, score);
+          }
+        }
+      }
+
+      for (const [docIndex, score] of termScores) {
+        const entry = scores.get(docIndex) || { score: 0, matched: new Set<string>() };
+        entry.score += score;
+        entry.matched.add(queryTerm);
+        scores.set(docIndex, entry);
+      }
+    });
+
+    const at = options.at || new Date();
+    const normalizedQuery = queryTerms.join(" ");
+    const hits: SearchHit[] = [];
+
+    for (const [docIndex, { score, matched }] of scores) {
+      const { location, normalizedName } = this.documents[docIndex];
+      let finalScore = score * (matched.size / queryTerms.length);
+
+      // Name phrase bonuses
+      if (normalizedName === normalizedQuery) {
+        finalScore *= 2;
+      } else if (normalizedName.startsWith(normalizedQuery)) {
+        finalScore *= 1.5;
+      }
+
+      // Boost well-rated (up to +20% at 5 stars) and currently open locations
+      if (location.rating && location.rating > 3) {
+        finalScore *= 1 + Math.min((location.rating - 3) / 2, 1) * 0.2;
+      }
+      if (computeIsOpenNow(location, at)) {
+        finalScore *= 1.1;
+      }
+
+      hits.push({ location, score: finalScore, matchedTerms: Array.from(matched) });
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  /**
+   * Autocomplete suggestions from names, cuisines, areas and dishes
+   */
+  suggest(query: string, limit: number = 5): string[] {
+    const queryTerms = analyzeText(query);
+    if (queryTerms.length === 0) return [];
+
+    const normalizedQuery = queryTerms.join(" ");
+    const lastTerm = queryTerms[queryTerms.length - 1];
+    const leadingTerms = queryTerms.slice(0, -1);
+
+    const ranked: { entry: SuggestionEntry; rank: number }[] = [];
+    for (const entry of this.suggestions.values()) {
+      let rank = 0;
+      if (entry.normalized.startsWith(normalizedQuery)) {
+        rank = 3;
+      } else if (leadingTerms.every(term => entry.tokens.includes(term))) {
+        if (entry.tokens.some(token => token.startsWith(lastTerm))) {
+          rank = 2;
+        } else if (
+          lastTerm.length >= 4 &&
+          entry.tokens.some(token => editDistance(token, lastTerm, 1) <= 1)
+        ) {
+          rank = 1;
+        }
+      }
+      if (rank > 0) ranked.push({ entry, rank });
+    }
+
+    return ranked
+      .sort((a, b) =>
+        b.rank - a.rank ||
+        b.entry.count - a.entry.count ||
+        a.entry.label.length - b.entry.label.length
+      )
+      .slice(0, limit)
+      .map(({ entry }) => entry.label);
+  }
+
+  private addDocument(location: AmalaLocation, options: SearchIndexOptions): void {
+    const docIndex = this.documents.length;
+    const reviews = options.reviewsByLocation?.get(location.id) || location.reviews || [];
+    const reviewText = reviews
+      .filter(review => review.status === "approved" && review.text)
+      .map(review => review.text)
+      .join(" ");
+    const menuText = (location.menu || [])
+      .filter(item => item.available)
+      .map(item => `${item.name} ${item.dishes.join(" ").replace(/_/g, " ")}`)
+      .join(" ");
+
+    const fields: Record<SearchField, string[]> = {
+      name: analyzeText(location.name || ""),
+      cuisine: analyzeText((location.cuisine || []).join(" ")),
+      address: analyzeText([location.address, location.city, location.country].filter(Boolean).join(" ")),
+      description: analyzeText(location.description || ""),
+      dishes: analyzeText(`${reviewText} ${menuText}`).filter(token => DISH_TERMS.has(token)),
+    };
+
+    let length = 0;
+    for (const field of Object.keys(fields) as SearchField[]) {
+      const weight = FIELD_WEIGHTS[field];
+      for (const term of fields[field]) {
+        let postings = this.postings.get(term);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(term, postings);
+        }
+        postings.set(docIndex, (postings.get(docIndex) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    this.documents.push({ location, length, normalizedName: fields.name.join(" ") });
+
+    this.addSuggestion(location.name);
+    (location.cuisine || []).forEach(cuisine => this.addSuggestion(cuisine));
+    (location.address || "").split(",").forEach(part => {
+      const trimmed = part.trim();
+      // Skip street numbers and postcodes
+      if (trimmed.length > 3 && !/\d/.test(trimmed)) this.addSuggestion(trimmed);
+    });
+    new Set(fields.dishes).forEach(dish => this.addSuggestion(dish));
+  }
+
+  private addSuggestion(label: string | undefined): void {
+    if (!label) return;
+    const tokens = analyzeText(label);
+    if (tokens.length === 0) return;
+
+    const normalized = tokens.join(" ");
+    const existing = this.suggestions.get(normalized);
+    if (existing) {
+      existing.count++;
+    } else {
+      this.suggestions.set(normalized, { label: label.trim(), normalized, tokens, count: 1 });
+    }
+  }
+
+  /**
+   * Index terms a query term should match, with a score factor:
+   * exact 1, prefix 0.75, fuzzy 0.7 (one edit) or 0.55 (two edits)
+   */
+  private expandTerm(queryTerm: string, allowShortPrefix: boolean): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      expansions.set(queryTerm, 1);
+    }
+
+    // Prefixes: the last term may still be being typed
+    if (queryTerm.length >= 3 || (allowShortPrefix && queryTerm.length >= 2)) {
+      for (const term of this.termsWithPrefix(queryTerm)) {
+        if (expansions.size >= MAX_EXPANSIONS_PER_TERM) break;
+        if (!expansions.has(term)) expansions.set(term, PREFIX_FACTOR);
+      }
+    }
+
+    // Typos: one edit for 4-7 characters, two from 8
+    if (queryTerm.length >= 4) {
+      const maxDistance = queryTerm.length >= 8 ? 2 : 1;
+      for (const term of this.vocabulary) {
+        if (expansions.has(term) || Math.abs(term.length - queryTerm.length) > maxDistance) continue;
+        const distance = editDistance(queryTerm, term, maxDistance);
+        if (distance <= maxDistance) {
+          expansions.set(term, distance === 1 ? 0.7 : 0.55);
+        }
+      }
+    }
+
+    return expansions;
+  }
+
+  // Binary search into the sorted vocabulary
+  private termsWithPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(prefix); i++) {
+      if (this.vocabulary[i] !== prefix) terms.push(this.vocabulary[i]);
+    }
+    return terms;
+  }
+
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    const n = this.documents.length;
+    return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private bm25(frequency: number, length: number, idf: number): number {
+    const lengthRatio = this.averageLength > 0 ? length / this.averageLength : 1;
+    return idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+  }
+}
@@ -1,4 +1,8 @@
 import { AmalaLocation, LocationFilter } from "@/types/location";
+import { matchesHoursFilter } from "@/lib/utils/hours";
+import { matchesMenuFilter } from "@/lib/utils/menu";
+import { compareByRanking } from "@/lib/utils/ratings";
+import { SearchIndex } from "./search-index";
 
 export interface SearchResult {
   locations: AmalaLocation[];
@@ -38,14 +42,19 @@ export class SearchService {
     }
 
     try {
+      const index = new SearchIndex(locations);
       let filteredLocations = [...locations];
 
       // Apply basic filters first
       filteredLocations = this.applyFilters(filteredLocations, filters);
 
-      // Apply search query
+      // Apply search query, ranked by the inverted index
       if (query.trim()) {
-        filteredLocations = this.performSearch(filteredLocations, query);
+        const allowedIds = new Set(filteredLocations.map((location) => location.id));
+        filteredLocations = index
+          .search(query)
+          .map((hit) => hit.location)
+          .filter((location) => allowedIds.has(location.id));
       }
 
       // Sort results
@@ -63,7 +72,7 @@ export class SearchService {
         locations: paginatedResults,
         totalCount: filteredLocations.length,
         searchTime: Date.now() - startTime,
-        suggestions: this.generateSuggestions(query, locations),
+        suggestions: index.suggest(query),
       };
 
       // Cache the result
@@ -84,149 +93,27 @@ export class SearchService {
   }
 
   /**
-   * Get search suggestions based on query
+   * Get search suggestions based on query (names, cuisines, areas, dishes),
+   * tolerant of typos and diacritics
    */
   static generateSuggestions(
     query: string,
-    locations: AmalaLocation[]
+    locations: AmalaLocation[] | SearchIndex
   ): string[] {
     if (!query.trim()) return [];
 
-    const suggestions = new Set<string>();
-    const queryLower = query.toLowerCase();
-
-    // Add location name suggestions
-    locations.forEach((location) => {
-      if (location.name.toLowerCase().includes(queryLower)) {
-        suggestions.add(location.name);
-      }
-    });
-
-    // Add cuisine type suggestions
-    locations.forEach((location) => {
-      location.cuisine.forEach((cuisine) => {
-        if (cuisine.toLowerCase().includes(queryLower)) {
-          suggestions.add(cuisine);
-        }
-      });
-    });
-
-    // Add area suggestions from addresses
-    locations.forEach((location) => {
-      const addressParts = location.address.split(",");
-      addressParts.forEach((part) => {
-        const trimmed = part.trim();
-        if (trimmed.toLowerCase().includes(queryLower) && trimmed.length > 3) {
-          suggestions.add(trimmed);
-        }
-      });
-    });
-
-    return Array.from(suggestions).slice(0, 5);
-  }
-
-  private static performSearch(
-    locations: AmalaLocation[],
-    query: string
-  ): AmalaLocation[] {
-    const queryLower = query.toLowerCase().trim();
-    const searchTerms = queryLower.split(/\s+/);
-
-    return locations
-      .map((location) => ({
-        location,
-        score: this.calculateRelevanceScore(location, searchTerms, queryLower),
-      }))
-      .filter((item) => item.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .map((item) => item.location);
-  }
-
-  private static calculateRelevanceScore(
-    location: AmalaLocation,
-    searchTerms: string[],
-    fullQuery: string
-  ): number {
-    let score = 0;
-    const weights = {
-      exactNameMatch: 100,
-      nameContains: 50,
-      nameStartsWith: 75,
-      cuisineMatch: 30,
-      addressMatch: 20,
-      descriptionMatch: 10,
-      multiTermBonus: 25,
-    };
-
-    const name = location.name.toLowerCase();
-    const address = location.address.toLowerCase();
-    const description = location.description?.toLowerCase() || "";
-    const cuisine = location.cuisine.join(" ").toLowerCase();
-
-    // Exact name match
-    if (name === fullQuery) {
-      score += weights.exactNameMatch;
-    }
-
-    // Name starts with query
-    if (name.startsWith(fullQuery)) {
-      score += weights.nameStartsWith;
-    }
-
-    // Name contains query
-    if (name.includes(fullQuery)) {
-      score += weights.nameContains;
-    }
-
-    // Individual term matching
-    let matchedTerms = 0;
-    searchTerms.forEach((term) => {
-      if (name.includes(term)) {
-        score += weights.nameContains / searchTerms.length;
-        matchedTerms++;
-      }
-      if (cuisine.includes(term)) {
-        score += weights.cuisineMatch / searchTerms.length;
-        matchedTerms++;
-      }
-      if (address.includes(term)) {
-        score += weights.addressMatch / searchTerms.length;
-        matchedTerms++;
-      }
-      if (description.includes(term)) {
-        score += weights.descriptionMatch / searchTerms.length;
-        matchedTerms++;
-      }
-    });
-
-    // Bonus for matching multiple terms
-    if (matchedTerms > 1) {
-      score += weights.multiTermBonus * (matchedTerms - 1);
-    }
-
-    // Boost for popular locations
-    if (location.rating && location.rating > 4.0) {
-      score *= 1.2;
-    }
-
-    // Boost for currently open locations
-    if (location.isOpenNow) {
-      score *= 1.1;
-    }
-
-    return score;
+    const index = locations instanceof SearchIndex ? locations : new SearchIndex(locations);
+    return index.suggest(query, 5);
   }
 
   private static applyFilters(
     locations: AmalaLocation[],
     filters: LocationFilter
   ): AmalaLocation[] {
+    const now = new Date();
     return locations.filter((location) => {
-      // Open now filter
-      if (
-        filters.isOpenNow !== undefined &&
-        location.isOpenNow !== filters.isOpenNow
-      ) {
+      // Open now / open at / opening-closing soon, derived from hours
+      if (!matchesHoursFilter(location, filters, now)) {
         return false;
       }
 
@@ -247,6 +134,11 @@ export class SearchService {
         }
       }
 
+      // Dish and dish price filter, from the menu
+      if (!matchesMenuFilter(location, filters)) {
+        return false;
+      }
+
       // Cuisine filter
       if (filters.cuisine && filters.cuisine.length > 0) {
         const hasMatchingCuisine = filters.cuisine.some((filterCuisine) =>
@@ -293,7 +185,8 @@ export class SearchService {
   ): AmalaLocation[] {
     switch (sortBy) {
       case "rating":
-        return locations.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+        // Bayesian average, so a single 5-star review doesn't outrank hundreds of 4.6s
+        return locations.sort(compareByRanking);
 
       case "name":
         return locations.sort((a, b) => a.name.localeCompare(b.name));
@@ -304,7 +197,7 @@ export class SearchService {
 
       case "relevance":
       default:
-        // Already sorted by relevance in performSearch
+        // Already sorted by relevance by the search index
         return locations;
     }
   }
@@ -9,7 +9,10 @@ export type AnalyticsEvent =
   | { type: "submission_created"; locationName: string }
   | { type: "location_moderated"; action: "approve" | "reject"; id: string }
   | { type: "directions_clicked"; id: string }
-  | { type: "place_viewed"; id: string };
+  | { type: "place_viewed"; id: string }
+  | { type: "location_shared"; id: string }
+  | { type: "photo_viewed"; id: string; photoIndex: number }
+  | { type: "search_impression"; ids: string[]; resultCount: number };
 
 export function trackEvent(event: AnalyticsEvent) {
   try {
@@ -24,6 +27,7 @@ export function trackEvent(event: AnalyticsEvent) {
           event.type === "location_moderated" ? `mod_${event.action}` :
           event.type,
         location_id: (event as any).id,
+        location_ids: event.type === "search_impression" ? event.ids : undefined,
         metadata: event,
       }),
       keepalive: true,
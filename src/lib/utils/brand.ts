@@ -0,0 +1,48 @@
+/**
+ * Chain helpers: filling branch gaps from the brand, and collapsing a
+ * chain's branches into one search result.
+ */
+
+import type { AmalaLocation } from "@/types/location";
+import type { Brand } from "@/types/brand";
+
+/**
+ * A branch with the brand's logo, description, website and menu filling in
+ * for what the branch doesn't have. The branch's own values always win.
+ */
+export function withBrandDefaults(location: AmalaLocation, brand?: Brand): AmalaLocation {
+  if (!brand) return location;
+  return {
+    ...location,
+    description: location.description || brand.description,
+    website: location.website || brand.website,
+    images: location.images?.length ? location.images : brand.logo ? [brand.logo] : location.images,
+    menu: location.menu?.length ? location.menu : brand.menu,
+  };
+}
+
+export interface BranchGroup {
+  location: AmalaLocation; // the best-ranked branch, or the location itself
+  branches: AmalaLocation[]; // every branch of the brand in the results, best first
+}
+
+/**
+ * Ranked results with each brand's branches folded into the position of its
+ * best-ranked branch. Locations without a brand stay as they are.
+ */
+export function collapseBranches(locations: AmalaLocation[]): BranchGroup[] {
+  const groups: BranchGroup[] = [];
+  const byBrand = new Map<string, BranchGroup>();
+
+  for (const location of locations) {
+    const existing = location.brandId ? byBrand.get(location.brandId) : undefined;
+    if (existing) {
+      existing.branches.push(location);
+      continue;
+    }
+    const group = { location, branches: [location] };
+    groups.push(group);
+    if (location.brandId) byBrand.set(location.brandId, group);
+  }
+  return groups;
+}
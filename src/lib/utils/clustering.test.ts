@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeClusters,
+  getClusterExpansionZoom,
+  isWithinBounds,
+  pixelDistance,
+  type ClusterPoint,
+} from "./clustering";
+
+// At zoom 10 one degree of longitude on the equator is ~728 pixels, so
+// 0.05° is ~36px (inside the default 60px grid) and 0.1° is ~73px (outside).
+const point = (lng: number, id: string, lat = 0): ClusterPoint<string> => ({ lat, lng, data: id });
+
+describe("computeClusters", () => {
+  it("groups points within gridSize pixels", () => {
+    const clusters = computeClusters([point(3.3, "a"), point(3.35, "b")], { zoom: 10 });
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].points.map((p) => p.data)).toEqual(["a", "b"]);
+    expect(clusters[0].center.lng).toBeCloseTo(3.325);
+  });
+
+  it("keeps points beyond gridSize pixels apart", () => {
+    const clusters = computeClusters([point(3.3, "a"), point(3.4, "b")], { zoom: 10 });
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters.every((c) => c.points.length === 1)).toBe(true);
+  });
+
+  it("treats the grid size as an inclusive threshold", () => {
+    const a = point(3.3, "a");
+    const b = point(3.35, "b");
+    const distance = pixelDistance(a, b, 10);
+
+    expect(computeClusters([a, b], { zoom: 10, gridSize: distance })).toHaveLength(1);
+    expect(computeClusters([a, b], { zoom: 10, gridSize: distance - 0.01 })).toHaveLength(2);
+  });
+
+  it("splits groups smaller than minClusterSize into single markers", () => {
+    const clusters = computeClusters([point(3.3, "a"), point(3.35, "b")], {
+      zoom: 10,
+      minClusterSize: 3,
+    });
+
+    expect(clusters).toHaveLength(2);
+  });
+
+  it("stops clustering at maxZoom", () => {
+    const points = [point(3.3, "a"), point(3.30001, "b")];
+
+    expect(computeClusters(points, { zoom: 14, maxZoom: 15 })).toHaveLength(1);
+    expect(computeClusters(points, { zoom: 15, maxZoom: 15 })).toHaveLength(2);
+    expect(computeClusters(points, { zoom: 18, maxZoom: 15 })).toHaveLength(2);
+  });
+
+  it("only clusters points inside the given bounds", () => {
+    const clusters = computeClusters([point(3.3, "a"), point(3.35, "b"), point(10, "c")], {
+      zoom: 10,
+      bounds: { north: 1, south: -1, east: 4, west: 3 },
+    });
+
+    expect(clusters.flatMap((c) => c.points.map((p) => p.data))).toEqual(["a", "b"]);
+  });
+});
+
+describe("isWithinBounds", () => {
+  it("handles bounds crossing the antimeridian", () => {
+    const bounds = { north: 10, south: -10, east: -170, west: 170 };
+
+    expect(isWithinBounds({ lat: 0, lng: 175 }, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: 0, lng: -175 }, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: 0, lng: 0 }, bounds)).toBe(false);
+  });
+});
+
+describe("getClusterExpansionZoom", () => {
+  it("returns the first zoom where the members spread past gridSize", () => {
+    const [cluster] = computeClusters([point(3.3, "a"), point(3.35, "b")], { zoom: 10 });
+
+    expect(getClusterExpansionZoom(cluster, 10)).toBe(11);
+  });
+
+  it("caps the expansion zoom at maxZoom", () => {
+    const [cluster] = computeClusters([point(3.3, "a"), point(3.3000001, "b")], { zoom: 10 });
+
+    expect(getClusterExpansionZoom(cluster, 10, { maxZoom: 15 })).toBe(15);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Pure marker clustering math (no Google Maps dependency)
+ */
+
+export interface LatLngPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface ClusterPoint<T = unknown> extends LatLngPoint {
+  data: T;
+}
+
+export interface LatLngBoundsLiteral {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface Cluster<T = unknown> {
+  center: LatLngPoint;
+  points: ClusterPoint<T>[];
+  bounds: LatLngBoundsLiteral;
+}
+
+export interface ClusterComputeOptions {
+  zoom: number;
+  gridSize?: number; // Cluster radius in screen pixels
+  maxZoom?: number; // At or above this zoom, never cluster
+  minClusterSize?: number; // Smallest group rendered as a cluster
+  bounds?: LatLngBoundsLiteral; // Only cluster points inside these bounds
+}
+
+const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+
+/**
+ * Project a lat/lng to Web Mercator world pixel coordinates at a given zoom
+ */
+export function projectToPixels(
+  point: LatLngPoint,
+  zoom: number
+): { x: number; y: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.lat));
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+
+  return {
+    x: ((point.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Pixel distance between two points at a given zoom
+ */
+export function pixelDistance(
+  a: LatLngPoint,
+  b: LatLngPoint,
+  zoom: number
+): number {
+  const pa = projectToPixels(a, zoom);
+  const pb = projectToPixels(b, zoom);
+  return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+}
+
+/**
+ * Check whether a point lies inside bounds (handles antimeridian crossing)
+ */
+export function isWithinBounds(
+  point: LatLngPoint,
+  bounds: LatLngBoundsLiteral
+): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  if (bounds.west <= bounds.east) {
+    return point.lng >= bounds.west && point.lng <= bounds.east;
+  }
+  return point.lng >= bounds.west || point.lng <= bounds.east;
+}
+
+/**
+ * Grow bounds by a fraction of their size on each side
+ */
+export function padBounds(
+  bounds: LatLngBoundsLiteral,
+  ratio: number
+): LatLngBoundsLiteral {
+  const latPad = (bounds.north - bounds.south) * ratio;
+  const lngSpan =
+    bounds.west <= bounds.east
+      ? bounds.east - bounds.west
+      : 360 - (bounds.west - bounds.east);
+  const lngPad = lngSpan * ratio;
+
+  return {
+    north: Math.min(90, bounds.north + latPad),
+    south: Math.max(-90, bounds.south - latPad),
+    east: lngSpan + 2 * lngPad >= 360 ? 180 : wrapLng(bounds.east + lngPad),
+    west: lngSpan + 2 * lngPad >= 360 ? -180 : wrapLng(bounds.west - lngPad),
+  };
+}
+
+function wrapLng(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+function boundsOf(points: LatLngPoint[]): LatLngBoundsLiteral {
+  return points.reduce<LatLngBoundsLiteral>(
+    (acc, p) => ({
+      north: Math.max(acc.north, p.lat),
+      south: Math.min(acc.south, p.lat),
+      east: Math.max(acc.east, p.lng),
+      west: Math.min(acc.west, p.lng),
+    }),
+    { north: -90, south: 90, east: -180, west: 180 }
+  );
+}
+
+/**
+ * Group points into clusters using greedy distance-based grid clustering.
+ *
+ * Each point joins the nearest existing cluster whose center is within
+ * `gridSize` pixels at the current zoom, otherwise it starts a new cluster.
+ * Cluster centers are the running mean of their members.
+ */
+export function computeClusters<T>(
+  points: ClusterPoint<T>[],
+  options: ClusterComputeOptions
+): Cluster<T>[] {
+  const { zoom, gridSize = 60, maxZoom = 15, minClusterSize = 2, bounds } = options;
+
+  const visible = bounds
+    ? points.filter((p) => isWithinBounds(p, bounds))
+    : points;
+
+  if (zoom >= maxZoom) {
+    return visible.map((p) => singleton(p));
+  }
+
+  const groups: {
+    points: ClusterPoint<T>[];
+    center: LatLngPoint;
+    pixel: { x: number; y: number };
+  }[] = [];
+
+  for (const point of visible) {
+    const pixel = projectToPixels(point, zoom);
+    let nearest: (typeof groups)[number] | null = null;
+    let nearestDistance = Infinity;
+
+    for (const group of groups) {
+      const distance = Math.hypot(group.pixel.x - pixel.x, group.pixel.y - pixel.y);
+      if (distance <= gridSize && distance < nearestDistance) {
+        nearest = group;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest) {
+      groups.push({ points: [point], center: { lat: point.lat, lng: point.lng }, pixel });
+      continue;
+    }
+
+    const count = nearest.points.length;
+    nearest.points.push(point);
+    nearest.center = {
+      lat: (nearest.center.lat * count + point.lat) / (count + 1),
+      lng: (nearest.center.lng * count + point.lng) / (count + 1),
+    };
+    nearest.pixel = projectToPixels(nearest.center, zoom);
+  }
+
+  const clusters: Cluster<T>[] = [];
+  for (const group of groups) {
+    if (group.points.length < minClusterSize) {
+      group.points.forEach((p) => clusters.push(singleton(p)));
+    } else {
+      clusters.push({
+        center: group.center,
+        points: group.points,
+        bounds: boundsOf(group.points),
+      });
+    }
+  }
+
+  return clusters;
+}
+
+function singleton<T>(point: ClusterPoint<T>): Cluster<T> {
+  return {
+    center: { lat: point.lat, lng: point.lng },
+    points: [point],
+    bounds: { north: point.lat, south: point.lat, east: point.lng, west: point.lng },
+  };
+}
+
+/**
+ * Zoom level at which a cluster's members stop overlapping within gridSize,
+ * capped at maxZoom. Used to expand a cluster on click.
+ */
+export function getClusterExpansionZoom<T>(
+  cluster: Cluster<T>,
+  currentZoom: number,
+  options: { gridSize?: number; maxZoom?: number } = {}
+): number {
+  const { gridSize = 60, maxZoom = 15 } = options;
+  const corners: LatLngPoint[] = [
+    { lat: cluster.bounds.north, lng: cluster.bounds.west },
+    { lat: cluster.bounds.south, lng: cluster.bounds.east },
+  ];
+
+  for (let zoom = Math.floor(currentZoom) + 1; zoom <= maxZoom; zoom++) {
+    if (pixelDistance(corners[0], corners[1], zoom) > gridSize) {
+      return zoom;
+    }
+  }
+
+  return maxZoom;
+}
+
+/**
+ * Badge size and color scaled by cluster population
+ */
+export function getClusterBadgeStyle(count: number): { size: number; color: string } {
+  if (count < 10) return { size: 40, color: "#10B981" };
+  if (count < 50) return { size: 48, color: "#F59E0B" };
+  if (count < 200) return { size: 56, color: "#EF4444" };
+  return { size: 64, color: "#8B5CF6" };
+}
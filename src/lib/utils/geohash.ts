@@ -0,0 +1,220 @@
+/**
+ * Geohash encoding and range planning for geospatial Firestore queries.
+ * Locations store a full-precision `geohash`; area queries are turned into a
+ * small set of prefixes that can be fetched with orderBy/startAt/endAt.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Inclusive [start, end] string range for orderBy("geohash").startAt(start).endAt(end)
+export interface GeohashRange {
+  prefix: string;
+  start: string;
+  end: string;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+const EARTH_RADIUS_KM = 6371;
+
+export const GEOHASH_PRECISION = 9; // ~5m cells, plenty for restaurants
+const MAX_QUERY_RANGES = 9; // Keep the number of Firestore queries per search small
+
+/**
+ * Encode a coordinate as a geohash string
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number = GEOHASH_PRECISION): string {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let hash = "";
+  let bit = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        charIndex = charIndex * 2 + 1;
+        lngMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        charIndex = charIndex * 2 + 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[charIndex];
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Bounding box of a geohash cell
+ */
+export function decodeGeohashBounds(hash: string): GeoBounds {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) throw new Error(`Invalid geohash character: ${char}`);
+
+    for (let n = 4; n >= 0; n--) {
+      const bitValue = (index >> n) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (bitValue === 1) lngMin = mid; else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bitValue === 1) latMin = mid; else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { north: latMax, south: latMin, east: lngMax, west: lngMin };
+}
+
+/**
+ * Whether a coordinate can be indexed (finite, in range, not the 0,0 placeholder)
+ */
+export function isIndexableCoordinate(coordinates?: Partial<GeoPoint> | null): coordinates is GeoPoint {
+  if (!coordinates) return false;
+  const { lat, lng } = coordinates;
+  if (typeof lat !== "number" || typeof lng !== "number") return false;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return false;
+  return !(lat === 0 && lng === 0);
+}
+
+/**
+ * Geohash for a location's coordinates, or undefined when they can't be indexed
+ */
+export function geohashForCoordinates(coordinates?: Partial<GeoPoint> | null): string | undefined {
+  return isIndexableCoordinate(coordinates)
+    ? encodeGeohash(coordinates.lat, coordinates.lng)
+    : undefined;
+}
+
+// Cell size in degrees at a given precision
+function cellSize(precision: number): { lat: number; lng: number } {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+}
+
+// Split boxes that cross the antimeridian (west > east)
+function splitAntimeridian(bounds: GeoBounds): GeoBounds[] {
+  if (bounds.west <= bounds.east) return [bounds];
+  return [
+    { ...bounds, east: 180 },
+    { ...bounds, west: -180 },
+  ];
+}
+
+// Every cell at the given precision that intersects the boxes
+function coveringCells(boxes: GeoBounds[], precision: number, limit: number): string[] | null {
+  const size = cellSize(precision);
+  const cells = new Set<string>();
+
+  for (const box of boxes) {
+    const south = Math.max(box.south, -90);
+    const north = Math.min(box.north, 90);
+    // Snap to cell boundaries so every intersecting cell gets sampled
+    const latStart = Math.floor((south + 90) / size.lat) * size.lat - 90;
+    const lngStart = Math.floor((box.west + 180) / size.lng) * size.lng - 180;
+
+    for (let lat = latStart; lat <= north; lat += size.lat) {
+      for (let lng = lngStart; lng <= box.east; lng += size.lng) {
+        const sampleLat = Math.min(lat + size.lat / 2, 90);
+        const sampleLng = lng + size.lng / 2 > 180 ? lng + size.lng / 2 - 360 : lng + size.lng / 2;
+        cells.add(encodeGeohash(sampleLat, sampleLng, precision));
+        if (cells.size > limit) return null;
+      }
+    }
+  }
+
+  return Array.from(cells);
+}
+
+/**
+ * Plan geohash prefix ranges covering a bounding box. Uses the finest
+ * precision that needs at most MAX_QUERY_RANGES prefixes, so each query
+ * only reads documents near the box.
+ */
+export function geohashRangesForBounds(bounds: GeoBounds, maxRanges: number = MAX_QUERY_RANGES): GeohashRange[] {
+  const boxes = splitAntimeridian(bounds);
+  let best: string[] = [""];
+
+  for (let precision = 1; precision <= GEOHASH_PRECISION; precision++) {
+    const cells = coveringCells(boxes, precision, maxRanges);
+    if (!cells) break;
+    best = cells;
+  }
+
+  return best.sort().map(prefix => ({ prefix, start: prefix, end: `${prefix}~` }));
+}
+
+/**
+ * Bounding box of a circle, clamped to valid latitudes
+ */
+export function boundsForRadius(center: GeoPoint, radiusKm: number): GeoBounds {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const north = Math.min(center.lat + latDelta, 90);
+  const south = Math.max(center.lat - latDelta, -90);
+
+  // Near the poles the circle covers every longitude
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+  if (north >= 90 || south <= -90 || cosLat < 1e-6) {
+    return { north, south, east: 180, west: -180 };
+  }
+
+  const lngDelta = Math.min(latDelta / cosLat, 180);
+  if (lngDelta >= 180) return { north, south, east: 180, west: -180 };
+
+  const wrap = (lng: number) => ((lng + 540) % 360) - 180;
+  return { north, south, east: wrap(center.lng + lngDelta), west: wrap(center.lng - lngDelta) };
+}
+
+/**
+ * Prefix ranges covering a radius around a point
+ */
+export function geohashRangesForRadius(center: GeoPoint, radiusKm: number): GeohashRange[] {
+  return geohashRangesForBounds(boundsForRadius(center, radiusKm));
+}
+
+/**
+ * Point-in-box check that handles boxes crossing the antimeridian
+ */
+export function isPointInBounds(point: GeoPoint, bounds: GeoBounds): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    : point.lng >= bounds.west || point.lng <= bounds.east;
+}
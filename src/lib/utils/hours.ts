@@ -1,11 +1,20 @@
 /**
- * Utility functions for handling opening hours and determining if a location is open
+ * Utility functions for handling opening hours and determining if a location is open.
+ *
+ * Hours are always evaluated in the location's own IANA timezone, so a user in
+ * London looking at a Lagos bukka sees Lagos opening times.
  */
 
+export interface TimeInterval {
+  open: string; // Format: "HH:MM"
+  close: string; // Format: "HH:MM" (earlier than open means past midnight)
+}
+
 export interface DayHours {
   open: string; // Format: "HH:MM"
   close: string; // Format: "HH:MM"
   isOpen: boolean;
+  intervals?: TimeInterval[]; // Split shifts, e.g. lunch break; overrides open/close when present
 }
 
 export interface WeeklyHours {
@@ -18,14 +27,119 @@ export interface WeeklyHours {
   sunday: DayHours;
 }
 
+/**
+ * Date-specific override of the weekly schedule (public holidays, Ramadan
+ * hours, "closed for renovation"). `endDate` makes it apply to a range.
+ */
+export interface HoursException {
+  date: string; // Format: "YYYY-MM-DD"
+  endDate?: string; // Format: "YYYY-MM-DD", inclusive
+  isOpen: boolean;
+  intervals?: TimeInterval[];
+  label?: string;
+}
+
+export interface HoursEvaluationOptions {
+  at?: Date;
+  timezone?: string;
+  exceptions?: HoursException[];
+}
+
+export interface LocationStatus {
+  isOpen: boolean;
+  status: string;
+  nextChange?: string; // "HH:MM" in the location's timezone
+  nextChangeDay?: keyof WeeklyHours;
+  minutesUntilChange?: number;
+  exceptionLabel?: string;
+}
+
+export const DEFAULT_TIMEZONE = "Africa/Lagos";
+
+const DAYS: (keyof WeeklyHours)[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Fallback timezones for locations that were saved without one
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  nigeria: "Africa/Lagos",
+  ghana: "Africa/Accra",
+  "united kingdom": "Europe/London",
+  uk: "Europe/London",
+  "united states": "America/New_York",
+  usa: "America/New_York",
+  canada: "America/Toronto",
+  "south africa": "Africa/Johannesburg",
+  kenya: "Africa/Nairobi",
+  ireland: "Europe/Dublin",
+  germany: "Europe/Berlin",
+  france: "Europe/Paris",
+  netherlands: "Europe/Amsterdam",
+  "united arab emirates": "Asia/Dubai",
+  australia: "Australia/Sydney",
+};
+
+/**
+ * Check whether a string is a timezone the runtime understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the timezone to evaluate a location's hours in
+ */
+export function resolveTimezone(location: { timezone?: string; country?: string }): string {
+  if (location.timezone && isValidTimezone(location.timezone)) {
+    return location.timezone;
+  }
+  const byCountry = location.country && COUNTRY_TIMEZONES[location.country.trim().toLowerCase()];
+  return byCountry || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Wall-clock date, weekday and minutes since midnight of an instant in a timezone
+ */
+export function getZonedDateParts(
+  date: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): { dateKey: string; day: keyof WeeklyHours; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "00";
+
+  const dateKey = `${get("year")}-${get("month")}-${get("day")}`;
+  return {
+    dateKey,
+    day: getDayForDateKey(dateKey),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
 /**
  * Get the current day of the week as a lowercase string
  */
-export function getCurrentDay(): keyof WeeklyHours {
-  const days: (keyof WeeklyHours)[] = [
-    'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
-  ];
-  return days[new Date().getDay()];
+export function getCurrentDay(timezone?: string): keyof WeeklyHours {
+  if (timezone) {
+    return getZonedDateParts(new Date(), timezone).day;
+  }
+  return DAYS[new Date().getDay()];
 }
 
 /**
@@ -36,149 +150,389 @@ export function timeToMinutes(timeStr: string): number {
   return hours * 60 + minutes;
 }
 
+/**
+ * Convert minutes since midnight back to "HH:MM"
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const normalized = ((totalMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
 /**
  * Get current time in minutes since midnight
  */
-export function getCurrentTimeInMinutes(): number {
+export function getCurrentTimeInMinutes(timezone?: string): number {
+  if (timezone) {
+    return getZonedDateParts(new Date(), timezone).minutes;
+  }
   const now = new Date();
   return now.getHours() * 60 + now.getMinutes();
 }
 
+function getDayForDateKey(dateKey: string): keyof WeeklyHours {
+  return DAYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()];
+}
+
+function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
 /**
- * Check if a location is currently open based on its hours
+ * Find the exception that applies to a calendar date, if any
  */
-export function isLocationOpen(hours: WeeklyHours): boolean {
-  const currentDay = getCurrentDay();
-  const todayHours = hours[currentDay];
-  
-  // If the location is marked as closed for today
-  if (!todayHours.isOpen) {
-    return false;
-  }
-  
-  const currentTime = getCurrentTimeInMinutes();
-  const openTime = timeToMinutes(todayHours.open);
-  const closeTime = timeToMinutes(todayHours.close);
-  
-  // Handle overnight hours (e.g., open until 2 AM next day)
-  if (closeTime < openTime) {
-    // Location is open overnight
-    return currentTime >= openTime || currentTime <= closeTime;
+export function findException(
+  dateKey: string,
+  exceptions: HoursException[] = []
+): HoursException | undefined {
+  return exceptions.find((exception) => {
+    const end = exception.endDate ?? exception.date;
+    return dateKey >= exception.date && dateKey <= end;
+  });
+}
+
+/**
+ * Intervals a location is open on a calendar date, as minute ranges from that
+ * date's midnight. Overnight intervals end past 1440.
+ */
+function getIntervalsForDate(
+  hours: Partial<WeeklyHours>,
+  dateKey: string,
+  exceptions: HoursException[] = []
+): { start: number; end: number }[] {
+  const exception = findException(dateKey, exceptions);
+  let intervals: TimeInterval[];
+
+  if (exception) {
+    intervals = exception.isOpen ? exception.intervals ?? [] : [];
   } else {
-    // Normal hours within the same day
-    return currentTime >= openTime && currentTime <= closeTime;
+    const dayHours = hours[getDayForDateKey(dateKey)];
+    if (!dayHours || !dayHours.isOpen) return [];
+    intervals = dayHours.intervals?.length
+      ? dayHours.intervals
+      : [{ open: dayHours.open, close: dayHours.close }];
   }
+
+  return intervals
+    .map(({ open, close }) => {
+      const start = timeToMinutes(open);
+      let end = timeToMinutes(close);
+      // Closing at or before opening means the shift runs past midnight
+      if (end <= start) end += MINUTES_PER_DAY;
+      return { start, end };
+    })
+    .sort((a, b) => a.start - b.start);
 }
 
 /**
- * Get a human-readable status for the location
+ * Open intervals from yesterday through the next week, in minutes relative to
+ * today's midnight in the location's timezone.
  */
-export function getLocationStatus(hours: WeeklyHours): {
-  isOpen: boolean;
-  status: string;
-  nextChange?: string;
-} {
-  const isOpen = isLocationOpen(hours);
-  const currentDay = getCurrentDay();
-  const todayHours = hours[currentDay];
-  
-  if (!todayHours.isOpen) {
+function buildTimeline(
+  hours: Partial<WeeklyHours>,
+  dateKey: string,
+  exceptions: HoursException[] = []
+): { start: number; end: number; dayOffset: number }[] {
+  const timeline: { start: number; end: number; dayOffset: number }[] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const key = addDaysToDateKey(dateKey, offset);
+    getIntervalsForDate(hours, key, exceptions).forEach(({ start, end }) => {
+      timeline.push({
+        start: start + offset * MINUTES_PER_DAY,
+        end: end + offset * MINUTES_PER_DAY,
+        dayOffset: offset,
+      });
+    });
+  }
+  return timeline.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check if a location is open at a wall-clock minute on a calendar date in
+ * its own timezone
+ */
+function isOpenAtLocalDateTime(
+  hours: Partial<WeeklyHours>,
+  dateKey: string,
+  minutes: number,
+  exceptions?: HoursException[]
+): boolean {
+  return buildTimeline(hours, dateKey, exceptions).some(
+    (interval) => minutes >= interval.start && minutes < interval.end
+  );
+}
+
+/**
+ * Check if a location is open based on its hours, at `options.at` (defaults
+ * to now) in `options.timezone`
+ */
+export function isLocationOpen(
+  hours: Partial<WeeklyHours>,
+  options: HoursEvaluationOptions = {}
+): boolean {
+  const { dateKey, minutes } = getZonedDateParts(
+    options.at ?? new Date(),
+    options.timezone ?? DEFAULT_TIMEZONE
+  );
+  return isOpenAtLocalDateTime(hours, dateKey, minutes, options.exceptions);
+}
+
+/**
+ * Get a human-readable status for the location, looking across day
+ * boundaries for the next opening or closing time
+ */
+export function getLocationStatus(
+  hours: Partial<WeeklyHours>,
+  options: HoursEvaluationOptions = {}
+): LocationStatus {
+  const { dateKey, minutes } = getZonedDateParts(
+    options.at ?? new Date(),
+    options.timezone ?? DEFAULT_TIMEZONE
+  );
+  const timeline = buildTimeline(hours, dateKey, options.exceptions);
+  const todayException = findException(dateKey, options.exceptions);
+  const exceptionLabel = todayException?.label;
+
+  // Merge back-to-back intervals so "closes at" skips over seamless handovers
+  const current = timeline.find((i) => minutes >= i.start && minutes < i.end);
+  if (current) {
+    let closeAt = current.end;
+    for (const interval of timeline) {
+      if (interval.start <= closeAt && interval.end > closeAt) {
+        closeAt = interval.end;
+      }
+    }
+    const closeOffset = Math.floor(closeAt / MINUTES_PER_DAY);
+    const closeTime = minutesToTime(closeAt);
+    return {
+      isOpen: true,
+      status: `Open until ${closeTime}${describeDayOffset(closeOffset, dateKey)}`,
+      nextChange: closeTime,
+      nextChangeDay: getDayForDateKey(addDaysToDateKey(dateKey, closeOffset)),
+      minutesUntilChange: closeAt - minutes,
+      exceptionLabel,
+    };
+  }
+
+  const next = timeline.find((i) => i.start > minutes);
+  if (!next) {
     return {
       isOpen: false,
-      status: 'Closed today',
+      status: exceptionLabel ? `Closed (${exceptionLabel})` : 'Closed',
+      exceptionLabel,
     };
   }
-  
-  const currentTime = getCurrentTimeInMinutes();
-  const openTime = timeToMinutes(todayHours.open);
-  const closeTime = timeToMinutes(todayHours.close);
-  
-  if (isOpen) {
-    // Location is currently open
-    if (closeTime < openTime) {
-      // Overnight hours
-      if (currentTime >= openTime) {
-        // Still open from today, closes tomorrow
-        return {
-          isOpen: true,
-          status: `Open until ${todayHours.close} tomorrow`,
-          nextChange: todayHours.close,
-        };
-      } else {
-        // Open from yesterday, closes today
-        return {
-          isOpen: true,
-          status: `Open until ${todayHours.close}`,
-          nextChange: todayHours.close,
-        };
-      }
-    } else {
-      // Normal hours
-      return {
-        isOpen: true,
-        status: `Open until ${todayHours.close}`,
-        nextChange: todayHours.close,
-      };
-    }
-  } else {
-    // Location is currently closed
-    if (currentTime < openTime) {
-      // Closed, opens later today
-      return {
-        isOpen: false,
-        status: `Opens at ${todayHours.open}`,
-        nextChange: todayHours.open,
-      };
-    } else {
-      // Closed for the day, find next opening
-      const tomorrow = getNextDay(currentDay);
-      const tomorrowHours = hours[tomorrow];
-      
-      if (tomorrowHours.isOpen) {
-        return {
-          isOpen: false,
-          status: `Opens ${tomorrow} at ${tomorrowHours.open}`,
-          nextChange: tomorrowHours.open,
-        };
-      } else {
-        return {
-          isOpen: false,
-          status: 'Closed',
-        };
-      }
+
+  const openOffset = Math.floor(next.start / MINUTES_PER_DAY);
+  const openTime = minutesToTime(next.start);
+  const closedToday = openOffset > 0 && todayException && !todayException.isOpen;
+
+  return {
+    isOpen: false,
+    status: closedToday && exceptionLabel
+      ? `Closed today (${exceptionLabel}) · Opens at ${openTime}${describeDayOffset(openOffset, dateKey)}`
+      : `Opens at ${openTime}${describeDayOffset(openOffset, dateKey)}`,
+    nextChange: openTime,
+    nextChangeDay: getDayForDateKey(addDaysToDateKey(dateKey, openOffset)),
+    minutesUntilChange: next.start - minutes,
+    exceptionLabel,
+  };
+}
+
+function describeDayOffset(offset: number, dateKey: string): string {
+  if (offset <= 0) return '';
+  if (offset === 1) return ' tomorrow';
+  const day = getDayForDateKey(addDaysToDateKey(dateKey, offset));
+  return ` ${day.charAt(0).toUpperCase()}${day.slice(1)}`;
+}
+
+type LocationHoursSource = {
+  hours?: Record<string, DayHours | undefined>;
+  timezone?: string;
+  country?: string;
+  hoursExceptions?: HoursException[];
+};
+
+/**
+ * Evaluate open status for a location record, resolving its timezone and
+ * exceptions. Returns null when the location has no usable hours.
+ */
+export function getLocationStatusForLocation(
+  location: LocationHoursSource,
+  at: Date = new Date()
+): LocationStatus | null {
+  if (!location.hours || Object.keys(location.hours).length === 0) {
+    return null;
+  }
+
+  try {
+    return getLocationStatus(normalizeWeeklyHours(location.hours), {
+      at,
+      timezone: resolveTimezone(location),
+      exceptions: location.hoursExceptions,
+    });
+  } catch (error) {
+    console.error("Error getting location status:", error);
+    return null;
+  }
+}
+
+/**
+ * Coerce loosely-keyed stored hours ("Monday", "monday") to WeeklyHours
+ */
+export function normalizeWeeklyHours(
+  hours: Record<string, DayHours | undefined>
+): Partial<WeeklyHours> {
+  const normalized: Partial<WeeklyHours> = {};
+  Object.entries(hours).forEach(([day, dayHours]) => {
+    const key = day.toLowerCase() as keyof WeeklyHours;
+    if (dayHours && DAYS.includes(key)) {
+      normalized[key] = dayHours;
     }
+  });
+  return normalized;
+}
+
+/**
+ * Whether a location is open right now, derived from its hours rather than the
+ * stored `isOpenNow` snapshot. Locations without hours count as closed.
+ */
+export function computeIsOpenNow(location: LocationHoursSource, at: Date = new Date()): boolean {
+  return getLocationStatusForLocation(location, at)?.isOpen ?? false;
+}
+
+/**
+ * Return a copy of the location with `isOpenNow` recomputed for `at`
+ */
+export function withComputedOpenStatus<T extends LocationHoursSource & { isOpenNow?: boolean }>(
+  location: T,
+  at: Date = new Date()
+): T {
+  return { ...location, isOpenNow: computeIsOpenNow(location, at) };
+}
+
+export interface WeeklyTime {
+  day: keyof WeeklyHours;
+  time: string; // "HH:MM"
+}
+
+/**
+ * Parse "friday 9pm", "fri 21:00" or "friday@21:00" into a weekday and time
+ */
+export function parseWeeklyTime(input: string): WeeklyTime | null {
+  const match = input
+    .trim()
+    .toLowerCase()
+    .match(/^([a-z]+)[\s@]+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  const [, dayInput, hourInput, minuteInput, meridiem] = match;
+  const day = dayInput.length >= 3 ? DAYS.find((d) => d.startsWith(dayInput)) : undefined;
+  if (!day) return null;
+
+  let hour = Number(hourInput);
+  const minute = Number(minuteInput ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
   }
+  if (hour > 23 || minute > 59) return null;
+
+  return { day, time: `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}` };
 }
 
 /**
- * Get the next day of the week
+ * Whether a location is open at a weekday and wall-clock time in its own
+ * timezone, on the next occurrence of that weekday (so exceptions apply)
  */
-function getNextDay(currentDay: keyof WeeklyHours): keyof WeeklyHours {
-  const days: (keyof WeeklyHours)[] = [
-    'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
-  ];
-  const currentIndex = days.indexOf(currentDay);
-  const nextIndex = (currentIndex + 1) % 7;
-  return days[nextIndex];
+export function isOpenAtWeeklyTime(
+  location: LocationHoursSource,
+  target: WeeklyTime,
+  now: Date = new Date()
+): boolean {
+  if (!location.hours || Object.keys(location.hours).length === 0) return false;
+
+  const { dateKey, day: today } = getZonedDateParts(now, resolveTimezone(location));
+  const daysAhead = (DAYS.indexOf(target.day) - DAYS.indexOf(today) + 7) % 7;
+
+  return isOpenAtLocalDateTime(
+    normalizeWeeklyHours(location.hours),
+    addDaysToDateKey(dateKey, daysAhead),
+    timeToMinutes(target.time),
+    location.hoursExceptions
+  );
+}
+
+export interface HoursFilter {
+  isOpenNow?: boolean;
+  openAt?: WeeklyTime;
+  openingSoon?: boolean;
+  closingSoon?: boolean;
+}
+
+export const SOON_WINDOW_MINUTES = 60;
+
+/**
+ * Apply the hours-based filters to a location at request time
+ */
+export function matchesHoursFilter(
+  location: LocationHoursSource,
+  filter: HoursFilter,
+  at: Date = new Date()
+): boolean {
+  const needsStatus = filter.isOpenNow !== undefined || filter.openingSoon || filter.closingSoon;
+  const status = needsStatus ? getLocationStatusForLocation(location, at) : null;
+  const isOpen = status?.isOpen ?? false;
+
+  if (filter.isOpenNow !== undefined && isOpen !== filter.isOpenNow) {
+    return false;
+  }
+
+  if (filter.openAt && !isOpenAtWeeklyTime(location, filter.openAt, at)) {
+    return false;
+  }
+
+  const changesSoon =
+    status?.minutesUntilChange !== undefined &&
+    status.minutesUntilChange <= SOON_WINDOW_MINUTES;
+
+  // Opening soon and closing soon are alternatives when both are selected
+  if (filter.openingSoon || filter.closingSoon) {
+    const openingSoon = !!filter.openingSoon && !isOpen && changesSoon;
+    const closingSoon = !!filter.closingSoon && isOpen && changesSoon;
+    if (!openingSoon && !closingSoon) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Format a single day's hours, including split shifts
+ */
+export function formatDayHours(dayHours?: DayHours): string {
+  if (!dayHours || !dayHours.isOpen) {
+    return 'Closed';
+  }
+  const intervals = dayHours.intervals?.length
+    ? dayHours.intervals
+    : [{ open: dayHours.open, close: dayHours.close }];
+  return intervals.map((i) => `${i.open} - ${i.close}`).join(', ');
 }
 
 /**
  * Format hours for display
  */
-export function formatHoursForDisplay(hours: WeeklyHours): string[] {
+export function formatHoursForDisplay(hours: Partial<WeeklyHours>): string[] {
   const days: (keyof WeeklyHours)[] = [
     'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
   ];
-  
+
   return days.map(day => {
-    const dayHours = hours[day];
     const dayName = day.charAt(0).toUpperCase() + day.slice(1);
-    
-    if (!dayHours.isOpen) {
-      return `${dayName}: Closed`;
-    }
-    
-    return `${dayName}: ${dayHours.open} - ${dayHours.close}`;
+    return `${dayName}: ${formatDayHours(hours[day])}`;
   });
 }
 
@@ -191,7 +545,7 @@ export function createDefaultHours(): WeeklyHours {
     close: "21:00",
     isOpen: false
   };
-  
+
   return {
     monday: { ...defaultDay },
     tuesday: { ...defaultDay },
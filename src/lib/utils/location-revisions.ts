@@ -0,0 +1,63 @@
+/**
+ * Field-level diffs between two states of a location document, used to
+ * record revisions. Values are compared structurally, so reordered object
+ * keys and Date vs Firestore Timestamp of the same instant are not changes.
+ */
+
+import { UNVERSIONED_FIELDS, type FieldDiff } from "@/types/revision";
+
+const UNVERSIONED = new Set<string>(UNVERSIONED_FIELDS);
+
+// Dotted paths (e.g. "provenance.phone") follow their top-level field
+export function isVersionedField(field: string): boolean {
+  return !UNVERSIONED.has(field.split(".")[0]);
+}
+
+// Plain, order-independent form of a stored value for comparison
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === "object") {
+    return Object.keys(value as object)
+      .sort()
+      .map((key) => [key, normalizeValue((value as Record<string, unknown>)[key])]);
+  }
+  return value;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+/**
+ * The versioned fields of a location document
+ */
+export function versionedSnapshot(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([field, value]) => isVersionedField(field) && value !== undefined)
+  );
+}
+
+/**
+ * Versioned fields that differ between two document states, sorted by name
+ */
+export function diffLocationFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): FieldDiff[] {
+  const previous = before || {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(after)]);
+
+  return Array.from(fields)
+    .filter((field) => isVersionedField(field) && !valuesEqual(previous[field], after[field]))
+    .sort()
+    .map((field) => ({
+      field,
+      before: previous[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
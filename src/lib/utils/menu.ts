@@ -0,0 +1,53 @@
+import type { AmalaLocation, LocationFilter } from "@/types/location";
+import { DISH_TAXONOMY, type DishId, type MenuItem } from "@/types/menu";
+
+type MenuFilter = Pick<LocationFilter, "dish" | "maxDishPrice" | "dishCurrency">;
+
+export const DEFAULT_DISH_CURRENCY = "NGN";
+
+export function getDishLabel(id: DishId): string {
+  return DISH_TAXONOMY.find((dish) => dish.id === id)?.label ?? id;
+}
+
+/**
+ * Available items that satisfy the dish and price filters, cheapest first.
+ * A price limit only matches items priced in the filter's currency.
+ */
+export function matchingMenuItems(location: Pick<AmalaLocation, "menu">, filter: MenuFilter): MenuItem[] {
+  const currency = filter.dishCurrency || DEFAULT_DISH_CURRENCY;
+  return (location.menu || [])
+    .filter((item) => item.available)
+    .filter((item) => !filter.dish || item.dishes.includes(filter.dish))
+    .filter((item) => filter.maxDishPrice === undefined || (item.currency === currency && item.price <= filter.maxDishPrice))
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Apply the menu filters ("spots with abula under ₦2,000") to a location
+ */
+export function matchesMenuFilter(location: Pick<AmalaLocation, "menu">, filter: MenuFilter): boolean {
+  if (!filter.dish && filter.maxDishPrice === undefined) return true;
+  return matchingMenuItems(location, filter).length > 0;
+}
+
+/**
+ * Menu items ordered for display: available first, then by their first dish
+ * in taxonomy order (swallows, soups, proteins, sides), then by price
+ */
+export function sortMenuItems(items: MenuItem[]): MenuItem[] {
+  const rank = (item: MenuItem) => {
+    const categories = item.dishes.map((dish) => DISH_TAXONOMY.findIndex((entry) => entry.id === dish));
+    return categories.length > 0 ? Math.min(...categories) : DISH_TAXONOMY.length;
+  };
+  return [...items].sort((a, b) =>
+    Number(b.available) - Number(a.available) || rank(a) - rank(b) || a.price - b.price
+  );
+}
+
+/**
+ * Whether an item is a full plate (it includes a swallow), as opposed to an
+ * extra like a portion of ponmo. Only plates feed the price index.
+ */
+export function isPlate(item: Pick<MenuItem, "dishes">): boolean {
+  return item.dishes.some((dish) => DISH_TAXONOMY.find((entry) => entry.id === dish)?.category === "swallow");
+}
@@ -0,0 +1,64 @@
+/**
+ * Rating aggregation and ranking. A plain mean lets one 5-star review beat
+ * hundreds of 4.6s, so ranking uses a Bayesian average: every location starts
+ * as if it already had PRIOR_WEIGHT reviews at PRIOR_MEAN, and its own reviews
+ * pull it away from that prior as they accumulate.
+ */
+
+import type { AmalaLocation, Review } from "@/types/location";
+import { RATING_ASPECTS, type AspectAggregate, type RatingAspect } from "@/types/rating";
+
+export const PRIOR_MEAN = 3.5;
+export const PRIOR_WEIGHT = 5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function bayesianRating(
+  average: number,
+  count: number,
+  priorMean: number = PRIOR_MEAN,
+  priorWeight: number = PRIOR_WEIGHT
+): number {
+  if (count <= 0) return priorMean;
+  return (priorMean * priorWeight + average * count) / (priorWeight + count);
+}
+
+/**
+ * Score used to rank locations; unrated locations sit at the prior
+ */
+export function rankingScore(location: Pick<AmalaLocation, "rating" | "reviewCount">): number {
+  const count = location.reviewCount || 0;
+  return bayesianRating(location.rating || 0, location.rating ? count : 0);
+}
+
+// Best ranked first; more reviews break ties
+export function compareByRanking(
+  a: Pick<AmalaLocation, "rating" | "reviewCount">,
+  b: Pick<AmalaLocation, "rating" | "reviewCount">
+): number {
+  return rankingScore(b) - rankingScore(a) || (b.reviewCount || 0) - (a.reviewCount || 0);
+}
+
+/**
+ * Mean and count of each sub-rating over the given reviews; aspects nobody
+ * rated are left out
+ */
+export function aggregateAspectRatings(
+  reviews: Pick<Review, "aspectRatings">[]
+): Partial<Record<RatingAspect, AspectAggregate>> {
+  const aggregates: Partial<Record<RatingAspect, AspectAggregate>> = {};
+
+  for (const aspect of RATING_ASPECTS) {
+    const values = reviews
+      .map((review) => review.aspectRatings?.[aspect])
+      .filter((value): value is number => typeof value === "number");
+    if (values.length === 0) continue;
+
+    aggregates[aspect] = {
+      average: round1(values.reduce((sum, value) => sum + value, 0) / values.length),
+      count: values.length,
+    };
+  }
+
+  return aggregates;
+}
@@ -0,0 +1,78 @@
+/**
+ * Text normalization shared by search and duplicate detection.
+ * Folds Yoruba tone marks and under-dots ("Ìbàdàn" -> "ibadan", "Ọ̀ṣun" -> "osun")
+ * and splits text into comparable tokens.
+ */
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "at", "by", "for", "in", "near", "me", "of", "on", "the", "to", "with",
+]);
+
+/**
+ * Strip diacritics (tone marks, under-dots, accents) and lowercase
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Fold diacritics and collapse punctuation to single spaces
+ */
+export function normalizeText(text: string): string {
+  return foldDiacritics(text)
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalized tokens, optionally keeping stopwords
+ */
+export function tokenize(text: string, options: { keepStopwords?: boolean } = {}): string[] {
+  const normalized = normalizeText(text);
+  if (!normalized) return [];
+
+  const tokens = normalized.split(" ");
+  return options.keepStopwords ? tokens : tokens.filter(token => !STOPWORDS.has(token));
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once
+ * the distance exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      // Adjacent transposition ("bukka" typed as "bkuka")
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
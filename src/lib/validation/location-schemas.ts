@@ -1,4 +1,18 @@
 import { z } from "zod";
+import { isValidTimezone, parseWeeklyTime } from "@/lib/utils/hours";
+import { PROVENANCE_FIELDS } from "@/types/provenance";
+import {
+    CHECKABLE_FIELDS,
+    KEYWORD_FIELDS,
+    MODERATION_LANES,
+    REJECTION_REASON_CODES,
+} from "@/types/moderation-rules";
+import { APPEAL_CONTENT_TYPES } from "@/types/appeal";
+import { DISH_IDS } from "@/types/menu";
+import { CLAIM_PROOF_METHODS, CLAIMANT_RELATIONSHIPS } from "@/types/claim";
+import { SUPPORTED_CURRENCIES } from "@/lib/currency-utils";
+
+const CurrencyCodeSchema = z.enum(Object.keys(SUPPORTED_CURRENCIES) as [string, ...string[]]);
 
 // Base coordinate schema
 const CoordinateSchema = z.object({
@@ -6,11 +20,53 @@ const CoordinateSchema = z.object({
     lng: z.number().min(-180).max(180),
 });
 
+// Comma-separated numbers from a query string, e.g. "6.52,3.37"
+const parseNumberList = (val: string, count: number): number[] | null => {
+    const parts = val.split(",").map(part => Number(part.trim()));
+    return parts.length === count && parts.every(Number.isFinite) ? parts : null;
+};
+
+// "lat,lng"
+const LatLngQuerySchema = z.string()
+    .refine(val => {
+        const parts = parseNumberList(val, 2);
+        return !!parts && CoordinateSchema.safeParse({ lat: parts[0], lng: parts[1] }).success;
+    }, "Expected \"lat,lng\"")
+    .transform(val => {
+        const [lat, lng] = parseNumberList(val, 2)!;
+        return { lat, lng };
+    });
+
+// "south,west,north,east" (the LatLngBounds.toUrlValue() order)
+const BoundsQuerySchema = z.string()
+    .refine(val => {
+        const parts = parseNumberList(val, 4);
+        if (!parts) return false;
+        const [south, west, north, east] = parts;
+        return south <= north &&
+            CoordinateSchema.safeParse({ lat: south, lng: west }).success &&
+            CoordinateSchema.safeParse({ lat: north, lng: east }).success;
+    }, "Expected \"south,west,north,east\"")
+    .transform(val => {
+        const [south, west, north, east] = parseNumberList(val, 4)!;
+        return { north, south, east, west };
+    });
+
+const TimeSchema = z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format (HH:MM)");
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format (YYYY-MM-DD)");
+
+// Single open/close window (close earlier than open runs past midnight)
+const TimeIntervalSchema = z.object({
+    open: TimeSchema,
+    close: TimeSchema,
+});
+
 // Hours schema for each day
 const DayHoursSchema = z.object({
-    open: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format (HH:MM)"),
-    close: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format (HH:MM)"),
+    open: TimeSchema,
+    close: TimeSchema,
     isOpen: z.boolean(),
+    intervals: z.array(TimeIntervalSchema).max(6, "Maximum 6 intervals per day").optional(),
 });
 
 // Hours schema for all days
@@ -24,6 +80,20 @@ const HoursSchema = z.object({
     sunday: DayHoursSchema,
 });
 
+// Date-specific override of the weekly hours (holidays, Ramadan, renovation)
+const HoursExceptionSchema = z.object({
+    date: DateKeySchema,
+    endDate: DateKeySchema.optional(),
+    isOpen: z.boolean(),
+    intervals: z.array(TimeIntervalSchema).max(6).optional(),
+    label: z.string().max(100).optional(),
+}).refine((val) => !val.endDate || val.endDate >= val.date, {
+    message: "endDate must not be before date",
+    path: ["endDate"],
+});
+
+const TimezoneSchema = z.string().refine(isValidTimezone, "Invalid IANA timezone");
+
 // Review schema
 const ReviewSchema = z.object({
     id: z.string().uuid(),
@@ -66,8 +136,8 @@ export const LocationSubmissionSchema = z.object({
         .optional()
         .transform((val) => val?.trim()),
 
-    // Core filters
-    isOpenNow: z.boolean().default(true),
+    // Core filters (isOpenNow is a snapshot; open status is derived from hours at read time)
+    isOpenNow: z.boolean().default(false),
     serviceType: z.enum(["dine-in", "takeaway", "both"]).default("both"),
     priceRange: z.enum(["$", "$$", "$$$", "$$$$"]).default("$$"),
     priceInfo: z.string()
@@ -88,6 +158,8 @@ export const LocationSubmissionSchema = z.object({
 
     // Hours of operation
     hours: HoursSchema.optional(),
+    timezone: TimezoneSchema.optional(),
+    hoursExceptions: z.array(HoursExceptionSchema).max(100).optional(),
 
     // Ratings
     rating: z.number().min(1).max(5).optional(),
@@ -137,19 +209,31 @@ export const AmalaLocationSchema = LocationSubmissionSchema.extend({
 export const LocationQuerySchema = z.object({
     search: z.string().optional(),
     openNow: z.string().transform(val => val === "true").optional(),
+    openAt: z.string()
+        .refine(val => parseWeeklyTime(val) !== null, "Expected a weekday and time, e.g. \"friday 21:00\" or \"fri 9pm\"")
+        .transform(val => parseWeeklyTime(val)!)
+        .optional(),
+    openingSoon: z.string().transform(val => val === "true").optional(),
+    closingSoon: z.string().transform(val => val === "true").optional(),
     serviceType: z.enum(["dine-in", "takeaway", "both", "all"]).optional(),
     priceRange: z.array(z.enum(["$", "$$", "$$$", "$$$$"])).optional(),
+    dish: z.enum(DISH_IDS).optional(),
+    maxDishPrice: z.coerce.number().positive().optional(), // main currency unit, e.g. 2000 for ₦2,000
+    dishCurrency: CurrencyCodeSchema.optional(),
     cuisine: z.array(z.string()).optional(),
     dietary: z.array(z.string()).optional(),
     features: z.array(z.string()).optional(),
     includeReviews: z.string().transform(val => val === "true").optional(),
-    sortBy: z.enum(["name_asc", "name_desc", "default"]).default("default"),
-    bounds: z.object({
-        north: z.number(),
-        south: z.number(),
-        east: z.number(),
-        west: z.number(),
-    }).optional(),
+    sortBy: z.enum(["name_asc", "name_desc", "distance", "rating", "default"]).default("default"),
+    bounds: BoundsQuerySchema.optional(),
+    near: LatLngQuerySchema.optional(),
+    radiusKm: z.coerce.number().positive().max(100, "Maximum radius is 100km").optional(),
+}).refine(query => !query.radiusKm || query.near, {
+    message: "radiusKm requires near",
+    path: ["radiusKm"],
+}).refine(query => query.sortBy !== "distance" || query.near, {
+    message: "Sorting by distance requires near",
+    path: ["sortBy"],
 });
 
 // Moderation schema
@@ -160,6 +244,242 @@ export const ModerationSchema = z.object({
     notes: z.string().max(500).optional(),
 });
 
+// Menu item schema; prices are whole numbers in the smallest currency unit
+const MenuItemSchema = z.object({
+    id: z.string().trim().min(1).max(40).regex(/^[a-z0-9_-]+$/, "Menu item ids use lowercase letters, numbers, - and _"),
+    name: z.string().trim().min(2, "Menu item name must be at least 2 characters").max(80),
+    dishes: z.array(z.enum(DISH_IDS)).min(1, "Tag at least one dish").max(8),
+    price: z.number().int().positive().max(100_000_000),
+    currency: CurrencyCodeSchema,
+    available: z.boolean().default(true),
+    lastSeenAt: DateKeySchema,
+    notes: z.string().trim().max(200).optional(),
+});
+
+const MenuSchema = z.array(MenuItemSchema)
+    .max(50, "Maximum 50 menu items allowed")
+    .refine(items => new Set(items.map(item => item.id)).size === items.length, {
+        message: "Menu item ids must be unique",
+    });
+
+// Edit suggestion schema: proposed values for an approved location's fields.
+// Fields that have submission defaults are redeclared so omitted ones stay omitted.
+export const EditSuggestionSchema = z.object({
+    changes: LocationSubmissionSchema.pick({
+        name: true,
+        address: true,
+        coordinates: true,
+        phone: true,
+        website: true,
+        email: true,
+        description: true,
+        hours: true,
+        timezone: true,
+        priceInfo: true,
+    }).partial().extend({
+        serviceType: z.enum(["dine-in", "takeaway", "both"]).optional(),
+        priceRange: z.enum(["$", "$$", "$$$", "$$$$"]).optional(),
+        cuisine: z.array(z.string().min(1).max(50))
+            .min(1, "At least one cuisine type is required")
+            .max(10, "Maximum 10 cuisine types allowed")
+            .transform((arr) => arr.map(c => c.trim().toLowerCase()))
+            .optional(),
+        menu: MenuSchema.optional(),
+    }).refine(changes => Object.values(changes).some(value => value !== undefined), {
+        message: "Propose at least one change",
+    }),
+    note: z.string().max(500, "Note must be less than 500 characters").optional(),
+});
+
+// Moderator decision on an edit suggestion; fields not accepted are rejected
+export const EditSuggestionReviewSchema = z.object({
+    suggestionId: z.string().min(1),
+    acceptedFields: z.array(z.string()).default([]),
+    notes: z.string().max(500).optional(),
+});
+
+// Plate price a scout saw on a visit; price is in main units (naira, dollars)
+export const PriceVisitSchema = z.object({
+    price: z.number().positive().max(1_000_000),
+    currency: CurrencyCodeSchema.optional(),
+    dishes: z.array(z.enum(DISH_IDS)).max(8).optional(),
+    observedAt: DateKeySchema
+        .refine(date => date <= new Date().toISOString().slice(0, 10), "Visit date can't be in the future")
+        .optional(),
+    note: z.string().trim().max(200).optional(),
+});
+
+// Review vote schema; null clears the vote
+export const ReviewVoteSchema = z.object({
+    vote: z.enum(["helpful", "not_helpful"]).nullable(),
+});
+
+// Review reply schema
+export const ReviewReplySchema = z.object({
+    text: z.string().trim().min(2, "Reply must be at least 2 characters").max(500),
+});
+
+// Review reply moderation schema
+export const ReviewReplyModerationSchema = z.object({
+    replyId: z.string().min(1),
+    action: z.enum(["approve", "reject"]),
+});
+
+// Owner response schema
+export const OwnerResponseSchema = z.object({
+    text: z.string().trim().min(2, "Response must be at least 2 characters").max(1000),
+});
+
+// Field conflict resolution schema
+export const FieldConflictResolutionSchema = z.object({
+    conflictId: z.string().min(1),
+    decision: z.enum(["accept", "dismiss"]),
+    lock: z.boolean().default(false),
+});
+
+// Field lock schema
+export const FieldLockSchema = z.object({
+    locationId: z.string().min(1),
+    field: z.enum(PROVENANCE_FIELDS),
+    locked: z.boolean(),
+});
+
+// Moderation queue claim schema
+export const QueueClaimSchema = z.object({
+    itemId: z.string().min(1),
+    action: z.enum(["claim", "release"]),
+});
+
+// Photo moderation schema
+export const PhotoModerationSchema = z.object({
+    photoId: z.string().min(1),
+    action: z.enum(["approve", "reject"]),
+});
+
+// Moderation rule schemas
+const ConfidenceBound = z.number().min(0).max(1).optional();
+
+const RuleConditionSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("source"), sources: z.array(z.enum(["user", "discovery"])).min(1) }),
+    z.object({ type: z.literal("submitter_role"), roles: z.array(z.enum(["user", "scout", "owner", "mod", "admin"])).min(1) }),
+    z.object({
+        type: z.literal("submitter_trust"),
+        minApproved: z.number().int().min(0).optional(),
+        minApprovalRate: ConfidenceBound,
+        maxRejected: z.number().int().min(0).optional(),
+    }),
+    z.object({ type: z.literal("trust_score"), min: z.number().optional(), max: z.number().optional() }),
+    z.object({ type: z.literal("duplicate_confidence"), min: ConfidenceBound, max: ConfidenceBound }),
+    z.object({ type: z.literal("discovery_confidence"), min: ConfidenceBound, max: ConfidenceBound }),
+    z.object({
+        type: z.literal("missing_fields"),
+        fields: z.array(z.enum(CHECKABLE_FIELDS)).min(1),
+        match: z.enum(["any", "all"]),
+    }),
+    z.object({
+        type: z.literal("keywords"),
+        keywords: z.array(z.string().trim().min(1).max(50)).min(1).max(50),
+        fields: z.array(z.enum(KEYWORD_FIELDS)).min(1),
+        match: z.enum(["any", "none"]),
+    }),
+]);
+
+const RuleActionSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("approve") }),
+    z.object({ type: z.literal("reject"), reasonCode: z.enum(REJECTION_REASON_CODES) }),
+    z.object({ type: z.literal("route"), queue: z.enum(MODERATION_LANES) }),
+]);
+
+const ModerationRuleFields = z.object({
+    name: z.string().trim().min(1).max(100),
+    enabled: z.boolean(),
+    priority: z.number().int().min(0).max(1000),
+    conditions: z.array(RuleConditionSchema).min(1).max(10),
+    action: RuleActionSchema,
+});
+
+export const ModerationRuleSchema = ModerationRuleFields.extend({
+    enabled: z.boolean().default(true),
+    priority: z.number().int().min(0).max(1000).default(100),
+});
+
+export const ModerationRuleUpdateSchema = ModerationRuleFields.partial().refine(
+    (data) => Object.keys(data).length > 0,
+    "No changes provided"
+);
+
+// Dry run against past decisions; unsaved rules may be tested by passing them in
+export const ModerationRuleDryRunSchema = z.object({
+    rules: z.array(ModerationRuleSchema.extend({ id: z.string().optional() })).max(50).optional(),
+    limit: z.number().int().min(1).max(200).default(50),
+});
+
+// Mark notifications read, by id or all at once
+export const NotificationReadSchema = z.union([
+    z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }),
+    z.object({ all: z.literal(true) }),
+]);
+
+// A submitter's appeal against a rejection
+export const AppealSchema = z.object({
+    contentType: z.enum(APPEAL_CONTENT_TYPES),
+    contentId: z.string().min(1),
+    explanation: z.string().trim().min(10, "Please explain why the decision should change").max(1000),
+});
+
+// A second moderator's decision on an appeal
+export const AppealDecisionSchema = z.object({
+    appealId: z.string().min(1),
+    decision: z.enum(["uphold", "overturn"]),
+    note: z.string().trim().max(200).optional(),
+});
+
+// An owner or manager's claim on a listing; document claims need the uploaded photo
+export const OwnershipClaimSchema = z.object({
+    relationship: z.enum(CLAIMANT_RELATIONSHIPS),
+    proofMethod: z.enum(CLAIM_PROOF_METHODS),
+    documentUrl: z.string().url("Invalid document URL").optional(),
+    contactPhone: z.string()
+        .regex(/^[\+]?[\d\s\-\(\)]{7,20}$/, "Invalid phone number format")
+        .optional(),
+    message: z.string().trim().max(500).optional(),
+}).refine(
+    (data) => data.proofMethod !== "document" || !!data.documentUrl,
+    { message: "Upload a photo of a document that shows you run this spot", path: ["documentUrl"] }
+);
+
+// The code a moderator read out on the callback
+export const ClaimCallbackSchema = z.object({
+    code: z.string().trim().regex(/^\d{6}$/, "The code is 6 digits"),
+});
+
+// A moderator's decision on an ownership claim
+export const ClaimDecisionSchema = z.object({
+    claimId: z.string().min(1),
+    decision: z.enum(["approve", "reject"]),
+    note: z.string().trim().max(200).optional(),
+});
+
+// A chain; its logo, description, website and menu fill in for branches that lack them
+export const BrandSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    logo: z.string().url("Invalid logo URL").optional(),
+    description: z.string().trim().max(1000).optional(),
+    website: z.string().url("Invalid website URL").optional(),
+    menu: MenuSchema.optional(),
+});
+
+export const BrandUpdateSchema = BrandSchema.partial().refine(
+    (data) => Object.keys(data).length > 0,
+    "No changes provided"
+);
+
+// Attach a location to a brand as a branch, or detach it
+export const BranchActionSchema = z.object({
+    locationId: z.string().min(1),
+    action: z.enum(["attach", "detach"]),
+});
+
 // Analytics event schema
 export const AnalyticsEventSchema = z.object({
     event_type: z.string().min(1).max(50),
@@ -177,5 +497,7 @@ export type LocationQueryInput = z.input<typeof LocationQuerySchema>;
 export type LocationQueryOutput = z.output<typeof LocationQuerySchema>;
 export type ModerationInput = z.input<typeof ModerationSchema>;
 export type ModerationOutput = z.output<typeof ModerationSchema>;
-export type AnalyticsEventInput = z.input<typeof AnalyticsEventSchema>;
+export type EditSuggestionInput = z.input<typeof EditSuggestionSchema>;
+export type EditSuggestionOutput = z.output<typeof EditSuggestionSchema>;
+export type AnalyticsEventInput =z.input<typeof AnalyticsEventSchema>;
 export type AnalyticsEventOutput = z.output<typeof AnalyticsEventSchema>;
@@ -0,0 +1,37 @@
+// A submitter's one request to have a rejected location or review looked at again
+export const APPEAL_CONTENT_TYPES = ["location", "review"] as const;
+
+export type AppealContentType = (typeof APPEAL_CONTENT_TYPES)[number];
+
+export type AppealStatus = "pending" | "upheld" | "overturned";
+
+export type AppealDecision = "uphold" | "overturn";
+
+export interface Appeal {
+  id: string; // `${contentType}__${contentId}`, so each item can be appealed once
+  contentType: AppealContentType;
+  contentId: string;
+  locationId: string;
+  contentName: string; // location name
+  contentPreview?: string; // review text, truncated
+  submittedBy: string; // Firebase Auth uid
+  submitterEmail?: string;
+  explanation: string;
+  rejectedBy: string; // the content's moderatedBy (reviewedBy for reviews) when appealed
+  rejectionReason?: string;
+  status: AppealStatus;
+  createdAt: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionNote?: string;
+}
+
+// How often a moderator's rejections were overturned on appeal
+export interface ModeratorOverturnStats {
+  moderatorId: string;
+  moderatorName: string;
+  rejections: number;
+  appeals: number; // decided appeals against their rejections
+  overturned: number;
+  overturnRate: number; // overturned / decided appeals, 0-1
+}
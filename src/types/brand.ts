@@ -0,0 +1,23 @@
+import type { MenuItem } from "./menu";
+
+// A chain whose branches are listed as separate locations. Branches point at
+// their brand with `brandId`; what a branch lacks is filled from the brand.
+export interface Brand {
+  id: string;
+  name: string;
+  logo?: string;
+  description?: string;
+  website?: string;
+  menu?: MenuItem[]; // default for branches without a menu of their own
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BrandInput = Pick<Brand, "name" | "logo" | "description" | "website" | "menu">;
+
+export interface BrandSummary extends Brand {
+  branchCount: number; // approved branches
+}
+
+export type BranchAction = "attach" | "detach";
@@ -0,0 +1,41 @@
+// How a claimant proves they run a location
+export const CLAIM_PROOF_METHODS = ["phone_callback", "document"] as const;
+
+export type ClaimProofMethod = (typeof CLAIM_PROOF_METHODS)[number];
+
+export const CLAIMANT_RELATIONSHIPS = ["owner", "manager"] as const;
+
+export type ClaimantRelationship = (typeof CLAIMANT_RELATIONSHIPS)[number];
+
+export type ClaimStatus = "pending" | "approved" | "rejected";
+
+export type ClaimDecision = "approve" | "reject";
+
+// Wrong callback codes allowed before the claim needs a new one
+export const MAX_CALLBACK_ATTEMPTS = 5;
+
+// A request to be recognised as the owner or manager of a location
+export interface OwnershipClaim {
+  id: string;
+  locationId: string;
+  locationName: string;
+  claimantId: string; // Firebase Auth uid, added to the location's ownerIds on approval
+  claimantEmail: string;
+  claimantName?: string;
+  relationship: ClaimantRelationship;
+  contactPhone?: string;
+  message?: string;
+  proofMethod: ClaimProofMethod;
+  documentUrl?: string; // e.g. a photo of the CAC certificate or a utility bill
+  // Phone callback: a moderator calls the listed number and reads out the
+  // code, which the claimant then enters. The code is never shown to them.
+  callbackCode?: string;
+  callbackPhone?: string; // the listing's phone number when the claim was made
+  callbackAttempts?: number;
+  callbackVerifiedAt?: Date;
+  status: ClaimStatus;
+  createdAt: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionNote?: string;
+}
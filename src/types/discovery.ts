@@ -0,0 +1,47 @@
+// A single country or state/city slice of a regional batch that the scheduler walks
+export interface DiscoveryTarget {
+  key: string; // e.g. "Africa:NG:Lagos" or "Europe:FR"
+  region: string;
+  country: string;
+  state?: string;
+}
+
+// Persisted record of when a target was last searched
+export interface DiscoveryCursor extends DiscoveryTarget {
+  lastSearchedAt: Date;
+  lastRunId: string;
+  lastFound: number;
+  lastSaved: number;
+  timesSearched: number;
+}
+
+export interface DiscoveryTargetReport extends DiscoveryTarget {
+  queriesIssued: number;
+  found: number;
+  saved: number;
+  duplicatesSkipped: number;
+  errors: string[];
+}
+
+export type DiscoveryRunStatus = "running" | "completed" | "completed_with_errors" | "failed";
+
+export interface DiscoveryRunTotals {
+  queriesIssued: number;
+  found: number;
+  saved: number;
+  duplicatesSkipped: number;
+  errors: number;
+}
+
+// Per-run report stored in the discovery_runs collection
+export interface DiscoveryRun {
+  id: string;
+  trigger: "cron" | "manual";
+  triggeredBy?: string;
+  status: DiscoveryRunStatus;
+  startedAt: Date;
+  completedAt?: Date;
+  targets: DiscoveryTargetReport[];
+  totals: DiscoveryRunTotals;
+  error?: string;
+}
@@ -0,0 +1,49 @@
+// Fields a user may propose a change to on an approved location
+export const EDITABLE_FIELDS = [
+  "name",
+  "address",
+  "coordinates",
+  "phone",
+  "website",
+  "email",
+  "description",
+  "hours",
+  "timezone",
+  "serviceType",
+  "priceInfo",
+  "priceRange",
+  "cuisine",
+  "menu",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+// Low-risk fields a verified owner's edits apply to straight away, without
+// waiting in the moderation queue. They still go into the revision history.
+export const OWNER_FAST_TRACK_FIELDS = ["hours", "timezone", "menu"] as const satisfies readonly EditableField[];
+
+export type EditSuggestionStatus = "pending" | "accepted" | "partially_accepted" | "rejected";
+
+// One field of a suggestion: the value when it was submitted and the proposed one
+export interface FieldChange {
+  field: EditableField;
+  currentValue: unknown;
+  proposedValue: unknown;
+  decision?: "accepted" | "rejected";
+}
+
+export interface EditSuggestion {
+  id: string;
+  locationId: string;
+  locationName: string;
+  changes: FieldChange[];
+  note?: string;
+  status: EditSuggestionStatus;
+  submittedBy: string; // email, matches location submittedBy for scout stats
+  submittedById: string;
+  fastTracked?: boolean; // a verified owner's low-risk edit, applied without moderation
+  submittedAt: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string;
+  moderatorNotes?: string;
+}
@@ -0,0 +1,48 @@
+// Visitor interactions with a listing that its owners see on their dashboard
+export const OWNER_INSIGHT_EVENTS = {
+  place_viewed: "Detail views",
+  directions_clicked: "Directions",
+  location_shared: "Shares",
+  photo_viewed: "Photo views",
+  search_impression: "Search impressions",
+} as const;
+
+export type OwnerInsightMetric = keyof typeof OWNER_INSIGHT_EVENTS;
+
+export const OWNER_INSIGHT_METRICS = Object.keys(OWNER_INSIGHT_EVENTS) as OwnerInsightMetric[];
+
+// Top search results counted as seen, per search
+export const SEARCH_IMPRESSION_LIMIT = 20;
+
+export type InsightTotals = Record<OwnerInsightMetric, number>;
+
+// One day of interactions with a listing
+export interface InsightSeriesPoint extends InsightTotals {
+  date: string; // YYYY-MM-DD, UTC
+}
+
+// Average rating of a listing's approved reviews for one month
+export interface RatingTrendPoint {
+  month: string; // YYYY-MM
+  average: number;
+  count: number;
+}
+
+// The middle listing in the same city, for comparison
+export interface CityInsightMedian {
+  city: string;
+  locations: number;
+  totals: InsightTotals;
+  rating: number | null;
+}
+
+export interface LocationInsights {
+  locationId: string;
+  locationName: string;
+  rating: number | null;
+  reviewCount: number;
+  totals: InsightTotals;
+  series: InsightSeriesPoint[];
+  ratingTrend: RatingTrendPoint[];
+  cityMedian: CityInsightMedian | null;
+}
@@ -1,3 +1,9 @@
+import type { FieldProvenance, ProvenanceField } from "./provenance";
+import type { AspectAggregate, AspectRatings, RatingAspect } from "./rating";
+import type { ReviewRisk } from "./review-risk";
+import type { ModerationLane, RejectionReasonCode, SubmissionSignals } from "./moderation-rules";
+import type { DishId, MenuItem } from "./menu";
+
 export interface AmalaLocation {
   id: string;
   name: string;
@@ -8,6 +14,9 @@ export interface AmalaLocation {
     lat: number;
     lng: number;
   };
+  geohash?: string; // Derived from coordinates on write, used for radius/bounds queries
+  revision?: number; // Version of the latest entry in the revisions subcollection
+  nameTokens?: string[]; // Distinctive normalized name words, used to block duplicate candidates
   phone?: string;
   website?: string;
   email?: string;
@@ -21,6 +30,7 @@ export interface AmalaLocation {
   currency?: string; // Currency code (NGN, USD, GBP, CAD)
   priceInfo?: string; // Human readable price e.g. "₦1,500-3,000 per person"
   priceLevel?: number; // Google Places price_level (0-4)
+  menu?: MenuItem[]; // Dish-level prices, changed only through moderated edit suggestions
 
   // Additional metadata
   cuisine: string[];
@@ -39,19 +49,37 @@ export interface AmalaLocation {
       open: string;
       close: string;
       isOpen: boolean;
+      intervals?: { open: string; close: string }[]; // Split shifts, e.g. lunch break
     };
   };
+  timezone?: string; // IANA timezone the hours are in, e.g. "Africa/Lagos"
+  hoursExceptions?: {
+    date: string; // "YYYY-MM-DD"
+    endDate?: string; // "YYYY-MM-DD", inclusive
+    isOpen: boolean;
+    intervals?: { open: string; close: string }[];
+    label?: string; // e.g. "Ramadan hours", "Closed for renovation"
+  }[];
 
-  // Moderation status
-  status: "pending" | "approved" | "rejected";
+  // Moderation status ("merged" records are tombstones pointing at mergedInto)
+  status: "pending" | "approved" | "rejected" | "merged";
+  mergedInto?: string;
+  mergedFrom?: string[];
   submittedAt: Date;
   submittedBy?: string;
   moderatedAt?: Date;
   moderatedBy?: string;
+  rejectionReason?: RejectionReasonCode; // set when a moderation rule rejects
+  moderationQueue?: ModerationLane; // lane a moderation rule routed the pending submission to
+  submissionSignals?: SubmissionSignals; // what moderation rules saw at submission, replayed by dry runs
 
   // Ratings and reviews (aggregated)
   rating?: number;
   reviewCount?: number;
+  aspectRatings?: Partial<Record<RatingAspect, AspectAggregate>>;
+  // Google Places' rating, kept apart from the review-derived one above
+  googleRating?: number;
+  googleReviewCount?: number;
 
   // Individual reviews (for client-side)
   reviews?: Review[];
@@ -68,10 +96,21 @@ export interface AmalaLocation {
     | "google-places-api"
     | "autonomous-discovery";
   sourceUrl?: string;
+  discoveryConfidence?: number; // 0-1, from discovery validation
   priceRange?: string; // Price range like "$", "$$", "$$$", "$$$$"
   enrichedAt?: string;
   enrichmentSource?: string;
   lastEnriched?: Date; // Performance optimization: track when location was last enriched
+
+  // Verified owners (user ids) who may respond publicly to reviews
+  ownerIds?: string[];
+
+  // The chain this location is a branch of
+  brandId?: string;
+
+  // Per-field source tracking; enrichment never overwrites locked or higher-trust fields
+  provenance?: Partial<Record<ProvenanceField, FieldProvenance>>;
+  lockedFields?: ProvenanceField[];
 }
 
 export interface Review {
@@ -82,8 +121,43 @@ export interface Review {
   user_name?: string;
   user_photo?: string | null;
   rating: number; // 1-5
+  aspectRatings?: AspectRatings;
   text?: string;
   photos?: string[];
+  pricePaid?: number; // what the reviewer paid for their plate, smallest currency unit
+  priceCurrency?: string;
+  date_posted: Date;
+  status: "pending" | "approved" | "rejected";
+  reviewedBy?: string; // the moderator who last approved or rejected it
+
+  // Community feedback
+  helpfulCount?: number;
+  notHelpfulCount?: number;
+  replyCount?: number; // approved replies
+  ownerResponse?: OwnerResponse;
+  myVote?: ReviewVote | null; // the signed-in user's vote, in API responses only
+
+  risk?: ReviewRisk; // fraud/spam score, moderators only
+}
+
+export type ReviewVote = "helpful" | "not_helpful";
+
+// Public response from a verified owner of the reviewed location
+export interface OwnerResponse {
+  text: string;
+  authorId: string;
+  authorName: string;
+  respondedAt: Date;
+}
+
+// Threaded reply to a review, moderated like reviews
+export interface ReviewReply {
+  id: string;
+  review_id: string;
+  location_id: string;
+  user_id: string;
+  author: string;
+  text: string;
   date_posted: Date;
   status: "pending" | "approved" | "rejected";
 }
@@ -91,8 +165,17 @@ export interface Review {
 export interface LocationFilter {
   searchQuery?: string;
   isOpenNow?: boolean;
+  openAt?: {
+    day: "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday" | "sunday";
+    time: string; // "HH:MM" in each location's own timezone
+  };
+  openingSoon?: boolean;
+  closingSoon?: boolean;
   serviceType?: "dine-in" | "takeaway" | "both" | "all";
   priceRange?: ("$" | "$$" | "$$$" | "$$$$")[];
+  dish?: DishId; // has an available menu item with this dish
+  maxDishPrice?: number; // smallest currency unit, in dishCurrency
+  dishCurrency?: string; // defaults to NGN
   cuisine?: string[];
   dietary?: string[];
   features?: string[];
@@ -102,7 +185,12 @@ export interface LocationFilter {
     east: number;
     west: number;
   };
-  sortBy?: "name_asc" | "name_desc" | "default";
+  near?: {
+    lat: number;
+    lng: number;
+  };
+  radiusKm?: number;
+  sortBy?: "name_asc" | "name_desc" | "distance" | "rating" | "default";
 }
 
 export interface LocationResult {
@@ -124,6 +212,7 @@ export interface LocationResult {
   cuisine?: string[];
   category?: string;
   serviceType?: "dine-in" | "takeaway" | "both";
+  ignoreDuplicates?: boolean; // Submitter confirmed it differs from the suggested duplicates
 }
 
 export interface LocationSubmission {
@@ -0,0 +1,47 @@
+// Dishes a menu item can be tagged with, so spots can be compared plate for plate
+export const DISH_CATEGORIES = ["swallow", "soup", "protein", "side"] as const;
+
+export type DishCategory = (typeof DISH_CATEGORIES)[number];
+
+export const DISH_TAXONOMY = [
+  { id: "amala", label: "Amala", category: "swallow" },
+  { id: "lafun", label: "Lafun (white amala)", category: "swallow" },
+  { id: "eba", label: "Eba", category: "swallow" },
+  { id: "iyan", label: "Iyan (pounded yam)", category: "swallow" },
+  { id: "fufu", label: "Fufu", category: "swallow" },
+  { id: "semo", label: "Semo", category: "swallow" },
+  { id: "ewedu", label: "Ewedu", category: "soup" },
+  { id: "gbegiri", label: "Gbegiri", category: "soup" },
+  { id: "abula", label: "Abula (ewedu + gbegiri)", category: "soup" },
+  { id: "efo", label: "Efo riro", category: "soup" },
+  { id: "ila", label: "Ila (okra)", category: "soup" },
+  { id: "ogbono", label: "Ogbono", category: "soup" },
+  { id: "egusi", label: "Egusi", category: "soup" },
+  { id: "assorted_meat", label: "Assorted meat", category: "protein" },
+  { id: "ponmo", label: "Ponmo", category: "protein" },
+  { id: "shaki", label: "Shaki", category: "protein" },
+  { id: "beef", label: "Beef", category: "protein" },
+  { id: "goat_meat", label: "Goat meat", category: "protein" },
+  { id: "chicken", label: "Chicken", category: "protein" },
+  { id: "fish", label: "Fish", category: "protein" },
+  { id: "snail", label: "Snail", category: "protein" },
+  { id: "gizzard", label: "Gizzard", category: "protein" },
+  { id: "dodo", label: "Dodo", category: "side" },
+  { id: "moinmoin", label: "Moin moin", category: "side" },
+  { id: "ewa", label: "Ewa (beans)", category: "side" },
+] as const satisfies readonly { id: string; label: string; category: DishCategory }[];
+
+export type DishId = (typeof DISH_TAXONOMY)[number]["id"];
+
+export const DISH_IDS = DISH_TAXONOMY.map((dish) => dish.id) as [DishId, ...DishId[]];
+
+export interface MenuItem {
+  id: string; // stable across edits, so an item can be followed over time
+  name: string; // as the spot calls it, e.g. "Amala, abula and 2 ponmo"
+  dishes: DishId[];
+  price: number; // smallest currency unit (kobo, cents, pence)
+  currency: string; // NGN, USD, GBP, CAD
+  available: boolean;
+  lastSeenAt: string; // YYYY-MM-DD, when someone last saw it on the menu at this price
+  notes?: string;
+}
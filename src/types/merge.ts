@@ -0,0 +1,50 @@
+import { AmalaLocation } from "./location";
+
+// Scalar fields a moderator picks a value for when merging two locations
+export const MERGEABLE_FIELDS = [
+  "name",
+  "address",
+  "coordinates",
+  "city",
+  "country",
+  "phone",
+  "website",
+  "email",
+  "description",
+  "hours",
+  "timezone",
+  "serviceType",
+  "priceInfo",
+  "priceRange",
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+// List fields are always combined from both records
+export const UNIONED_FIELDS = ["cuisine", "dietary", "features", "specialFeatures", "images"] as const;
+
+export type UnionedField = (typeof UNIONED_FIELDS)[number];
+
+// Which record each field's value is taken from; unlisted fields keep the survivor's value
+export type MergeFieldChoices = Partial<Record<MergeableField, "survivor" | "merged">>;
+
+export interface MergeLocationsRequest {
+  survivorId: string;
+  mergedId: string;
+  fieldChoices?: MergeFieldChoices;
+}
+
+// Everything needed to undo a merge, stored on the moderation_logs entry
+export interface MergeUndoSnapshot {
+  survivorBefore: Partial<Record<MergeableField | UnionedField, unknown>>;
+  mergedBefore: Pick<AmalaLocation, "status"> & { moderatedAt?: unknown; moderatedBy?: string };
+  movedReviewIds: string[];
+  movedPhotoIds: string[];
+}
+
+export interface MergeResult {
+  logId: string;
+  survivor: AmalaLocation;
+  movedReviews: number;
+  movedPhotos: number;
+}
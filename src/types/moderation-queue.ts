@@ -0,0 +1,48 @@
+import type { ModerationLane } from "./moderation-rules";
+
+// Everything waiting on a moderator, in one queue
+export const QUEUE_ITEM_TYPES = ["location", "review", "photo", "flag"] as const;
+
+export type QueueItemType = (typeof QUEUE_ITEM_TYPES)[number];
+
+// How long each kind of item may wait before it is escalated
+export const QUEUE_SLA_HOURS: Record<QueueItemType, number> = {
+  flag: 4,
+  review: 24,
+  photo: 24,
+  location: 48,
+};
+
+// A claim lasts this long unless renewed
+export const QUEUE_LEASE_MINUTES = 10;
+
+export interface QueueLease {
+  moderatorId: string; // email, as elsewhere in moderation logs
+  moderatorName: string;
+  claimedAt: Date;
+  expiresAt: Date;
+}
+
+export type EscalationReason = "sla_breach" | "moderator";
+
+export interface ModerationQueueItem {
+  id: string; // `${type}__${contentId}`
+  type: QueueItemType;
+  contentId: string;
+  title: string;
+  summary?: string;
+  previewUrl?: string; // photos only
+  locationId?: string;
+  submittedBy?: string;
+  submittedAt: Date;
+  slaDueAt: Date;
+  riskScore?: number; // reviews only
+  submitterTrustScore?: number; // locations and reviews; see the reputation ledger
+  lane?: ModerationLane; // locations a moderation rule routed
+  escalated: boolean;
+  escalatedAt?: Date;
+  escalationReason?: EscalationReason;
+  lease: QueueLease | null; // null when unclaimed or the claim has expired
+}
+
+export type QueueClaimAction = "claim" | "release";
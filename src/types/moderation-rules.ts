@@ -0,0 +1,119 @@
+// Reason codes recorded when a rule rejects a submission
+export const REJECTION_REASON_CODES = [
+  "duplicate",
+  "spam",
+  "incomplete",
+  "not_amala",
+  "offensive",
+  "other",
+] as const;
+
+export type RejectionReasonCode = (typeof REJECTION_REASON_CODES)[number];
+
+// Lanes a rule may route a pending submission to; unrouted submissions sit in the general queue
+export const MODERATION_LANES = ["priority", "senior", "duplicates", "discovery"] as const;
+
+export type ModerationLane = (typeof MODERATION_LANES)[number];
+
+export type SubmissionSource = "user" | "discovery";
+
+// Fields a missing_fields condition can check
+export const CHECKABLE_FIELDS = [
+  "phone",
+  "website",
+  "description",
+  "city",
+  "hours",
+  "images",
+  "priceInfo",
+] as const;
+
+export type CheckableField = (typeof CHECKABLE_FIELDS)[number];
+
+export const KEYWORD_FIELDS = ["name", "address", "description"] as const;
+
+export type KeywordField = (typeof KEYWORD_FIELDS)[number];
+
+export type RuleCondition =
+  | { type: "source"; sources: SubmissionSource[] }
+  | { type: "submitter_role"; roles: string[] }
+  | {
+      type: "submitter_trust";
+      minApproved?: number;
+      minApprovalRate?: number; // 0-1, over decided submissions
+      maxRejected?: number;
+    }
+  | { type: "trust_score"; min?: number; max?: number } // the submitter's reputation trust score
+  | { type: "duplicate_confidence"; min?: number; max?: number } // 0-1
+  | { type: "discovery_confidence"; min?: number; max?: number } // 0-1, discovery only
+  | { type: "missing_fields"; fields: CheckableField[]; match: "any" | "all" }
+  | { type: "keywords"; keywords: string[]; fields: KeywordField[]; match: "any" | "none" };
+
+export type RuleConditionType = RuleCondition["type"];
+
+export type RuleAction =
+  | { type: "approve" }
+  | { type: "reject"; reasonCode: RejectionReasonCode }
+  | { type: "route"; queue: ModerationLane };
+
+export interface ModerationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // lower runs first; the first matching rule decides
+  conditions: RuleCondition[]; // all must hold
+  action: RuleAction;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ModerationRuleInput = Pick<ModerationRule, "name" | "enabled" | "priority" | "conditions" | "action">;
+
+export interface SubmitterStats {
+  approved: number;
+  rejected: number;
+  pending: number;
+}
+
+// What rules see about a submission; stored on the location (minus text) for dry runs
+export interface SubmissionFacts {
+  source: SubmissionSource;
+  submitter?: string;
+  submitterRoles: string[];
+  submitterStats: SubmitterStats;
+  submitterTrustScore?: number; // unset for discovery, and in signals stored before reputation existed
+  duplicateConfidence: number; // 0 when nothing similar exists
+  discoveryConfidence?: number;
+  missingFields: CheckableField[];
+  text: Record<KeywordField, string>;
+}
+
+export type SubmissionSignals = Omit<SubmissionFacts, "text">;
+
+export interface RuleDecision {
+  ruleId: string;
+  ruleName: string;
+  action: RuleAction;
+  reasons: string[]; // one per condition, e.g. "duplicate confidence 0.97 ≥ 0.95"
+}
+
+export type DryRunOutcome = "agree" | "disagree" | "routed" | "no_rule";
+
+export interface DryRunResult {
+  logId: string;
+  locationId: string;
+  locationName: string;
+  decidedAt: Date;
+  moderatorAction: "approve" | "reject";
+  moderatorName: string;
+  decision: RuleDecision | null;
+  outcome: DryRunOutcome;
+  signals: "recorded" | "reconstructed"; // older submissions predate stored signals
+}
+
+export interface DryRunSummary {
+  evaluated: number;
+  outcomes: Record<DryRunOutcome, number>;
+  byRule: Record<string, { name: string; matched: number; agreed: number; disagreed: number }>;
+}
@@ -0,0 +1,40 @@
+// Things a user is told about in their inbox (and by email when a channel is configured)
+export const NOTIFICATION_TYPES = [
+  "location_approved",
+  "location_rejected",
+  "review_approved",
+  "review_rejected",
+  "appeal_overturned",
+  "appeal_upheld",
+  "claim_approved",
+  "claim_rejected",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Values the templates fill in
+export interface NotificationData {
+  locationId?: string;
+  locationName?: string;
+  reviewId?: string;
+  rating?: number;
+  reason?: string; // the moderator's reason, when given
+  appealId?: string;
+  contentType?: "location" | "review"; // what an appeal was about
+  claimId?: string;
+}
+
+export type EmailDeliveryStatus = "sent" | "failed" | "skipped";
+
+export interface UserNotification {
+  id: string;
+  userId: string; // Firebase Auth uid
+  type: NotificationType;
+  title: string;
+  body: string;
+  data: NotificationData;
+  read: boolean;
+  createdAt: Date;
+  readAt?: Date;
+  email?: EmailDeliveryStatus;
+}
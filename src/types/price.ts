@@ -0,0 +1,49 @@
+import type { DishId } from "./menu";
+
+// Where a plate price was seen
+export const PRICE_OBSERVATION_SOURCES = ["review", "scout_visit", "menu_edit"] as const;
+
+export type PriceObservationSource = (typeof PRICE_OBSERVATION_SOURCES)[number];
+
+// One plate price, seen at one spot on one day
+export interface PriceObservation {
+  id: string; // `${source}__${sourceKey}`, so each observation is recorded once
+  locationId: string;
+  city?: string; // copied from the location, for the city index
+  country?: string;
+  price: number; // smallest currency unit (kobo, cents, pence)
+  currency: string;
+  dishes?: DishId[];
+  menuItemId?: string; // for menu_edit observations
+  source: PriceObservationSource;
+  sourceId: string; // review, suggestion or visit id
+  observedBy?: string; // email of the reviewer, scout or suggester
+  observedAt: Date;
+  note?: string;
+}
+
+// A location's median plate price for one month
+export interface PriceTrendPoint {
+  month: string; // YYYY-MM
+  median: number; // smallest currency unit
+  low: number;
+  high: number;
+  count: number;
+}
+
+// The Amala Price Index for one city and month: the median across spots
+// of each spot's median plate price
+export interface PriceIndexPoint {
+  month: string; // YYYY-MM
+  median: number; // smallest unit of the city's currency
+  medianUsd: number; // US cents, at the reference rate
+  locations: number;
+  observations: number;
+}
+
+export interface CityPriceIndex {
+  city: string;
+  country?: string;
+  currency: string;
+  points: PriceIndexPoint[];
+}
@@ -0,0 +1,51 @@
+import type { RevisionActorType } from "./revision";
+
+// Where a field's current value came from
+export type ProvenanceSource = RevisionActorType;
+
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  sourceId?: string; // e.g. "google-places-api", the submitter's email
+  updatedAt: Date;
+  confidence: number; // 0-1
+}
+
+// Curated fields that carry provenance and can be locked by a moderator
+export const PROVENANCE_FIELDS = [
+  "name",
+  "address",
+  "coordinates",
+  "phone",
+  "website",
+  "email",
+  "description",
+  "hours",
+  "timezone",
+  "serviceType",
+  "priceInfo",
+  "priceRange",
+  "cuisine",
+  "images",
+] as const;
+
+export type ProvenanceField = (typeof PROVENANCE_FIELDS)[number];
+
+export type FieldConflictStatus = "pending" | "accepted" | "dismissed";
+
+// An enrichment value that disagrees with curated or locked data
+export interface FieldConflict {
+  id: string;
+  locationId: string;
+  locationName: string;
+  field: ProvenanceField;
+  currentValue: unknown;
+  proposedValue: unknown;
+  currentProvenance?: FieldProvenance;
+  proposedSource: ProvenanceSource;
+  proposedSourceId?: string;
+  locked: boolean;
+  status: FieldConflictStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+}
@@ -0,0 +1,21 @@
+// Optional sub-ratings a review can give alongside its overall rating
+export const RATING_ASPECTS = ["taste", "soup", "portion", "value", "hygiene", "service"] as const;
+
+export type RatingAspect = (typeof RATING_ASPECTS)[number];
+
+export const RATING_ASPECT_LABELS: Record<RatingAspect, string> = {
+  taste: "Taste of the amala",
+  soup: "Ewedu / gbegiri",
+  portion: "Portion",
+  value: "Value for money",
+  hygiene: "Hygiene",
+  service: "Service",
+};
+
+export type AspectRatings = Partial<Record<RatingAspect, number>>; // 1-5 each
+
+// Per-location aggregate of one aspect over approved reviews
+export interface AspectAggregate {
+  average: number;
+  count: number;
+}
@@ -0,0 +1,65 @@
+// Things a contributor gains or loses reputation for
+export const REPUTATION_EVENT_TYPES = [
+  "location_approved",
+  "review_approved",
+  "review_helpful",
+  "edit_accepted",
+  "edit_partially_accepted",
+  "flag_upheld",
+  "duplicate_rejected",
+] as const;
+
+export type ReputationEventType = (typeof REPUTATION_EVENT_TYPES)[number];
+
+export const REPUTATION_POINTS: Record<ReputationEventType, number> = {
+  location_approved: 10,
+  review_approved: 2,
+  review_helpful: 1, // per helpful vote
+  edit_accepted: 5,
+  edit_partially_accepted: 3,
+  flag_upheld: -15, // a flag against the user's content was upheld
+  duplicate_rejected: -5, // a submission was rejected or merged away as a duplicate
+};
+
+// Points lose half their weight in the trust score after this long
+export const REPUTATION_HALF_LIFE_DAYS = 180;
+
+// Scout levels by trust score, lowest first
+export const SCOUT_LEVELS = [
+  { name: "Beginner Scout", minScore: 0 },
+  { name: "Experienced Scout", minScore: 25 },
+  { name: "Advanced Scout", minScore: 100 },
+  { name: "Expert Scout", minScore: 250 },
+  { name: "Master Scout", minScore: 500 },
+] as const;
+
+export type ReputationSourceType = "location" | "review" | "edit_suggestion" | "flag";
+
+export interface ReputationEvent {
+  id: string; // `${type}__${sourceKey}`, so each event is recorded once
+  userEmail: string;
+  type: ReputationEventType;
+  points: number;
+  sourceType: ReputationSourceType;
+  sourceId: string;
+  locationId?: string;
+  occurredAt: Date;
+  reversedAt?: Date; // e.g. an approval later undone; reversed events don't count
+  reversalReason?: string;
+}
+
+export interface ReputationSummary {
+  userEmail: string;
+  points: number; // lifetime total of events that still stand
+  trustScore: number; // points with time decay applied
+  level: string;
+  nextLevel: { name: string; minScore: number } | null;
+  breakdown: Partial<Record<ReputationEventType, { count: number; points: number }>>;
+  eventCount: number;
+  updatedAt: Date;
+}
+
+export interface ReputationHistoryPoint {
+  date: string; // YYYY-MM-DD
+  trustScore: number;
+}
@@ -0,0 +1,28 @@
+// Signals the review fraud pipeline checks on every submission
+export const REVIEW_RISK_SIGNALS = [
+  "user_velocity",
+  "repeat_location",
+  "location_velocity",
+  "duplicate_text",
+  "rating_burst",
+  "new_account",
+  "collusion",
+] as const;
+
+export type ReviewRiskSignal = (typeof REVIEW_RISK_SIGNALS)[number];
+
+export type ReviewRiskLevel = "low" | "medium" | "high";
+
+export interface ReviewRiskReason {
+  signal: ReviewRiskSignal;
+  detail: string; // shown to moderators, e.g. "6 reviews from this account in 24h"
+  points: number;
+}
+
+// Stored on the review; never returned by public review endpoints
+export interface ReviewRisk {
+  score: number; // 0-100
+  level: ReviewRiskLevel;
+  reasons: ReviewRiskReason[];
+  scoredAt: Date;
+}
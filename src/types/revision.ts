@@ -0,0 +1,60 @@
+// Who or what wrote to a location
+export type RevisionActorType = "user" | "owner" | "moderator" | "enrichment" | "discovery" | "system";
+
+export interface RevisionActor {
+  type: RevisionActorType;
+  id?: string; // user or owner email/uid, enrichment source, discovery run
+}
+
+export type RevisionAction = "create" | "update" | "status" | "merge" | "unmerge" | "rollback";
+
+export interface FieldDiff {
+  field: string;
+  before: unknown; // null when the field was absent
+  after: unknown;
+}
+
+// Immutable record of one write, stored under locations/{id}/revisions
+export interface LocationRevision {
+  id: string;
+  locationId: string;
+  version: number;
+  actor: RevisionActor;
+  action: RevisionAction;
+  changes: FieldDiff[];
+  snapshot: Record<string, unknown>; // versioned fields after the write
+  note?: string;
+  rollbackOf?: { revisionId: string; version: number };
+  createdAt: Date;
+}
+
+// Bookkeeping and metadata that are not versioned
+export const UNVERSIONED_FIELDS = [
+  "updatedAt",
+  "revision",
+  "geohash",
+  "nameTokens",
+  "rating",
+  "reviewCount",
+  "aspectRatings",
+  "googleRating",
+  "googleReviewCount",
+  "provenance",
+  "submissionSignals",
+] as const;
+
+// Moderation and merge state only changes through moderation, never through a rollback
+export const ROLLBACK_EXCLUDED_FIELDS = [
+  "status",
+  "moderatedAt",
+  "moderatedBy",
+  "rejectionReason",
+  "moderationQueue",
+  "mergedInto",
+  "mergedFrom",
+  "mergedAt",
+  "mergedBy",
+  "submittedAt",
+  "submittedBy",
+  "lockedFields",
+] as const;